@@ -15,7 +15,9 @@ import Auth from "@/pages/Auth";
 import EmailVerification from "@/pages/EmailVerification";
 import Profile from "@/pages/Profile";
 import Employer from "@/pages/Employer";
+import JobEditor from "@/pages/JobEditor";
 import Admin from "@/pages/Admin";
+import AcceptInvitation from "@/pages/AcceptInvitation";
 
 function Router() {
   return (
@@ -32,7 +34,10 @@ function Router() {
       {/* Protected routes */}
       <Route path="/profile" component={Profile} />
       <Route path="/employer" component={Employer} />
+      <Route path="/employer/jobs/new" component={JobEditor} />
+      <Route path="/employer/jobs/:id/edit" component={JobEditor} />
       <Route path="/admin" component={Admin} />
+      <Route path="/invitations/:token" component={AcceptInvitation} />
       
       {/* Fallback to 404 */}
       <Route component={NotFound} />
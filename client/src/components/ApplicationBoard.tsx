@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { ApplicationWithApplicant } from '@/lib/types';
+import { Job, ApplicationStatus, APPLICATION_STATUS_TRANSITIONS, Offer } from '@shared/schema';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LoadingSpinner } from './LoadingSpinner';
+import { OfferDialog, OfferLetterButton, offersUrl, offerStatusStyle } from './OfferDialog';
+import { cn } from '@/lib/utils';
+import { Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+// Pipeline columns, in hiring order. Withdrawn applications and declined
+// offers stay off the board.
+const BOARD_COLUMNS: Array<{ status: ApplicationStatus; label: string; color: string }> = [
+  { status: 'submitted', label: 'Submitted', color: 'bg-blue-100 text-blue-800' },
+  { status: 'reviewed', label: 'Reviewed', color: 'bg-yellow-100 text-yellow-800' },
+  { status: 'shortlisted', label: 'Shortlisted', color: 'bg-green-100 text-green-800' },
+  { status: 'offered', label: 'Offered', color: 'bg-purple-100 text-purple-800' },
+  { status: 'accepted', label: 'Accepted', color: 'bg-emerald-100 text-emerald-800' },
+  { status: 'joined', label: 'Joined', color: 'bg-teal-100 text-teal-800' },
+  { status: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800' },
+];
+
+interface ApplicationBoardProps {
+  jobs: Job[];
+}
+
+export function ApplicationBoard({ jobs }: ApplicationBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedJobId, setSelectedJobId] = useState<string | undefined>(jobs[0]?.id);
+  const [dragged, setDragged] = useState<ApplicationWithApplicant | null>(null);
+
+  const applicationsUrl = `/api/employer/jobs/${selectedJobId}/applications`;
+  const { data: apiResponse, isLoading } = useQuery<{ data: ApplicationWithApplicant[] }>({
+    queryKey: [applicationsUrl],
+    enabled: !!selectedJobId,
+  });
+  const applications = apiResponse?.data || [];
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+
+  const { data: offersResponse } = useQuery<{ data: Offer[] }>({
+    queryKey: [offersUrl(selectedJobId!)],
+    enabled: !!selectedJobId,
+  });
+  // Newest first, so the first one found for an application is its current offer
+  const offerFor = (applicationId: string) => offersResponse?.data.find(offer => offer.applicationId === applicationId);
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ApplicationStatus }) => {
+      await apiRequest('PATCH', `/api/applications/${id}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: [applicationsUrl] });
+      toast({
+        title: "Application Updated",
+        description: `The candidate has been moved to ${status}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMove = (application: ApplicationWithApplicant, status: ApplicationStatus) => {
+    if (application.status === status) return;
+    if (!APPLICATION_STATUS_TRANSITIONS[application.status].includes(status)) {
+      toast({
+        title: "Move Not Allowed",
+        description: `An application cannot go from ${application.status} to ${status}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    moveMutation.mutate({ id: application.id, status });
+  };
+
+  if (jobs.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-foreground mb-2">No Applications Yet</h3>
+        <p className="text-muted-foreground">
+          Applications will appear here once candidates start applying to your jobs.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Select value={selectedJobId} onValueChange={setSelectedJobId}>
+        <SelectTrigger className="w-full md:w-96" data-testid="select-board-job">
+          <SelectValue placeholder="Select a job" />
+        </SelectTrigger>
+        <SelectContent>
+          {jobs.map((job) => (
+            <SelectItem key={job.id} value={job.id}>
+              {job.title} ({job.applicationCount || 0})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Loading applications..." />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 xl:grid-cols-7 gap-4">
+          {BOARD_COLUMNS.map((column) => {
+            const columnApplications = applications.filter(a => a.status === column.status);
+            const canDrop = !!dragged && APPLICATION_STATUS_TRANSITIONS[dragged.status].includes(column.status);
+
+            return (
+              <div
+                key={column.status}
+                className={cn(
+                  "bg-muted rounded-lg p-3 min-h-[200px] transition-colors",
+                  canDrop && "ring-2 ring-primary"
+                )}
+                onDragOver={(e) => canDrop && e.preventDefault()}
+                onDrop={() => {
+                  if (dragged) handleMove(dragged, column.status);
+                  setDragged(null);
+                }}
+                data-testid={`board-column-${column.status}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-foreground">{column.label}</h4>
+                  <Badge className={column.color}>{columnApplications.length}</Badge>
+                </div>
+
+                <div className="space-y-2">
+                  {columnApplications.map((application) => {
+                    const offer = offerFor(application.id);
+                    return (
+                      <Card
+                        key={application.id}
+                        draggable
+                        onDragStart={() => setDragged(application)}
+                        onDragEnd={() => setDragged(null)}
+                        className="cursor-grab"
+                        data-testid={`board-card-${application.id}`}
+                      >
+                        <CardContent className="p-3 space-y-2">
+                          <div>
+                            <p className="text-sm font-medium text-foreground">
+                              {application.applicant?.displayName || 'Applicant'}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {application.applicant?.email}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Applied {new Date(application.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          {offer && application.status !== 'shortlisted' && (
+                            <div className="flex items-center justify-between">
+                              <Badge className={offerStatusStyle(offer).className}>{offerStatusStyle(offer).label}</Badge>
+                              <OfferLetterButton offerId={offer.id} />
+                            </div>
+                          )}
+                          {application.status === 'shortlisted' && selectedJob && (
+                            <OfferDialog application={application} job={selectedJob} />
+                          )}
+                          {APPLICATION_STATUS_TRANSITIONS[application.status].length > 0 && (
+                            <Select
+                              value=""
+                              onValueChange={(value: ApplicationStatus) => handleMove(application, value)}
+                            >
+                              <SelectTrigger className="h-8 text-xs" data-testid={`select-move-${application.id}`}>
+                                <SelectValue placeholder="Move to..." />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {APPLICATION_STATUS_TRANSITIONS[application.status].map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ApplicationBoard;
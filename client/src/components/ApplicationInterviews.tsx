@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Application, INTERVIEW_KIND_LABELS, InterviewSlot } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { formatSlotTime } from './InterviewSlots';
+import { CalendarCheck, CalendarPlus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const MY_INTERVIEWS_URL = '/api/interviews/me';
+
+function BookingDialog({ application, bookings }: { application: Application; bookings: InterviewSlot[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const openSlotsUrl = `/api/applications/${application.id}/interview-slots`;
+  const { data: apiResponse, isLoading } = useQuery<{ data: InterviewSlot[] }>({
+    queryKey: [openSlotsUrl],
+    enabled: open,
+  });
+  const openSlots = apiResponse?.data || [];
+
+  const bookMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      await apiRequest('POST', `/api/applications/${application.id}/interview-slots/${slotId}/book`);
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [MY_INTERVIEWS_URL] });
+      queryClient.invalidateQueries({ queryKey: [openSlotsUrl] });
+      toast({ title: "Slot Booked", description: "A confirmation with a calendar invitation is on its way." });
+    },
+    onError: (error) => {
+      // Someone else may have booked it in the meantime
+      queryClient.invalidateQueries({ queryKey: [openSlotsUrl] });
+      toast({ title: "Could Not Book Slot", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasBooking = (slot: InterviewSlot) =>
+    bookings.some(booking => booking.kind === slot.kind && booking.status === 'booked');
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-schedule-interview-${application.id}`}>
+          <CalendarPlus className="w-4 h-4 mr-1" />
+          {bookings.some(booking => booking.status === 'booked') ? 'Reschedule' : 'Schedule Interview'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pick a Slot</DialogTitle>
+          <DialogDescription>
+            Book one slot of each kind. Picking another slot of a kind you have already booked moves your booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading slots..." />
+          </div>
+        ) : openSlots.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            The institution has not published any open slots yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {openSlots.map((slot) => (
+              <div
+                key={slot.id}
+                className="flex items-center justify-between border border-border rounded-lg p-3"
+                data-testid={`open-slot-${slot.id}`}
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {INTERVIEW_KIND_LABELS[slot.kind]} • {formatSlotTime(slot.startsAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {slot.durationMinutes} min • {slot.location}
+                  </p>
+                  {slot.notes && <p className="text-xs text-muted-foreground mt-1">{slot.notes}</p>}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => bookMutation.mutate(slot.id)}
+                  disabled={bookMutation.isPending}
+                  data-testid={`button-book-slot-${slot.id}`}
+                >
+                  {hasBooking(slot) ? 'Move Here' : 'Book'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ApplicationInterviewsProps {
+  application: Application;
+  // The applicant's slots for this application, from MY_INTERVIEWS_URL
+  bookings: InterviewSlot[];
+}
+
+// Where an application's interviews stand, for the applicant
+export function ApplicationInterviews({ application, bookings }: ApplicationInterviewsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canBook = application.status === 'shortlisted';
+
+  const cancelMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      await apiRequest('POST', `/api/applications/${application.id}/interview-slots/${slotId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MY_INTERVIEWS_URL] });
+      toast({ title: "Booking Cancelled", description: "The institution has been told." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Cancel Booking", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (bookings.length === 0 && !canBook) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-2">
+      {bookings.map((slot) => (
+        <div key={slot.id} className="flex items-center justify-between" data-testid={`booking-${slot.id}`}>
+          <div className="flex items-start">
+            <CalendarCheck className="w-4 h-4 text-muted-foreground mr-2 mt-0.5" />
+            <div>
+              <p className="text-sm text-foreground">
+                {INTERVIEW_KIND_LABELS[slot.kind]} • {formatSlotTime(slot.startsAt)} ({slot.durationMinutes} min)
+              </p>
+              <p className="text-xs text-muted-foreground">{slot.location}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 ml-4">
+            {slot.status === 'cancelled' ? (
+              <Badge className="bg-gray-100 text-gray-800">Cancelled by institution</Badge>
+            ) : (
+              <>
+                <Badge className="bg-green-100 text-green-800">Booked</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(slot.id)}
+                  disabled={cancelMutation.isPending}
+                  data-testid={`button-cancel-booking-${slot.id}`}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+      {canBook && <BookingDialog application={application} bookings={bookings} />}
+    </div>
+  );
+}
+
+export default ApplicationInterviews;
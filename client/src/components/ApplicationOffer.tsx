@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Offer, isOfferExpired } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { OfferLetterButton, formatOfferDate, formatOfferSalary, offerStatusStyle } from './OfferDialog';
+import { Award, Check, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const MY_OFFERS_URL = '/api/offers/me';
+
+interface ApplicationOfferProps {
+  // The application's latest offer, from MY_OFFERS_URL
+  offer?: Offer;
+}
+
+// An offer made on an application, for the applicant to accept or decline
+export function ApplicationOffer({ offer }: ApplicationOfferProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [declineOpen, setDeclineOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const respondMutation = useMutation({
+    mutationFn: async (response: 'accept' | 'decline') => {
+      await apiRequest('POST', `/api/offers/${offer!.id}/respond`, {
+        response,
+        reason: response === 'decline' ? reason.trim() : undefined,
+      });
+    },
+    onSuccess: (_, response) => {
+      setDeclineOpen(false);
+      queryClient.invalidateQueries({ queryKey: [MY_OFFERS_URL] });
+      queryClient.invalidateQueries({ queryKey: ['user-applications'] });
+      toast(response === 'accept'
+        ? { title: "Offer Accepted", description: "Congratulations! The institution has been told." }
+        : { title: "Offer Declined", description: "The institution has been told." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Respond to Offer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Withdrawn offers show as a rejected application instead
+  if (!offer || offer.status === 'withdrawn') {
+    return null;
+  }
+
+  const canRespond = offer.status === 'pending' && !isOfferExpired(offer);
+  const status = offerStatusStyle(offer);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-2" data-testid={`offer-${offer.id}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-start">
+          <Award className="w-4 h-4 text-muted-foreground mr-2 mt-0.5" />
+          <div>
+            <p className="text-sm text-foreground">
+              Offer: {formatOfferSalary(offer)} • {offer.payLevel}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Joining {formatOfferDate(offer.joiningDate)}
+              {offer.status === 'pending' && <> • Respond by {formatOfferDate(offer.expiresAt)}</>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 ml-4">
+          <Badge className={status.className}>{status.label}</Badge>
+          <OfferLetterButton offerId={offer.id} />
+        </div>
+      </div>
+
+      {canRespond && (
+        <div className="flex justify-end space-x-2">
+          <Dialog open={declineOpen} onOpenChange={setDeclineOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" data-testid={`button-decline-offer-${offer.id}`}>
+                <X className="w-4 h-4 mr-1" />
+                Decline
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Decline this offer?</DialogTitle>
+                <DialogDescription>
+                  The institution will see your reason. Declining cannot be undone.
+                </DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="decline-reason">Reason</Label>
+                <Textarea
+                  id="decline-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. I have accepted another position"
+                  maxLength={2000}
+                  rows={3}
+                  data-testid="input-decline-reason"
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  variant="destructive"
+                  onClick={() => respondMutation.mutate('decline')}
+                  disabled={!reason.trim() || respondMutation.isPending}
+                  data-testid="button-confirm-decline-offer"
+                >
+                  Decline Offer
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+          <Button
+            size="sm"
+            onClick={() => respondMutation.mutate('accept')}
+            disabled={respondMutation.isPending}
+            data-testid={`button-accept-offer-${offer.id}`}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ApplicationOffer;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/context/AuthProvider';
+import { getUserResumes, uploadCoverLetter, uploadResume, UploadedFile } from '@/lib/storage';
+import { Job, ScreeningAnswer } from '@shared/schema';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { FileText } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface ApplyDialogProps {
+  job: Job;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ApplyDialog({ job, open, onOpenChange }: ApplyDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [resumePath, setResumePath] = useState('');
+  const [coverLetterMode, setCoverLetterMode] = useState<'write' | 'upload'>('write');
+  const [coverLetter, setCoverLetter] = useState('');
+  const [coverLetterFile, setCoverLetterFile] = useState<UploadedFile | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+
+  const { data: resumes, isLoading: resumesLoading, refetch: refetchResumes } = useQuery({
+    queryKey: ['resumes', user?.uid],
+    queryFn: () => user ? getUserResumes(user.uid) : [],
+    enabled: open && !!user,
+  });
+
+  const screeningQuestions = job.screeningQuestions || [];
+  const unanswered = screeningQuestions.find(question => question.required && !answers[question.id]?.trim());
+
+  const handleUpload = (upload: (file: File, uid: string) => Promise<UploadedFile>, onUploaded: (file: UploadedFile) => void) =>
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file || !user) return;
+
+      setUploading(true);
+      try {
+        onUploaded(await upload(file, user.uid));
+      } catch (error) {
+        // uploadFile already reported the failure
+      } finally {
+        setUploading(false);
+        event.target.value = '';
+      }
+    };
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const screeningAnswers: ScreeningAnswer[] = screeningQuestions
+        .filter(question => answers[question.id]?.trim())
+        .map(question => ({ questionId: question.id, answer: answers[question.id].trim() }));
+
+      await apiRequest('POST', '/api/applications', {
+        jobId: job.id,
+        resumePath,
+        ...(coverLetterMode === 'write'
+          ? { coverLetter: coverLetter.trim() || undefined }
+          : { coverLetterPath: coverLetterFile?.path }),
+        screeningAnswers,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['job-application', job.id, user?.uid] });
+      queryClient.invalidateQueries({ queryKey: ['/api/applications/me'] });
+      onOpenChange(false);
+      toast({
+        title: "Application Submitted",
+        description: `Your application for ${job.title} has been sent.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Application Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply for {job.title}</DialogTitle>
+          <DialogDescription>
+            Choose a resume, add a cover letter and answer the institution's questions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Resume */}
+          <div className="space-y-2">
+            <Label>Resume</Label>
+            {resumesLoading ? (
+              <LoadingSpinner text="Loading your resumes..." />
+            ) : resumes && resumes.length > 0 ? (
+              <RadioGroup value={resumePath} onValueChange={setResumePath}>
+                {resumes.map((resume) => (
+                  <div key={resume.path} className="flex items-center space-x-2 border border-border rounded-md p-3">
+                    <RadioGroupItem value={resume.path} id={resume.path} data-testid={`radio-resume-${resume.name}`} />
+                    <Label htmlFor={resume.path} className="flex items-center font-normal cursor-pointer">
+                      <FileText className="w-4 h-4 mr-2 text-muted-foreground" />
+                      {resume.name}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        Uploaded {resume.uploadedAt.toLocaleDateString()}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <p className="text-sm text-muted-foreground">You haven't uploaded a resume yet.</p>
+            )}
+            <div>
+              <Label htmlFor="upload-resume" className="text-sm text-primary cursor-pointer">
+                Upload a new resume (PDF, max 5MB)
+              </Label>
+              <Input
+                id="upload-resume"
+                type="file"
+                accept="application/pdf"
+                className="hidden"
+                disabled={uploading}
+                onChange={handleUpload(uploadResume, (file) => {
+                  refetchResumes();
+                  setResumePath(file.path);
+                })}
+                data-testid="input-upload-resume"
+              />
+            </div>
+          </div>
+
+          {/* Cover letter */}
+          <div className="space-y-2">
+            <Label>Cover letter (optional)</Label>
+            <Tabs value={coverLetterMode} onValueChange={(value) => setCoverLetterMode(value as 'write' | 'upload')}>
+              <TabsList>
+                <TabsTrigger value="write" data-testid="tab-cover-letter-write">Write</TabsTrigger>
+                <TabsTrigger value="upload" data-testid="tab-cover-letter-upload">Upload</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write">
+                <Textarea
+                  value={coverLetter}
+                  onChange={(e) => setCoverLetter(e.target.value)}
+                  rows={6}
+                  maxLength={10000}
+                  placeholder="Tell the hiring committee why you're a great fit..."
+                  data-testid="input-cover-letter"
+                />
+              </TabsContent>
+              <TabsContent value="upload" className="space-y-2">
+                <Input
+                  type="file"
+                  accept=".pdf,.doc,.docx"
+                  disabled={uploading}
+                  onChange={handleUpload(uploadCoverLetter, setCoverLetterFile)}
+                  data-testid="input-upload-cover-letter"
+                />
+                {coverLetterFile && (
+                  <p className="text-sm text-muted-foreground flex items-center">
+                    <FileText className="w-4 h-4 mr-2" />
+                    {coverLetterFile.name}
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          {/* Screening questions */}
+          {screeningQuestions.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="font-medium text-foreground">Screening questions</h4>
+              {screeningQuestions.map((question) => (
+                <div key={question.id} className="space-y-2">
+                  <Label htmlFor={`question-${question.id}`}>
+                    {question.question}
+                    {question.required && <span className="text-destructive ml-1">*</span>}
+                  </Label>
+                  <Textarea
+                    id={`question-${question.id}`}
+                    value={answers[question.id] || ''}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                    rows={3}
+                    maxLength={2000}
+                    data-testid={`input-answer-${question.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!resumePath || !!unanswered || uploading || applyMutation.isPending}
+            data-testid="button-submit-application"
+          >
+            {applyMutation.isPending ? 'Submitting...' : 'Submit Application'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ApplyDialog;
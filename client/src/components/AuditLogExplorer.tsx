@@ -0,0 +1,265 @@
+import React from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { AuditActionType, AuditLog, CursorPaginatedResponse } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Download, History, X } from 'lucide-react';
+
+const AUDIT_LOGS_URL = '/api/admin/audit-logs';
+
+// Select value standing in for "no filter"
+const ALL = 'all';
+
+const TARGET_TYPES = ['user', 'company', 'job', 'application', 'report'];
+
+// Filters as entered in the form; dates are yyyy-MM-dd strings from date inputs
+export interface AuditLogFilterValues {
+  actorUid?: string;
+  action?: AuditActionType;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+const toSearchParams = (filters: AuditLogFilterValues) => {
+  const params = new URLSearchParams();
+  const { from, to, ...rest } = filters;
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  // Date inputs pick whole local days, so the range covers both end days
+  if (from) {
+    params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  }
+  if (to) {
+    params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+  }
+  return params;
+};
+
+const formatAction = (action: AuditActionType) => action.replace(/_/g, ' ');
+
+interface AuditLogExplorerProps {
+  filters: AuditLogFilterValues;
+  onFiltersChange: (filters: AuditLogFilterValues) => void;
+}
+
+export function AuditLogExplorer({ filters, onFiltersChange }: AuditLogExplorerProps) {
+  const params = toSearchParams(filters);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [AUDIT_LOGS_URL, params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) {
+        pageParams.set('cursor', pageParam);
+      }
+      const res = await apiRequest('GET', `${AUDIT_LOGS_URL}?${pageParams}`);
+      const body: { data: CursorPaginatedResponse<AuditLog> } = await res.json();
+      return body.data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const logs = data?.pages.flatMap(page => page.items) || [];
+
+  const setFilter = (key: keyof AuditLogFilterValues, value: string) => {
+    onFiltersChange({ ...filters, [key]: value === ALL || !value ? undefined : value });
+  };
+
+  const exportUrl = (exportFormat: 'csv' | 'ndjson') => {
+    const exportParams = new URLSearchParams(params);
+    exportParams.set('format', exportFormat);
+    return `${AUDIT_LOGS_URL}/export?${exportParams}`;
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Audit Log</CardTitle>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" asChild data-testid="button-export-audit-csv">
+              <a href={exportUrl('csv')} download>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild data-testid="button-export-audit-ndjson">
+              <a href={exportUrl('ndjson')} download>
+                <Download className="w-4 h-4 mr-1" />
+                NDJSON
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div>
+            <Label htmlFor="audit-actor">Actor UID</Label>
+            <Input
+              id="audit-actor"
+              value={filters.actorUid || ''}
+              onChange={(e) => setFilter('actorUid', e.target.value.trim())}
+              data-testid="input-audit-actor"
+            />
+          </div>
+          <div>
+            <Label>Action</Label>
+            <Select value={filters.action || ALL} onValueChange={(value) => setFilter('action', value)}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {AuditActionType.options.map((action) => (
+                  <SelectItem key={action} value={action} className="capitalize">
+                    {formatAction(action)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Target type</Label>
+            <Select value={filters.targetType || ALL} onValueChange={(value) => setFilter('targetType', value)}>
+              <SelectTrigger data-testid="select-audit-target-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All targets</SelectItem>
+                {TARGET_TYPES.map((type) => (
+                  <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-target-id">Target ID</Label>
+            <Input
+              id="audit-target-id"
+              value={filters.targetId || ''}
+              onChange={(e) => setFilter('targetId', e.target.value.trim())}
+              data-testid="input-audit-target-id"
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </div>
+
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={() => onFiltersChange({})} data-testid="button-clear-audit-filters">
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading audit log..." />
+          </div>
+        ) : logs.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <TableRow key={log.id} data-testid={`audit-log-${log.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(log.timestamp), 'dd MMM yyyy, HH:mm:ss')}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <button
+                        className="hover:text-primary"
+                        onClick={() => onFiltersChange({ actorUid: log.actorUid })}
+                        title="Show everything this actor did"
+                      >
+                        {log.actorUid}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{formatAction(log.action)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <button
+                        className="flex items-center hover:text-primary"
+                        onClick={() => onFiltersChange({ targetType: log.targetType, targetId: log.targetId })}
+                        title="Show this target's full history"
+                      >
+                        <History className="w-3 h-3 mr-1" />
+                        <span className="capitalize mr-1">{log.targetType}</span>
+                        <span className="font-mono text-xs">{log.targetId}</span>
+                      </button>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground max-w-xs truncate">
+                      {log.metadata && Object.keys(log.metadata).length > 0 ? JSON.stringify(log.metadata) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-audit"
+                >
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-8">
+            <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No audit entries match these filters.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AuditLogExplorer;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { FieldChange } from '@shared/schema';
+import { cn } from '@/lib/utils';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  department: 'Department',
+  level: 'Position level',
+  instituteType: 'Institute type',
+  employmentType: 'Employment type',
+  location: 'Location',
+  minSalary: 'Minimum salary',
+  maxSalary: 'Maximum salary',
+  currency: 'Currency',
+  qualifications: 'Qualifications',
+  skills: 'Skills',
+  responsibilities: 'Responsibilities',
+  description: 'Description',
+  requirements: 'Requirements',
+  lastDate: 'Last date to apply',
+  applyMode: 'Application mode',
+  applyUrl: 'Application URL',
+  screeningQuestions: 'Screening questions',
+  status: 'Status',
+  approvedBy: 'Approved by',
+  approvedAt: 'Approved at',
+  rejectionReasons: 'Rejection reasons',
+  rejectionNotes: 'Rejection notes',
+  resubmissionCount: 'Resubmissions',
+  name: 'Name',
+  website: 'Website',
+  hrEmail: 'HR email',
+  phone: 'Phone',
+  address: 'Address',
+  proofDocs: 'Proof documents',
+};
+
+// Longer texts are compared word by word; past this many word pairs the
+// comparison is too slow and both versions are shown whole instead
+const MAX_WORD_DIFF_CELLS = 250000;
+const LONG_TEXT_LENGTH = 80;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'string') {
+    return ISO_DATE.test(value) ? new Date(value).toLocaleDateString() : value;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(formatValue).join('; ') : '—';
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // Screening questions
+    if (typeof record.question === 'string') {
+      return record.required === false ? `${record.question} (optional)` : record.question;
+    }
+    // Locations
+    if (typeof record.city === 'string') {
+      return [record.city, record.state, record.country].filter(Boolean).join(', ');
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+type WordDiff = Array<{ text: string; type: 'same' | 'removed' | 'added' }>;
+
+// Longest common subsequence over words and the whitespace between them
+const diffWords = (before: string, after: string): WordDiff | undefined => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return undefined;
+  }
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: WordDiff = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ text: a[i++], type: 'same' });
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ text: a[i++], type: 'removed' });
+    } else {
+      diff.push({ text: b[j++], type: 'added' });
+    }
+  }
+  a.slice(i).forEach(text => diff.push({ text, type: 'removed' }));
+  b.slice(j).forEach(text => diff.push({ text, type: 'added' }));
+  return diff;
+};
+
+function FieldValues({ change }: { change: FieldChange }) {
+  const { oldValue, newValue } = change;
+  const isLongText = typeof oldValue === 'string' && typeof newValue === 'string' &&
+    Math.max(oldValue.length, newValue.length) > LONG_TEXT_LENGTH;
+  const words = isLongText ? diffWords(oldValue as string, newValue as string) : undefined;
+
+  if (words) {
+    return (
+      <p className="text-sm whitespace-pre-wrap">
+        {words.map((word, index) => (
+          <span
+            key={index}
+            className={cn(
+              word.type === 'removed' && 'bg-red-100 text-red-800 line-through',
+              word.type === 'added' && 'bg-green-100 text-green-800'
+            )}
+          >
+            {word.text}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-1">
+      <p className="bg-red-50 text-red-800 rounded px-2 py-1 whitespace-pre-wrap line-through">
+        {formatValue(oldValue)}
+      </p>
+      <p className="bg-green-50 text-green-800 rounded px-2 py-1 whitespace-pre-wrap">
+        {formatValue(newValue)}
+      </p>
+    </div>
+  );
+}
+
+interface ChangeDiffProps {
+  changes: FieldChange[];
+}
+
+export function ChangeDiff({ changes }: ChangeDiffProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No fields changed.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {changes.map((change) => (
+        <div key={change.field} className="space-y-1" data-testid={`change-${change.field}`}>
+          <h5 className="text-sm font-medium text-foreground">
+            {FIELD_LABELS[change.field] || change.field}
+          </h5>
+          <FieldValues change={change} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ChangeDiff;
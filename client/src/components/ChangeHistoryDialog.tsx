@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ChangeRecord, ChangeTargetType, FieldChange, sameJsonValue } from '@shared/schema';
+import { Button } from './ui/button';
+import { Separator } from './ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ChangeDiff } from './ChangeDiff';
+import { FileDiff } from 'lucide-react';
+
+// Moderation bookkeeping, which the summary of the employer's edits leaves out
+const REVIEW_FIELDS = new Set([
+  'status',
+  'approvedBy',
+  'approvedAt',
+  'rejectionReasons',
+  'rejectionNotes',
+  'resubmissionCount',
+]);
+
+const isReview = (record: ChangeRecord) => record.changes.some(change =>
+  change.field === 'status' && (change.newValue === 'approved' || change.newValue === 'rejected')
+);
+
+// Net change of every field edited since the last approval or rejection:
+// each field's value before the first edit against its value after the last
+export const changesSinceReview = (records: ChangeRecord[]): FieldChange[] => {
+  const lastReview = records.findIndex(isReview);
+  const edits = (lastReview >= 0 ? records.slice(0, lastReview) : records).slice().reverse();
+
+  const net = new Map<string, FieldChange>();
+  edits.forEach(record => record.changes
+    .filter(change => !REVIEW_FIELDS.has(change.field))
+    .forEach(change => net.set(change.field, {
+      ...change,
+      oldValue: net.has(change.field) ? net.get(change.field)!.oldValue : change.oldValue,
+    }))
+  );
+  return Array.from(net.values()).filter(change => !sameJsonValue(change.oldValue, change.newValue));
+};
+
+interface ChangeHistoryDialogProps {
+  targetType: ChangeTargetType;
+  targetId: string;
+  name: string;
+}
+
+export function ChangeHistoryDialog({ targetType, targetId, name }: ChangeHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: ChangeRecord[] }>({
+    queryKey: [`/api/admin/history/${targetType}/${targetId}`],
+    enabled: open,
+  });
+  const records = apiResponse?.data || [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-changes-${targetType}-${targetId}`}>
+          <FileDiff className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Changes to {name}</DialogTitle>
+          <DialogDescription>
+            What changed since the last moderation decision, followed by every recorded edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading changes..." />
+          </div>
+        ) : records.length > 0 ? (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h4 className="font-medium text-foreground">Since last review</h4>
+              <ChangeDiff changes={changesSinceReview(records)} />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-6">
+              <h4 className="font-medium text-foreground">History</h4>
+              {records.map((record) => (
+                <div key={record.id} className="space-y-3" data-testid={`change-record-${record.id}`}>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(record.createdAt), 'dd MMM yyyy, HH:mm')} by{' '}
+                    <span className="font-mono">{record.actorUid || 'system'}</span>
+                  </p>
+                  <ChangeDiff changes={record.changes} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">
+            No edits have been recorded since this {targetType} was created.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ChangeHistoryDialog;
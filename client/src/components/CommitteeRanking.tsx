@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CommitteeRankings } from '@/lib/types';
+import { CompanyRole, Job, hasCompanyPermission } from '@shared/schema';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { LoadingSpinner } from './LoadingSpinner';
+import { HiringCommitteeDialog, rankingsUrl } from './HiringCommitteeDialog';
+import { ScorecardDialog } from './ScorecardDialog';
+import { EyeOff, Users } from 'lucide-react';
+
+interface CommitteeRankingProps {
+  jobs: Job[];
+  role?: CompanyRole;
+  currentUid: string;
+}
+
+// Candidates for a job ranked by the selection committee's weighted scores
+export function CommitteeRanking({ jobs, role, currentUid }: CommitteeRankingProps) {
+  const [selectedJobId, setSelectedJobId] = useState<string | undefined>(jobs[0]?.id);
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+  const canManage = hasCompanyPermission(role, 'manage_jobs');
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: CommitteeRankings }>({
+    queryKey: [rankingsUrl(selectedJobId!)],
+    enabled: !!selectedJobId,
+  });
+  const committee = apiResponse?.data.committee;
+  const rankings = apiResponse?.data.rankings || [];
+  const rubricLocked = rankings.some(r => r.ownScorecardStatus === 'submitted' || (r.aggregate?.submittedCount ?? 0) > 0);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between space-x-4">
+        <Select value={selectedJobId} onValueChange={setSelectedJobId}>
+          <SelectTrigger className="w-full md:w-96" data-testid="select-ranking-job">
+            <SelectValue placeholder="Select a job" />
+          </SelectTrigger>
+          <SelectContent>
+            {jobs.map((job) => (
+              <SelectItem key={job.id} value={job.id}>{job.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManage && selectedJob && !isLoading && (
+          <HiringCommitteeDialog
+            key={selectedJob.id}
+            job={selectedJob}
+            committee={committee ?? null}
+            rubricLocked={rubricLocked}
+          />
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Loading rankings..." />
+        </div>
+      ) : !committee ? (
+        <div className="text-center py-8">
+          <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            {canManage
+              ? 'Set up a selection committee to score candidates against a rubric.'
+              : 'This job has no selection committee yet.'}
+          </p>
+        </div>
+      ) : rankings.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No candidates have applied yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Candidate</TableHead>
+              {committee.criteria.map((criterion) => (
+                <TableHead key={criterion.id}>{criterion.label}</TableHead>
+              ))}
+              <TableHead>Score</TableHead>
+              <TableHead>Scorecards</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rankings.map((ranking, index) => (
+              <TableRow key={ranking.application.id} data-testid={`ranking-${ranking.application.id}`}>
+                <TableCell className="text-muted-foreground">
+                  {ranking.aggregate?.score !== undefined ? index + 1 : '—'}
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm font-medium text-foreground">
+                    {ranking.applicant?.displayName || 'Applicant'}
+                  </p>
+                  <p className="text-xs text-muted-foreground capitalize">{ranking.application.status}</p>
+                </TableCell>
+                {ranking.hidden ? (
+                  <TableCell colSpan={committee.criteria.length + 2} className="text-xs text-muted-foreground">
+                    <span className="flex items-center">
+                      <EyeOff className="w-3 h-3 mr-1" />
+                      Submit your scorecard to see the committee's scores
+                    </span>
+                  </TableCell>
+                ) : (
+                  <>
+                    {committee.criteria.map((criterion) => (
+                      <TableCell key={criterion.id} className="text-sm">
+                        {ranking.aggregate?.criterionAverages[criterion.id]?.toFixed(1) ?? '—'}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {ranking.aggregate?.score !== undefined ? (
+                        <Badge variant="secondary">{ranking.aggregate.score.toFixed(2)}</Badge>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {ranking.aggregate?.submittedCount ?? 0} / {committee.memberUids.length}
+                    </TableCell>
+                  </>
+                )}
+                <TableCell className="text-right">
+                  <ScorecardDialog
+                    applicationId={ranking.application.id}
+                    applicantName={ranking.applicant?.displayName || 'Applicant'}
+                    committee={committee}
+                    currentUid={currentUid}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default CommitteeRanking;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { CompanyMemberWithUser, PendingInvitation } from '@/lib/types';
+import { Company, COMPANY_ROLE_LABELS, CompanyRole, hasCompanyPermission } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Mail, UserMinus, UserPlus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const ROLE_DESCRIPTIONS: Record<CompanyRole, string> = {
+  owner: 'Edits the institution profile, manages the team and everything below',
+  recruiter: 'Posts and edits jobs and reviews applications',
+  reviewer: 'Reviews applications',
+  viewer: 'Sees jobs and applications',
+};
+
+const membersUrl = (companyId: string) => `/api/companies/${companyId}/members`;
+const invitationsUrl = (companyId: string) => `/api/companies/${companyId}/invitations`;
+
+function RoleSelect({ value, onChange, disabled, testId }: {
+  value: CompanyRole;
+  onChange: (role: CompanyRole) => void;
+  disabled?: boolean;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(role: CompanyRole) => onChange(role)} disabled={disabled}>
+      <SelectTrigger className="w-36" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CompanyRole.options.map((role) => (
+          <SelectItem key={role} value={role}>{COMPANY_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface CompanyTeamProps {
+  company: Company;
+  role: CompanyRole;
+  currentUid: string;
+}
+
+// The people who work on a company's jobs. Owners invite, re-role and remove
+// members; everyone else can see the team and leave it.
+export function CompanyTeam({ company, role, currentUid }: CompanyTeamProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<CompanyRole>('recruiter');
+  const canManage = hasCompanyPermission(role, 'manage_members');
+
+  const { data: membersResponse, isLoading } = useQuery<{ data: CompanyMemberWithUser[] }>({
+    queryKey: [membersUrl(company.id)],
+  });
+  const members = membersResponse?.data || [];
+
+  const { data: invitationsResponse } = useQuery<{ data: PendingInvitation[] }>({
+    queryKey: [invitationsUrl(company.id)],
+    enabled: canManage,
+  });
+  const invitations = invitationsResponse?.data || [];
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', invitationsUrl(company.id), { email: email.trim(), role: inviteRole });
+    },
+    onSuccess: () => {
+      toast({ title: "Invitation Sent", description: `${email.trim()} has been emailed a link to join.` });
+      setEmail('');
+      queryClient.invalidateQueries({ queryKey: [invitationsUrl(company.id)] });
+    },
+    onError: onError("Invitation Failed"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest('DELETE', `${invitationsUrl(company.id)}/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invitationsUrl(company.id)] });
+    },
+    onError: onError("Could Not Revoke Invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userUid, role }: { userUid: string; role: CompanyRole }) => {
+      await apiRequest('PATCH', `${membersUrl(company.id)}/${userUid}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl(company.id)] });
+    },
+    onError: onError("Could Not Change Role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userUid: string) => {
+      await apiRequest('DELETE', `${membersUrl(company.id)}/${userUid}`);
+    },
+    onSuccess: (_, userUid) => {
+      if (userUid === currentUid) {
+        queryClient.invalidateQueries({ queryKey: ['employer-company'] });
+        toast({ title: "You Left the Institution", description: `You are no longer a member of ${company.name}.` });
+      } else {
+        queryClient.invalidateQueries({ queryKey: [membersUrl(company.id)] });
+      }
+    },
+    onError: onError("Could Not Remove Member"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner text="Loading team..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate();
+          }}
+        >
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="colleague@institution.edu"
+            data-testid="input-invite-email"
+          />
+          <RoleSelect value={inviteRole} onChange={setInviteRole} testId="select-invite-role" />
+          <Button type="submit" disabled={!email.trim() || inviteMutation.isPending} data-testid="button-send-invite">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite
+          </Button>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        {members.map((member) => {
+          const isCreator = member.userUid === company.ownerUid;
+          const isSelf = member.userUid === currentUid;
+          return (
+            <div
+              key={member.id}
+              className="flex items-center justify-between border border-border rounded-lg p-3"
+              data-testid={`member-${member.userUid}`}
+            >
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  {member.user?.displayName || 'Deleted account'}
+                  {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {member.user?.email} • {ROLE_DESCRIPTIONS[member.role]}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                {canManage && !isCreator ? (
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(role) => updateRoleMutation.mutate({ userUid: member.userUid, role })}
+                    disabled={updateRoleMutation.isPending}
+                    testId={`select-member-role-${member.userUid}`}
+                  />
+                ) : (
+                  <Badge variant="secondary">{COMPANY_ROLE_LABELS[member.role]}</Badge>
+                )}
+                {!isCreator && (canManage || isSelf) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(member.userUid)}
+                    disabled={removeMutation.isPending}
+                    data-testid={`button-remove-member-${member.userUid}`}
+                  >
+                    <UserMinus className="w-4 h-4 mr-1" />
+                    {isSelf ? 'Leave' : 'Remove'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && invitations.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-foreground">Pending Invitations</h4>
+          {invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex items-center justify-between border border-dashed border-border rounded-lg p-3"
+              data-testid={`invitation-${invitation.id}`}
+            >
+              <div className="flex items-center">
+                <Mail className="w-4 h-4 text-muted-foreground mr-3" />
+                <div>
+                  <p className="text-sm text-foreground">{invitation.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {COMPANY_ROLE_LABELS[invitation.role]} • {new Date(invitation.expiresAt) < new Date()
+                      ? 'Expired'
+                      : `Expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revokeMutation.mutate(invitation.id)}
+                disabled={revokeMutation.isPending}
+                data-testid={`button-revoke-invitation-${invitation.id}`}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CompanyTeam;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Company, CompanyVerification, PROOF_DOCUMENT_LABELS, ProofDocument } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { PROOF_STATUS_STYLES, verificationUrl } from './ProofDocumentChecklist';
+import { CheckCircle, ExternalLink, ShieldCheck, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const DOMAIN_CHECK_MESSAGES = {
+  match: { text: 'HR email is on the website domain', className: 'text-green-700' },
+  mismatch: { text: 'HR email is not on the website domain', className: 'text-red-700' },
+  no_website: { text: 'No website given to check the HR email against', className: 'text-yellow-700' },
+} as const;
+
+function DocumentReview({ companyId, document }: { companyId: string; document: ProofDocument }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState('');
+
+  // The tab is opened on click, before the link is fetched, so popup
+  // blockers let it through
+  const viewMutation = useMutation({
+    mutationFn: async (tab: Window | null) => {
+      const res = await apiRequest('GET', `/api/admin/companies/${companyId}/documents/${document.id}/url`);
+      const { data } = await res.json();
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = data.url;
+      }
+    },
+    onError: (error, tab) => {
+      tab?.close();
+      toast({ title: "Could Not Open Document", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (status: 'accepted' | 'rejected') => {
+      await apiRequest('PATCH', `/api/admin/companies/${companyId}/documents/${document.id}`, {
+        status,
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setNotes('');
+      queryClient.invalidateQueries({ queryKey: [verificationUrl(companyId)] });
+    },
+    onError: (error) => {
+      toast({ title: "Review Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-muted-foreground">{document.fileName}</span>
+          <Badge className={PROOF_STATUS_STYLES[document.status].className}>
+            {PROOF_STATUS_STYLES[document.status].label}
+          </Badge>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => viewMutation.mutate(window.open('', '_blank'))}
+          disabled={viewMutation.isPending}
+          data-testid={`button-view-document-${document.id}`}
+        >
+          <ExternalLink className="w-4 h-4 mr-1" />
+          View
+        </Button>
+      </div>
+      {document.reviewNotes && (
+        <p className="text-xs text-muted-foreground">{document.reviewNotes}</p>
+      )}
+      {document.status === 'pending' && (
+        <div className="flex items-center space-x-2">
+          <Input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes for the employer (required to reject)"
+            maxLength={1000}
+            data-testid={`input-document-notes-${document.id}`}
+          />
+          <Button
+            size="sm"
+            onClick={() => reviewMutation.mutate('accepted')}
+            disabled={reviewMutation.isPending}
+            data-testid={`button-accept-document-${document.id}`}
+          >
+            <CheckCircle className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => reviewMutation.mutate('rejected')}
+            disabled={reviewMutation.isPending || !notes.trim()}
+            data-testid={`button-reject-document-${document.id}`}
+          >
+            <XCircle className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CompanyVerificationDialogProps {
+  company: Company;
+}
+
+export function CompanyVerificationDialog({ company }: CompanyVerificationDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: CompanyVerification }>({
+    queryKey: [verificationUrl(company.id)],
+    enabled: open,
+  });
+  const verification = apiResponse?.data;
+
+  // Documents of types no longer required, e.g. after the institute type changed
+  const otherDocuments = verification?.documents.filter(d => !verification.requiredDocuments.includes(d.type)) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-verify-company-${company.id}`}>
+          <ShieldCheck className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Verify {company.name}</DialogTitle>
+          <DialogDescription>
+            Every required document must be accepted before the institution can be approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !verification ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading documents..." />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">HR email:</span> {company.hrEmail}
+                {company.website && (
+                  <> • <span className="text-muted-foreground">Website:</span> {company.website}</>
+                )}
+              </p>
+              <p className={DOMAIN_CHECK_MESSAGES[verification.domainCheck].className} data-testid="domain-check">
+                {DOMAIN_CHECK_MESSAGES[verification.domainCheck].text}
+              </p>
+            </div>
+
+            {verification.requiredDocuments.map((type) => {
+              const document = verification.documents.find(d => d.type === type);
+              return (
+                <div key={type} className="border border-border rounded-lg p-4 space-y-2" data-testid={`verification-${type}`}>
+                  <h4 className="font-medium text-foreground">{PROOF_DOCUMENT_LABELS[type]}</h4>
+                  {document ? (
+                    <DocumentReview companyId={company.id} document={document} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Not uploaded yet</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {otherDocuments.map((document) => (
+              <div key={document.id} className="border border-border rounded-lg p-4 space-y-2">
+                <h4 className="font-medium text-foreground">
+                  {PROOF_DOCUMENT_LABELS[document.type]} <span className="text-xs text-muted-foreground">(not required)</span>
+                </h4>
+                <DocumentReview companyId={company.id} document={document} />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CompanyVerificationDialog;
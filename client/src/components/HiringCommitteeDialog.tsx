@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { CompanyMemberWithUser } from '@/lib/types';
+import { DEFAULT_RUBRIC, HiringCommittee, Job, RubricCriterion, hasCompanyPermission } from '@shared/schema';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Plus, Settings, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const committeeUrl = (jobId: string) => `/api/employer/jobs/${jobId}/committee`;
+export const rankingsUrl = (jobId: string) => `/api/employer/jobs/${jobId}/rankings`;
+
+// Criteria added in the dialog get an id from their label
+function withIds(criteria: RubricCriterion[]): RubricCriterion[] {
+  const taken = new Set<string>();
+  return criteria.map((criterion) => {
+    const base = criterion.id || criterion.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'criterion';
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    taken.add(id);
+    return { ...criterion, id, label: criterion.label.trim() };
+  });
+}
+
+interface HiringCommitteeDialogProps {
+  job: Job;
+  committee: HiringCommittee | null;
+  // The rubric can't change once anyone has submitted a scorecard
+  rubricLocked: boolean;
+}
+
+export function HiringCommitteeDialog({ job, committee, rubricLocked }: HiringCommitteeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [memberUids, setMemberUids] = useState<string[]>([]);
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+
+  const { data: membersResponse, isLoading } = useQuery<{ data: CompanyMemberWithUser[] }>({
+    queryKey: [`/api/companies/${job.companyId}/members`],
+    enabled: open,
+  });
+  // Only members who can review applications can sit on the committee
+  const reviewers = (membersResponse?.data || []).filter(m => hasCompanyPermission(m.role, 'review_applications'));
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setMemberUids(committee?.memberUids || []);
+      setCriteria(committee?.criteria || DEFAULT_RUBRIC);
+    }
+    setOpen(next);
+  };
+
+  const toggleMember = (uid: string, checked: boolean) =>
+    setMemberUids(current => checked ? [...current, uid] : current.filter(m => m !== uid));
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) =>
+    setCriteria(current => current.map((criterion, i) => i === index ? { ...criterion, ...updates } : criterion));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PUT', committeeUrl(job.id), { memberUids, criteria: withIds(criteria) });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [committeeUrl(job.id)] });
+      queryClient.invalidateQueries({ queryKey: [rankingsUrl(job.id)] });
+      toast({ title: "Committee Saved", description: `The selection committee for ${job.title} has been updated.` });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Save Committee", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const invalid = memberUids.length === 0 || criteria.length === 0 || criteria.some(c => !c.label.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-edit-committee">
+          <Settings className="w-4 h-4 mr-2" />
+          {committee ? 'Edit Committee' : 'Set Up Committee'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Selection Committee</DialogTitle>
+          <DialogDescription>
+            Members score each candidate against the rubric. Nobody sees the others' scores for a candidate until they have submitted their own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading team..." />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Members</Label>
+              {reviewers.map((member) => (
+                <div key={member.userUid} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`committee-member-${member.userUid}`}
+                    checked={memberUids.includes(member.userUid)}
+                    onCheckedChange={(checked) => toggleMember(member.userUid, checked === true)}
+                    data-testid={`checkbox-committee-member-${member.userUid}`}
+                  />
+                  <Label htmlFor={`committee-member-${member.userUid}`} className="font-normal">
+                    {member.user?.displayName || member.user?.email || 'Deleted account'}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rubric</Label>
+              {rubricLocked && (
+                <p className="text-xs text-muted-foreground">
+                  Scorecards have been submitted, so the rubric can no longer change.
+                </p>
+              )}
+              {criteria.map((criterion, index) => (
+                <div key={index} className="flex items-center space-x-2" data-testid={`criterion-${index}`}>
+                  <Input
+                    value={criterion.label}
+                    onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                    placeholder="Criterion"
+                    maxLength={100}
+                    disabled={rubricLocked}
+                    data-testid={`input-criterion-label-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+                    className="w-20"
+                    title="Weight"
+                    disabled={rubricLocked}
+                    data-testid={`input-criterion-weight-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCriteria(current => current.filter((_, i) => i !== index))}
+                    disabled={rubricLocked || criteria.length === 1}
+                    data-testid={`button-remove-criterion-${index}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {!rubricLocked && criteria.length < 10 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCriteria(current => [...current, { id: '', label: '', weight: 1 }])}
+                  data-testid="button-add-criterion"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Criterion
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={invalid || saveMutation.isPending}
+            data-testid="button-save-committee"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Committee'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default HiringCommitteeDialog;
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { InterviewSlotWithApplicant } from '@/lib/types';
+import {
+  CompanyRole,
+  INTERVIEW_KIND_LABELS,
+  InterviewKind,
+  InterviewSlotStatus,
+  Job,
+  hasCompanyPermission,
+} from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { CalendarClock, CalendarPlus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const SLOT_STATUS_STYLES: Record<InterviewSlotStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+  booked: { label: 'Booked', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+};
+
+export const formatSlotTime = (date: Date | string) => format(new Date(date), 'EEE d MMM yyyy, HH:mm');
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (date: Date | string) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+const slotsUrl = (jobId: string) => `/api/employer/jobs/${jobId}/interview-slots`;
+
+function RescheduleDialog({ slot, jobId }: { slot: InterviewSlotWithApplicant; jobId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [startsAt, setStartsAt] = useState(toLocalInput(slot.startsAt));
+  const [location, setLocation] = useState(slot.location);
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PATCH', `/api/employer/interview-slots/${slot.id}`, {
+        startsAt: new Date(startsAt).toISOString(),
+        location: location.trim(),
+      });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [slotsUrl(jobId)] });
+      toast({
+        title: "Slot Updated",
+        description: slot.status === 'booked' ? "The applicant has been sent the new time." : "The slot has been moved.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Update Slot", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid={`button-reschedule-slot-${slot.id}`}>
+          <CalendarClock className="w-4 h-4 mr-1" />
+          Reschedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reschedule {INTERVIEW_KIND_LABELS[slot.kind].toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            {slot.status === 'booked'
+              ? `${slot.applicant?.displayName || 'The applicant'} will be emailed an updated calendar invitation.`
+              : 'Nobody has booked this slot yet.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="reschedule-starts-at">Starts at</Label>
+            <Input
+              id="reschedule-starts-at"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              data-testid="input-reschedule-starts-at"
+            />
+          </div>
+          <div>
+            <Label htmlFor="reschedule-location">Room or video link</Label>
+            <Input
+              id="reschedule-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              maxLength={500}
+              data-testid="input-reschedule-location"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => rescheduleMutation.mutate()}
+            disabled={!startsAt || !location.trim() || rescheduleMutation.isPending}
+            data-testid="button-confirm-reschedule"
+          >
+            {rescheduleMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface InterviewSlotsProps {
+  jobs: Job[];
+  role?: CompanyRole;
+}
+
+// Interview and teaching demonstration slots an employer publishes for a job,
+// for shortlisted applicants to book
+export function InterviewSlots({ jobs, role }: InterviewSlotsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedJobId, setSelectedJobId] = useState<string | undefined>(jobs[0]?.id);
+  const [kind, setKind] = useState<InterviewKind>('interview');
+  const [startsAt, setStartsAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(45);
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const canSchedule = hasCompanyPermission(role, 'review_applications');
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: InterviewSlotWithApplicant[] }>({
+    queryKey: [slotsUrl(selectedJobId!)],
+    enabled: !!selectedJobId,
+  });
+  const slots = apiResponse?.data || [];
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', slotsUrl(selectedJobId!), {
+        kind,
+        startsAt: new Date(startsAt).toISOString(),
+        durationMinutes,
+        location: location.trim(),
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setStartsAt('');
+      queryClient.invalidateQueries({ queryKey: [slotsUrl(selectedJobId!)] });
+      toast({ title: "Slot Published", description: "Shortlisted applicants can now book it." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Add Slot", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      await apiRequest('POST', `/api/employer/interview-slots/${slotId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [slotsUrl(selectedJobId!)] });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Cancel Slot", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Select value={selectedJobId} onValueChange={setSelectedJobId}>
+        <SelectTrigger className="w-full md:w-96" data-testid="select-slots-job">
+          <SelectValue placeholder="Select a job" />
+        </SelectTrigger>
+        <SelectContent>
+          {jobs.map((job) => (
+            <SelectItem key={job.id} value={job.id}>{job.title}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {canSchedule && (
+        <form
+          className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div>
+            <Label>Kind</Label>
+            <Select value={kind} onValueChange={(value: InterviewKind) => setKind(value)}>
+              <SelectTrigger data-testid="select-slot-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {InterviewKind.options.map((option) => (
+                  <SelectItem key={option} value={option}>{INTERVIEW_KIND_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="slot-starts-at">Starts at</Label>
+            <Input
+              id="slot-starts-at"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              data-testid="input-slot-starts-at"
+            />
+          </div>
+          <div>
+            <Label htmlFor="slot-duration">Minutes</Label>
+            <Input
+              id="slot-duration"
+              type="number"
+              min={15}
+              max={480}
+              step={15}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value) || 15)}
+              data-testid="input-slot-duration"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="slot-location">Room or video link</Label>
+            <Input
+              id="slot-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              maxLength={500}
+              data-testid="input-slot-location"
+            />
+          </div>
+          <div className="md:col-span-5">
+            <Label htmlFor="slot-notes">Notes for the applicant (optional)</Label>
+            <Input
+              id="slot-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Prepare a 20 minute lecture for second-year students"
+              maxLength={2000}
+              data-testid="input-slot-notes"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!startsAt || !location.trim() || createMutation.isPending}
+            data-testid="button-add-slot"
+          >
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Add Slot
+          </Button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Loading slots..." />
+        </div>
+      ) : slots.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No interview slots published for this job yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {slots.map((slot) => (
+            <div
+              key={slot.id}
+              className="flex items-center justify-between border border-border rounded-lg p-3"
+              data-testid={`slot-${slot.id}`}
+            >
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  {INTERVIEW_KIND_LABELS[slot.kind]} • {formatSlotTime(slot.startsAt)} ({slot.durationMinutes} min)
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {slot.location}
+                  {slot.applicantUid && <> • {slot.applicant?.displayName || 'Deleted account'}</>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                <Badge className={SLOT_STATUS_STYLES[slot.status].className}>
+                  {SLOT_STATUS_STYLES[slot.status].label}
+                </Badge>
+                {canSchedule && slot.status !== 'cancelled' && (
+                  <>
+                    <RescheduleDialog slot={slot} jobId={slot.jobId} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => cancelMutation.mutate(slot.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-slot-${slot.id}`}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Cancel
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InterviewSlots;
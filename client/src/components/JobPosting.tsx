@@ -0,0 +1,221 @@
+import React from 'react';
+import { Job } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { MapPin, Briefcase, Clock, GraduationCap } from 'lucide-react';
+
+// What a posting shows; the editor previews content that has no id or
+// counters yet
+export type JobPostingContent = Pick<Job,
+  | 'title'
+  | 'department'
+  | 'level'
+  | 'instituteType'
+  | 'employmentType'
+  | 'location'
+  | 'minSalary'
+  | 'maxSalary'
+  | 'description'
+  | 'requirements'
+  | 'responsibilities'
+  | 'qualifications'
+  | 'skills'
+  | 'lastDate'
+> & Partial<Pick<Job, 'viewCount' | 'applicationCount'>>;
+
+export const formatSalary = (min?: number, max?: number) => {
+  if (!min && !max) return null;
+
+  const formatAmount = (amount: number) => {
+    if (amount >= 100000) {
+      return `₹${(amount / 100000).toFixed(0)} LPA`;
+    }
+    return `₹${(amount / 1000).toFixed(0)}K per month`;
+  };
+
+  if (min && max) {
+    return `${formatAmount(min)} - ${formatAmount(max)}`;
+  }
+  return formatAmount(min || max!);
+};
+
+interface JobPostingProps {
+  job: JobPostingContent;
+  headerActions?: React.ReactNode;
+}
+
+export function JobPosting({ job, headerActions }: JobPostingProps) {
+  const isExpired = new Date(job.lastDate) < new Date();
+
+  return (
+    <>
+      {/* Job Header */}
+      <Card>
+        <CardContent className="p-8">
+          <div className="flex items-start justify-between mb-6">
+            <div className="flex items-start space-x-4">
+              {/* Company Logo */}
+              <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center flex-shrink-0">
+                <span className="text-white font-bold text-sm">
+                  {job.instituteType.substring(0, 3)}
+                </span>
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground mb-2" data-testid="job-title">
+                  {job.title}
+                </h1>
+                <p className="text-lg text-muted-foreground mb-3" data-testid="job-institute">
+                  {job.instituteType} • {job.department}
+                </p>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  <div className="flex items-center">
+                    <MapPin className="w-4 h-4 mr-1" />
+                    <span data-testid="job-location">
+                      {job.location.city}, {job.location.state}
+                    </span>
+                  </div>
+                  <div className="flex items-center">
+                    <Briefcase className="w-4 h-4 mr-1" />
+                    <span>{job.employmentType}</span>
+                  </div>
+                  <div className="flex items-center">
+                    <Clock className="w-4 h-4 mr-1" />
+                    <span data-testid="job-deadline">
+                      Apply by {job.lastDate.toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+            {headerActions && (
+              <div className="flex items-center space-x-2">
+                {headerActions}
+              </div>
+            )}
+          </div>
+
+          {/* Job Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary" data-testid="job-views">
+                {job.viewCount || 0}
+              </div>
+              <div className="text-sm text-muted-foreground">Views</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary" data-testid="job-applications">
+                {job.applicationCount || 0}
+              </div>
+              <div className="text-sm text-muted-foreground">Applications</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary">
+                {Math.ceil((job.lastDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))}
+              </div>
+              <div className="text-sm text-muted-foreground">Days Left</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary">
+                {job.level === 'Assistant Professor' ? '★★☆☆☆' :
+                 job.level === 'Associate Professor' ? '★★★☆☆' : '★★★★☆'}
+              </div>
+              <div className="text-sm text-muted-foreground">Level</div>
+            </div>
+          </div>
+
+          {/* Tags */}
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="default">{job.level}</Badge>
+            <Badge variant="secondary">{job.department}</Badge>
+            <Badge variant="outline">{job.employmentType}</Badge>
+            {formatSalary(job.minSalary, job.maxSalary) && (
+              <Badge variant="secondary" data-testid="job-salary">
+                {formatSalary(job.minSalary, job.maxSalary)}
+              </Badge>
+            )}
+            {isExpired && <Badge variant="destructive">Expired</Badge>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Job Description */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Job Description</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <p className="text-foreground whitespace-pre-wrap" data-testid="job-description">
+              {job.description}
+            </p>
+          </div>
+
+          {job.requirements && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-3">Requirements</h3>
+                <p className="text-foreground whitespace-pre-wrap">
+                  {job.requirements}
+                </p>
+              </div>
+            </>
+          )}
+
+          {job.responsibilities.length > 0 && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-3">Key Responsibilities</h3>
+                <ul className="space-y-2">
+                  {job.responsibilities.map((responsibility, index) => (
+                    <li key={index} className="flex items-start">
+                      <span className="w-2 h-2 bg-primary rounded-full mt-2 mr-3 flex-shrink-0"></span>
+                      <span className="text-foreground">{responsibility}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
+          {job.qualifications.length > 0 && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-3">Required Qualifications</h3>
+                <ul className="space-y-2">
+                  {job.qualifications.map((qualification, index) => (
+                    <li key={index} className="flex items-start">
+                      <GraduationCap className="w-4 h-4 mt-1 mr-3 text-primary flex-shrink-0" />
+                      <span className="text-foreground">{qualification}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
+          {job.skills.length > 0 && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-3">Preferred Skills</h3>
+                <div className="flex flex-wrap gap-2">
+                  {job.skills.map((skill, index) => (
+                    <Badge key={index} variant="outline">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export default JobPosting;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { JobRevisionWithJob } from '@/lib/types';
+import { JobContentSchema, diffFields } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { JobPosting } from './JobPosting';
+import { ChangeDiff } from './ChangeDiff';
+import { CheckCircle, XCircle, Eye, FileText } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const PENDING_REVISIONS_URL = '/api/admin/job-revisions/pending';
+
+// Every content field, including optional ones the revision clears
+const JOB_CONTENT_FIELDS = JobContentSchema.keyof().options;
+
+// What approving the revision would change on the live job
+const revisionChanges = ({ job, content }: JobRevisionWithJob) => job
+  ? diffFields(job, Object.fromEntries(JOB_CONTENT_FIELDS.map(field => [field, content[field]])))
+  : [];
+
+export function JobRevisionQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: JobRevisionWithJob[] }>({
+    queryKey: [PENDING_REVISIONS_URL],
+  });
+  const revisions = apiResponse?.data || [];
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'approved' | 'rejected' }) => {
+      await apiRequest('PATCH', `/api/admin/job-revisions/${id}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: [PENDING_REVISIONS_URL] });
+      toast({
+        title: status === 'approved' ? "Changes Approved" : "Changes Rejected",
+        description: status === 'approved'
+          ? "The job now shows the updated version."
+          : "The live version of the job is unchanged.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Review Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Pending Job Changes</CardTitle>
+          <Badge variant="secondary" data-testid="badge-pending-revisions">
+            {revisions.length} Pending
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading pending changes..." />
+          </div>
+        ) : revisions.length > 0 ? (
+          <div className="space-y-4">
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className="border border-border rounded-lg p-4 flex items-start justify-between"
+                data-testid={`job-revision-${revision.id}`}
+              >
+                <div>
+                  <h4 className="font-medium text-foreground mb-1">
+                    {revision.job ? (
+                      <Link href={`/jobs/${revision.jobId}`} className="hover:text-primary">{revision.job.title}</Link>
+                    ) : (
+                      <span className="text-muted-foreground">Deleted job</span>
+                    )}
+                  </h4>
+                  {revision.job && revision.content.title !== revision.job.title && (
+                    <p className="text-sm text-muted-foreground">Retitled to "{revision.content.title}"</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Updated {formatDistanceToNow(new Date(revision.updatedAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <div className="flex space-x-2 ml-4">
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline" size="sm" data-testid={`button-preview-revision-${revision.id}`}>
+                        <Eye className="w-4 h-4 mr-1" />
+                        Preview
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Proposed version</DialogTitle>
+                      </DialogHeader>
+                      <div className="space-y-8">
+                        <div className="space-y-3">
+                          <h4 className="font-medium text-foreground">Changes from the live version</h4>
+                          <ChangeDiff changes={revisionChanges(revision)} />
+                        </div>
+                        <JobPosting job={JobContentSchema.parse(revision.content)} />
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                  <Button
+                    size="sm"
+                    onClick={() => reviewMutation.mutate({ id: revision.id, status: 'approved' })}
+                    disabled={reviewMutation.isPending || !revision.job}
+                    data-testid={`button-approve-revision-${revision.id}`}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => reviewMutation.mutate({ id: revision.id, status: 'rejected' })}
+                    disabled={reviewMutation.isPending || !revision.job}
+                    data-testid={`button-reject-revision-${revision.id}`}
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No live jobs have changes awaiting review.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default JobRevisionQueue;
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { ReportWithTarget } from '@/lib/types';
+import { ReportAction, ReportFilters, ReportReason, ReportStatus, ReportType } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { REPORT_REASON_LABELS } from './ReportDialog';
+import { AlertTriangle, CheckCircle, XCircle, Trash, Ban } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const REPORTS_URL = '/api/admin/reports';
+
+// Select value standing in for "no filter"
+const ALL = 'all';
+
+const ACTION_LABELS: Record<ReportAction, string> = {
+  none: 'No action taken',
+  remove_job: 'Job removed',
+  suspend_company: 'Institution suspended',
+};
+
+const STATUS_VARIANTS: Record<ReportStatus, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'destructive',
+  resolved: 'default',
+  dismissed: 'secondary',
+};
+
+export const reportsUrl = (filters: ReportFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  return params.toString() ? `${REPORTS_URL}?${params}` : REPORTS_URL;
+};
+
+const targetUrl = (report: ReportWithTarget) =>
+  report.type === 'job' && report.targetName ? `/jobs/${report.targetId}` : undefined;
+
+interface ResolveReportParams {
+  id: string;
+  status: 'resolved' | 'dismissed';
+  action?: ReportAction;
+  notes?: string;
+}
+
+export function ModerationQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<ReportFilters>({ status: 'pending' });
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: ReportWithTarget[] }>({
+    queryKey: [reportsUrl(filters)],
+  });
+  const reports = apiResponse?.data || [];
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, ...resolution }: ResolveReportParams) => {
+      await apiRequest('PATCH', `${REPORTS_URL}/${id}`, resolution);
+    },
+    onSuccess: (_, { status }) => {
+      // Every filtered view of the queue may have changed
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(REPORTS_URL),
+      });
+      toast({
+        title: status === 'resolved' ? "Report Resolved" : "Report Dismissed",
+        description: "The moderation decision has been recorded.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Moderation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolve = (report: ReportWithTarget, status: ResolveReportParams['status'], action?: ReportAction) => {
+    resolveMutation.mutate({
+      id: report.id,
+      status,
+      action,
+      notes: notes[report.id]?.trim() || undefined,
+    });
+  };
+
+  const setFilter = (key: keyof ReportFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value === ALL ? undefined : value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <CardTitle>Reports & Moderation</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Select value={filters.status || ALL} onValueChange={(value) => setFilter('status', value)}>
+              <SelectTrigger className="w-36" data-testid="select-report-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {ReportStatus.options.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.type || ALL} onValueChange={(value) => setFilter('type', value)}>
+              <SelectTrigger className="w-36" data-testid="select-report-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {ReportType.options.map((type) => (
+                  <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.reason || ALL} onValueChange={(value) => setFilter('reason', value)}>
+              <SelectTrigger className="w-52" data-testid="select-report-reason-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All reasons</SelectItem>
+                {ReportReason.options.map((reason) => (
+                  <SelectItem key={reason} value={reason}>{REPORT_REASON_LABELS[reason]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading reports..." />
+          </div>
+        ) : reports.length > 0 ? (
+          <div className="space-y-4">
+            {reports.map((report) => {
+              const url = targetUrl(report);
+              const canSuspend = report.type === 'job' || report.type === 'company';
+              return (
+                <div
+                  key={report.id}
+                  className="border border-border rounded-lg p-4 space-y-3"
+                  data-testid={`report-${report.id}`}
+                >
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="outline" className="capitalize">{report.type}</Badge>
+                        <Badge variant={STATUS_VARIANTS[report.status]} className="capitalize">{report.status}</Badge>
+                      </div>
+                      <h4 className="font-semibold text-foreground">
+                        {url ? (
+                          <Link href={url} className="hover:text-primary">{report.targetName}</Link>
+                        ) : (
+                          report.targetName || <span className="text-muted-foreground">Deleted {report.type}</span>
+                        )}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        {REPORT_REASON_LABELS[report.reason]} • Reported {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    {report.status !== 'pending' && report.action && (
+                      <p className="text-sm text-muted-foreground">{ACTION_LABELS[report.action]}</p>
+                    )}
+                  </div>
+
+                  {report.notes && (
+                    <p className="text-sm text-foreground bg-muted rounded-md p-3">{report.notes}</p>
+                  )}
+                  {report.adminNotes && (
+                    <p className="text-sm text-muted-foreground">Moderator notes: {report.adminNotes}</p>
+                  )}
+
+                  {report.status === 'pending' && (
+                    <div className="flex flex-col md:flex-row md:items-center gap-2">
+                      <Input
+                        placeholder="Moderator notes (optional)"
+                        value={notes[report.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+                        maxLength={2000}
+                        className="md:flex-1"
+                        data-testid={`input-moderator-notes-${report.id}`}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resolve(report, 'dismissed')}
+                          disabled={resolveMutation.isPending}
+                          data-testid={`button-dismiss-report-${report.id}`}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Dismiss
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resolve(report, 'resolved', 'none')}
+                          disabled={resolveMutation.isPending}
+                          data-testid={`button-resolve-report-${report.id}`}
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Resolve
+                        </Button>
+                        {report.type === 'job' && report.targetName && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={resolveMutation.isPending}
+                                data-testid={`button-remove-job-${report.id}`}
+                              >
+                                <Trash className="w-4 h-4 mr-1" />
+                                Remove Job
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Remove this job?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{report.targetName}" will be taken down and the employer notified.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => resolve(report, 'resolved', 'remove_job')}>
+                                  Remove Job
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        {canSuspend && report.targetName && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={resolveMutation.isPending}
+                                data-testid={`button-suspend-company-${report.id}`}
+                              >
+                                <Ban className="w-4 h-4 mr-1" />
+                                Suspend Institution
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Suspend this institution?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The institution will be suspended and all of its job postings taken down.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => resolve(report, 'resolved', 'suspend_company')}>
+                                  Suspend Institution
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <AlertTriangle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-foreground mb-2">No Reports</h3>
+            <p className="text-muted-foreground">
+              No abuse reports match these filters.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ModerationQueue;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { Link, useLocation } from 'wouter';
 import { useAuth } from '@/context/AuthProvider';
-import { logout } from '@/lib/auth';
+import { logout, logoutEverywhere } from '@/lib/auth';
+import { STAFF_ROLES } from '@shared/schema';
 import { Button } from './ui/button';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import {
@@ -13,16 +14,17 @@ import {
 } from './ui/dropdown-menu';
 import {
   GraduationCap,
-  Bell,
   User,
   Settings,
   LogOut,
   Briefcase,
   Home,
   Shield,
+  Building,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { RoleGate } from './RoleGate';
+import { RequireStaff, RoleGate } from './RoleGate';
+import { NotificationBell } from './NotificationBell';
 
 interface NavigationProps {
   className?: string;
@@ -61,7 +63,7 @@ export function Navigation({ className }: NavigationProps) {
       label: 'Admin',
       href: '/admin',
       icon: Shield,
-      roles: ['admin'],
+      roles: STAFF_ROLES,
     },
   ];
 
@@ -73,6 +75,14 @@ export function Navigation({ className }: NavigationProps) {
     }
   };
 
+  const handleSignOutEverywhere = async () => {
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      console.error('Sign out error:', error);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -129,17 +139,7 @@ export function Navigation({ className }: NavigationProps) {
             {user ? (
               <>
                 {/* Notifications */}
-                <div className="relative">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="p-2"
-                    data-testid="button-notifications"
-                  >
-                    <Bell className="w-5 h-5" />
-                  </Button>
-                  <span className="absolute -top-1 -right-1 w-3 h-3 bg-accent rounded-full"></span>
-                </div>
+                <NotificationBell />
 
                 {/* User Menu */}
                 <DropdownMenu>
@@ -175,6 +175,12 @@ export function Navigation({ className }: NavigationProps) {
                           Profile
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/employer" data-testid="menu-item-register-institution">
+                          <Building className="mr-2 h-4 w-4" />
+                          Register Institution
+                        </Link>
+                      </DropdownMenuItem>
                     </RoleGate>
                     
                     <RoleGate allowedRoles={['employer']}>
@@ -186,14 +192,14 @@ export function Navigation({ className }: NavigationProps) {
                       </DropdownMenuItem>
                     </RoleGate>
                     
-                    <RoleGate allowedRoles={['admin']}>
+                    <RequireStaff>
                       <DropdownMenuItem asChild>
                         <Link href="/admin" data-testid="menu-item-admin">
                           <Shield className="mr-2 h-4 w-4" />
                           Admin Panel
                         </Link>
                       </DropdownMenuItem>
-                    </RoleGate>
+                    </RequireStaff>
                     
                     <DropdownMenuItem data-testid="menu-item-settings">
                       <Settings className="mr-2 h-4 w-4" />
@@ -206,6 +212,11 @@ export function Navigation({ className }: NavigationProps) {
                       <LogOut className="mr-2 h-4 w-4" />
                       Sign Out
                     </DropdownMenuItem>
+
+                    <DropdownMenuItem onClick={handleSignOutEverywhere} data-testid="menu-item-logout-everywhere">
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Sign Out Everywhere
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </>
@@ -0,0 +1,136 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { Notification, NotificationFeed } from '@/lib/types';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Bell } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const NOTIFICATIONS_URL = '/api/notifications';
+
+// Poll for new notifications while the app is open
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const TYPE_COLORS: Record<Notification['type'], string> = {
+  info: 'bg-blue-500',
+  success: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  error: 'bg-red-500',
+};
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: apiResponse } = useQuery<{ data: NotificationFeed }>({
+    queryKey: [NOTIFICATIONS_URL],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+  const notifications = apiResponse?.data.items || [];
+  const unreadCount = apiResponse?.data.unreadCount || 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await apiRequest('POST', `${NOTIFICATIONS_URL}/read`, { ids });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_URL] });
+    },
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.actionUrl) {
+      setLocation(notification.actionUrl);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative p-2"
+          data-testid="button-notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-accent text-accent-foreground text-xs rounded-full flex items-center justify-center"
+              data-testid="text-unread-count"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end" forceMount>
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start space-x-3 py-3 cursor-pointer"
+                onSelect={() => handleSelect(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 w-2 h-2 rounded-full flex-shrink-0",
+                    notification.read ? 'bg-transparent' : TYPE_COLORS[notification.type]
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm text-foreground", !notification.read && "font-semibold")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    {notification.actionLabel && ` • ${notification.actionLabel}`}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </ScrollArea>
+        ) : (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default NotificationBell;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { ApplicationWithApplicant } from '@/lib/types';
+import { Job, Offer, OfferStatus, isOfferExpired } from '@shared/schema';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { FileText, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const OFFER_STATUS_STYLES: Record<OfferStatus | 'expired', { label: string; className: string }> = {
+  pending: { label: 'Awaiting reply', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-800' },
+  withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800' },
+};
+
+export const offerStatusStyle = (offer: Offer) =>
+  OFFER_STATUS_STYLES[isOfferExpired(offer) ? 'expired' : offer.status];
+
+export const offersUrl = (jobId: string) => `/api/employer/jobs/${jobId}/offers`;
+
+export const formatOfferDate = (date: Date | string) => format(new Date(date), 'd MMM yyyy');
+
+export const formatOfferSalary = (offer: Offer) =>
+  `${offer.currency === 'INR' ? '₹' : `${offer.currency} `}${offer.salary.toLocaleString('en-IN')} a year`;
+
+// Opens the offer letter through a short-lived link. The tab is opened on
+// click, before the link is fetched, so popup blockers let it through.
+export function OfferLetterButton({ offerId }: { offerId: string }) {
+  const { toast } = useToast();
+
+  const letterMutation = useMutation({
+    mutationFn: async (tab: Window | null) => {
+      const res = await apiRequest('GET', `/api/offers/${offerId}/letter`);
+      const { data } = await res.json();
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = data.url;
+      }
+    },
+    onError: (error, tab) => {
+      tab?.close();
+      toast({ title: "Could Not Open Offer Letter", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => letterMutation.mutate(window.open('', '_blank'))}
+      disabled={letterMutation.isPending}
+      data-testid={`button-offer-letter-${offerId}`}
+    >
+      <FileText className="w-4 h-4 mr-1" />
+      Letter
+    </Button>
+  );
+}
+
+interface OfferDialogProps {
+  application: ApplicationWithApplicant;
+  job: Job;
+}
+
+// Makes a shortlisted applicant an offer; the server generates the letter
+export function OfferDialog({ application, job }: OfferDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [salary, setSalary] = useState(job.maxSalary?.toString() || '');
+  const [payLevel, setPayLevel] = useState('');
+  const [joiningDate, setJoiningDate] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+
+  const offerMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/applications/${application.id}/offer`, {
+        salary: Number(salary),
+        currency: job.currency || 'INR',
+        payLevel: payLevel.trim(),
+        joiningDate: new Date(joiningDate).toISOString(),
+        // Offers stay open until the end of their last day
+        expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/employer/jobs/${job.id}/applications`] });
+      queryClient.invalidateQueries({ queryKey: [offersUrl(job.id)] });
+      toast({ title: "Offer Sent", description: "The applicant has been emailed the offer letter." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Make Offer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applicantName = application.applicant?.displayName || 'the applicant';
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="w-full h-8 text-xs" data-testid={`button-make-offer-${application.id}`}>
+          <Send className="w-3 h-3 mr-1" />
+          Make Offer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offer {applicantName} the post</DialogTitle>
+          <DialogDescription>
+            An offer letter is generated from these terms and emailed to {applicantName}, who can accept or decline
+            it until it expires.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="offer-salary">Salary ({job.currency || 'INR'} per year)</Label>
+              <Input
+                id="offer-salary"
+                inputMode="numeric"
+                value={salary}
+                onChange={(e) => setSalary(e.target.value.replace(/\D/g, ''))}
+                data-testid="input-offer-salary"
+              />
+            </div>
+            <div>
+              <Label htmlFor="offer-pay-level">Pay level</Label>
+              <Input
+                id="offer-pay-level"
+                value={payLevel}
+                onChange={(e) => setPayLevel(e.target.value)}
+                placeholder="e.g. Academic Level 10 (7th CPC)"
+                maxLength={200}
+                data-testid="input-offer-pay-level"
+              />
+            </div>
+            <div>
+              <Label htmlFor="offer-joining-date">Joining date</Label>
+              <Input
+                id="offer-joining-date"
+                type="date"
+                value={joiningDate}
+                onChange={(e) => setJoiningDate(e.target.value)}
+                data-testid="input-offer-joining-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="offer-expires-at">Respond by</Label>
+              <Input
+                id="offer-expires-at"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                data-testid="input-offer-expires-at"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => offerMutation.mutate()}
+            disabled={!Number(salary) || !payLevel.trim() || !joiningDate || !expiresAt || offerMutation.isPending}
+            data-testid="button-confirm-offer"
+          >
+            {offerMutation.isPending ? 'Sending...' : 'Send Offer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default OfferDialog;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { uploadProofDocument } from '@/lib/storage';
+import {
+  Company,
+  CompanyVerification,
+  PROOF_DOCUMENT_LABELS,
+  ProofDocumentStatus,
+  ProofDocumentType,
+} from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { LoadingSpinner } from './LoadingSpinner';
+import { AlertTriangle, FileText, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const PROOF_STATUS_STYLES: Record<ProofDocumentStatus, { label: string; className: string }> = {
+  pending: { label: 'In review', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+export const verificationUrl = (companyId: string) => `/api/companies/${companyId}/verification`;
+
+interface ProofDocumentChecklistProps {
+  company: Company;
+}
+
+// The documents an employer must provide for their institute type, with
+// what moderators made of each
+export function ProofDocumentChecklist({ company }: ProofDocumentChecklistProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [uploadingType, setUploadingType] = useState<ProofDocumentType | null>(null);
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: CompanyVerification }>({
+    queryKey: [verificationUrl(company.id)],
+  });
+  const verification = apiResponse?.data;
+
+  // Documents can only change while the company is in moderation
+  const canUpload = company.status === 'pending' || company.status === 'rejected';
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ type, file }: { type: ProofDocumentType; file: File }) => {
+      const uploaded = await uploadProofDocument(file, company.id);
+      await apiRequest('POST', `/api/companies/${company.id}/documents`, {
+        type,
+        path: uploaded.path,
+        fileName: file.name,
+      });
+    },
+    onMutate: ({ type }) => setUploadingType(type),
+    onSettled: () => setUploadingType(null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [verificationUrl(company.id)] });
+      queryClient.invalidateQueries({ queryKey: ['employer-company'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Document Not Saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (type: ProofDocumentType) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      uploadMutation.mutate({ type, file });
+    }
+  };
+
+  if (isLoading || !verification) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner text="Loading documents..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {verification.domainCheck === 'mismatch' && (
+        <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          Your HR email is not on your website's domain. Moderators will ask for further proof that you recruit for this institution.
+        </div>
+      )}
+
+      {verification.requiredDocuments.map((type) => {
+        const document = verification.documents.find(d => d.type === type);
+        return (
+          <div
+            key={type}
+            className="flex items-start justify-between border border-border rounded-lg p-3"
+            data-testid={`proof-document-${type}`}
+          >
+            <div className="flex items-start">
+              <FileText className="w-5 h-5 text-muted-foreground mr-3 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">{PROOF_DOCUMENT_LABELS[type]}</p>
+                {document ? (
+                  <p className="text-xs text-muted-foreground">{document.fileName}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Not uploaded yet</p>
+                )}
+                {document?.status === 'rejected' && document.reviewNotes && (
+                  <p className="text-xs text-red-700 mt-1">{document.reviewNotes}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-4">
+              {document && (
+                <Badge className={PROOF_STATUS_STYLES[document.status].className}>
+                  {PROOF_STATUS_STYLES[document.status].label}
+                </Badge>
+              )}
+              {canUpload && document?.status !== 'accepted' && (
+                <Button type="button" variant="outline" size="sm" asChild disabled={uploadMutation.isPending}>
+                  <label className="cursor-pointer" data-testid={`button-upload-${type}`}>
+                    {uploadingType === type ? (
+                      <LoadingSpinner size="sm" />
+                    ) : (
+                      <>
+                        <Upload className="w-4 h-4 mr-1" />
+                        {document ? 'Replace' : 'Upload'}
+                      </>
+                    )}
+                    <input
+                      type="file"
+                      accept="application/pdf"
+                      className="hidden"
+                      onChange={handleFile(type)}
+                      disabled={uploadMutation.isPending}
+                    />
+                  </label>
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ProofDocumentChecklist;
@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/context/AuthProvider';
-import { UserRole } from '@shared/schema';
+import { USER_ROLE_LABELS, UserRole } from '@shared/schema';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
@@ -11,7 +11,8 @@ import { useToast } from '@/hooks/use-toast';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: UserRole;
+  // Any one of several roles, e.g. the staff roles for the admin page
+  requiredRole?: UserRole | UserRole[];
   requireEmailVerification?: boolean;
   fallbackPath?: string;
 }
@@ -89,13 +90,8 @@ export function ProtectedRoute({
   }
 
   // Check role requirements
-  if (requiredRole && userProfile?.role !== requiredRole) {
-    const roleNames = {
-      seeker: 'Job Seeker',
-      employer: 'Employer',
-      admin: 'Administrator',
-    };
-
+  const allowedRoles = requiredRole ? ([] as UserRole[]).concat(requiredRole) : [];
+  if (requiredRole && !(userProfile && allowedRoles.includes(userProfile.role))) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
@@ -107,10 +103,10 @@ export function ProtectedRoute({
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <p className="text-muted-foreground">
-              This page requires <strong>{roleNames[requiredRole]}</strong> access.
+              This page requires <strong>{allowedRoles.map(role => USER_ROLE_LABELS[role]).join(' or ')}</strong> access.
             </p>
             <p className="text-sm text-muted-foreground">
-              Your current role: <strong>{userProfile?.role ? roleNames[userProfile.role] : 'Unknown'}</strong>
+              Your current role: <strong>{userProfile?.role ? USER_ROLE_LABELS[userProfile.role] : 'Unknown'}</strong>
             </p>
             <Button
               onClick={() => window.history.back()}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { REJECTION_REASON_LABELS, RejectionReason } from '@shared/schema';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface RejectionDialogProps {
+  targetType: 'company' | 'job';
+  targetId: string;
+  name: string;
+  onRejected: () => void;
+}
+
+export function RejectionDialog({ targetType, targetId, name, onRejected }: RejectionDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
+  const [notes, setNotes] = useState('');
+
+  const toggleReason = (reason: RejectionReason, checked: boolean) =>
+    setReasons(current => checked ? [...current, reason] : current.filter(r => r !== reason));
+
+  // The server requires notes to explain an "other" reason
+  const needsNotes = reasons.includes('other') && !notes.trim();
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      const path = targetType === 'company' ? 'companies' : 'jobs';
+      await apiRequest('PATCH', `/api/admin/${path}/${targetId}/status`, {
+        status: 'rejected',
+        reasons,
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      setReasons([]);
+      setNotes('');
+      onRejected();
+      toast({
+        title: targetType === 'company' ? "Company Rejected" : "Job Rejected",
+        description: "The employer has been sent your feedback and can resubmit.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Rejection Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="destructive" data-testid={`button-reject-${targetType}-${targetId}`}>
+          <XCircle className="w-4 h-4 mr-1" />
+          Reject
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject {name}</DialogTitle>
+          <DialogDescription>
+            The employer is emailed these reasons and can fix the {targetType} and resubmit it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reasons</Label>
+            {RejectionReason.options.map((reason) => (
+              <div key={reason} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`rejection-reason-${reason}`}
+                  checked={reasons.includes(reason)}
+                  onCheckedChange={(checked) => toggleReason(reason, checked === true)}
+                  data-testid={`checkbox-rejection-reason-${reason}`}
+                />
+                <Label htmlFor={`rejection-reason-${reason}`} className="font-normal">
+                  {REJECTION_REASON_LABELS[reason]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div>
+            <Label htmlFor="rejection-notes">Notes for the employer{reasons.includes('other') ? '' : ' (optional)'}</Label>
+            <Textarea
+              id="rejection-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              data-testid="input-rejection-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={() => rejectMutation.mutate()}
+            disabled={reasons.length === 0 || needsNotes || rejectMutation.isPending}
+            data-testid="button-confirm-rejection"
+          >
+            {rejectMutation.isPending ? 'Rejecting...' : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RejectionDialog;
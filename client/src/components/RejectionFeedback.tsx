@@ -0,0 +1,29 @@
+import React from 'react';
+import { REJECTION_REASON_LABELS, RejectionReason } from '@shared/schema';
+
+interface RejectionFeedbackProps {
+  reasons?: RejectionReason[];
+  notes?: string;
+}
+
+// The reasons and notes a moderator gave when rejecting a company or job
+export function RejectionFeedback({ reasons = [], notes }: RejectionFeedbackProps) {
+  if (reasons.length === 0 && !notes) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 text-sm" data-testid="rejection-feedback">
+      {reasons.length > 0 && (
+        <ul className="list-disc list-inside">
+          {reasons.map((reason) => (
+            <li key={reason}>{REJECTION_REASON_LABELS[reason]}</li>
+          ))}
+        </ul>
+      )}
+      {notes && <p className="whitespace-pre-wrap">{notes}</p>}
+    </div>
+  );
+}
+
+export default RejectionFeedback;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { ReportReason, ReportType } from '@shared/schema';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Flag } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  inappropriate_content: 'Inappropriate content',
+  fake_information: 'Fake or misleading information',
+  harassment: 'Harassment',
+  duplicate: 'Duplicate posting',
+  other: 'Other',
+};
+
+interface ReportDialogProps {
+  type: ReportType;
+  targetId: string;
+  label: string;
+}
+
+export function ReportDialog({ type, targetId, label }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [notes, setNotes] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/reports', {
+        type,
+        targetId,
+        reason,
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      setReason('');
+      setNotes('');
+      toast({
+        title: "Report Submitted",
+        description: "Thank you. Our moderators will review your report.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Report Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid={`button-report-${type}`}>
+          <Flag className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{label}</DialogTitle>
+          <DialogDescription>
+            Tell us what's wrong. Reports are confidential and reviewed by our moderators.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value: ReportReason) => setReason(value)}>
+              <SelectTrigger data-testid="select-report-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {ReportReason.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {REPORT_REASON_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="report-notes">Details (optional)</Label>
+            <Textarea
+              id="report-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              rows={4}
+              data-testid="input-report-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            {reportMutation.isPending ? 'Submitting...' : 'Submit Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReportDialog;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useAuth } from '@/context/AuthProvider';
-import { UserRole } from '@shared/schema';
+import { STAFF_ROLES, UserRole } from '@shared/schema';
 
 interface RoleGateProps {
   children: React.ReactNode;
@@ -41,6 +41,11 @@ export function RequireEmployer({ children, fallback = null }: { children: React
   return <RequireRole role="employer" fallback={fallback}>{children}</RequireRole>;
 }
 
+// Any staff role; what each can do within the admin area is up to ADMIN_ROLE_PERMISSIONS
+export function RequireStaff({ children, fallback = null }: { children: React.ReactNode; fallback?: React.ReactNode }) {
+  return <RoleGate allowedRoles={STAFF_ROLES} fallback={fallback}>{children}</RoleGate>;
+}
+
 export function RequireAdmin({ children, fallback = null }: { children: React.ReactNode; fallback?: React.ReactNode }) {
   return <RequireRole role="admin" fallback={fallback}>{children}</RequireRole>;
 }
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { AlertFrequency, JobSearchFilters, SavedSearchFilters } from '@shared/schema';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Bell } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: 'As soon as jobs are posted',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+// Suggest a name from the most specific filters the seeker picked
+const suggestName = (filters: JobSearchFilters) =>
+  [filters.query, filters.department, filters.level, filters.location]
+    .filter(Boolean)
+    .join(' • ') || 'All faculty positions';
+
+interface SaveSearchDialogProps {
+  filters: JobSearchFilters;
+}
+
+export function SaveSearchDialog({ filters }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<AlertFrequency>('daily');
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Keep only the filters that describe which jobs match
+      const { page, limit, sortBy, ...searchFilters } = filters;
+      const body: { name: string; filters: SavedSearchFilters; frequency: AlertFrequency } = {
+        name: name.trim() || suggestName(filters),
+        filters: searchFilters,
+        frequency,
+      };
+      await apiRequest('POST', '/api/saved-searches', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      setOpen(false);
+      setName('');
+      toast({
+        title: "Search Saved",
+        description: "We'll email you when new jobs match this search.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-save-search">
+          <Bell className="w-4 h-4 mr-2" />
+          Save Search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>
+            Get an email when new positions match your current filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              placeholder={suggestName(filters)}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              data-testid="input-saved-search-name"
+            />
+          </div>
+          <div>
+            <Label>Email me</Label>
+            <Select value={frequency} onValueChange={(value: AlertFrequency) => setFrequency(value)}>
+              <SelectTrigger data-testid="select-saved-search-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AlertFrequency.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {ALERT_FREQUENCY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-confirm-save-search"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaveSearchDialog;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { AlertFrequency, SavedSearch } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ALERT_FREQUENCY_LABELS } from './SaveSearchDialog';
+import { Bell, Trash } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+// Short summary of the filters a saved search uses
+const describeFilters = (search: SavedSearch) => {
+  const { query, department, instituteType, level, location, employmentType } = search.filters;
+  return [query && `"${query}"`, department, instituteType, level, location, employmentType]
+    .filter(Boolean)
+    .join(' • ') || 'All positions';
+};
+
+export function SavedSearches() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiResponse, isLoading } = useQuery<{ data: SavedSearch[] }>({
+    queryKey: ['/api/saved-searches'],
+  });
+  const savedSearches = apiResponse?.data || [];
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; active?: boolean; frequency?: AlertFrequency }) => {
+      await apiRequest('PATCH', `/api/saved-searches/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      toast({
+        title: "Search Deleted",
+        description: "You will no longer receive alerts for this search.",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Searches & Job Alerts</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading saved searches..." />
+          </div>
+        ) : savedSearches.length > 0 ? (
+          <div className="space-y-4">
+            {savedSearches.map((search) => (
+              <div
+                key={search.id}
+                className="border border-border rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+                data-testid={`saved-search-${search.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold text-foreground">{search.name}</h4>
+                    {!search.active && <Badge variant="secondary">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{describeFilters(search)}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Select
+                    value={search.frequency}
+                    onValueChange={(frequency: AlertFrequency) => updateMutation.mutate({ id: search.id, frequency })}
+                  >
+                    <SelectTrigger className="w-52" data-testid={`select-frequency-${search.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AlertFrequency.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {ALERT_FREQUENCY_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Switch
+                    checked={search.active}
+                    onCheckedChange={(active) => updateMutation.mutate({ id: search.id, active })}
+                    aria-label="Email alerts"
+                    data-testid={`switch-active-${search.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(search.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-search-${search.id}`}
+                  >
+                    <Trash className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Bell className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              Save a search on the jobs page to get emailed when new positions match.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SavedSearches;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { ApplicationScorecards } from '@/lib/types';
+import { CriterionScore, HiringCommittee, SCORE_MAX, SCORE_MIN, weightedScore } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { rankingsUrl } from './HiringCommitteeDialog';
+import { EyeOff, Star } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const SCORE_OPTIONS = Array.from({ length: SCORE_MAX - SCORE_MIN + 1 }, (_, i) => SCORE_MIN + i);
+
+interface ScorecardDialogProps {
+  applicationId: string;
+  applicantName: string;
+  committee: HiringCommittee;
+  currentUid: string;
+}
+
+// A committee member's scorecard for one candidate, and once it's submitted,
+// everyone else's
+export function ScorecardDialog({ applicationId, applicantName, committee, currentUid }: ScorecardDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [scores, setScores] = useState<CriterionScore[]>([]);
+  const [comment, setComment] = useState('');
+
+  const scorecardsUrl = `/api/applications/${applicationId}/scorecards`;
+  const { data: apiResponse, isLoading } = useQuery<{ data: ApplicationScorecards }>({
+    queryKey: [scorecardsUrl],
+    enabled: open,
+  });
+  const own = apiResponse?.data.scorecards.find(s => s.reviewerUid === currentUid);
+  const others = apiResponse?.data.scorecards.filter(s => s.reviewerUid !== currentUid) || [];
+  const isMember = committee.memberUids.includes(currentUid);
+  const submitted = own?.status === 'submitted';
+
+  // Start from the saved draft once it has loaded
+  useEffect(() => {
+    if (open) {
+      setScores(own?.scores || []);
+      setComment(own?.comment || '');
+    }
+  }, [open, own?.id]);
+
+  const setScore = (criterionId: string, score: number) =>
+    setScores(current => [...current.filter(s => s.criterionId !== criterionId), { criterionId, score }]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (submit: boolean) => {
+      await apiRequest('PUT', `/api/applications/${applicationId}/scorecard`, {
+        scores,
+        comment: comment.trim() || undefined,
+        submit,
+      });
+    },
+    onSuccess: (_, submit) => {
+      queryClient.invalidateQueries({ queryKey: [scorecardsUrl] });
+      queryClient.invalidateQueries({ queryKey: [rankingsUrl(committee.jobId)] });
+      toast(submit
+        ? { title: "Scorecard Submitted", description: "You can now see the rest of the committee's scores." }
+        : { title: "Draft Saved", description: "Your scores are saved but not yet visible to the committee." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Save Scorecard", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const complete = committee.criteria.every(c => scores.some(s => s.criterionId === c.id));
+  const label = (criterionId: string) => committee.criteria.find(c => c.id === criterionId)?.label || criterionId;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-scorecard-${applicationId}`}>
+          <Star className="w-4 h-4 mr-1" />
+          {isMember && !submitted ? 'Score' : 'Scores'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{applicantName}</DialogTitle>
+          <DialogDescription>
+            Scores run from {SCORE_MIN} (weak) to {SCORE_MAX} (outstanding). Submitted scorecards are final.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading scorecards..." />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {isMember && (
+              <div className="space-y-4">
+                {committee.criteria.map((criterion) => {
+                  const current = scores.find(s => s.criterionId === criterion.id)?.score;
+                  return (
+                    <div key={criterion.id} className="flex items-center justify-between">
+                      <Label>
+                        {criterion.label} <span className="text-xs text-muted-foreground">×{criterion.weight}</span>
+                      </Label>
+                      <div className="flex space-x-1">
+                        {SCORE_OPTIONS.map((score) => (
+                          <Button
+                            key={score}
+                            type="button"
+                            size="sm"
+                            variant={current === score ? 'default' : 'outline'}
+                            className="w-9"
+                            onClick={() => setScore(criterion.id, score)}
+                            disabled={submitted}
+                            data-testid={`button-score-${criterion.id}-${score}`}
+                          >
+                            {score}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                <div>
+                  <Label htmlFor="scorecard-comment">Comment (optional)</Label>
+                  <Textarea
+                    id="scorecard-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    maxLength={5000}
+                    rows={3}
+                    disabled={submitted}
+                    data-testid="input-scorecard-comment"
+                  />
+                </div>
+              </div>
+            )}
+
+            {apiResponse?.data.hidden ? (
+              <div className="flex items-start bg-muted rounded-lg p-3 text-sm text-muted-foreground" data-testid="scores-hidden">
+                <EyeOff className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                The other members' scores are hidden until you submit your own, so they don't sway you.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <h4 className="font-medium text-foreground">Committee Scores</h4>
+                {others.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No {isMember ? 'other ' : ''}member has submitted a scorecard yet.
+                  </p>
+                )}
+                {others.map((scorecard) => (
+                  <div
+                    key={scorecard.id}
+                    className="border border-border rounded-lg p-3 space-y-1"
+                    data-testid={`scorecard-${scorecard.reviewerUid}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-foreground">
+                        {scorecard.reviewer?.displayName || 'Deleted account'}
+                      </p>
+                      <Badge variant="secondary">
+                        {weightedScore(committee.criteria, scorecard.scores)?.toFixed(2) ?? '—'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {scorecard.scores.map(s => `${label(s.criterionId)} ${s.score}`).join(' • ')}
+                    </p>
+                    {scorecard.comment && (
+                      <p className="text-sm text-foreground whitespace-pre-line">{scorecard.comment}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isMember && !submitted && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate(false)}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-scorecard"
+            >
+              Save Draft
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(true)}
+              disabled={!complete || saveMutation.isPending}
+              data-testid="button-submit-scorecard"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Submit Scorecard'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ScorecardDialog;
@@ -0,0 +1,505 @@
+import React, { useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/context/AuthProvider';
+import { UserDetail } from '@/lib/types';
+import { CursorPaginatedResponse, USER_ROLE_LABELS, User, UserRole, hasAdminPermission } from '@shared/schema';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Ban, History, Mail, Search, ShieldCheck, Trash, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const ADMIN_USERS_URL = '/api/admin/users';
+
+// Select value standing in for "no filter"
+const ALL = 'all';
+
+interface UserFilterValues {
+  q?: string;
+  role?: UserRole;
+  emailVerified?: 'true' | 'false';
+}
+
+const formatDate = (date: Date | string) => format(new Date(date), 'dd MMM yyyy');
+
+function UserDetailDialog({ uid, onClose, onShowAudit }: {
+  uid: string;
+  onClose: () => void;
+  onShowAudit?: (uid: string) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userProfile } = useAuth();
+  const [reason, setReason] = useState('');
+
+  // Support staff only look accounts up and resend their emails
+  const canManage = hasAdminPermission(userProfile?.role, 'manage_users');
+  const canEmail = hasAdminPermission(userProfile?.role, 'send_user_emails');
+
+  const detailUrl = `${ADMIN_USERS_URL}/${uid}`;
+  const { data: apiResponse, isLoading } = useQuery<{ data: UserDetail }>({
+    queryKey: [detailUrl],
+  });
+  const detail = apiResponse?.data;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [detailUrl] });
+    queryClient.invalidateQueries({ queryKey: [ADMIN_USERS_URL] });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async (role: UserRole) => {
+      await apiRequest('PATCH', `${detailUrl}/role`, { role });
+    },
+    onSuccess: (_, role) => {
+      onChanged();
+      toast({ title: "Role Changed", description: `The account is now ${USER_ROLE_LABELS[role].toLowerCase()}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Change Role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const suspensionMutation = useMutation({
+    mutationFn: async (suspend: boolean) => {
+      await apiRequest('POST', `${detailUrl}/${suspend ? 'suspend' : 'unsuspend'}`, suspend ? { reason: reason.trim() } : undefined);
+    },
+    onSuccess: (_, suspend) => {
+      setReason('');
+      onChanged();
+      toast(suspend
+        ? { title: "Account Suspended", description: "The user has been signed out and cannot sign in." }
+        : { title: "Suspension Lifted", description: "The user can sign in again." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Update Suspension", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verificationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `${detailUrl}/verification-email`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [detailUrl] });
+      toast({ title: "Verification Email Sent", description: "The user has been sent a new verification link." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Send Email", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', detailUrl);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ADMIN_USERS_URL] });
+      onClose();
+      toast({ title: "User Deleted", description: "The account and its data have been removed." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Delete User", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !detail ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading user..." />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{detail.user.displayName}</DialogTitle>
+              <DialogDescription>
+                {detail.user.email} • Joined {formatDate(detail.user.createdAt)}
+                {!detail.user.emailVerified && ' • Email not verified'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Role</Label>
+                  {canManage ? (
+                    <Select
+                      value={detail.user.role}
+                      onValueChange={(value: UserRole) => roleMutation.mutate(value)}
+                      disabled={roleMutation.isPending}
+                    >
+                      <SelectTrigger data-testid="select-user-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {UserRole.options.map((role) => (
+                          <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-sm text-foreground mt-2" data-testid="text-user-role">
+                      {USER_ROLE_LABELS[detail.user.role]}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <Label>Institution</Label>
+                  <p className="text-sm text-foreground mt-2" data-testid="text-user-company">
+                    {detail.company
+                      ? `${detail.company.name} (${detail.companyRole}, ${detail.company.status})`
+                      : 'None'}
+                  </p>
+                </div>
+              </div>
+
+              {canEmail && !detail.user.emailVerified && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => verificationMutation.mutate()}
+                  disabled={verificationMutation.isPending}
+                  data-testid="button-resend-user-verification"
+                >
+                  <Mail className="w-4 h-4 mr-1" />
+                  Resend Verification Email
+                </Button>
+              )}
+
+              {detail.user.suspendedAt ? (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 space-y-2">
+                  <p className="text-sm text-red-800">
+                    Suspended on {formatDate(detail.user.suspendedAt)}: {detail.user.suspensionReason}
+                  </p>
+                  {canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => suspensionMutation.mutate(false)}
+                      disabled={suspensionMutation.isPending}
+                      data-testid="button-unsuspend-user"
+                    >
+                      <ShieldCheck className="w-4 h-4 mr-1" />
+                      Lift Suspension
+                    </Button>
+                  )}
+                </div>
+              ) : canManage && (
+                <div className="space-y-2">
+                  <Label htmlFor="suspension-reason">Suspend account</Label>
+                  <Textarea
+                    id="suspension-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Why is this account being suspended?"
+                    maxLength={2000}
+                    rows={2}
+                    data-testid="input-suspension-reason"
+                  />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => suspensionMutation.mutate(true)}
+                    disabled={!reason.trim() || suspensionMutation.isPending}
+                    data-testid="button-suspend-user"
+                  >
+                    <Ban className="w-4 h-4 mr-1" />
+                    Suspend
+                  </Button>
+                </div>
+              )}
+
+              {canManage && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-user"
+                    >
+                      <Trash className="w-4 h-4 mr-1" />
+                      Delete Account
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {detail.user.displayName}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The account, its applications and any institution it created are removed for good. This
+                        cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete Account</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-2">Jobs posted ({detail.jobs.length})</h4>
+                {detail.jobs.length > 0 ? (
+                  <ul className="space-y-1">
+                    {detail.jobs.map((job) => (
+                      <li key={job.id} className="flex items-center justify-between text-sm" data-testid={`user-job-${job.id}`}>
+                        <span>{job.title}</span>
+                        <Badge variant="outline" className="capitalize">{job.status}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">None</p>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-2">
+                  Applications ({detail.applications.length})
+                </h4>
+                {detail.applications.length > 0 ? (
+                  <ul className="space-y-1">
+                    {detail.applications.map((application) => (
+                      <li
+                        key={application.id}
+                        className="flex items-center justify-between text-sm"
+                        data-testid={`user-application-${application.id}`}
+                      >
+                        <span>{application.job?.title || 'Deleted job'} • {formatDate(application.createdAt)}</span>
+                        <Badge variant="outline" className="capitalize">{application.status}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">None</p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-foreground">Recent activity</h4>
+                  {onShowAudit && (
+                    <Button variant="ghost" size="sm" onClick={() => onShowAudit(uid)} data-testid="button-user-audit-log">
+                      <History className="w-4 h-4 mr-1" />
+                      Open in audit log
+                    </Button>
+                  )}
+                </div>
+                {detail.auditTrail.length > 0 ? (
+                  <ul className="space-y-1">
+                    {detail.auditTrail.map((log) => (
+                      <li key={log.id} className="text-sm text-muted-foreground" data-testid={`user-audit-${log.id}`}>
+                        {format(new Date(log.timestamp), 'dd MMM yyyy, HH:mm')} •{' '}
+                        <span className="capitalize text-foreground">{log.action.replace(/_/g, ' ')}</span>
+                        {log.actorUid !== uid && <> by <span className="font-mono text-xs">{log.actorUid}</span></>}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No recorded activity.</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface UserManagementProps {
+  // Opens the audit tab scoped to a user, for staff who can read it
+  onShowAudit?: (uid: string) => void;
+}
+
+// Admin console for finding accounts and, for super-admins, changing their
+// role or suspension
+export function UserManagement({ onShowAudit }: UserManagementProps) {
+  const [filters, setFilters] = useState<UserFilterValues>({});
+  const [selectedUid, setSelectedUid] = useState<string>();
+
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [ADMIN_USERS_URL, params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) {
+        pageParams.set('cursor', pageParam);
+      }
+      const res = await apiRequest('GET', `${ADMIN_USERS_URL}?${pageParams}`);
+      const body: { data: CursorPaginatedResponse<User> } = await res.json();
+      return body.data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const users = data?.pages.flatMap(page => page.items) || [];
+
+  const setFilter = (key: keyof UserFilterValues, value: string) => {
+    setFilters({ ...filters, [key]: value === ALL || !value ? undefined : value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="user-search">Email or name</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="user-search"
+                className="pl-9"
+                value={filters.q || ''}
+                onChange={(e) => setFilter('q', e.target.value)}
+                data-testid="input-user-search"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={filters.role || ALL} onValueChange={(value) => setFilter('role', value)}>
+              <SelectTrigger data-testid="select-user-role-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All roles</SelectItem>
+                {UserRole.options.map((role) => (
+                  <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Email</Label>
+            <Select value={filters.emailVerified || ALL} onValueChange={(value) => setFilter('emailVerified', value)}>
+              <SelectTrigger data-testid="select-user-verified-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Verified or not</SelectItem>
+                <SelectItem value="true">Verified</SelectItem>
+                <SelectItem value="false">Not verified</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading users..." />
+          </div>
+        ) : users.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Joined</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow
+                    key={user.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedUid(user.id)}
+                    data-testid={`user-row-${user.id}`}
+                  >
+                    <TableCell>
+                      <p className="font-medium text-foreground">{user.displayName}</p>
+                      <p className="text-xs text-muted-foreground">{user.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{USER_ROLE_LABELS[user.role]}</Badge>
+                    </TableCell>
+                    <TableCell className="space-x-1">
+                      {user.suspendedAt ? (
+                        <Badge className="bg-red-100 text-red-800">Suspended</Badge>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800">Active</Badge>
+                      )}
+                      {!user.emailVerified && <Badge className="bg-yellow-100 text-yellow-800">Unverified</Badge>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(user.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-users"
+                >
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-8">
+            <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No users match these filters.</p>
+          </div>
+        )}
+
+        {selectedUid && (
+          <UserDetailDialog
+            uid={selectedUid}
+            onClose={() => setSelectedUid(undefined)}
+            onShowAudit={onShowAudit && ((uid) => {
+              setSelectedUid(undefined);
+              onShowAudit(uid);
+            })}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default UserManagement;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Application, MAX_WITHDRAWALS_PER_JOB, WITHDRAWABLE_APPLICATION_STATUSES } from '@shared/schema';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { MY_INTERVIEWS_URL } from './ApplicationInterviews';
+import { Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface WithdrawApplicationDialogProps {
+  application: Application;
+}
+
+// Lets an applicant withdraw an application that has not reached an offer
+export function WithdrawApplicationDialog({ application }: WithdrawApplicationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/applications/${application.id}/withdraw`, {
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['user-applications'] });
+      queryClient.invalidateQueries({ queryKey: [MY_INTERVIEWS_URL] });
+      toast({ title: "Application Withdrawn", description: "The institution has been told." });
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Withdraw Application", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!WITHDRAWABLE_APPLICATION_STATUSES.includes(application.status)) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid={`button-withdraw-application-${application.id}`}>
+          <Undo2 className="w-4 h-4 mr-1" />
+          Withdraw
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Withdraw this application?</DialogTitle>
+          <DialogDescription>
+            The institution will be told and any interviews you booked are cancelled. You can apply again before
+            the closing date, up to {MAX_WITHDRAWALS_PER_JOB} withdrawals per job.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor={`withdraw-reason-${application.id}`}>Reason (optional)</Label>
+          <Textarea
+            id={`withdraw-reason-${application.id}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. I have accepted another position"
+            maxLength={2000}
+            rows={3}
+            data-testid="input-withdraw-reason"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={() => withdrawMutation.mutate()}
+            disabled={withdrawMutation.isPending}
+            data-testid="button-confirm-withdraw-application"
+          >
+            {withdrawMutation.isPending ? 'Withdrawing...' : 'Withdraw Application'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default WithdrawApplicationDialog;
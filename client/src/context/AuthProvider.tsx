@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User as FirebaseUser, onAuthStateChanged } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
-import { getUserProfile } from '@/lib/auth';
+import { getUserProfile, startServerSession } from '@/lib/auth';
 import { User } from '@shared/schema';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 
@@ -52,7 +52,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setUser(firebaseUser);
       
       if (firebaseUser) {
-        await fetchUserProfile(firebaseUser);
+        await Promise.all([fetchUserProfile(firebaseUser), startServerSession(firebaseUser)]);
       } else {
         setUserProfile(null);
       }
@@ -20,13 +20,17 @@ import { doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "./firebase";
 import { User, InsertUser } from "@shared/schema";
 import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "./queryClient";
+
+// The server only starts sessions for sign-ins this recent
+const SESSION_SIGN_IN_WINDOW_MS = 5 * 60 * 1000;
 
 export interface AuthContextType {
   user: FirebaseUser | null;
   userProfile: User | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<UserCredential>;
-  signUp: (email: string, password: string, displayName: string, role?: "seeker" | "employer") => Promise<UserCredential>;
+  signUp: (email: string, password: string, displayName: string) => Promise<UserCredential>;
   signInWithGoogle: () => Promise<UserCredential>;
   signInWithPhone: (phoneNumber: string, recaptchaVerifier: RecaptchaVerifier) => Promise<ConfirmationResult>;
   sendVerificationEmail: (user?: FirebaseUser) => Promise<void>;
@@ -40,8 +44,9 @@ const googleProvider = new GoogleAuthProvider();
 googleProvider.addScope('email');
 googleProvider.addScope('profile');
 
-// Helper function to create user profile in Firestore
-export async function createUserProfile(user: FirebaseUser, additionalData: Partial<InsertUser> = {}): Promise<User> {
+// Helper function to create user profile in Firestore. Everyone starts as a
+// seeker; the server grants other roles.
+export async function createUserProfile(user: FirebaseUser, additionalData: Partial<Omit<InsertUser, 'role'>> = {}): Promise<User> {
   const userDocRef = doc(db, 'users', user.uid);
   const userSnapshot = await getDoc(userDocRef);
   
@@ -49,9 +54,9 @@ export async function createUserProfile(user: FirebaseUser, additionalData: Part
     const userProfile: InsertUser = {
       displayName: user.displayName || additionalData.displayName || 'Anonymous User',
       email: user.email!,
-      role: additionalData.role || 'seeker',
       emailVerified: user.emailVerified,
       ...additionalData,
+      role: 'seeker',
     };
 
     await setDoc(userDocRef, {
@@ -134,8 +139,7 @@ export const signIn = async (email: string, password: string): Promise<UserCrede
 export const signUp = async (
   email: string, 
   password: string, 
-  displayName: string,
-  role: "seeker" | "employer" = "seeker"
+  displayName: string
 ): Promise<UserCredential> => {
   try {
     const result = await createUserWithEmailAndPassword(auth, email, password);
@@ -144,7 +148,7 @@ export const signUp = async (
     await updateProfile(result.user, { displayName });
     
     // Create user profile in Firestore
-    await createUserProfile(result.user, { displayName, role });
+    await createUserProfile(result.user, { displayName });
     
     // Send verification email
     await sendEmailVerification(result.user);
@@ -307,8 +311,31 @@ export const resetPassword = async (email: string): Promise<void> => {
   }
 };
 
+// Exchanges a fresh sign-in for the server's HTTP-only session cookie. API
+// requests also carry the ID token, so a failed exchange is only logged.
+export const startServerSession = async (user: FirebaseUser): Promise<void> => {
+  try {
+    const { token, authTime } = await user.getIdTokenResult();
+    if (Date.now() - Date.parse(authTime) > SESSION_SIGN_IN_WINDOW_MS) {
+      return;
+    }
+    await apiRequest("POST", "/api/auth/session", { idToken: token });
+  } catch (error) {
+    console.error("Failed to start server session:", error);
+  }
+};
+
+const endServerSession = async (): Promise<void> => {
+  try {
+    await apiRequest("DELETE", "/api/auth/session");
+  } catch (error) {
+    console.error("Failed to end server session:", error);
+  }
+};
+
 export const logout = async (): Promise<void> => {
   try {
+    await endServerSession();
     await signOut(auth);
     toast({
       title: "Signed Out",
@@ -326,6 +353,26 @@ export const logout = async (): Promise<void> => {
   }
 };
 
+// Revokes the user's sessions on every device, then signs out here
+export const logoutEverywhere = async (): Promise<void> => {
+  try {
+    await apiRequest("POST", "/api/auth/revoke");
+    await signOut(auth);
+    toast({
+      title: "Signed Out Everywhere",
+      description: "You have been signed out on all your devices",
+      variant: "default",
+    });
+  } catch (error) {
+    toast({
+      title: "Sign Out Failed",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+    throw error;
+  }
+};
+
 export const createRecaptchaVerifier = (elementId: string): RecaptchaVerifier => {
   return new RecaptchaVerifier(auth, elementId, {
     size: 'normal',
@@ -26,6 +26,8 @@ import {
   Job,
   JobSearchFilters,
   Company,
+  CompanyMembership,
+  CompanyRole,
   Application,
   User,
   Report,
@@ -36,17 +38,11 @@ import {
   InsertApplication,
   InsertReport,
   InsertAuditLog,
+  COLLECTIONS,
 } from "@shared/schema";
 
 // Collections
-export const COLLECTIONS = {
-  USERS: 'users',
-  COMPANIES: 'companies',
-  JOBS: 'jobs',
-  APPLICATIONS: 'applications',
-  REPORTS: 'reports',
-  AUDIT_LOGS: 'auditLogs',
-} as const;
+export { COLLECTIONS };
 
 // Helper to convert Firestore timestamp to Date
 export const timestampToDate = (timestamp: any): Date => {
@@ -167,6 +163,7 @@ export class FirestoreService<T> {
 // Service instances
 export const userService = new FirestoreService<User>(COLLECTIONS.USERS);
 export const companyService = new FirestoreService<Company>(COLLECTIONS.COMPANIES);
+export const companyMembershipService = new FirestoreService<CompanyMembership>(COLLECTIONS.COMPANY_MEMBERSHIPS);
 export const jobService = new FirestoreService<Job>(COLLECTIONS.JOBS);
 export const applicationService = new FirestoreService<Application>(COLLECTIONS.APPLICATIONS);
 export const reportService = new FirestoreService<Report>(COLLECTIONS.REPORTS);
@@ -341,6 +338,25 @@ export async function getCompanyByOwner(ownerUid: string): Promise<Company | nul
   return companies.length > 0 ? companies[0] : null;
 }
 
+// Get the company a user created, or else the first one they were invited
+// to, with their role in it
+export async function getMemberCompany(uid: string): Promise<{ company: Company; role: CompanyRole } | null> {
+  const owned = await getCompanyByOwner(uid);
+  if (owned) {
+    return { company: owned, role: 'owner' };
+  }
+
+  const constraints: QueryConstraint[] = [
+    where('userUid', '==', uid),
+    orderBy('createdAt', 'asc'),
+    limit(1),
+  ];
+
+  const memberships = await companyMembershipService.getAll(constraints);
+  const company = memberships.length > 0 ? await companyService.getById(memberships[0].companyId) : null;
+  return company ? { company, role: memberships[0].role } : null;
+}
+
 // Check if user has applied to job
 export async function hasUserAppliedToJob(jobId: string, uid: string): Promise<boolean> {
   const dedupeKey = `${jobId}_${uid}`;
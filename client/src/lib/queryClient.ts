@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { auth } from "./firebase";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,16 +8,36 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Sends the signed-in user's ID token along with the session cookie. The
+// Firebase SDK refreshes the token when it is about to expire; a 401 or 403
+// forces a refresh and one retry, since the server may have changed the
+// user's role claim since the token was issued.
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = async (forceRefresh: boolean) => {
+    const token = await auth.currentUser?.getIdToken(forceRefresh);
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      credentials: "include",
+    });
+  };
+
+  const res = await send(false);
+  return (res.status === 401 || res.status === 403) && auth.currentUser ? send(true) : res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -29,9 +50,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
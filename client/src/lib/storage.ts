@@ -9,6 +9,7 @@ import {
   UploadTask,
   UploadTaskSnapshot,
 } from "firebase/storage";
+import { STORAGE_PATHS } from "@shared/schema";
 import { storage } from "./firebase";
 import { toast } from "@/hooks/use-toast";
 
@@ -29,12 +30,8 @@ export interface UploadedFile {
   uploadedAt: Date;
 }
 
-// Storage paths
-export const STORAGE_PATHS = {
-  RESUMES: (uid: string) => `resumes/${uid}`,
-  LOGOS: (companyId: string) => `logos/${companyId}`,
-  PROOFS: (companyId: string) => `proofs/${companyId}`,
-} as const;
+// Storage paths, shared with the server, which writes offer letters
+export { STORAGE_PATHS };
 
 // File type validation
 export const FILE_TYPES = {
@@ -46,6 +43,7 @@ export const FILE_TYPES = {
 // File size limits (in bytes)
 export const FILE_SIZE_LIMITS = {
   RESUME: 5 * 1024 * 1024, // 5MB
+  COVER_LETTER: 5 * 1024 * 1024, // 5MB
   LOGO: 1 * 1024 * 1024, // 1MB
   PROOF: 5 * 1024 * 1024, // 5MB
 } as const;
@@ -177,6 +175,19 @@ export async function uploadResume(
   });
 }
 
+// Upload cover letter
+export async function uploadCoverLetter(
+  file: File,
+  uid: string,
+  options: Omit<FileUploadOptions, 'maxSize' | 'allowedTypes'> = {}
+): Promise<UploadedFile> {
+  return uploadFile(file, STORAGE_PATHS.COVER_LETTERS(uid), {
+    ...options,
+    maxSize: FILE_SIZE_LIMITS.COVER_LETTER,
+    allowedTypes: [...FILE_TYPES.DOCUMENTS],
+  });
+}
+
 // Upload company logo
 export async function uploadLogo(
   file: File,
@@ -1,5 +1,5 @@
 import { User as FirebaseUser } from "firebase/auth";
-import { User, UserRole, Job, Company, Application } from "@shared/schema";
+import { User, UserRole, Job, JobRevision, Company, CompanyMembership, CompanyInvitation, InvitationStatus, CompanyRole, Application, HiringCommittee, Scorecard, ScorecardAggregate, ScorecardStatus, InterviewSlot, Notification, Report, AuditLog, FacetedPaginatedResponse } from "@shared/schema";
 
 // Extended Firebase user type with profile data
 export interface ExtendedUser extends FirebaseUser {
@@ -15,9 +15,9 @@ export interface AuthState {
   error: string | null;
 }
 
-// Job with company information
+// Job with company information; company is missing if it has been deleted
 export interface JobWithCompany extends Job {
-  company: Company;
+  company?: Company;
 }
 
 // Application with job and applicant information
@@ -26,19 +26,94 @@ export interface ApplicationWithDetails extends Application {
   applicant: User;
 }
 
-// Search result types
-export interface JobSearchResult {
-  jobs: JobWithCompany[];
-  total: number;
-  hasMore: boolean;
-  facets: {
-    departments: Record<string, number>;
-    instituteTypes: Record<string, number>;
-    locations: Record<string, number>;
-    levels: Record<string, number>;
-  };
+// Application with applicant profile, as returned by the employer review API
+export interface ApplicationWithApplicant extends Application {
+  applicant?: User;
+}
+
+// Report with a readable name for its target, as returned by the moderation API;
+// targetName is missing if the target has been deleted
+export interface ReportWithTarget extends Report {
+  targetName?: string;
+}
+
+// Pending revision with the live job it would replace, as returned by the
+// moderation API; job is missing if it has been deleted
+export interface JobRevisionWithJob extends JobRevision {
+  job?: Job;
+}
+
+// Company member with their profile, as returned by the team API; user is
+// missing if the account has been deleted
+export interface CompanyMemberWithUser extends CompanyMembership {
+  user?: User;
+}
+
+// Invitations as listed by the team API, which never returns their tokens
+export type PendingInvitation = Omit<CompanyInvitation, 'token'>;
+
+// What an invitation link is for, shown before it is accepted
+export interface InvitationSummary {
+  companyName: string;
+  email: string;
+  role: CompanyRole;
+  status: InvitationStatus;
+  expiresAt: string;
+}
+
+// Scorecard with its reviewer's profile; reviewer is missing if the account
+// has been deleted
+export interface ScorecardWithReviewer extends Scorecard {
+  reviewer?: User;
+}
+
+// The scorecards for an application the current user may see. While hidden,
+// only their own scorecard is included.
+export interface ApplicationScorecards {
+  scorecards: ScorecardWithReviewer[];
+  hidden: boolean;
+}
+
+// An application's place in the committee ranking; aggregate is missing
+// without a committee or while the user's own scorecard is unsubmitted
+export interface ApplicationRanking {
+  application: Application;
+  applicant?: User;
+  ownScorecardStatus?: ScorecardStatus;
+  hidden: boolean;
+  aggregate?: ScorecardAggregate;
+}
+
+export interface CommitteeRankings {
+  committee: HiringCommittee | null;
+  rankings: ApplicationRanking[];
+}
+
+// Interview slot with the profile of the applicant who booked it, as returned
+// by the employer scheduling API
+export interface InterviewSlotWithApplicant extends InterviewSlot {
+  applicant?: User;
+}
+
+// Application with the job it was made to; job is missing if it has been
+// deleted
+export interface ApplicationWithJob extends Application {
+  job?: Job;
+}
+
+// An admin's view of one account, as returned by GET /api/admin/users/:uid
+export interface UserDetail {
+  user: User;
+  company: Company | null;
+  companyRole: CompanyRole | null;
+  jobs: Job[];
+  applications: ApplicationWithJob[];
+  auditTrail: AuditLog[];
 }
 
+// Search result types
+export type JobSearchResult = FacetedPaginatedResponse<JobWithCompany>;
+
 // Dashboard statistics
 export interface DashboardStats {
   totalJobs: number;
@@ -51,15 +126,12 @@ export interface DashboardStats {
 }
 
 // Notification types
-export interface Notification {
-  id: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  title: string;
-  message: string;
-  read: boolean;
-  createdAt: Date;
-  actionUrl?: string;
-  actionLabel?: string;
+export type { Notification } from "@shared/schema";
+
+// Notification center feed, as returned by GET /api/notifications
+export interface NotificationFeed {
+  items: Notification[];
+  unreadCount: number;
 }
 
 // Form states
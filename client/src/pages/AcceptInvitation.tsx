@@ -0,0 +1,103 @@
+import React from 'react';
+import { useRoute, useLocation } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthProvider';
+import { apiRequest } from '@/lib/queryClient';
+import { InvitationSummary } from '@/lib/types';
+import { COMPANY_ROLE_LABELS } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PageLoadingSpinner } from '@/components/LoadingSpinner';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { Building, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+function InvitationCard({ token }: { token: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: apiResponse, isLoading, error } = useQuery<{ data: InvitationSummary }>({
+    queryKey: [`/api/invitations/${token}`],
+    retry: false,
+  });
+  const invitation = apiResponse?.data;
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/invitations/${token}/accept`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['employer-company'] });
+      toast({ title: "Invitation Accepted", description: `You have joined ${invitation?.companyName}.` });
+      setLocation('/employer');
+    },
+    onError: (error) => {
+      toast({ title: "Could Not Accept Invitation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <PageLoadingSpinner text="Loading invitation..." />;
+  }
+
+  const expired = invitation && new Date(invitation.expiresAt) < new Date();
+  const problem = !invitation || error
+    ? 'This invitation link is invalid.'
+    : invitation.status === 'accepted'
+      ? 'This invitation has already been accepted.'
+      : invitation.status === 'revoked'
+        ? 'This invitation has been withdrawn.'
+        : expired
+          ? 'This invitation has expired. Ask the institution to invite you again.'
+          : invitation.email !== user?.email?.toLowerCase()
+            ? `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+            : undefined;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            {problem ? <XCircle className="w-8 h-8 text-red-600" /> : <Building className="w-8 h-8 text-blue-600" />}
+          </div>
+          <CardTitle className="text-xl">
+            {invitation ? `Join ${invitation.companyName}` : 'Invitation Not Found'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {problem ? (
+            <p className="text-muted-foreground" data-testid="invitation-problem">{problem}</p>
+          ) : (
+            <>
+              <p className="text-muted-foreground">
+                You have been invited to join as a <strong>{COMPANY_ROLE_LABELS[invitation!.role].toLowerCase()}</strong>.
+              </p>
+              <Button
+                className="w-full"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending}
+                data-testid="button-accept-invitation"
+              >
+                {acceptMutation.isPending ? 'Joining...' : 'Accept Invitation'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function AcceptInvitation() {
+  const [, params] = useRoute('/invitations/:token');
+
+  return (
+    <ProtectedRoute requiredRole="employer">
+      {params?.token && <InvitationCard token={params.token} />}
+    </ProtectedRoute>
+  );
+}
+
+export default AcceptInvitation;
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/context/AuthProvider';
 import { getPendingCompanies, getPendingJobs, getJobStats } from '@/lib/firestore';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,74 +9,111 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingSpinner, PageLoadingSpinner } from '@/components/LoadingSpinner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ModerationQueue, reportsUrl } from '@/components/ModerationQueue';
+import { AuditLogExplorer, AuditLogFilterValues } from '@/components/AuditLogExplorer';
+import { JobRevisionQueue } from '@/components/JobRevisionQueue';
+import { ChangeHistoryDialog } from '@/components/ChangeHistoryDialog';
+import { RejectionDialog } from '@/components/RejectionDialog';
+import { RejectionFeedback } from '@/components/RejectionFeedback';
+import { CompanyVerificationDialog } from '@/components/CompanyVerificationDialog';
+import { UserManagement } from '@/components/UserManagement';
+import { ReportWithTarget } from '@/lib/types';
+import { STAFF_ROLES, hasAdminPermission, type AdminPermission } from '@shared/schema';
 import { 
   Clock, 
   Briefcase, 
   Flag, 
   Users, 
   CheckCircle, 
-  XCircle, 
   Building,
   Eye,
   BarChart,
   Download,
   Settings,
   UserCheck,
-  AlertTriangle
+  History
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+// Tabs are shown only to staff roles with their permission
+const ADMIN_TABS: { value: string; label: string; permission: AdminPermission }[] = [
+  { value: 'overview', label: 'Overview', permission: 'moderate_content' },
+  { value: 'employers', label: 'Employers', permission: 'moderate_content' },
+  { value: 'jobs', label: 'Jobs', permission: 'moderate_content' },
+  { value: 'users', label: 'Users', permission: 'view_users' },
+  { value: 'reports', label: 'Reports', permission: 'moderate_content' },
+  { value: 'audit', label: 'Audit', permission: 'view_audit_log' },
+];
+
+const TAB_GRID_COLS = ['grid-cols-1', 'grid-cols-2', 'grid-cols-3', 'grid-cols-4', 'grid-cols-5', 'grid-cols-6'];
+
 export function Admin() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userProfile } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
+  const [auditFilters, setAuditFilters] = useState<AuditLogFilterValues>({});
+
+  const can = (permission: AdminPermission) => hasAdminPermission(userProfile?.role, permission);
+  const tabs = ADMIN_TABS.filter(tab => can(tab.permission));
+  const tab = tabs.some(({ value }) => value === activeTab) ? activeTab : tabs[0]?.value;
+  const canModerate = can('moderate_content');
 
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ['admin-stats'],
     queryFn: getJobStats,
+    enabled: canModerate,
   });
 
   const { data: pendingCompanies, isLoading: companiesLoading } = useQuery({
     queryKey: ['pending-companies'],
     queryFn: getPendingCompanies,
+    enabled: canModerate,
   });
 
   const { data: pendingJobs, isLoading: jobsLoading } = useQuery({
     queryKey: ['pending-jobs'],
     queryFn: getPendingJobs,
+    enabled: canModerate,
   });
 
-  const handleApproveCompany = async (companyId: string) => {
-    // In a real app, this would call a Firebase Cloud Function
-    toast({
-      title: "Company Approved",
-      description: "The company has been approved and can now post jobs.",
-    });
-  };
+  const { data: pendingReports } = useQuery<{ data: ReportWithTarget[] }>({
+    queryKey: [reportsUrl({ status: 'pending' })],
+    enabled: canModerate,
+  });
 
-  const handleRejectCompany = async (companyId: string) => {
-    // In a real app, this would call a Firebase Cloud Function
-    toast({
-      title: "Company Rejected",
-      description: "The company application has been rejected.",
-      variant: "destructive",
-    });
+  const refreshPending = () => {
+    queryClient.invalidateQueries({ queryKey: ['pending-companies'] });
+    queryClient.invalidateQueries({ queryKey: ['pending-jobs'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
   };
 
-  const handleApproveJob = async (jobId: string) => {
-    // In a real app, this would call a Firebase Cloud Function
-    toast({
-      title: "Job Approved",
-      description: "The job posting has been approved and is now visible to job seekers.",
-    });
-  };
+  const approveMutation = useMutation({
+    mutationFn: async ({ targetType, targetId }: { targetType: 'company' | 'job'; targetId: string }) => {
+      const path = targetType === 'company' ? 'companies' : 'jobs';
+      await apiRequest('PATCH', `/api/admin/${path}/${targetId}/status`, { status: 'approved' });
+    },
+    onSuccess: (_, { targetType }) => {
+      refreshPending();
+      toast(targetType === 'company'
+        ? { title: "Company Approved", description: "The company has been approved and can now post jobs." }
+        : { title: "Job Approved", description: "The job posting has been approved and is now visible to job seekers." }
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Approval Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  const handleRejectJob = async (jobId: string) => {
-    // In a real app, this would call a Firebase Cloud Function
-    toast({
-      title: "Job Rejected",
-      description: "The job posting has been rejected.",
-      variant: "destructive",
-    });
+  // Drill into the audit tab scoped to one job, company or user
+  const showAudit = can('view_audit_log');
+  const showHistory = (targetType: 'job' | 'company' | 'user', targetId: string) => {
+    setAuditFilters({ targetType, targetId });
+    setActiveTab('audit');
   };
 
   if (statsLoading && !stats) {
@@ -82,7 +121,7 @@ export function Admin() {
   }
 
   return (
-    <ProtectedRoute requiredRole="admin">
+    <ProtectedRoute requiredRole={STAFF_ROLES}>
       <div className="min-h-screen bg-background py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="mb-8">
@@ -90,12 +129,11 @@ export function Admin() {
             <p className="text-muted-foreground mt-1">Manage employers, jobs, and platform moderation</p>
           </div>
 
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-4 mb-8">
-              <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
-              <TabsTrigger value="employers" data-testid="tab-employers">Employers</TabsTrigger>
-              <TabsTrigger value="jobs" data-testid="tab-jobs">Jobs</TabsTrigger>
-              <TabsTrigger value="reports" data-testid="tab-reports">Reports</TabsTrigger>
+          <Tabs value={tab} onValueChange={setActiveTab}>
+            <TabsList className={`grid w-full ${TAB_GRID_COLS[Math.max(tabs.length, 1) - 1]} mb-8`}>
+              {tabs.map(({ value, label }) => (
+                <TabsTrigger key={value} value={value} data-testid={`tab-${value}`}>{label}</TabsTrigger>
+              ))}
             </TabsList>
 
             {/* Overview Tab */}
@@ -143,7 +181,7 @@ export function Admin() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-muted-foreground">Reports</p>
                         <p className="text-2xl font-bold text-foreground" data-testid="stat-reports">
-                          0
+                          {pendingReports?.data.length || 0}
                         </p>
                       </div>
                     </div>
@@ -279,27 +317,48 @@ export function Admin() {
                                   <Badge variant="outline" className="text-xs">
                                     {company.proofDocs.length} Documents
                                   </Badge>
+                                  {company.resubmissionCount > 0 && (
+                                    <Badge variant="secondary" className="text-xs" data-testid={`badge-resubmitted-company-${company.id}`}>
+                                      Resubmitted {company.resubmissionCount}×
+                                    </Badge>
+                                  )}
                                 </div>
+                                {company.resubmissionCount > 0 && (
+                                  <div className="mt-3 text-muted-foreground">
+                                    <p className="text-xs font-medium">Previously rejected for:</p>
+                                    <RejectionFeedback reasons={company.rejectionReasons} notes={company.rejectionNotes} />
+                                  </div>
+                                )}
                               </div>
                             </div>
                             <div className="flex space-x-2">
                               <Button 
                                 size="sm"
-                                onClick={() => handleApproveCompany(company.id)}
+                                onClick={() => approveMutation.mutate({ targetType: 'company', targetId: company.id })}
+                                disabled={approveMutation.isPending}
                                 data-testid={`button-approve-company-${company.id}`}
                               >
                                 <CheckCircle className="w-4 h-4 mr-1" />
                                 Approve
                               </Button>
-                              <Button 
-                                size="sm" 
-                                variant="destructive"
-                                onClick={() => handleRejectCompany(company.id)}
-                                data-testid={`button-reject-company-${company.id}`}
-                              >
-                                <XCircle className="w-4 h-4 mr-1" />
-                                Reject
-                              </Button>
+                              <RejectionDialog
+                                targetType="company"
+                                targetId={company.id}
+                                name={company.name}
+                                onRejected={refreshPending}
+                              />
+                              {showAudit && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => showHistory('company', company.id)}
+                                  data-testid={`button-history-company-${company.id}`}
+                                >
+                                  <History className="w-4 h-4" />
+                                </Button>
+                              )}
+                              <CompanyVerificationDialog company={company} />
+                              <ChangeHistoryDialog targetType="company" targetId={company.id} name={company.name} />
                             </div>
                           </div>
                         </div>
@@ -364,29 +423,49 @@ export function Admin() {
                                     }
                                   </Badge>
                                 )}
+                                {job.resubmissionCount > 0 && (
+                                  <Badge variant="secondary" className="text-xs" data-testid={`badge-resubmitted-job-${job.id}`}>
+                                    Resubmitted {job.resubmissionCount}×
+                                  </Badge>
+                                )}
                               </div>
+                              {job.resubmissionCount > 0 && (
+                                <div className="mt-3 text-muted-foreground">
+                                  <p className="text-xs font-medium">Previously rejected for:</p>
+                                  <RejectionFeedback reasons={job.rejectionReasons} notes={job.rejectionNotes} />
+                                </div>
+                              )}
                             </div>
                             <div className="flex flex-col space-y-2 ml-4">
                               <Button 
                                 size="sm"
-                                onClick={() => handleApproveJob(job.id)}
+                                onClick={() => approveMutation.mutate({ targetType: 'job', targetId: job.id })}
+                                disabled={approveMutation.isPending}
                                 data-testid={`button-approve-job-${job.id}`}
                               >
                                 <CheckCircle className="w-4 h-4 mr-1" />
                                 Approve
                               </Button>
-                              <Button 
-                                size="sm" 
-                                variant="destructive"
-                                onClick={() => handleRejectJob(job.id)}
-                                data-testid={`button-reject-job-${job.id}`}
-                              >
-                                <XCircle className="w-4 h-4 mr-1" />
-                                Reject
-                              </Button>
+                              <RejectionDialog
+                                targetType="job"
+                                targetId={job.id}
+                                name={job.title}
+                                onRejected={refreshPending}
+                              />
                               <Button variant="outline" size="sm" data-testid={`button-view-job-${job.id}`}>
                                 <Eye className="w-4 h-4" />
                               </Button>
+                              {showAudit && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => showHistory('job', job.id)}
+                                  data-testid={`button-history-job-${job.id}`}
+                                >
+                                  <History className="w-4 h-4" />
+                                </Button>
+                              )}
+                              <ChangeHistoryDialog targetType="job" targetId={job.id} name={job.title} />
                             </div>
                           </div>
                         </div>
@@ -401,27 +480,23 @@ export function Admin() {
                   )}
                 </CardContent>
               </Card>
+
+              <JobRevisionQueue />
+            </TabsContent>
+
+            {/* Users Tab */}
+            <TabsContent value="users" className="space-y-6">
+              <UserManagement onShowAudit={showAudit ? (uid) => showHistory('user', uid) : undefined} />
             </TabsContent>
 
             {/* Reports Tab */}
             <TabsContent value="reports" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <CardTitle>Reports & Moderation</CardTitle>
-                    <Badge variant="secondary">0 Pending</Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-center py-8">
-                    <AlertTriangle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-lg font-semibold text-foreground mb-2">No Reports</h3>
-                    <p className="text-muted-foreground">
-                      No abuse reports have been submitted. The platform is running smoothly.
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
+              <ModerationQueue />
+            </TabsContent>
+
+            {/* Audit Tab */}
+            <TabsContent value="audit" className="space-y-6">
+              <AuditLogExplorer filters={auditFilters} onFiltersChange={setAuditFilters} />
             </TabsContent>
           </Tabs>
         </div>
@@ -100,7 +100,7 @@ export function Auth() {
   const onSignUp = async (data: SignUpForm) => {
     setIsLoading(true);
     try {
-      await signUp(data.email, data.password, data.displayName, data.role);
+      await signUp(data.email, data.password, data.displayName);
       setLocation('/verify');
     } catch (error) {
       console.error('Sign up error:', error);
@@ -325,6 +325,12 @@ export function Auth() {
                         <SelectItem value="employer">Employer (Institution/HR)</SelectItem>
                       </SelectContent>
                     </Select>
+                    {signUpForm.watch('role') === 'employer' && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-employer-signup-hint">
+                        After verifying your email, choose Register Institution in your account menu. Your account
+                        becomes an employer account once the institution is approved.
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex items-start space-x-2">
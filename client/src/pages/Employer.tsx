@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 import { useAuth } from '@/context/AuthProvider';
-import { getCompanyByOwner, getJobsByCompany } from '@/lib/firestore';
-import { uploadLogo, uploadProofDocument } from '@/lib/storage';
+import { getMemberCompany, getJobsByCompany } from '@/lib/firestore';
+import { apiRequest } from '@/lib/queryClient';
+import { uploadLogo } from '@/lib/storage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,15 +15,18 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingSpinner, PageLoadingSpinner } from '@/components/LoadingSpinner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ApplicationBoard } from '@/components/ApplicationBoard';
+import { CommitteeRanking } from '@/components/CommitteeRanking';
+import { InterviewSlots } from '@/components/InterviewSlots';
+import { RejectionFeedback } from '@/components/RejectionFeedback';
+import { ProofDocumentChecklist } from '@/components/ProofDocumentChecklist';
+import { CompanyTeam } from '@/components/CompanyTeam';
 import { 
   Building, 
   MapPin, 
   Globe, 
   Mail, 
   Phone, 
-  Upload, 
-  FileText, 
-  Download, 
   Plus, 
   Edit, 
   Clock,
@@ -34,7 +39,7 @@ import {
   MessageCircle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { InstituteType } from '@shared/schema';
+import { InstituteType, checkEmailDomain, hasCompanyPermission } from '@shared/schema';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -51,21 +56,31 @@ const companyFormSchema = z.object({
 type CompanyForm = z.infer<typeof companyFormSchema>;
 
 export function Employer() {
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('profile');
+  const [, setLocation] = useLocation();
 
-  const { data: company, isLoading: companyLoading } = useQuery({
+  const { data: membership, isLoading: companyLoading } = useQuery({
     queryKey: ['employer-company', user?.uid],
-    queryFn: () => user?.uid ? getCompanyByOwner(user.uid) : null,
+    queryFn: () => user?.uid ? getMemberCompany(user.uid) : null,
     enabled: !!user?.uid,
   });
+  const company = membership?.company;
+
+  // Registrants stay seekers until their institution is approved, so until
+  // then the page is only the registration form and its documents
+  const isEmployer = userProfile?.role === 'employer';
+
+  // Employers without a company create one and become its owner
+  const canManageCompany = !membership || hasCompanyPermission(membership.role, 'manage_company');
+  const canPostJobs = company?.status === 'approved' && hasCompanyPermission(membership?.role, 'manage_jobs');
 
   const { data: jobs, isLoading: jobsLoading } = useQuery({
     queryKey: ['employer-jobs', company?.id],
     queryFn: () => company?.id ? getJobsByCompany(company.id) : [],
-    enabled: !!company?.id,
+    enabled: isEmployer && !!company?.id,
   });
 
   const form = useForm<CompanyForm>({
@@ -93,16 +108,31 @@ export function Employer() {
     }
   }, [company, form]);
 
+  // Saving a rejected company sends it back to moderation
+  const resubmitting = company?.status === 'rejected';
+
   const updateCompanyMutation = useMutation({
     mutationFn: async (data: CompanyForm) => {
-      // In a real app, this would call an API to update the company
-      toast({
-        title: "Company Updated",
-        description: "Company profile has been updated successfully.",
-      });
+      const body = { ...data, website: data.website || undefined };
+      if (company) {
+        await apiRequest('PUT', `/api/companies/${company.id}`, { ...body, submit: resubmitting });
+      } else {
+        await apiRequest('POST', '/api/companies', body);
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employer-company'] });
+      toast(resubmitting
+        ? { title: "Company Resubmitted", description: "Your company will be reviewed again." }
+        : { title: "Company Updated", description: "Company profile has been updated successfully." }
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -115,6 +145,8 @@ export function Employer() {
       case 'approved':
         return <CheckCircle className="w-5 h-5 text-green-600" />;
       case 'rejected':
+      case 'suspended':
+      case 'removed':
         return <XCircle className="w-5 h-5 text-red-600" />;
       default:
         return <Clock className="w-5 h-5 text-yellow-600" />;
@@ -126,11 +158,15 @@ export function Employer() {
       case 'approved':
         return 'bg-green-100 text-green-800';
       case 'rejected':
+      case 'suspended':
+      case 'removed':
         return 'bg-red-100 text-red-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
       case 'expired':
         return 'bg-gray-100 text-gray-800';
+      case 'filled':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-blue-100 text-blue-800';
     }
@@ -141,7 +177,7 @@ export function Employer() {
   }
 
   return (
-    <ProtectedRoute requiredRole="employer">
+    <ProtectedRoute requiredRole={['seeker', 'employer']}>
       <div className="min-h-screen bg-background py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Status Banner */}
@@ -161,12 +197,29 @@ export function Employer() {
 
           {company?.status === 'rejected' && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
-              <div className="flex items-center">
+              <div className="flex items-start">
                 <XCircle className="w-5 h-5 text-red-600 mr-3" />
                 <div>
                   <h3 className="text-sm font-medium text-red-800">Account Rejected</h3>
                   <p className="text-sm text-red-700 mt-1">
-                    Your employer account has been rejected. Please contact support for more information.
+                    Your employer account was not approved. Please fix the following in your company profile and resubmit it for review.
+                  </p>
+                  <div className="text-red-700 mt-2">
+                    <RejectionFeedback reasons={company.rejectionReasons} notes={company.rejectionNotes} />
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {company?.status === 'suspended' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+              <div className="flex items-center">
+                <XCircle className="w-5 h-5 text-red-600 mr-3" />
+                <div>
+                  <h3 className="text-sm font-medium text-red-800">Account Suspended</h3>
+                  <p className="text-sm text-red-700 mt-1">
+                    Your employer account has been suspended after a moderation review and your job postings were taken down. Please contact support for more information.
                   </p>
                 </div>
               </div>
@@ -177,10 +230,17 @@ export function Employer() {
             {/* Main Content */}
             <div className="xl:col-span-3">
               <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className={`grid w-full ${!isEmployer ? 'grid-cols-1' : membership ? 'grid-cols-4' : 'grid-cols-3'}`}>
                   <TabsTrigger value="profile" data-testid="tab-profile">Company Profile</TabsTrigger>
-                  <TabsTrigger value="jobs" data-testid="tab-jobs">Posted Jobs</TabsTrigger>
-                  <TabsTrigger value="applications" data-testid="tab-applications">Applications</TabsTrigger>
+                  {isEmployer && (
+                    <>
+                      <TabsTrigger value="jobs" data-testid="tab-jobs">Posted Jobs</TabsTrigger>
+                      <TabsTrigger value="applications" data-testid="tab-applications">Applications</TabsTrigger>
+                    </>
+                  )}
+                  {isEmployer && membership && (
+                    <TabsTrigger value="team" data-testid="tab-team">Team</TabsTrigger>
+                  )}
                 </TabsList>
 
                 {/* Company Profile Tab */}
@@ -197,171 +257,151 @@ export function Employer() {
                     </CardHeader>
                     <CardContent>
                       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                        {/* Company Header */}
-                        <div className="flex items-center space-x-4 mb-6">
-                          <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center">
-                            <span className="text-white font-bold text-sm">
-                              {company?.name ? company.name.substring(0, 3).toUpperCase() : 'COM'}
-                            </span>
-                          </div>
-                          <div>
-                            <h2 className="text-xl font-semibold text-foreground" data-testid="company-name">
-                              {company?.name || 'New Company'}
-                            </h2>
-                            <p className="text-muted-foreground">{company?.instituteType}</p>
+                        <fieldset disabled={!canManageCompany} className="space-y-6">
+                          {/* Company Header */}
+                          <div className="flex items-center space-x-4 mb-6">
+                            <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center">
+                              <span className="text-white font-bold text-sm">
+                                {company?.name ? company.name.substring(0, 3).toUpperCase() : 'COM'}
+                              </span>
+                            </div>
+                            <div>
+                              <h2 className="text-xl font-semibold text-foreground" data-testid="company-name">
+                                {company?.name || 'New Company'}
+                              </h2>
+                              <p className="text-muted-foreground">{company?.instituteType}</p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Form Fields */}
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="name">Company/Institution Name *</Label>
-                            <Input
-                              id="name"
-                              {...form.register('name')}
-                              data-testid="input-company-name"
-                            />
-                            {form.formState.errors.name && (
-                              <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
-                            )}
-                          </div>
+                          {/* Form Fields */}
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="name">Company/Institution Name *</Label>
+                              <Input
+                                id="name"
+                                {...form.register('name')}
+                                data-testid="input-company-name"
+                              />
+                              {form.formState.errors.name && (
+                                <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
+                              )}
+                            </div>
 
-                          <div className="space-y-2">
-                            <Label htmlFor="instituteType">Institute Type *</Label>
-                            <Select 
-                              value={form.watch('instituteType')} 
-                              onValueChange={(value: InstituteType) => form.setValue('instituteType', value)}
-                            >
-                              <SelectTrigger data-testid="select-institute-type">
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="IIT">IIT</SelectItem>
-                                <SelectItem value="NIT">NIT</SelectItem>
-                                <SelectItem value="IIIT">IIIT</SelectItem>
-                                <SelectItem value="Central University">Central University</SelectItem>
-                                <SelectItem value="State University">State University</SelectItem>
-                                <SelectItem value="Private University">Private University</SelectItem>
-                                <SelectItem value="Deemed University">Deemed University</SelectItem>
-                                <SelectItem value="Research Institute">Research Institute</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="instituteType">Institute Type *</Label>
+                              <Select 
+                                value={form.watch('instituteType')} 
+                                onValueChange={(value: InstituteType) => form.setValue('instituteType', value)}
+                                disabled={!canManageCompany}
+                              >
+                                <SelectTrigger data-testid="select-institute-type">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="IIT">IIT</SelectItem>
+                                  <SelectItem value="NIT">NIT</SelectItem>
+                                  <SelectItem value="IIIT">IIIT</SelectItem>
+                                  <SelectItem value="Central University">Central University</SelectItem>
+                                  <SelectItem value="State University">State University</SelectItem>
+                                  <SelectItem value="Private University">Private University</SelectItem>
+                                  <SelectItem value="Deemed University">Deemed University</SelectItem>
+                                  <SelectItem value="Research Institute">Research Institute</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
 
-                          <div className="space-y-2">
-                            <Label htmlFor="website">Website</Label>
-                            <Input
-                              id="website"
-                              type="url"
-                              placeholder="https://www.company.edu"
-                              {...form.register('website')}
-                              data-testid="input-website"
-                            />
-                            {form.formState.errors.website && (
-                              <p className="text-sm text-destructive">{form.formState.errors.website.message}</p>
-                            )}
-                          </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="website">Website</Label>
+                              <Input
+                                id="website"
+                                type="url"
+                                placeholder="https://www.company.edu"
+                                {...form.register('website')}
+                                data-testid="input-website"
+                              />
+                              {form.formState.errors.website && (
+                                <p className="text-sm text-destructive">{form.formState.errors.website.message}</p>
+                              )}
+                            </div>
 
-                          <div className="space-y-2">
-                            <Label htmlFor="hrEmail">HR Email *</Label>
-                            <Input
-                              id="hrEmail"
-                              type="email"
-                              placeholder="hr@company.edu"
-                              {...form.register('hrEmail')}
-                              data-testid="input-hr-email"
-                            />
-                            {form.formState.errors.hrEmail && (
-                              <p className="text-sm text-destructive">{form.formState.errors.hrEmail.message}</p>
-                            )}
+                            <div className="space-y-2">
+                              <Label htmlFor="hrEmail">HR Email *</Label>
+                              <Input
+                                id="hrEmail"
+                                type="email"
+                                placeholder="hr@company.edu"
+                                {...form.register('hrEmail')}
+                                data-testid="input-hr-email"
+                              />
+                              {form.formState.errors.hrEmail ? (
+                                <p className="text-sm text-destructive">{form.formState.errors.hrEmail.message}</p>
+                              ) : form.watch('hrEmail').includes('@') &&
+                                checkEmailDomain(form.watch('hrEmail'), form.watch('website') || undefined) === 'mismatch' && (
+                                <p className="text-sm text-yellow-700" data-testid="hint-hr-email-domain">
+                                  Use an email address on your website's domain to speed up verification.
+                                </p>
+                              )}
+                            </div>
+
+                            <div className="space-y-2">
+                              <Label htmlFor="phone">Phone Number</Label>
+                              <Input
+                                id="phone"
+                                type="tel"
+                                placeholder="+91 12345 67890"
+                                {...form.register('phone')}
+                                data-testid="input-phone"
+                              />
+                            </div>
                           </div>
 
                           <div className="space-y-2">
-                            <Label htmlFor="phone">Phone Number</Label>
-                            <Input
-                              id="phone"
-                              type="tel"
-                              placeholder="+91 12345 67890"
-                              {...form.register('phone')}
-                              data-testid="input-phone"
+                            <Label htmlFor="address">Address *</Label>
+                            <Textarea
+                              id="address"
+                              placeholder="Complete address including city, state, and pincode"
+                              rows={3}
+                              {...form.register('address')}
+                              data-testid="textarea-address"
                             />
+                            {form.formState.errors.address && (
+                              <p className="text-sm text-destructive">{form.formState.errors.address.message}</p>
+                            )}
                           </div>
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="address">Address *</Label>
-                          <Textarea
-                            id="address"
-                            placeholder="Complete address including city, state, and pincode"
-                            rows={3}
-                            {...form.register('address')}
-                            data-testid="textarea-address"
-                          />
-                          {form.formState.errors.address && (
-                            <p className="text-sm text-destructive">{form.formState.errors.address.message}</p>
-                          )}
-                        </div>
+                        </fieldset>
 
                         {/* Verification Documents */}
-                        <div className="space-y-4">
-                          <h3 className="text-lg font-semibold text-foreground">Verification Documents</h3>
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            <Card>
-                              <CardContent className="p-4">
-                                <h4 className="font-medium text-foreground mb-2">Certificate of Incorporation</h4>
-                                {company?.proofDocs && company.proofDocs.length > 0 ? (
-                                  <div className="flex items-center justify-between bg-muted rounded-lg p-3">
-                                    <div className="flex items-center">
-                                      <FileText className="w-5 h-5 text-muted-foreground mr-3" />
-                                      <div>
-                                        <p className="text-sm font-medium text-foreground">incorporation_cert.pdf</p>
-                                        <p className="text-xs text-muted-foreground">1.2 MB</p>
-                                      </div>
-                                    </div>
-                                    <Button variant="ghost" size="sm">
-                                      <Download className="w-4 h-4" />
-                                    </Button>
-                                  </div>
-                                ) : (
-                                  <div className="border-2 border-dashed border-border rounded-lg p-4 text-center">
-                                    <Upload className="w-6 h-6 text-muted-foreground mx-auto mb-2" />
-                                    <p className="text-sm text-muted-foreground">Upload document</p>
-                                    <Button variant="outline" size="sm" className="mt-2" data-testid="button-upload-docs">
-                                      Choose File
-                                    </Button>
-                                  </div>
-                                )}
-                              </CardContent>
-                            </Card>
-
-                            <Card>
-                              <CardContent className="p-4">
-                                <h4 className="font-medium text-foreground mb-2">Authorization Letter</h4>
-                                <div className="border-2 border-dashed border-border rounded-lg p-4 text-center">
-                                  <Upload className="w-6 h-6 text-muted-foreground mx-auto mb-2" />
-                                  <p className="text-sm text-muted-foreground">Upload document</p>
-                                  <Button variant="outline" size="sm" className="mt-2">
-                                    Choose File
-                                  </Button>
-                                </div>
-                              </CardContent>
-                            </Card>
+                        {company && canManageCompany && (
+                          <div className="space-y-4">
+                            <h3 className="text-lg font-semibold text-foreground">Verification Documents</h3>
+                            <p className="text-sm text-muted-foreground">
+                              Upload these documents for a {company.instituteType} as PDFs. Your institution is approved once moderators have accepted them all.
+                            </p>
+                            <ProofDocumentChecklist company={company} />
                           </div>
-                        </div>
+                        )}
 
-                        <div className="flex justify-end">
-                          <Button 
-                            type="submit" 
-                            disabled={updateCompanyMutation.isPending}
-                            data-testid="button-save-company"
-                          >
-                            {updateCompanyMutation.isPending ? (
-                              <LoadingSpinner size="sm" />
-                            ) : (
-                              'Save Changes'
-                            )}
-                          </Button>
-                        </div>
+                        {canManageCompany ? (
+                          <div className="flex justify-end">
+                            <Button 
+                              type="submit" 
+                              disabled={updateCompanyMutation.isPending}
+                              data-testid="button-save-company"
+                            >
+                              {updateCompanyMutation.isPending ? (
+                                <LoadingSpinner size="sm" />
+                              ) : resubmitting ? (
+                                'Save and Resubmit'
+                              ) : (
+                                'Save Changes'
+                              )}
+                            </Button>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground" data-testid="text-profile-owner-only">
+                            Only owners of {company?.name} can edit its profile.
+                          </p>
+                        )}
                       </form>
                     </CardContent>
                   </Card>
@@ -374,7 +414,8 @@ export function Employer() {
                       <div className="flex items-center justify-between">
                         <CardTitle>Posted Jobs</CardTitle>
                         <Button 
-                          disabled={company?.status !== 'approved'}
+                          disabled={!canPostJobs}
+                          onClick={() => setLocation('/employer/jobs/new')}
                           data-testid="button-post-job"
                         >
                           <Plus className="w-4 h-4 mr-2" />
@@ -409,14 +450,28 @@ export function Employer() {
                                       <span>{job.viewCount || 0} Views</span>
                                     </div>
                                   </div>
+                                  {job.status === 'rejected' && (
+                                    <div className="mt-3 text-red-700" data-testid={`job-rejection-${job.id}`}>
+                                      <p className="text-sm font-medium">Not approved. Edit the job to fix the following and resubmit:</p>
+                                      <RejectionFeedback reasons={job.rejectionReasons} notes={job.rejectionNotes} />
+                                    </div>
+                                  )}
                                 </div>
                                 <div className="flex items-center space-x-3">
                                   <Badge className={getStatusColor(job.status)} data-testid={`job-status-${job.id}`}>
                                     {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
                                   </Badge>
-                                  <Button variant="ghost" size="sm" data-testid={`button-edit-job-${job.id}`}>
-                                    <Edit className="w-4 h-4" />
-                                  </Button>
+                                  {['draft', 'pending', 'rejected', 'approved'].includes(job.status) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setLocation(`/employer/jobs/${job.id}/edit`)}
+                                      disabled={!canPostJobs}
+                                      data-testid={`button-edit-job-${job.id}`}
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </Button>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -433,7 +488,8 @@ export function Employer() {
                             }
                           </p>
                           <Button 
-                            disabled={company?.status !== 'approved'}
+                            disabled={!canPostJobs}
+                            onClick={() => setLocation('/employer/jobs/new')}
                             data-testid="button-post-first-job"
                           >
                             Post Your First Job
@@ -451,47 +507,85 @@ export function Employer() {
                       <CardTitle>Job Applications</CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="text-center py-8">
-                        <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                        <h3 className="text-lg font-semibold text-foreground mb-2">No Applications Yet</h3>
-                        <p className="text-muted-foreground">
-                          Applications will appear here once candidates start applying to your jobs.
-                        </p>
-                      </div>
+                      {jobsLoading ? (
+                        <div className="flex justify-center py-8">
+                          <LoadingSpinner text="Loading jobs..." />
+                        </div>
+                      ) : (
+                        <ApplicationBoard jobs={jobs || []} />
+                      )}
                     </CardContent>
                   </Card>
+
+                  {membership && user && jobs && jobs.length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Committee Ranking</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <CommitteeRanking jobs={jobs} role={membership.role} currentUid={user.uid} />
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {membership && jobs && jobs.length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Interview Slots</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <InterviewSlots jobs={jobs} role={membership.role} />
+                      </CardContent>
+                    </Card>
+                  )}
                 </TabsContent>
+
+                {/* Team Tab */}
+                {isEmployer && membership && user && (
+                  <TabsContent value="team" className="space-y-6">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Team</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <CompanyTeam company={membership.company} role={membership.role} currentUid={user.uid} />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                )}
               </Tabs>
             </div>
 
             {/* Sidebar */}
             <div className="xl:col-span-1 space-y-6">
               {/* Quick Stats */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-base">Quick Stats</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Total Jobs Posted</span>
-                    <span className="font-medium text-foreground" data-testid="stat-total-jobs">
-                      {jobs?.length || 0}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Active Applications</span>
-                    <span className="font-medium text-foreground" data-testid="stat-applications">
-                      {jobs?.reduce((total, job) => total + (job.applicationCount || 0), 0) || 0}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Profile Views</span>
-                    <span className="font-medium text-foreground" data-testid="stat-views">
-                      {jobs?.reduce((total, job) => total + (job.viewCount || 0), 0) || 0}
-                    </span>
-                  </div>
-                </CardContent>
-              </Card>
+              {isEmployer && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Quick Stats</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Total Jobs Posted</span>
+                      <span className="font-medium text-foreground" data-testid="stat-total-jobs">
+                        {jobs?.length || 0}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Active Applications</span>
+                      <span className="font-medium text-foreground" data-testid="stat-applications">
+                        {jobs?.reduce((total, job) => total + (job.applicationCount || 0), 0) || 0}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Profile Views</span>
+                      <span className="font-medium text-foreground" data-testid="stat-views">
+                        {jobs?.reduce((total, job) => total + (job.viewCount || 0), 0) || 0}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
               {/* Verification Status */}
               <Card>
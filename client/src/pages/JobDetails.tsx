@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useRoute, Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { jobService, hasUserAppliedToJob } from '@/lib/firestore';
@@ -6,17 +6,11 @@ import { useAuth } from '@/context/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
 import { PageLoadingSpinner } from '@/components/LoadingSpinner';
+import { ReportDialog } from '@/components/ReportDialog';
+import { ApplyDialog } from '@/components/ApplyDialog';
+import { JobPosting, formatSalary } from '@/components/JobPosting';
 import { 
-  MapPin, 
-  Calendar, 
-  Briefcase, 
-  Clock, 
-  Building,
-  Users,
-  GraduationCap,
-  Star,
   Share2,
   ArrowLeft,
   ExternalLink
@@ -26,7 +20,8 @@ import { toast } from '@/hooks/use-toast';
 export function JobDetails() {
   const [, params] = useRoute('/jobs/:id');
   const jobId = params?.id;
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
+  const [applyOpen, setApplyOpen] = useState(false);
 
   const { data: job, isLoading: jobLoading } = useQuery({
     queryKey: ['job', jobId],
@@ -79,13 +74,23 @@ export function JobDetails() {
       return;
     }
 
-    // Navigate to application page or open modal
-    // This would typically open an application modal or navigate to application page
-    toast({
-      title: "Application Started",
-      description: "Redirecting to application form...",
-      variant: "default",
-    });
+    if (userProfile?.role !== 'seeker') {
+      toast({
+        title: "Job Seekers Only",
+        description: "Only job seeker accounts can apply for jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setApplyOpen(true);
+  };
+
+  // External jobs are applied for on the institution's own site; count the
+  // click-through on the way out
+  const handleExternalApply = () => {
+    navigator.sendBeacon(`/api/jobs/${job.id}/apply-click`);
+    window.open(job.applyUrl, '_blank', 'noopener,noreferrer');
   };
 
   const handleShare = async () => {
@@ -106,22 +111,6 @@ export function JobDetails() {
     }
   };
 
-  const formatSalary = (min?: number, max?: number) => {
-    if (!min && !max) return null;
-    
-    const formatAmount = (amount: number) => {
-      if (amount >= 100000) {
-        return `₹${(amount / 100000).toFixed(0)} LPA`;
-      }
-      return `₹${(amount / 1000).toFixed(0)}K per month`;
-    };
-
-    if (min && max) {
-      return `${formatAmount(min)} - ${formatAmount(max)}`;
-    }
-    return formatAmount(min || max!);
-  };
-
   const isExpired = new Date(job.lastDate) < new Date();
 
   return (
@@ -140,170 +129,19 @@ export function JobDetails() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
-            {/* Job Header */}
-            <Card>
-              <CardContent className="p-8">
-                <div className="flex items-start justify-between mb-6">
-                  <div className="flex items-start space-x-4">
-                    {/* Company Logo */}
-                    <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center flex-shrink-0">
-                      <span className="text-white font-bold text-sm">
-                        {job.instituteType.substring(0, 3)}
-                      </span>
-                    </div>
-                    <div>
-                      <h1 className="text-2xl font-bold text-foreground mb-2" data-testid="job-title">
-                        {job.title}
-                      </h1>
-                      <p className="text-lg text-muted-foreground mb-3" data-testid="job-institute">
-                        {job.instituteType} • {job.department}
-                      </p>
-                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-                        <div className="flex items-center">
-                          <MapPin className="w-4 h-4 mr-1" />
-                          <span data-testid="job-location">
-                            {job.location.city}, {job.location.state}
-                          </span>
-                        </div>
-                        <div className="flex items-center">
-                          <Briefcase className="w-4 h-4 mr-1" />
-                          <span>{job.employmentType}</span>
-                        </div>
-                        <div className="flex items-center">
-                          <Clock className="w-4 h-4 mr-1" />
-                          <span data-testid="job-deadline">
-                            Apply by {job.lastDate.toLocaleDateString()}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Button variant="outline" size="sm" onClick={handleShare} data-testid="button-share">
-                      <Share2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-
-                {/* Job Stats */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-primary" data-testid="job-views">
-                      {job.viewCount || 0}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Views</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-primary" data-testid="job-applications">
-                      {job.applicationCount || 0}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Applications</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-primary">
-                      {Math.ceil((job.lastDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Days Left</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-primary">
-                      {job.level === 'Assistant Professor' ? '★★☆☆☆' : 
-                       job.level === 'Associate Professor' ? '★★★☆☆' : '★★★★☆'}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Level</div>
-                  </div>
-                </div>
-
-                {/* Tags */}
-                <div className="flex flex-wrap gap-2">
-                  <Badge variant="default">{job.level}</Badge>
-                  <Badge variant="secondary">{job.department}</Badge>
-                  <Badge variant="outline">{job.employmentType}</Badge>
-                  {formatSalary(job.minSalary, job.maxSalary) && (
-                    <Badge variant="secondary" data-testid="job-salary">
-                      {formatSalary(job.minSalary, job.maxSalary)}
-                    </Badge>
+            <JobPosting
+              job={job}
+              headerActions={
+                <>
+                  <Button variant="outline" size="sm" onClick={handleShare} data-testid="button-share">
+                    <Share2 className="w-4 h-4" />
+                  </Button>
+                  {user && user.uid !== job.posterUid && (
+                    <ReportDialog type="job" targetId={job.id} label="Report this job" />
                   )}
-                  {isExpired && <Badge variant="destructive">Expired</Badge>}
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Job Description */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Job Description</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div>
-                  <p className="text-foreground whitespace-pre-wrap" data-testid="job-description">
-                    {job.description}
-                  </p>
-                </div>
-
-                {job.requirements && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-lg font-semibold text-foreground mb-3">Requirements</h3>
-                      <p className="text-foreground whitespace-pre-wrap">
-                        {job.requirements}
-                      </p>
-                    </div>
-                  </>
-                )}
-
-                {job.responsibilities.length > 0 && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-lg font-semibold text-foreground mb-3">Key Responsibilities</h3>
-                      <ul className="space-y-2">
-                        {job.responsibilities.map((responsibility, index) => (
-                          <li key={index} className="flex items-start">
-                            <span className="w-2 h-2 bg-primary rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                            <span className="text-foreground">{responsibility}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  </>
-                )}
-
-                {job.qualifications.length > 0 && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-lg font-semibold text-foreground mb-3">Required Qualifications</h3>
-                      <ul className="space-y-2">
-                        {job.qualifications.map((qualification, index) => (
-                          <li key={index} className="flex items-start">
-                            <GraduationCap className="w-4 h-4 mt-1 mr-3 text-primary flex-shrink-0" />
-                            <span className="text-foreground">{qualification}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  </>
-                )}
-
-                {job.skills.length > 0 && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-lg font-semibold text-foreground mb-3">Preferred Skills</h3>
-                      <div className="flex flex-wrap gap-2">
-                        {job.skills.map((skill, index) => (
-                          <Badge key={index} variant="outline">
-                            {skill}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  </>
-                )}
-              </CardContent>
-            </Card>
+                </>
+              }
+            />
           </div>
 
           {/* Sidebar */}
@@ -321,25 +159,30 @@ export function JobDetails() {
                         </p>
                       </div>
                     ) : (
-                      <>
-                        <Button 
-                          className="w-full" 
+                      job.applyMode === 'external' && job.applyUrl ? (
+                        <Button
+                          className="w-full"
                           size="lg"
-                          onClick={handleApply}
-                          disabled={applicationLoading}
-                          data-testid="button-apply-job"
+                          onClick={handleExternalApply}
+                          data-testid="button-external-apply"
                         >
-                          {applicationLoading ? 'Checking...' : 'Apply Now'}
+                          <ExternalLink className="w-4 h-4 mr-2" />
+                          Apply on Institution Site
                         </Button>
-                        {job.applyMode === 'external' && job.applyUrl && (
-                          <Link href={job.applyUrl} target="_blank">
-                            <Button variant="outline" className="w-full" data-testid="button-external-apply">
-                              <ExternalLink className="w-4 h-4 mr-2" />
-                              Apply on Company Site
-                            </Button>
-                          </Link>
-                        )}
-                      </>
+                      ) : (
+                        <>
+                          <Button 
+                            className="w-full" 
+                            size="lg"
+                            onClick={handleApply}
+                            disabled={applicationLoading}
+                            data-testid="button-apply-job"
+                          >
+                            {applicationLoading ? 'Checking...' : 'Apply Now'}
+                          </Button>
+                          <ApplyDialog job={job} open={applyOpen} onOpenChange={setApplyOpen} />
+                        </>
+                      )
                     )
                   ) : (
                     <div className="text-center">
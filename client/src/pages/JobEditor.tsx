@@ -0,0 +1,578 @@
+import React, { useState } from 'react';
+import { useRoute, useLocation, Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useFieldArray, type PathValue } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthProvider';
+import { getMemberCompany, jobService } from '@/lib/firestore';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Department,
+  EmploymentType,
+  InstituteType,
+  Job,
+  JobContentInput,
+  JobContentSchema,
+  JobLevel,
+  JobRevision,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { PageLoadingSpinner } from '@/components/LoadingSpinner';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { JobPosting } from '@/components/JobPosting';
+import { RejectionFeedback } from '@/components/RejectionFeedback';
+import { ArrowLeft, ArrowRight, Clock, Plus, Trash, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+// The editor edits list fields as one entry per line and salaries as text,
+// and is otherwise validated by the same schema as the jobs API
+const jobFormSchema = JobContentSchema.omit({
+  minSalary: true,
+  maxSalary: true,
+  qualifications: true,
+  skills: true,
+  responsibilities: true,
+  requirements: true,
+  lastDate: true,
+  applyUrl: true,
+}).extend({
+  minSalary: z.string().regex(/^\d*$/, 'Enter a whole number'),
+  maxSalary: z.string().regex(/^\d*$/, 'Enter a whole number'),
+  qualifications: z.string(),
+  skills: z.string(),
+  responsibilities: z.string(),
+  requirements: z.string(),
+  lastDate: z.string().min(1, 'Choose the last date to apply'),
+  applyUrl: z.string().url('Enter a valid URL').or(z.literal('')),
+}).refine(
+  values => values.applyMode !== 'external' || values.applyUrl,
+  { message: 'External jobs need an application URL', path: ['applyUrl'] }
+);
+
+type JobForm = z.infer<typeof jobFormSchema>;
+type SelectField = 'department' | 'level' | 'instituteType' | 'employmentType';
+
+const STEPS: Array<{ title: string; fields: Array<keyof JobForm> }> = [
+  { title: 'Basics', fields: ['title', 'department', 'level', 'instituteType', 'employmentType', 'location', 'lastDate', 'positions'] },
+  { title: 'Details', fields: ['description', 'requirements', 'responsibilities', 'qualifications', 'skills', 'minSalary', 'maxSalary'] },
+  { title: 'Application', fields: ['applyMode', 'applyUrl', 'screeningQuestions'] },
+  { title: 'Preview', fields: [] },
+];
+
+const EMPTY_FORM: JobForm = {
+  title: '',
+  department: 'Computer Science',
+  level: 'Assistant Professor',
+  instituteType: 'Private University',
+  employmentType: 'Full-time',
+  location: { city: '', state: '', country: 'India' },
+  minSalary: '',
+  maxSalary: '',
+  currency: 'INR',
+  positions: 1,
+  qualifications: '',
+  skills: '',
+  responsibilities: '',
+  description: '',
+  requirements: '',
+  lastDate: '',
+  applyMode: 'internal',
+  applyUrl: '',
+  screeningQuestions: [],
+};
+
+const joinLines = (values: string[]) => values.join('\n');
+
+const splitLines = (value: string) =>
+  value.split('\n').map(line => line.trim()).filter(Boolean);
+
+const toNumber = (value: string) => value ? Number(value) : undefined;
+
+const toFormValues = (content: JobContentInput | Job): JobForm => ({
+  title: content.title,
+  department: content.department,
+  level: content.level,
+  instituteType: content.instituteType,
+  employmentType: content.employmentType,
+  location: { ...content.location, country: content.location.country || 'India' },
+  minSalary: content.minSalary?.toString() || '',
+  maxSalary: content.maxSalary?.toString() || '',
+  currency: content.currency || 'INR',
+  positions: content.positions || 1,
+  qualifications: joinLines(content.qualifications || []),
+  skills: joinLines(content.skills || []),
+  responsibilities: joinLines(content.responsibilities || []),
+  description: content.description,
+  requirements: content.requirements || '',
+  lastDate: format(new Date(content.lastDate), 'yyyy-MM-dd'),
+  applyMode: content.applyMode || 'internal',
+  applyUrl: content.applyUrl || '',
+  screeningQuestions: (content.screeningQuestions || []).map(question => ({
+    ...question,
+    required: question.required ?? true,
+  })),
+});
+
+const toJobContent = (values: JobForm) => ({
+  ...values,
+  minSalary: toNumber(values.minSalary),
+  maxSalary: toNumber(values.maxSalary),
+  qualifications: splitLines(values.qualifications),
+  skills: splitLines(values.skills),
+  responsibilities: splitLines(values.responsibilities),
+  requirements: values.requirements.trim() || undefined,
+  applyUrl: values.applyMode === 'external' ? values.applyUrl : undefined,
+  // Applicants to external jobs answer the institution's own form
+  screeningQuestions: values.applyMode === 'internal' ? values.screeningQuestions : [],
+});
+
+type SaveMode = 'draft' | 'submit' | 'save';
+
+export function JobEditor() {
+  const [, params] = useRoute('/employer/jobs/:id/edit');
+  const jobId = params?.id;
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState(0);
+
+  const { data: membership, isLoading: companyLoading } = useQuery({
+    queryKey: ['employer-company', user?.uid],
+    queryFn: () => user?.uid ? getMemberCompany(user.uid) : null,
+    enabled: !!user?.uid,
+  });
+  const company = membership?.company;
+
+  const { data: job, isLoading: jobLoading } = useQuery({
+    queryKey: ['job', jobId],
+    queryFn: () => jobId ? jobService.getById(jobId) : null,
+    enabled: !!jobId,
+  });
+
+  // Edits to an approved job continue from the revision already in review
+  const { data: revisionResponse, isLoading: revisionLoading } = useQuery<{ data: JobRevision | null }>({
+    queryKey: [`/api/jobs/${jobId}/revision`],
+    enabled: job?.status === 'approved',
+  });
+  const pendingRevision = revisionResponse?.data;
+
+  const form = useForm<JobForm>({
+    resolver: zodResolver(jobFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+  const questions = useFieldArray({ control: form.control, name: 'screeningQuestions' });
+
+  React.useEffect(() => {
+    if (job) {
+      form.reset(toFormValues(pendingRevision?.content || job));
+    }
+  }, [job, pendingRevision, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ values, mode }: { values: JobForm; mode: SaveMode }) => {
+      const content = toJobContent(values);
+      if (job) {
+        return apiRequest('PUT', `/api/jobs/${job.id}`, { ...content, submit: mode === 'submit' });
+      }
+      return apiRequest('POST', '/api/jobs', { ...content, companyId: company?.id, draft: mode === 'draft' });
+    },
+    onSuccess: (res, { mode }) => {
+      queryClient.invalidateQueries({ queryKey: ['employer-jobs'] });
+      if (job) {
+        queryClient.invalidateQueries({ queryKey: ['job', job.id] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/revision`] });
+      }
+      toast(res.status === 202
+        ? {
+            title: "Changes Submitted for Review",
+            description: "The current version stays live until the changes are approved.",
+          }
+        : mode === 'draft'
+          ? { title: "Draft Saved", description: "Your job is saved and has not been sent for review." }
+          : mode === 'submit'
+            ? { title: "Job Submitted", description: "Your job will go live once it has been approved." }
+            : { title: "Job Updated", description: "Your changes have been saved." }
+      );
+      setLocation('/employer');
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const save = (mode: SaveMode) =>
+    form.handleSubmit(values => saveMutation.mutate({ values, mode }), () => {
+      const invalidStep = STEPS.findIndex(({ fields }) =>
+        fields.some(field => form.formState.errors[field])
+      );
+      if (invalidStep >= 0) {
+        setStep(invalidStep);
+      }
+    })();
+
+  const goToStep = async (next: number) => {
+    if (next > step && !(await form.trigger(STEPS[step].fields))) {
+      return;
+    }
+    setStep(next);
+  };
+
+  if (companyLoading || jobLoading || revisionLoading) {
+    return <PageLoadingSpinner text="Loading job editor..." />;
+  }
+
+  const editable = !job || ['draft', 'pending', 'rejected', 'approved'].includes(job.status);
+  const values = form.watch();
+  const preview = { ...toJobContent(values), lastDate: new Date(values.lastDate) };
+  const errors = form.formState.errors;
+
+  const renderSelect = <K extends SelectField>(
+    name: K,
+    label: string,
+    options: readonly PathValue<JobForm, K>[],
+  ) => (
+    <div className="space-y-2">
+      <Label>{label} *</Label>
+      <Select
+        value={form.watch(name)}
+        onValueChange={(value) => {
+          const option = options.find((candidate) => candidate === value);
+          if (option) form.setValue(name, option);
+        }}
+      >
+        <SelectTrigger data-testid={`select-${name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <ProtectedRoute requiredRole="employer">
+      <div className="min-h-screen bg-background py-8">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <Link href="/employer">
+              <Button variant="ghost" size="sm" data-testid="button-back-to-dashboard">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">
+              {job ? 'Edit Job' : 'Post New Job'}
+            </h1>
+          </div>
+
+          {job?.status === 'approved' && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <div className="flex items-center">
+                <Clock className="w-5 h-5 text-yellow-600 mr-3" />
+                <p className="text-sm text-yellow-700">
+                  {pendingRevision
+                    ? 'Changes to this job are awaiting review. Saving again replaces them; the current version stays live until they are approved.'
+                    : 'This job is live. Your changes will be reviewed before they replace the current version.'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {job?.status === 'rejected' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start">
+                <XCircle className="w-5 h-5 text-red-600 mr-3" />
+                <div className="text-red-700">
+                  <p className="text-sm font-medium text-red-800">This job was not approved</p>
+                  <p className="text-sm mb-2">Fix the following and resubmit it for review.</p>
+                  <RejectionFeedback reasons={job.rejectionReasons} notes={job.rejectionNotes} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {!editable ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                This job is {job?.status} and can no longer be edited.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Steps */}
+              <div className="grid grid-cols-4 gap-2">
+                {STEPS.map(({ title }, index) => (
+                  <button
+                    key={title}
+                    type="button"
+                    onClick={() => goToStep(index)}
+                    className={cn(
+                      "border-b-2 pb-2 text-sm font-medium text-left",
+                      index === step ? "border-primary text-primary" : "border-border text-muted-foreground"
+                    )}
+                    data-testid={`step-${title.toLowerCase()}`}
+                  >
+                    {index + 1}. {title}
+                  </button>
+                ))}
+              </div>
+
+              {step === 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Basics</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="title">Job Title *</Label>
+                      <Input id="title" {...form.register('title')} data-testid="input-job-title" />
+                      {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {renderSelect('department', 'Department', Department.options)}
+                      {renderSelect('level', 'Position Level', JobLevel.options)}
+                      {renderSelect('instituteType', 'Institute Type', InstituteType.options)}
+                      {renderSelect('employmentType', 'Employment Type', EmploymentType.options)}
+                      <div className="space-y-2">
+                        <Label htmlFor="city">City *</Label>
+                        <Input id="city" {...form.register('location.city')} data-testid="input-job-city" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="state">State *</Label>
+                        <Input id="state" {...form.register('location.state')} data-testid="input-job-state" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="lastDate">Last Date to Apply *</Label>
+                        <Input id="lastDate" type="date" {...form.register('lastDate')} data-testid="input-job-last-date" />
+                        {errors.lastDate && <p className="text-sm text-destructive">{errors.lastDate.message}</p>}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="positions">Number of Posts *</Label>
+                        <Input
+                          id="positions"
+                          type="number"
+                          min={1}
+                          max={100}
+                          {...form.register('positions', { valueAsNumber: true })}
+                          data-testid="input-job-positions"
+                        />
+                        {errors.positions && <p className="text-sm text-destructive">{errors.positions.message}</p>}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === 1 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Details</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Description *</Label>
+                      <Textarea id="description" rows={8} {...form.register('description')} data-testid="textarea-job-description" />
+                      {errors.description && <p className="text-sm text-destructive">{errors.description.message}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="requirements">Requirements</Label>
+                      <Textarea id="requirements" rows={4} {...form.register('requirements')} data-testid="textarea-job-requirements" />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="responsibilities">Responsibilities (one per line)</Label>
+                        <Textarea id="responsibilities" rows={5} {...form.register('responsibilities')} data-testid="textarea-job-responsibilities" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="qualifications">Qualifications (one per line)</Label>
+                        <Textarea id="qualifications" rows={5} {...form.register('qualifications')} data-testid="textarea-job-qualifications" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="skills">Skills (one per line)</Label>
+                        <Textarea id="skills" rows={5} {...form.register('skills')} data-testid="textarea-job-skills" />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="minSalary">Minimum Salary (₹ per year)</Label>
+                        <Input id="minSalary" inputMode="numeric" {...form.register('minSalary')} data-testid="input-job-min-salary" />
+                        {errors.minSalary && <p className="text-sm text-destructive">{errors.minSalary.message}</p>}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxSalary">Maximum Salary (₹ per year)</Label>
+                        <Input id="maxSalary" inputMode="numeric" {...form.register('maxSalary')} data-testid="input-job-max-salary" />
+                        {errors.maxSalary && <p className="text-sm text-destructive">{errors.maxSalary.message}</p>}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === 2 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Application</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <RadioGroup
+                      value={values.applyMode}
+                      onValueChange={(value) => form.setValue('applyMode', value as JobForm['applyMode'])}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="internal" id="apply-internal" data-testid="radio-apply-internal" />
+                        <Label htmlFor="apply-internal" className="font-normal">Candidates apply on this site</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="external" id="apply-external" data-testid="radio-apply-external" />
+                        <Label htmlFor="apply-external" className="font-normal">Candidates apply on our institution's site</Label>
+                      </div>
+                    </RadioGroup>
+
+                    {values.applyMode === 'external' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="applyUrl">Application URL *</Label>
+                        <Input id="applyUrl" type="url" placeholder="https://careers.institute.edu/..." {...form.register('applyUrl')} data-testid="input-job-apply-url" />
+                        {errors.applyUrl && <p className="text-sm text-destructive">{errors.applyUrl.message}</p>}
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <h4 className="font-medium text-foreground">Screening questions</h4>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => questions.append({ question: '', required: true })}
+                            disabled={questions.fields.length >= 10}
+                            data-testid="button-add-question"
+                          >
+                            <Plus className="w-4 h-4 mr-1" />
+                            Add Question
+                          </Button>
+                        </div>
+                        {questions.fields.length === 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Optionally ask applicants up to 10 questions.
+                          </p>
+                        )}
+                        {questions.fields.map((field, index) => (
+                          <div key={field.id} className="flex items-start gap-3">
+                            <div className="flex-1 space-y-1">
+                              <Input
+                                placeholder="Question"
+                                maxLength={300}
+                                {...form.register(`screeningQuestions.${index}.question`)}
+                                data-testid={`input-question-${index}`}
+                              />
+                              {errors.screeningQuestions?.[index]?.question && (
+                                <p className="text-sm text-destructive">{errors.screeningQuestions[index]?.question?.message}</p>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2 pt-2">
+                              <Switch
+                                id={`question-required-${index}`}
+                                checked={values.screeningQuestions[index]?.required ?? true}
+                                onCheckedChange={(checked) => form.setValue(`screeningQuestions.${index}.required`, checked)}
+                              />
+                              <Label htmlFor={`question-required-${index}`} className="font-normal text-sm">Required</Label>
+                            </div>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => questions.remove(index)}
+                              data-testid={`button-remove-question-${index}`}
+                            >
+                              <Trash className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === 3 && (
+                <div className="space-y-8" data-testid="job-preview">
+                  <JobPosting job={preview} />
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  onClick={() => goToStep(step - 1)}
+                  disabled={step === 0}
+                  data-testid="button-previous-step"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+                <div className="flex space-x-2">
+                  {(!job || job.status === 'draft') && (
+                    <Button
+                      variant="outline"
+                      onClick={() => save('draft')}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-save-draft"
+                    >
+                      Save Draft
+                    </Button>
+                  )}
+                  {(job?.status === 'pending' || job?.status === 'rejected') && (
+                    <Button
+                      variant="outline"
+                      onClick={() => save('save')}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-save-job"
+                    >
+                      Save Changes
+                    </Button>
+                  )}
+                  {step < STEPS.length - 1 ? (
+                    <Button onClick={() => goToStep(step + 1)} data-testid="button-next-step">
+                      Next
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </Button>
+                  ) : job?.status !== 'pending' && (
+                    <Button
+                      onClick={() => save('submit')}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-submit-job"
+                    >
+                      {job?.status === 'approved'
+                        ? 'Submit Changes for Review'
+                        : job?.status === 'rejected' ? 'Resubmit for Review' : 'Submit for Review'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+export default JobEditor;
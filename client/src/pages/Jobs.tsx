@@ -2,13 +2,16 @@ import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'wouter';
 // Removed direct firestore import - using API instead
-import { JobSearchFilters, Department, InstituteType, JobLevel, EmploymentType, Job, PaginatedResponse } from '@shared/schema';
+import { JobSearchFilters, Department, InstituteType, JobLevel } from '@shared/schema';
+import { JobSearchResult } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner, PageLoadingSpinner } from '@/components/LoadingSpinner';
+import { SaveSearchDialog } from '@/components/SaveSearchDialog';
+import { useAuth } from '@/context/AuthProvider';
 import { 
   MapPin, 
   Calendar, 
@@ -20,13 +23,34 @@ import {
   ChevronRight
 } from 'lucide-react';
 
+// Turn facet counts into select options, most common first. The selected value
+// is kept even when nothing matches so the select can still display it.
+const facetOptions = (counts: Record<string, number> = {}, selected?: string) => {
+  const options = Object.entries(counts).sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+  if (selected && !(selected in counts)) {
+    options.push([selected, 0]);
+  }
+  return options;
+};
+
+const DEFAULT_FILTERS: JobSearchFilters = {
+  page: 1,
+  limit: 20,
+  sortBy: 'newest',
+  postedWithin: 'all',
+  currency: 'INR',
+};
+
+// Annual salary bands in rupees, encoded as "min-max" select values
+const SALARY_RANGES = [
+  { value: '0-1000000', label: 'Up to ₹10 LPA' },
+  { value: '1000000-2000000', label: '₹10-20 LPA' },
+  { value: '2000000-', label: '₹20+ LPA' },
+];
+
 export function Jobs() {
-  const [filters, setFilters] = useState<JobSearchFilters>({
-    page: 1,
-    limit: 20,
-    sortBy: 'newest',
-    postedWithin: 'all',
-  });
+  const { userProfile } = useAuth();
+  const [filters, setFilters] = useState<JobSearchFilters>(DEFAULT_FILTERS);
 
   // Build API URL with query parameters
   const buildJobsUrl = (filters: JobSearchFilters) => {
@@ -41,14 +65,18 @@ export function Jobs() {
     if (filters.employmentType) params.append('employmentType', filters.employmentType);
     if (filters.sortBy) params.append('sortBy', filters.sortBy);
     if (filters.postedWithin) params.append('postedWithin', filters.postedWithin);
+    if (filters.minSalary !== undefined) params.append('minSalary', filters.minSalary.toString());
+    if (filters.maxSalary !== undefined) params.append('maxSalary', filters.maxSalary.toString());
+    if (filters.minSalary !== undefined || filters.maxSalary !== undefined) params.append('currency', filters.currency);
     return `/api/jobs?${params.toString()}`;
   };
 
-  const { data: apiResponse, isLoading, refetch } = useQuery<{ data: PaginatedResponse<Job> }>({
+  const { data: apiResponse, isLoading, refetch } = useQuery<{ data: JobSearchResult }>({
     queryKey: [buildJobsUrl(filters)],
   });
 
   const jobResults = apiResponse?.data;
+  const facets = jobResults?.facets;
 
   const handleFilterChange = (key: keyof JobSearchFilters, value: any) => {
     // Convert 'all-*' values to undefined for filtering
@@ -60,6 +88,20 @@ export function Jobs() {
     }));
   };
 
+  const handleSalaryRangeChange = (value: string) => {
+    const [min, max] = value.startsWith('all-') ? [] : value.split('-');
+    setFilters(prev => ({
+      ...prev,
+      minSalary: min ? Number(min) : undefined,
+      maxSalary: max ? Number(max) : undefined,
+      page: 1,
+    }));
+  };
+
+  const salaryRange = filters.minSalary !== undefined || filters.maxSalary !== undefined
+    ? `${filters.minSalary ?? ''}-${filters.maxSalary ?? ''}`
+    : undefined;
+
   const handleSearch = () => {
     refetch();
   };
@@ -96,11 +138,13 @@ export function Jobs() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="newest">Sort by: Newest</SelectItem>
+                  <SelectItem value="relevance">Sort by: Relevance</SelectItem>
                   <SelectItem value="deadline">Sort by: Deadline</SelectItem>
                   <SelectItem value="salary_high">Sort by: Salary High</SelectItem>
                   <SelectItem value="salary_low">Sort by: Salary Low</SelectItem>
                 </SelectContent>
               </Select>
+              {userProfile?.role === 'seeker' && <SaveSearchDialog filters={filters} />}
               <Button variant="outline" size="icon">
                 <Filter className="w-5 h-5" />
               </Button>
@@ -125,7 +169,7 @@ export function Jobs() {
               </Button>
             </div>
 
-            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
               <Select
                 value={filters.department}
                 onValueChange={(value: Department) => handleFilterChange('department', value)}
@@ -135,11 +179,11 @@ export function Jobs() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all-departments">All Departments</SelectItem>
-                  <SelectItem value="Mathematics">Mathematics</SelectItem>
-                  <SelectItem value="Statistics">Statistics</SelectItem>
-                  <SelectItem value="Control Theory">Control Theory</SelectItem>
-                  <SelectItem value="Computer Science">Computer Science</SelectItem>
-                  <SelectItem value="Physics">Physics</SelectItem>
+                  {facetOptions(facets?.departments, filters.department).map(([value, count]) => (
+                    <SelectItem key={value} value={value} data-testid={`facet-department-${value}`}>
+                      {value} ({count})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -152,10 +196,11 @@ export function Jobs() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all-institute-types">All Institute Types</SelectItem>
-                  <SelectItem value="IIT">IIT</SelectItem>
-                  <SelectItem value="NIT">NIT</SelectItem>
-                  <SelectItem value="State University">State University</SelectItem>
-                  <SelectItem value="Private University">Private University</SelectItem>
+                  {facetOptions(facets?.instituteTypes, filters.instituteType).map(([value, count]) => (
+                    <SelectItem key={value} value={value} data-testid={`facet-institute-type-${value}`}>
+                      {value} ({count})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -168,9 +213,11 @@ export function Jobs() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all-levels">All Levels</SelectItem>
-                  <SelectItem value="Assistant Professor">Assistant Professor</SelectItem>
-                  <SelectItem value="Associate Professor">Associate Professor</SelectItem>
-                  <SelectItem value="Professor">Professor</SelectItem>
+                  {facetOptions(facets?.levels, filters.level).map(([value, count]) => (
+                    <SelectItem key={value} value={value} data-testid={`facet-level-${value}`}>
+                      {value} ({count})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -183,10 +230,25 @@ export function Jobs() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all-locations">All Locations</SelectItem>
-                  <SelectItem value="Delhi">Delhi</SelectItem>
-                  <SelectItem value="Mumbai">Mumbai</SelectItem>
-                  <SelectItem value="Bangalore">Bangalore</SelectItem>
-                  <SelectItem value="Chennai">Chennai</SelectItem>
+                  {facetOptions(facets?.locations, filters.location).map(([value, count]) => (
+                    <SelectItem key={value} value={value} data-testid={`facet-location-${value}`}>
+                      {value} ({count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={salaryRange} onValueChange={handleSalaryRangeChange}>
+                <SelectTrigger data-testid="select-salary-range">
+                  <SelectValue placeholder="Any Salary" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all-salaries">Any Salary</SelectItem>
+                  {SALARY_RANGES.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -237,8 +299,7 @@ export function Jobs() {
                           {/* Company Logo Placeholder */}
                           <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center flex-shrink-0">
                             <span className="text-white font-bold text-sm">
-                              {/* In real implementation, get company initials */}
-                              {job.instituteType.substring(0, 3)}
+                              {(job.company?.name || job.instituteType).substring(0, 3)}
                             </span>
                           </div>
                           
@@ -251,7 +312,7 @@ export function Jobs() {
                                   </h3>
                                 </Link>
                                 <p className="text-muted-foreground mb-2" data-testid={`job-institute-type-${job.id}`}>
-                                  {job.instituteType} • {job.department}
+                                  {job.company ? `${job.company.name} • ` : ''}{job.instituteType} • {job.department}
                                 </p>
                                 
                                 <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
@@ -337,7 +398,7 @@ export function Jobs() {
                   </p>
                   <Button 
                     variant="outline" 
-                    onClick={() => setFilters({ page: 1, limit: 20, sortBy: 'newest', postedWithin: 'all' })}
+                    onClick={() => setFilters(DEFAULT_FILTERS)}
                     data-testid="button-clear-filters"
                   >
                     Clear All Filters
@@ -12,6 +12,10 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { LoadingSpinner, PageLoadingSpinner } from '@/components/LoadingSpinner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { SavedSearches } from '@/components/SavedSearches';
+import { ApplicationInterviews, MY_INTERVIEWS_URL } from '@/components/ApplicationInterviews';
+import { ApplicationOffer, MY_OFFERS_URL } from '@/components/ApplicationOffer';
+import { WithdrawApplicationDialog } from '@/components/WithdrawApplicationDialog';
 import { 
   User, 
   Mail, 
@@ -29,7 +33,7 @@ import {
   GraduationCap
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Department } from '@shared/schema';
+import { Department, InterviewSlot, Offer } from '@shared/schema';
 
 export function Profile() {
   const { user, userProfile } = useAuth();
@@ -50,6 +54,18 @@ export function Profile() {
     enabled: !!user?.uid,
   });
 
+  const { data: interviewsResponse } = useQuery<{ data: InterviewSlot[] }>({
+    queryKey: [MY_INTERVIEWS_URL],
+    enabled: !!user?.uid,
+  });
+  const interviews = interviewsResponse?.data || [];
+
+  const { data: offersResponse } = useQuery<{ data: Offer[] }>({
+    queryKey: [MY_OFFERS_URL],
+    enabled: !!user?.uid,
+  });
+  const offers = offersResponse?.data || [];
+
   const uploadResumeMutation = useMutation({
     mutationFn: async (file: File) => {
       if (!user?.uid) throw new Error('User not authenticated');
@@ -124,6 +140,9 @@ export function Profile() {
         return 'bg-red-100 text-red-800';
       case 'offered':
         return 'bg-purple-100 text-purple-800';
+      case 'accepted':
+      case 'joined':
+        return 'bg-emerald-100 text-emerald-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -388,11 +407,17 @@ export function Profile() {
                           >
                             {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
                           </Badge>
+                          <WithdrawApplicationDialog application={application} />
                           <Button variant="ghost" size="sm" data-testid={`button-view-application-${application.id}`}>
                             <ExternalLink className="w-4 h-4" />
                           </Button>
                         </div>
                       </div>
+                      <ApplicationInterviews
+                        application={application}
+                        bookings={interviews.filter(slot => slot.applicationId === application.id)}
+                      />
+                      <ApplicationOffer offer={offers.find(offer => offer.applicationId === application.id)} />
                     </div>
                   ))}
                 </div>
@@ -410,6 +435,11 @@ export function Profile() {
               )}
             </CardContent>
           </Card>
+
+          {/* Saved Searches */}
+          <div className="mt-8">
+            <SavedSearches />
+          </div>
         </div>
       </div>
     </ProtectedRoute>
@@ -0,0 +1,51 @@
+// GENERATED from shared/applications.ts by `npm run policy:sync`; edit that file instead.
+
+// Application lifecycle
+// Which statuses an application moves between, and how often an applicant may
+// withdraw and apply again. The API uses this through @shared/schema, and the
+// Cloud Functions use a copy kept at functions/src/applications.ts by
+// `npm run policy:sync`.
+//
+// The module has no imports so that the functions copy compiles on its own.
+
+export const APPLICATION_STATUSES = [
+  "submitted",
+  "reviewed",
+  "shortlisted",
+  "rejected",
+  "offered",
+  "accepted",
+  "declined",
+  "joined",
+  "withdrawn",
+] as const;
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+// Statuses an employer may move an application to from each status.
+// Withdrawal is the applicant's action and never an employer transition, and
+// so are accepting and declining an offer. Applications become offered
+// through an offer rather than a status change, and rejecting an offered
+// application withdraws its offer.
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  submitted: ["reviewed", "shortlisted", "rejected"],
+  reviewed: ["shortlisted", "rejected"],
+  shortlisted: ["reviewed", "rejected"],
+  offered: ["rejected"],
+  accepted: ["joined"],
+  declined: [],
+  joined: [],
+  rejected: ["reviewed"],
+  withdrawn: [],
+};
+
+export function canTransitionApplication(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return APPLICATION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Statuses an applicant may withdraw from. Once offered, they decline the
+// offer instead.
+export const WITHDRAWABLE_APPLICATION_STATUSES: ApplicationStatus[] = ["submitted", "reviewed", "shortlisted"];
+
+// Withdrawn applicants may apply to the same job again while it is open, up
+// to this many withdrawals; the withdrawn applications are kept
+export const MAX_WITHDRAWALS_PER_JOB = 2;
@@ -2,11 +2,12 @@ import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import sgMail from '@sendgrid/mail';
 import { z } from 'zod';
+import { can, type Actor, type CompanyRole } from './policy';
+import { MAX_WITHDRAWALS_PER_JOB, canTransitionApplication, type ApplicationStatus } from './applications';
 
 // Initialize Firebase Admin
 admin.initializeApp();
 const db = admin.firestore();
-const auth = admin.auth();
 
 // Initialize SendGrid
 if (process.env.SENDGRID_API_KEY) {
@@ -17,16 +18,6 @@ if (process.env.SENDGRID_API_KEY) {
 const region = 'asia-south1';
 
 // Schema definitions for validation
-const companySchema = z.object({
-  name: z.string().min(2),
-  website: z.string().url().optional(),
-  instituteType: z.string(),
-  hrEmail: z.string().email(),
-  phone: z.string().optional(),
-  address: z.string().min(10),
-  proofDocs: z.array(z.string()).default([]),
-});
-
 const jobSchema = z.object({
   title: z.string().min(5),
   department: z.string(),
@@ -71,6 +62,24 @@ async function sendEmail(to: string, subject: string, html: string): Promise<boo
   }
 }
 
+// Helper function to get a user's role in a company. Memberships are keyed by
+// company and user; the company's creator is always an owner.
+async function getCompanyRole(companyId: string, uid: string): Promise<CompanyRole | undefined> {
+  const [companyDoc, membershipDoc] = await Promise.all([
+    db.collection('companies').doc(companyId).get(),
+    db.collection('companyMemberships').doc(`${companyId}_${uid}`).get(),
+  ]);
+  if (companyDoc.data()?.ownerUid === uid) {
+    return 'owner';
+  }
+  return membershipDoc.data()?.role;
+}
+
+// The caller as the authorization policy sees them; see ./policy
+function actorOf(auth: functions.https.CallableContext['auth']): Actor | undefined {
+  return auth && { uid: auth.uid, role: auth.token.role, emailVerified: auth.token.email_verified };
+}
+
 // Helper function to create audit log
 async function createAuditLog(
   actorUid: string,
@@ -89,6 +98,32 @@ async function createAuditLog(
   });
 }
 
+// Helper function to create an in-app notification. Mirrors the document
+// shape the API server writes (see server/notifications.ts).
+async function createNotification(
+  userUid: string,
+  type: 'info' | 'success' | 'warning' | 'error',
+  title: string,
+  message: string,
+  actionUrl?: string,
+  actionLabel?: string
+): Promise<void> {
+  try {
+    await db.collection('notifications').add({
+      userUid,
+      type,
+      title,
+      message,
+      read: false,
+      ...(actionUrl && { actionUrl }),
+      ...(actionLabel && { actionLabel }),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Notification creation error:', error);
+  }
+}
+
 // 1. User creation trigger - Create user profile on authentication
 export const onAuthUserCreate = functions
   .region(region)
@@ -128,143 +163,19 @@ export const onAuthUserCreate = functions
     }
   });
 
-// 2. Request employer upgrade (callable function)
-export const requestEmployerUpgrade = functions
-  .region(region)
-  .https
-  .onCall(async (data, context) => {
-    // Verify authentication and email verification
-    if (!context.auth || !context.auth.token.email_verified) {
-      throw new functions.https.HttpsError(
-        'unauthenticated',
-        'User must be authenticated and email verified'
-      );
-    }
-
-    try {
-      const validatedData = companySchema.parse(data);
-      const uid = context.auth.uid;
-
-      // Check if user already has a company
-      const existingCompany = await db.collection('companies')
-        .where('ownerUid', '==', uid)
-        .limit(1)
-        .get();
-
-      if (!existingCompany.empty) {
-        throw new functions.https.HttpsError(
-          'already-exists',
-          'User already has a company profile'
-        );
-      }
-
-      // Create company with pending status
-      const companyData = {
-        ...validatedData,
-        ownerUid: uid,
-        status: 'pending',
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      };
-
-      const companyRef = await db.collection('companies').add(companyData);
-
-      // Create audit log
-      await createAuditLog(uid, 'company_created', 'company', companyRef.id);
-
-      return { success: true, companyId: companyRef.id };
-    } catch (error) {
-      console.error('Error requesting employer upgrade:', error);
-      throw new functions.https.HttpsError('internal', 'Failed to create company profile');
-    }
-  });
-
-// 3. Approve employer upgrade (admin only callable function)
-export const approveEmployerUpgrade = functions
-  .region(region)
-  .https
-  .onCall(async (data, context) => {
-    // Verify admin authentication
-    if (!context.auth || context.auth.token.role !== 'admin') {
-      throw new functions.https.HttpsError(
-        'permission-denied',
-        'Only admin users can approve employers'
-      );
-    }
-
-    const { uid, companyId } = data;
-
-    if (!uid || !companyId) {
-      throw new functions.https.HttpsError(
-        'invalid-argument',
-        'uid and companyId are required'
-      );
-    }
-
-    try {
-      // Update company status
-      await db.collection('companies').doc(companyId).update({
-        status: 'approved',
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      // Set custom user claim
-      await auth.setCustomUserClaims(uid, { role: 'employer' });
-
-      // Update user profile
-      await db.collection('users').doc(uid).update({
-        role: 'employer',
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      // Get company and user details for email
-      const [companyDoc, userDoc] = await Promise.all([
-        db.collection('companies').doc(companyId).get(),
-        db.collection('users').doc(uid).get(),
-      ]);
-
-      const companyData = companyDoc.data();
-      const userData = userDoc.data();
-
-      // Send approval email
-      if (userData?.email) {
-        await sendEmail(
-          userData.email,
-          'Your Employer Account Has Been Approved!',
-          `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #16a34a;">Congratulations!</h1>
-            <p>Your employer account for <strong>${companyData?.name}</strong> has been approved.</p>
-            <p>You can now start posting faculty positions and attracting qualified candidates.</p>
-            <p><a href="${process.env.APP_URL || 'https://eduhire.faculty.com'}/employer" 
-               style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">
-               Go to Dashboard</a></p>
-            <p>Best regards,<br>The EduHire Faculty Team</p>
-          </div>
-          `
-        );
-      }
-
-      // Create audit log
-      await createAuditLog(context.auth.uid, 'company_approved', 'company', companyId, { uid });
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error approving employer:', error);
-      throw new functions.https.HttpsError('internal', 'Failed to approve employer');
-    }
-  });
+// Institutions are registered and approved, and roles changed, through the
+// API server's employer upgrade routes (see server/user-roles.ts)
 
-// 4. Create job (employer only callable function)
+// 2. Create job (employer only callable function)
 export const createJob = functions
   .region(region)
   .https
   .onCall(async (data, context) => {
-    // Verify employer authentication and email verification
-    if (!context.auth || !context.auth.token.email_verified || context.auth.token.role !== 'employer') {
+    // Employers are checked against the company below
+    if (!context.auth) {
       throw new functions.https.HttpsError(
-        'permission-denied',
-        'Only verified employers can create jobs'
+        'unauthenticated',
+        'User must be authenticated'
       );
     }
 
@@ -278,8 +189,10 @@ export const createJob = functions
         throw new functions.https.HttpsError('not-found', 'Company not found');
       }
 
+      // Verified employers who manage the company's jobs post for it
       const companyData = companyDoc.data()!;
-      if (companyData.ownerUid !== uid) {
+      const companyRole = await getCompanyRole(validatedData.companyId, uid);
+      if (!can(actorOf(context.auth), 'job.create', { companyRole })) {
         throw new functions.https.HttpsError('permission-denied', 'Not authorized to post for this company');
       }
 
@@ -310,16 +223,16 @@ export const createJob = functions
     }
   });
 
-// 5. Approve job (admin only callable function)
+// 3. Approve job (moderator callable function)
 export const approveJob = functions
   .region(region)
   .https
   .onCall(async (data, context) => {
-    // Verify admin authentication
-    if (!context.auth || context.auth.token.role !== 'admin') {
+    // Verify moderator authentication and email verification
+    if (!context.auth || !can(actorOf(context.auth), 'job.moderate')) {
       throw new functions.https.HttpsError(
         'permission-denied',
-        'Only admin users can approve jobs'
+        'Only verified moderators can approve jobs'
       );
     }
 
@@ -333,6 +246,18 @@ export const approveJob = functions
     }
 
     try {
+      // Only jobs in the review queue can be approved, as in the API
+      const pendingJobDoc = await db.collection('jobs').doc(jobId).get();
+      if (!pendingJobDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Job not found');
+      }
+      if (pendingJobDoc.data()!.status !== 'pending') {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `A ${pendingJobDoc.data()!.status} job cannot be approved`
+        );
+      }
+
       // Update job status
       await db.collection('jobs').doc(jobId).update({
         status: 'approved',
@@ -341,13 +266,10 @@ export const approveJob = functions
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
 
-      // Get job and company details for email
+      // Get job details for email
       const jobDoc = await db.collection('jobs').doc(jobId).get();
       const jobData = jobDoc.data()!;
 
-      const companyDoc = await db.collection('companies').doc(jobData.companyId).get();
-      const companyData = companyDoc.data()!;
-
       const userDoc = await db.collection('users').doc(jobData.posterUid).get();
       const userData = userDoc.data()!;
 
@@ -370,6 +292,15 @@ export const approveJob = functions
         );
       }
 
+      await createNotification(
+        jobData.posterUid,
+        'success',
+        'Job approved',
+        `"${jobData.title}" is now live.`,
+        `/jobs/${jobId}`,
+        'View job'
+      );
+
       // Create audit log
       await createAuditLog(context.auth.uid, 'job_approved', 'job', jobId);
 
@@ -380,13 +311,13 @@ export const approveJob = functions
     }
   });
 
-// 6. Apply to job (seeker only callable function)
+// 4. Apply to job (seeker only callable function)
 export const applyToJob = functions
   .region(region)
   .https
   .onCall(async (data, context) => {
     // Verify seeker authentication and email verification
-    if (!context.auth || !context.auth.token.email_verified || context.auth.token.role !== 'seeker') {
+    if (!context.auth || !can(actorOf(context.auth), 'application.create')) {
       throw new functions.https.HttpsError(
         'permission-denied',
         'Only verified job seekers can apply to jobs'
@@ -432,6 +363,20 @@ export const applyToJob = functions
         throw new functions.https.HttpsError('already-exists', 'You have already applied to this job');
       }
 
+      // Withdrawn applications give up their dedupe key, up to a limit per job
+      const withdrawals = await db.collection('applications')
+        .where('applicantUid', '==', uid)
+        .where('jobId', '==', jobId)
+        .where('status', '==', 'withdrawn')
+        .get();
+
+      if (withdrawals.size >= MAX_WITHDRAWALS_PER_JOB) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          'You have withdrawn from this job too many times to apply again'
+        );
+      }
+
       // Create application
       const applicationData = {
         jobId,
@@ -476,6 +421,15 @@ export const applyToJob = functions
         `
       );
 
+      await createNotification(
+        jobData.posterUid,
+        'info',
+        'New application received',
+        `${applicantData.displayName} applied for "${jobData.title}".`,
+        '/employer',
+        'Review applications'
+      );
+
       // Create audit log
       await createAuditLog(uid, 'application_submitted', 'application', applicationRef.id, { jobId });
 
@@ -486,7 +440,7 @@ export const applyToJob = functions
     }
   });
 
-// 7. Generate signed URL for resume access (employer/admin only)
+// 5. Generate signed URL for resume access (employer/admin only)
 export const signUrlForResume = functions
   .region(region)
   .https
@@ -501,7 +455,6 @@ export const signUrlForResume = functions
 
     const { applicationId } = data;
     const uid = context.auth.uid;
-    const role = context.auth.token.role;
 
     if (!applicationId) {
       throw new functions.https.HttpsError(
@@ -519,22 +472,14 @@ export const signUrlForResume = functions
 
       const applicationData = applicationDoc.data()!;
 
-      // Check permissions
-      if (role === 'admin') {
-        // Admin can access any resume
-      } else if (role === 'employer') {
-        // Employer can only access resumes for their job postings
-        const jobDoc = await db.collection('jobs').doc(applicationData.jobId).get();
-        if (!jobDoc.exists || jobDoc.data()!.posterUid !== uid) {
-          throw new functions.https.HttpsError(
-            'permission-denied',
-            'Not authorized to access this resume'
-          );
-        }
-      } else {
+      // Check permissions: the applicant, the company's members or a
+      // super-admin
+      const jobDoc = await db.collection('jobs').doc(applicationData.jobId).get();
+      const companyRole = jobDoc.exists ? await getCompanyRole(jobDoc.data()!.companyId, uid) : undefined;
+      if (!can(actorOf(context.auth), 'resume.view', { ownerUid: applicationData.applicantUid, companyRole })) {
         throw new functions.https.HttpsError(
           'permission-denied',
-          'Only employers and admin can access resumes'
+          'Not authorized to access this resume'
         );
       }
 
@@ -554,7 +499,7 @@ export const signUrlForResume = functions
     }
   });
 
-// 8. Scheduled function to expire jobs
+// 6. Scheduled function to expire jobs
 export const expireJobs = functions
   .region(region)
   .pubsub
@@ -592,7 +537,7 @@ export const expireJobs = functions
     }
   });
 
-// 9. Update application status (employer/admin only)
+// 7. Update application status (employer/admin only)
 export const updateApplicationStatus = functions
   .region(region)
   .https
@@ -607,9 +552,9 @@ export const updateApplicationStatus = functions
 
     const { applicationId, status, notes } = data;
     const uid = context.auth.uid;
-    const role = context.auth.token.role;
 
-    const validStatuses = ['reviewed', 'shortlisted', 'rejected', 'offered'];
+    // Offers are made through the API, which generates the offer letter
+    const validStatuses = ['reviewed', 'shortlisted', 'rejected'];
     if (!applicationId || !status || !validStatuses.includes(status)) {
       throw new functions.https.HttpsError(
         'invalid-argument',
@@ -626,22 +571,20 @@ export const updateApplicationStatus = functions
 
       const applicationData = applicationDoc.data()!;
 
-      // Check permissions
-      if (role === 'admin') {
-        // Admin can update any application
-      } else if (role === 'employer') {
-        // Employer can only update applications for their jobs
-        const jobDoc = await db.collection('jobs').doc(applicationData.jobId).get();
-        if (!jobDoc.exists || jobDoc.data()!.posterUid !== uid) {
-          throw new functions.https.HttpsError(
-            'permission-denied',
-            'Not authorized to update this application'
-          );
-        }
-      } else {
+      // Check permissions: members of the job's company who review
+      // applications, or a super-admin
+      const jobDoc = await db.collection('jobs').doc(applicationData.jobId).get();
+      const companyRole = jobDoc.exists ? await getCompanyRole(jobDoc.data()!.companyId, uid) : undefined;
+      if (!can(actorOf(context.auth), 'application.review', { companyRole })) {
         throw new functions.https.HttpsError(
           'permission-denied',
-          'Only employers and admin can update applications'
+          'Not authorized to update this application'
+        );
+      }
+      if (!canTransitionApplication(applicationData.status as ApplicationStatus, status)) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `A ${applicationData.status} application cannot be moved to ${status}`
         );
       }
 
@@ -652,11 +595,8 @@ export const updateApplicationStatus = functions
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
 
-      // Get job and applicant details for notification
-      const [jobDoc, applicantDoc] = await Promise.all([
-        db.collection('jobs').doc(applicationData.jobId).get(),
-        db.collection('users').doc(applicationData.applicantUid).get(),
-      ]);
+      // Get applicant details for notification
+      const applicantDoc = await db.collection('users').doc(applicationData.applicantUid).get();
 
       const jobData = jobDoc.data()!;
       const applicantData = applicantDoc.data()!;
@@ -680,6 +620,15 @@ export const updateApplicationStatus = functions
         );
       }
 
+      await createNotification(
+        applicationData.applicantUid,
+        status === 'rejected' ? 'warning' : status === 'reviewed' ? 'info' : 'success',
+        'Application status updated',
+        `Your application for "${jobData.title}" is now ${status}.`,
+        '/profile',
+        'View application'
+      );
+
       // Create audit log
       await createAuditLog(uid, 'application_status_changed', 'application', applicationId, { status, previousStatus: applicationData.status });
 
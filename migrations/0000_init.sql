@@ -0,0 +1,104 @@
+CREATE TABLE "applications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"applicant_uid" varchar NOT NULL,
+	"resume_path" text NOT NULL,
+	"cover_letter" text,
+	"status" text DEFAULT 'submitted' NOT NULL,
+	"notes" text,
+	"dedupe_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "applications_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_uid" varchar NOT NULL,
+	"action" text NOT NULL,
+	"target_type" text NOT NULL,
+	"target_id" varchar NOT NULL,
+	"metadata" jsonb,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "companies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"website" text,
+	"institute_type" text NOT NULL,
+	"hr_email" text NOT NULL,
+	"logo_path" text,
+	"address" text NOT NULL,
+	"phone" text,
+	"proof_docs" text[] DEFAULT '{}'::text[] NOT NULL,
+	"owner_uid" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"department" text NOT NULL,
+	"level" text NOT NULL,
+	"institute_type" text NOT NULL,
+	"employment_type" text NOT NULL,
+	"location" jsonb NOT NULL,
+	"min_salary" integer,
+	"max_salary" integer,
+	"currency" text DEFAULT 'INR' NOT NULL,
+	"qualifications" text[] DEFAULT '{}'::text[] NOT NULL,
+	"skills" text[] DEFAULT '{}'::text[] NOT NULL,
+	"responsibilities" text[] DEFAULT '{}'::text[] NOT NULL,
+	"description" text NOT NULL,
+	"requirements" text,
+	"last_date" timestamp NOT NULL,
+	"apply_mode" text DEFAULT 'internal' NOT NULL,
+	"apply_url" text,
+	"company_id" varchar NOT NULL,
+	"poster_uid" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"approved_by" varchar,
+	"approved_at" timestamp,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"application_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"target_id" varchar NOT NULL,
+	"reporter_uid" varchar NOT NULL,
+	"reason" text NOT NULL,
+	"notes" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"display_name" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text DEFAULT 'seeker' NOT NULL,
+	"email_verified" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "applications" ADD CONSTRAINT "applications_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "applications_job_id_idx" ON "applications" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "applications_applicant_uid_idx" ON "applications" USING btree ("applicant_uid");--> statement-breakpoint
+CREATE INDEX "audit_logs_timestamp_idx" ON "audit_logs" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "companies_owner_uid_idx" ON "companies" USING btree ("owner_uid");--> statement-breakpoint
+CREATE INDEX "companies_status_idx" ON "companies" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "jobs_status_created_at_idx" ON "jobs" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "jobs_company_id_idx" ON "jobs" USING btree ("company_id");--> statement-breakpoint
+CREATE INDEX "jobs_poster_uid_idx" ON "jobs" USING btree ("poster_uid");--> statement-breakpoint
+CREATE INDEX "reports_status_idx" ON "reports" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "saved_searches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_uid" varchar NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"frequency" text DEFAULT 'daily' NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"unsubscribe_token" varchar NOT NULL,
+	"last_checked_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "saved_searches_unsubscribe_token_unique" UNIQUE("unsubscribe_token")
+);
+--> statement-breakpoint
+CREATE INDEX "saved_searches_user_uid_idx" ON "saved_searches" USING btree ("user_uid");
\ No newline at end of file
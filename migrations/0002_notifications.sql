@@ -0,0 +1,13 @@
+CREATE TABLE "notifications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_uid" varchar NOT NULL,
+	"type" text DEFAULT 'info' NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"read" boolean DEFAULT false NOT NULL,
+	"action_url" text,
+	"action_label" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "notifications_user_uid_created_at_idx" ON "notifications" USING btree ("user_uid","created_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "reports" ADD COLUMN "action" text;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "admin_notes" text;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "resolved_by" varchar;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "resolved_at" timestamp;--> statement-breakpoint
+CREATE INDEX "reports_reporter_uid_created_at_idx" ON "reports" USING btree ("reporter_uid","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "audit_logs_actor_uid_timestamp_idx" ON "audit_logs" USING btree ("actor_uid","timestamp");--> statement-breakpoint
+CREATE INDEX "audit_logs_target_timestamp_idx" ON "audit_logs" USING btree ("target_type","target_id","timestamp");
\ No newline at end of file
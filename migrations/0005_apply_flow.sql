@@ -0,0 +1,4 @@
+ALTER TABLE "applications" ADD COLUMN "cover_letter_path" text;--> statement-breakpoint
+ALTER TABLE "applications" ADD COLUMN "screening_answers" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "screening_questions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "apply_click_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
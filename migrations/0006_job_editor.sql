@@ -0,0 +1,15 @@
+CREATE TABLE "job_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"submitted_by" varchar NOT NULL,
+	"content" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" varchar,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "job_revisions" ADD CONSTRAINT "job_revisions_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "job_revisions_job_id_status_idx" ON "job_revisions" USING btree ("job_id","status");--> statement-breakpoint
+CREATE INDEX "job_revisions_status_created_at_idx" ON "job_revisions" USING btree ("status","created_at");
\ No newline at end of file
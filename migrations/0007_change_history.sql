@@ -0,0 +1,10 @@
+CREATE TABLE "change_records" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"target_type" text NOT NULL,
+	"target_id" varchar NOT NULL,
+	"actor_uid" varchar,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "change_records_target_created_at_idx" ON "change_records" USING btree ("target_type","target_id","created_at");
\ No newline at end of file
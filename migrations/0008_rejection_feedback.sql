@@ -0,0 +1,6 @@
+ALTER TABLE "companies" ADD COLUMN "rejection_reasons" text[];--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "rejection_notes" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "resubmission_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "rejection_reasons" text[];--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "rejection_notes" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "resubmission_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
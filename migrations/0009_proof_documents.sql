@@ -0,0 +1,17 @@
+CREATE TABLE "proof_documents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"path" text NOT NULL,
+	"file_name" text NOT NULL,
+	"uploaded_by" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"review_notes" text,
+	"reviewed_by" varchar,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "proof_documents" ADD CONSTRAINT "proof_documents_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "proof_documents_company_id_type_idx" ON "proof_documents" USING btree ("company_id","type");
\ No newline at end of file
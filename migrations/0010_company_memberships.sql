@@ -0,0 +1,32 @@
+CREATE TABLE "company_invitations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" varchar NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"token" varchar NOT NULL,
+	"invited_by" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"accepted_by" varchar,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "company_invitations_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "company_memberships" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" varchar NOT NULL,
+	"user_uid" varchar NOT NULL,
+	"role" text NOT NULL,
+	"invited_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "company_invitations" ADD CONSTRAINT "company_invitations_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_memberships" ADD CONSTRAINT "company_memberships_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "company_invitations_company_id_status_idx" ON "company_invitations" USING btree ("company_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "company_memberships_company_id_user_uid_idx" ON "company_memberships" USING btree ("company_id","user_uid");--> statement-breakpoint
+CREATE INDEX "company_memberships_user_uid_idx" ON "company_memberships" USING btree ("user_uid");--> statement-breakpoint
+-- Existing companies get their creator as the first owner
+INSERT INTO "company_memberships" ("company_id", "user_uid", "role") SELECT "id", "owner_uid", 'owner' FROM "companies";
@@ -0,0 +1,29 @@
+CREATE TABLE "hiring_committees" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"company_id" varchar NOT NULL,
+	"member_uids" text[] NOT NULL,
+	"criteria" jsonb NOT NULL,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "hiring_committees_job_id_unique" UNIQUE("job_id")
+);
+--> statement-breakpoint
+CREATE TABLE "scorecards" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" varchar NOT NULL,
+	"job_id" varchar NOT NULL,
+	"reviewer_uid" varchar NOT NULL,
+	"scores" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"comment" text,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"submitted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "hiring_committees" ADD CONSTRAINT "hiring_committees_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scorecards" ADD CONSTRAINT "scorecards_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scorecards_application_id_reviewer_uid_idx" ON "scorecards" USING btree ("application_id","reviewer_uid");--> statement-breakpoint
+CREATE INDEX "scorecards_job_id_idx" ON "scorecards" USING btree ("job_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "interview_slots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"company_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"location" text NOT NULL,
+	"notes" text,
+	"status" text DEFAULT 'open' NOT NULL,
+	"application_id" varchar,
+	"applicant_uid" varchar,
+	"booked_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "interview_slots" ADD CONSTRAINT "interview_slots_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "interview_slots_job_id_starts_at_idx" ON "interview_slots" USING btree ("job_id","starts_at");--> statement-breakpoint
+CREATE INDEX "interview_slots_applicant_uid_idx" ON "interview_slots" USING btree ("applicant_uid");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "offers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" varchar NOT NULL,
+	"job_id" varchar NOT NULL,
+	"company_id" varchar NOT NULL,
+	"applicant_uid" varchar NOT NULL,
+	"salary" integer NOT NULL,
+	"currency" text DEFAULT 'INR' NOT NULL,
+	"pay_level" text NOT NULL,
+	"joining_date" timestamp NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"letter_path" text NOT NULL,
+	"decline_reason" text,
+	"responded_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "positions" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "offers" ADD CONSTRAINT "offers_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "offers_job_id_idx" ON "offers" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "offers_applicant_uid_idx" ON "offers" USING btree ("applicant_uid");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "applications" ADD COLUMN "withdrawal_reason" text;--> statement-breakpoint
+ALTER TABLE "applications" ADD COLUMN "withdrawn_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDatabase>;
+
+// Create a Drizzle client for the PostgreSQL database at the given URL
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
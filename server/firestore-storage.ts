@@ -0,0 +1,983 @@
+import {
+  User,
+  Company,
+  Job,
+  JobRevision,
+  Application,
+  Report,
+  AuditLog,
+  InsertUser,
+  InsertCompany,
+  InsertJob,
+  InsertJobRevision,
+  ProofDocument,
+  InsertProofDocument,
+  CompanyMembership,
+  InsertCompanyMembership,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  InsertApplication,
+  HiringCommittee,
+  InsertHiringCommittee,
+  Scorecard,
+  InsertScorecard,
+  InterviewSlot,
+  InsertInterviewSlot,
+  Offer,
+  InsertOffer,
+  InsertReport,
+  InsertAuditLog,
+  ChangeRecord,
+  ChangeTargetType,
+  diffFields,
+  SavedSearch,
+  InsertSavedSearch,
+  Notification,
+  InsertNotification,
+  JobSearchFilters,
+  FacetedPaginatedResponse,
+  ReportFilters,
+  ReportType,
+  AuditLogFilters,
+  UserSearchFilters,
+  COLLECTIONS,
+} from "@shared/schema";
+import {
+  FieldPath,
+  FieldValue,
+  Timestamp,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type Firestore,
+  type Query,
+} from "firebase-admin/firestore";
+import { searchJobList } from "./job-search";
+import { JobSearchIndex } from "./search-index";
+import type { IStorage } from "./storage";
+
+// Helper to convert Firestore document to typed object
+const convertFirestoreDoc = <T>(doc: DocumentSnapshot): T => {
+  const data = doc.data();
+  if (!data) {
+    throw new Error('Document does not exist');
+  }
+
+  // Convert timestamps to dates
+  const convertedData = Object.keys(data).reduce((acc, key) => {
+    const value = data[key];
+    if (value instanceof Timestamp) {
+      acc[key] = value.toDate();
+    } else {
+      acc[key] = value;
+    }
+    return acc;
+  }, {} as any);
+
+  return {
+    id: doc.id,
+    ...convertedData,
+  } as T;
+};
+
+// Firestore rejects undefined values, and ids live in the document path
+const toFirestoreData = (data: Record<string, any>): Record<string, any> => {
+  return Object.keys(data).reduce((acc, key) => {
+    if (key !== 'id' && data[key] !== undefined) {
+      acc[key] = data[key];
+    }
+    return acc;
+  }, {} as Record<string, any>);
+};
+
+// toFirestoreData() drops undefined values, so turn them into field deletes
+// for updates that are meant to clear fields
+const withFieldDeletes = (updates: Record<string, any>): Record<string, any> => {
+  return Object.keys(updates).reduce((acc, key) => {
+    acc[key] = updates[key] === undefined ? FieldValue.delete() : updates[key];
+    return acc;
+  }, {} as Record<string, any>);
+};
+
+// Memberships are keyed by company and user, so security rules and the Cloud
+// Functions can look one up without a query
+const membershipId = (companyId: string, userUid: string) => `${companyId}_${userUid}`;
+
+// Likewise a job has at most one committee, keyed by the job id, and each
+// committee member one scorecard per application
+const scorecardId = (applicationId: string, reviewerUid: string) => `${applicationId}_${reviewerUid}`;
+
+export class FirestoreStorage implements IStorage {
+  constructor(private db: Firestore) {}
+
+  private collection(name: string) {
+    return this.db.collection(name);
+  }
+
+  private async getById<T>(collectionName: string, id: string): Promise<T | undefined> {
+    const doc = await this.collection(collectionName).doc(id).get();
+    return doc.exists ? convertFirestoreDoc<T>(doc) : undefined;
+  }
+
+  private async getAll<T>(query: Query): Promise<T[]> {
+    const snapshot = await query.get();
+    return snapshot.docs.map(doc => convertFirestoreDoc<T>(doc));
+  }
+
+  private async getFirst<T>(query: Query): Promise<T | undefined> {
+    const [first] = await this.getAll<T>(query.limit(1));
+    return first;
+  }
+
+  // Documents get a generated id unless they are keyed by one of their own
+  private async create<T>(collectionName: string, data: Record<string, any>, id?: string): Promise<T> {
+    const ref = id ? this.collection(collectionName).doc(id) : this.collection(collectionName).doc();
+    await ref.create({
+      ...toFirestoreData(data),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return this.read<T>(ref);
+  }
+
+  private async read<T>(ref: DocumentReference): Promise<T> {
+    return convertFirestoreDoc<T>(await ref.get());
+  }
+
+  private async update(collectionName: string, id: string, updates: Record<string, any>): Promise<void> {
+    const ref = this.collection(collectionName).doc(id);
+    const doc = await ref.get();
+    if (doc.exists) {
+      await ref.update({
+        ...toFirestoreData(updates),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  }
+
+  // Applies an update to a job or company and records the fields it changed
+  // in the same transaction. `data` is `updates` as written to Firestore.
+  private async updateWithHistory(
+    collectionName: string,
+    targetType: ChangeTargetType,
+    id: string,
+    updates: Record<string, any>,
+    data: Record<string, any>,
+    actorUid?: string
+  ): Promise<void> {
+    const ref = this.collection(collectionName).doc(id);
+    await this.db.runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!doc.exists) {
+        return;
+      }
+      tx.update(ref, { ...data, updatedAt: FieldValue.serverTimestamp() });
+
+      const changes = diffFields(convertFirestoreDoc(doc), updates);
+      if (changes.length > 0) {
+        tx.create(this.collection(COLLECTIONS.CHANGE_RECORDS).doc(), {
+          ...toFirestoreData({ targetType, targetId: id, actorUid, changes }),
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      }
+    });
+  }
+
+  private async count(query: Query): Promise<number> {
+    const snapshot = await query.count().get();
+    return snapshot.data().count;
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.getById<User>(COLLECTIONS.USERS, id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.getFirst<User>(this.collection(COLLECTIONS.USERS).where('email', '==', email));
+  }
+
+  async createUser(uid: string, insertUser: InsertUser): Promise<User> {
+    return this.create<User>(COLLECTIONS.USERS, insertUser, uid);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<void> {
+    await this.update(COLLECTIONS.USERS, id, withFieldDeletes(updates));
+  }
+
+  // Firestore cannot match substrings, so a query matches the start of the
+  // email address or of the name instead, and its matches come as one page
+  async searchUsers(filters: UserSearchFilters = {}, limit: number = 50, after?: string): Promise<User[]> {
+    const users = this.collection(COLLECTIONS.USERS);
+    const matchesFilters = (user: User) =>
+      (!filters.role || user.role === filters.role) &&
+      (filters.emailVerified === undefined || user.emailVerified === filters.emailVerified);
+
+    if (filters.q) {
+      if (after) {
+        return [];
+      }
+      const withPrefix = (field: 'email' | 'displayName', prefix: string) => this.getAll<User>(
+        users.where(field, '>=', prefix).where(field, '<=', `${prefix}\uf8ff`).orderBy(field).limit(limit)
+      );
+      const [byEmail, byName] = await Promise.all([
+        withPrefix('email', filters.q.toLowerCase()),
+        withPrefix('displayName', filters.q),
+      ]);
+      const matches = new Map([...byEmail, ...byName].map(user => [user.id, user]));
+      return Array.from(matches.values())
+        .filter(matchesFilters)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id))
+        .slice(0, limit);
+    }
+
+    let query: Query = users;
+    if (filters.role) {
+      query = query.where('role', '==', filters.role);
+    }
+    if (filters.emailVerified !== undefined) {
+      query = query.where('emailVerified', '==', filters.emailVerified);
+    }
+    query = query.orderBy('createdAt', 'desc').orderBy(FieldPath.documentId(), 'desc');
+
+    if (after) {
+      // Start after the cursor document itself so accounts created in the
+      // same instant are neither skipped nor repeated
+      const cursor = await users.doc(after).get();
+      if (!cursor.exists) {
+        return [];
+      }
+      query = query.startAfter(cursor);
+    }
+    return this.getAll<User>(query.limit(limit));
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const [companies, jobs, applications, savedSearches, notifications, jobRevisions, memberships, bookedSlots, offers] = await Promise.all([
+      this.collection(COLLECTIONS.COMPANIES).where('ownerUid', '==', id).get(),
+      this.collection(COLLECTIONS.JOBS).where('posterUid', '==', id).get(),
+      this.collection(COLLECTIONS.APPLICATIONS).where('applicantUid', '==', id).get(),
+      this.collection(COLLECTIONS.SAVED_SEARCHES).where('userUid', '==', id).get(),
+      this.collection(COLLECTIONS.NOTIFICATIONS).where('userUid', '==', id).get(),
+      this.collection(COLLECTIONS.JOB_REVISIONS).where('submittedBy', '==', id).get(),
+      this.collection(COLLECTIONS.COMPANY_MEMBERSHIPS).where('userUid', '==', id).get(),
+      this.collection(COLLECTIONS.INTERVIEW_SLOTS).where('applicantUid', '==', id).get(),
+      this.collection(COLLECTIONS.OFFERS).where('applicantUid', '==', id).get(),
+    ]);
+
+    // Applications submitted to, scorecards for, interview slots of and offers
+    // for the user's jobs go with the jobs, scorecards of the user's
+    // applications with the applications, and proof documents, memberships and
+    // invitations with the companies
+    const jobApplications = await Promise.all(
+      jobs.docs.flatMap(job => [
+        this.collection(COLLECTIONS.APPLICATIONS).where('jobId', '==', job.id).get(),
+        this.collection(COLLECTIONS.SCORECARDS).where('jobId', '==', job.id).get(),
+        this.collection(COLLECTIONS.INTERVIEW_SLOTS).where('jobId', '==', job.id).get(),
+        this.collection(COLLECTIONS.OFFERS).where('jobId', '==', job.id).get(),
+      ])
+    );
+    const applicationScorecards = await Promise.all(
+      applications.docs.map(application =>
+        this.collection(COLLECTIONS.SCORECARDS).where('applicationId', '==', application.id).get()
+      )
+    );
+    const companyRecords = await Promise.all(
+      companies.docs.flatMap(company => [
+        COLLECTIONS.PROOF_DOCUMENTS,
+        COLLECTIONS.COMPANY_MEMBERSHIPS,
+        COLLECTIONS.COMPANY_INVITATIONS,
+      ].map(collectionName =>
+        this.collection(collectionName).where('companyId', '==', company.id).get()
+      ))
+    );
+
+    const batch = this.db.batch();
+    batch.delete(this.collection(COLLECTIONS.USERS).doc(id));
+    companies.docs.forEach(doc => batch.delete(doc.ref));
+    jobs.docs.forEach(doc => {
+      batch.delete(doc.ref);
+      batch.delete(this.collection(COLLECTIONS.HIRING_COMMITTEES).doc(doc.id));
+    });
+    applications.docs.forEach(doc => batch.delete(doc.ref));
+    applicationScorecards.forEach(snapshot => snapshot.docs.forEach(doc => batch.delete(doc.ref)));
+    savedSearches.docs.forEach(doc => batch.delete(doc.ref));
+    notifications.docs.forEach(doc => batch.delete(doc.ref));
+    jobRevisions.docs.forEach(doc => batch.delete(doc.ref));
+    jobApplications.forEach(snapshot => snapshot.docs.forEach(doc => batch.delete(doc.ref)));
+    memberships.docs.forEach(doc => batch.delete(doc.ref));
+    offers.docs.forEach(doc => batch.delete(doc.ref));
+    companyRecords.forEach(snapshot => snapshot.docs.forEach(doc => batch.delete(doc.ref)));
+    // Slots the user booked open up again
+    bookedSlots.docs
+      .filter(doc => !jobs.docs.some(job => job.id === doc.data().jobId))
+      .forEach(doc => batch.update(doc.ref, {
+        ...(doc.data().status === 'booked' && { status: 'open' }),
+        applicationId: FieldValue.delete(),
+        applicantUid: FieldValue.delete(),
+        bookedAt: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      }));
+    await batch.commit();
+  }
+
+  // Company operations
+  async getCompany(id: string): Promise<Company | undefined> {
+    return this.getById<Company>(COLLECTIONS.COMPANIES, id);
+  }
+
+  async getCompanyByOwner(ownerUid: string): Promise<Company | undefined> {
+    return this.getFirst<Company>(
+      this.collection(COLLECTIONS.COMPANIES).where('ownerUid', '==', ownerUid)
+    );
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    return this.create<Company>(COLLECTIONS.COMPANIES, { ...insertCompany, status: 'pending', resubmissionCount: 0 });
+  }
+
+  async updateCompany(id: string, updates: Partial<Company>, actorUid?: string): Promise<void> {
+    await this.updateWithHistory(COLLECTIONS.COMPANIES, 'company', id, updates, toFirestoreData(withFieldDeletes(updates)), actorUid);
+  }
+
+  async getPendingCompanies(): Promise<Company[]> {
+    return this.getAll<Company>(
+      this.collection(COLLECTIONS.COMPANIES)
+        .where('status', '==', 'pending')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getApprovedCompanies(): Promise<Company[]> {
+    return this.getAll<Company>(
+      this.collection(COLLECTIONS.COMPANIES)
+        .where('status', '==', 'approved')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  // Proof document operations
+  async getProofDocument(id: string): Promise<ProofDocument | undefined> {
+    return this.getById<ProofDocument>(COLLECTIONS.PROOF_DOCUMENTS, id);
+  }
+
+  async getProofDocumentsByCompany(companyId: string): Promise<ProofDocument[]> {
+    return this.getAll<ProofDocument>(
+      this.collection(COLLECTIONS.PROOF_DOCUMENTS)
+        .where('companyId', '==', companyId)
+        .orderBy('createdAt', 'asc')
+    );
+  }
+
+  async createProofDocument(insertDocument: InsertProofDocument): Promise<ProofDocument> {
+    return this.create<ProofDocument>(COLLECTIONS.PROOF_DOCUMENTS, { ...insertDocument, status: 'pending' });
+  }
+
+  async updateProofDocument(id: string, updates: Partial<ProofDocument>): Promise<void> {
+    await this.update(COLLECTIONS.PROOF_DOCUMENTS, id, withFieldDeletes(updates));
+  }
+
+  // Company membership operations
+  async getCompanyMembership(companyId: string, userUid: string): Promise<CompanyMembership | undefined> {
+    return this.getById<CompanyMembership>(COLLECTIONS.COMPANY_MEMBERSHIPS, membershipId(companyId, userUid));
+  }
+
+  async getCompanyMembershipsByCompany(companyId: string): Promise<CompanyMembership[]> {
+    return this.getAll<CompanyMembership>(
+      this.collection(COLLECTIONS.COMPANY_MEMBERSHIPS)
+        .where('companyId', '==', companyId)
+        .orderBy('createdAt', 'asc')
+    );
+  }
+
+  async getCompanyMembershipsByUser(userUid: string): Promise<CompanyMembership[]> {
+    return this.getAll<CompanyMembership>(
+      this.collection(COLLECTIONS.COMPANY_MEMBERSHIPS)
+        .where('userUid', '==', userUid)
+        .orderBy('createdAt', 'asc')
+    );
+  }
+
+  async createCompanyMembership(insertMembership: InsertCompanyMembership): Promise<CompanyMembership> {
+    const ref = this.collection(COLLECTIONS.COMPANY_MEMBERSHIPS)
+      .doc(membershipId(insertMembership.companyId, insertMembership.userUid));
+    // Fails if the user is already a member
+    await ref.create({
+      ...toFirestoreData(insertMembership),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return this.read<CompanyMembership>(ref);
+  }
+
+  async updateCompanyMembership(id: string, updates: Partial<CompanyMembership>): Promise<void> {
+    await this.update(COLLECTIONS.COMPANY_MEMBERSHIPS, id, updates);
+  }
+
+  async deleteCompanyMembership(id: string): Promise<void> {
+    await this.collection(COLLECTIONS.COMPANY_MEMBERSHIPS).doc(id).delete();
+  }
+
+  // Company invitation operations
+  async getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    return this.getById<CompanyInvitation>(COLLECTIONS.COMPANY_INVITATIONS, id);
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    return this.getFirst<CompanyInvitation>(
+      this.collection(COLLECTIONS.COMPANY_INVITATIONS).where('token', '==', token)
+    );
+  }
+
+  async getPendingCompanyInvitations(companyId: string): Promise<CompanyInvitation[]> {
+    return this.getAll<CompanyInvitation>(
+      this.collection(COLLECTIONS.COMPANY_INVITATIONS)
+        .where('companyId', '==', companyId)
+        .where('status', '==', 'pending')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async createCompanyInvitation(insertInvitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    return this.create<CompanyInvitation>(COLLECTIONS.COMPANY_INVITATIONS, { ...insertInvitation, status: 'pending' });
+  }
+
+  async updateCompanyInvitation(id: string, updates: Partial<CompanyInvitation>): Promise<void> {
+    await this.update(COLLECTIONS.COMPANY_INVITATIONS, id, updates);
+  }
+
+  // Job operations
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.getById<Job>(COLLECTIONS.JOBS, id);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    return this.create<Job>(COLLECTIONS.JOBS, {
+      ...insertJob,
+      status: insertJob.status || 'pending',
+      resubmissionCount: 0,
+      viewCount: 0,
+      applicationCount: 0,
+      applyClickCount: 0,
+    });
+  }
+
+  async updateJob(id: string, updates: Partial<Job>, actorUid?: string): Promise<void> {
+    await this.updateWithHistory(COLLECTIONS.JOBS, 'job', id, updates, toFirestoreData(withFieldDeletes(updates)), actorUid);
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    const [applications, revisions, scorecards, slots, offers] = await Promise.all([
+      this.collection(COLLECTIONS.APPLICATIONS).where('jobId', '==', id).get(),
+      this.collection(COLLECTIONS.JOB_REVISIONS).where('jobId', '==', id).get(),
+      this.collection(COLLECTIONS.SCORECARDS).where('jobId', '==', id).get(),
+      this.collection(COLLECTIONS.INTERVIEW_SLOTS).where('jobId', '==', id).get(),
+      this.collection(COLLECTIONS.OFFERS).where('jobId', '==', id).get(),
+    ]);
+
+    const batch = this.db.batch();
+    batch.delete(this.collection(COLLECTIONS.JOBS).doc(id));
+    batch.delete(this.collection(COLLECTIONS.HIRING_COMMITTEES).doc(id));
+    applications.docs.forEach(doc => batch.delete(doc.ref));
+    revisions.docs.forEach(doc => batch.delete(doc.ref));
+    scorecards.docs.forEach(doc => batch.delete(doc.ref));
+    slots.docs.forEach(doc => batch.delete(doc.ref));
+    offers.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  async getJobsByCompany(companyId: string): Promise<Job[]> {
+    return this.getAll<Job>(
+      this.collection(COLLECTIONS.JOBS)
+        .where('companyId', '==', companyId)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getJobsByPoster(posterUid: string): Promise<Job[]> {
+    return this.getAll<Job>(
+      this.collection(COLLECTIONS.JOBS)
+        .where('posterUid', '==', posterUid)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getPendingJobs(): Promise<Job[]> {
+    return this.getAll<Job>(
+      this.collection(COLLECTIONS.JOBS)
+        .where('status', '==', 'pending')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getApprovedJobs(): Promise<Job[]> {
+    return this.getAll<Job>(
+      this.collection(COLLECTIONS.JOBS)
+        .where('status', '==', 'approved')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getFeaturedJobs(limit: number = 6): Promise<Job[]> {
+    return this.getAll<Job>(
+      this.collection(COLLECTIONS.JOBS)
+        .where('status', '==', 'approved')
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+    );
+  }
+
+  async searchJobs(filters: Partial<JobSearchFilters>, page: number = 1, limit: number = 20): Promise<FacetedPaginatedResponse<Job>> {
+    // Facet counts need the jobs each filter excludes, so fetch every approved
+    // job and filter, facet and sort in memory
+    const query = this.collection(COLLECTIONS.JOBS).where('status', '==', 'approved');
+
+    const jobs = await this.getAll<Job>(query);
+    if (!filters.query) {
+      return searchJobList(jobs, filters, page, limit);
+    }
+
+    // Every search reads the full job set anyway, so build the text index per
+    // request rather than keeping a per-process copy that other instances'
+    // writes would leave stale
+    const companyIds = Array.from(new Set(jobs.map(job => job.companyId)));
+    const companies = await Promise.all(companyIds.map(id => this.getCompany(id)));
+    const names = new Map(companyIds.map((id, i) => [id, companies[i]?.name]));
+    const index = JobSearchIndex.from(jobs, job => names.get(job.companyId));
+    return searchJobList(jobs, filters, page, limit, index);
+  }
+
+  // Application operations
+  async getApplication(id: string): Promise<Application | undefined> {
+    return this.getById<Application>(COLLECTIONS.APPLICATIONS, id);
+  }
+
+  async getApplicationByDedupeKey(dedupeKey: string): Promise<Application | undefined> {
+    return this.getFirst<Application>(
+      this.collection(COLLECTIONS.APPLICATIONS).where('dedupeKey', '==', dedupeKey)
+    );
+  }
+
+  async createApplication(insertApplication: InsertApplication): Promise<Application> {
+    return this.create<Application>(COLLECTIONS.APPLICATIONS, {
+      ...insertApplication,
+      status: 'submitted',
+    });
+  }
+
+  async updateApplication(id: string, updates: Partial<Application>): Promise<void> {
+    await this.update(COLLECTIONS.APPLICATIONS, id, updates);
+  }
+
+  async getApplicationsByUser(applicantUid: string): Promise<Application[]> {
+    return this.getAll<Application>(
+      this.collection(COLLECTIONS.APPLICATIONS)
+        .where('applicantUid', '==', applicantUid)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getApplicationsByJob(jobId: string): Promise<Application[]> {
+    return this.getAll<Application>(
+      this.collection(COLLECTIONS.APPLICATIONS)
+        .where('jobId', '==', jobId)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  // Hiring committee operations
+  async getHiringCommitteeByJob(jobId: string): Promise<HiringCommittee | undefined> {
+    return this.getById<HiringCommittee>(COLLECTIONS.HIRING_COMMITTEES, jobId);
+  }
+
+  async createHiringCommittee(insertCommittee: InsertHiringCommittee): Promise<HiringCommittee> {
+    const ref = this.collection(COLLECTIONS.HIRING_COMMITTEES).doc(insertCommittee.jobId);
+    // Fails if the job already has a committee
+    await ref.create({
+      ...toFirestoreData(insertCommittee),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return this.read<HiringCommittee>(ref);
+  }
+
+  async updateHiringCommittee(id: string, updates: Partial<HiringCommittee>): Promise<void> {
+    await this.update(COLLECTIONS.HIRING_COMMITTEES, id, updates);
+  }
+
+  // Scorecard operations
+  async getScorecard(applicationId: string, reviewerUid: string): Promise<Scorecard | undefined> {
+    return this.getById<Scorecard>(COLLECTIONS.SCORECARDS, scorecardId(applicationId, reviewerUid));
+  }
+
+  async getScorecardsByApplication(applicationId: string): Promise<Scorecard[]> {
+    return this.getAll<Scorecard>(
+      this.collection(COLLECTIONS.SCORECARDS)
+        .where('applicationId', '==', applicationId)
+        .orderBy('createdAt', 'asc')
+    );
+  }
+
+  async getScorecardsByJob(jobId: string): Promise<Scorecard[]> {
+    return this.getAll<Scorecard>(
+      this.collection(COLLECTIONS.SCORECARDS)
+        .where('jobId', '==', jobId)
+        .orderBy('createdAt', 'asc')
+    );
+  }
+
+  async createScorecard(insertScorecard: InsertScorecard): Promise<Scorecard> {
+    const ref = this.collection(COLLECTIONS.SCORECARDS)
+      .doc(scorecardId(insertScorecard.applicationId, insertScorecard.reviewerUid));
+    // Fails if the reviewer already has a scorecard for the application
+    await ref.create({
+      ...toFirestoreData({ ...insertScorecard, status: 'draft' }),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return this.read<Scorecard>(ref);
+  }
+
+  async updateScorecard(id: string, updates: Partial<Scorecard>): Promise<void> {
+    await this.update(COLLECTIONS.SCORECARDS, id, withFieldDeletes(updates));
+  }
+
+  // Interview slot operations
+  async getInterviewSlot(id: string): Promise<InterviewSlot | undefined> {
+    return this.getById<InterviewSlot>(COLLECTIONS.INTERVIEW_SLOTS, id);
+  }
+
+  async getInterviewSlotsByJob(jobId: string): Promise<InterviewSlot[]> {
+    return this.getAll<InterviewSlot>(
+      this.collection(COLLECTIONS.INTERVIEW_SLOTS)
+        .where('jobId', '==', jobId)
+        .orderBy('startsAt', 'asc')
+    );
+  }
+
+  async getInterviewSlotsByApplicant(applicantUid: string): Promise<InterviewSlot[]> {
+    return this.getAll<InterviewSlot>(
+      this.collection(COLLECTIONS.INTERVIEW_SLOTS)
+        .where('applicantUid', '==', applicantUid)
+        .orderBy('startsAt', 'asc')
+    );
+  }
+
+  async createInterviewSlot(insertSlot: InsertInterviewSlot): Promise<InterviewSlot> {
+    return this.create<InterviewSlot>(COLLECTIONS.INTERVIEW_SLOTS, { ...insertSlot, status: 'open' });
+  }
+
+  async updateInterviewSlot(id: string, updates: Partial<InterviewSlot>): Promise<void> {
+    await this.update(COLLECTIONS.INTERVIEW_SLOTS, id, withFieldDeletes(updates));
+  }
+
+  async bookInterviewSlot(id: string, applicationId: string, applicantUid: string): Promise<InterviewSlot | undefined> {
+    const ref = this.collection(COLLECTIONS.INTERVIEW_SLOTS).doc(id);
+    const booked = await this.db.runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!doc.exists || doc.data()?.status !== 'open') {
+        return false;
+      }
+      tx.update(ref, {
+        status: 'booked',
+        applicationId,
+        applicantUid,
+        bookedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    return booked ? this.read<InterviewSlot>(ref) : undefined;
+  }
+
+  // Offer operations
+  async getOffer(id: string): Promise<Offer | undefined> {
+    return this.getById<Offer>(COLLECTIONS.OFFERS, id);
+  }
+
+  async getOffersByJob(jobId: string): Promise<Offer[]> {
+    return this.getAll<Offer>(
+      this.collection(COLLECTIONS.OFFERS)
+        .where('jobId', '==', jobId)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getOffersByApplicant(applicantUid: string): Promise<Offer[]> {
+    return this.getAll<Offer>(
+      this.collection(COLLECTIONS.OFFERS)
+        .where('applicantUid', '==', applicantUid)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async createOffer(insertOffer: InsertOffer): Promise<Offer> {
+    return this.create<Offer>(COLLECTIONS.OFFERS, { ...insertOffer, status: 'pending' });
+  }
+
+  async updateOffer(id: string, updates: Partial<Offer>): Promise<void> {
+    await this.update(COLLECTIONS.OFFERS, id, withFieldDeletes(updates));
+  }
+
+  // Job revision operations
+  async getJobRevision(id: string): Promise<JobRevision | undefined> {
+    return this.getById<JobRevision>(COLLECTIONS.JOB_REVISIONS, id);
+  }
+
+  async getPendingJobRevision(jobId: string): Promise<JobRevision | undefined> {
+    return this.getFirst<JobRevision>(
+      this.collection(COLLECTIONS.JOB_REVISIONS)
+        .where('jobId', '==', jobId)
+        .where('status', '==', 'pending')
+    );
+  }
+
+  async getPendingJobRevisions(): Promise<JobRevision[]> {
+    return this.getAll<JobRevision>(
+      this.collection(COLLECTIONS.JOB_REVISIONS)
+        .where('status', '==', 'pending')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async createJobRevision(insertRevision: InsertJobRevision): Promise<JobRevision> {
+    return this.create<JobRevision>(COLLECTIONS.JOB_REVISIONS, { ...insertRevision, status: 'pending' });
+  }
+
+  async updateJobRevision(id: string, updates: Partial<JobRevision>): Promise<void> {
+    await this.update(COLLECTIONS.JOB_REVISIONS, id, updates);
+  }
+
+  // Report operations
+  async getReport(id: string): Promise<Report | undefined> {
+    return this.getById<Report>(COLLECTIONS.REPORTS, id);
+  }
+
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    return this.create<Report>(COLLECTIONS.REPORTS, { ...insertReport, status: 'pending' });
+  }
+
+  async updateReport(id: string, updates: Partial<Report>): Promise<void> {
+    await this.update(COLLECTIONS.REPORTS, id, updates);
+  }
+
+  async getPendingReports(): Promise<Report[]> {
+    return this.getAll<Report>(
+      this.collection(COLLECTIONS.REPORTS)
+        .where('status', '==', 'pending')
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getReports(filters: ReportFilters = {}): Promise<Report[]> {
+    let query: Query = this.collection(COLLECTIONS.REPORTS);
+    if (filters.status) {
+      query = query.where('status', '==', filters.status);
+    }
+    // Type and reason are filtered in memory so the status index covers
+    // every combination
+    const reports = await this.getAll<Report>(query.orderBy('createdAt', 'desc'));
+    return reports.filter(report =>
+      (!filters.type || report.type === filters.type) &&
+      (!filters.reason || report.reason === filters.reason)
+    );
+  }
+
+  async getPendingReportByReporter(reporterUid: string, type: ReportType, targetId: string): Promise<Report | undefined> {
+    return this.getFirst<Report>(
+      this.collection(COLLECTIONS.REPORTS)
+        .where('reporterUid', '==', reporterUid)
+        .where('type', '==', type)
+        .where('targetId', '==', targetId)
+        .where('status', '==', 'pending')
+    );
+  }
+
+  async countReportsByReporterSince(reporterUid: string, since: Date): Promise<number> {
+    return this.count(
+      this.collection(COLLECTIONS.REPORTS)
+        .where('reporterUid', '==', reporterUid)
+        .where('createdAt', '>=', since)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  // Saved search operations
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    return this.getById<SavedSearch>(COLLECTIONS.SAVED_SEARCHES, id);
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    return this.getFirst<SavedSearch>(
+      this.collection(COLLECTIONS.SAVED_SEARCHES).where('unsubscribeToken', '==', token)
+    );
+  }
+
+  async getSavedSearchesByUser(userUid: string): Promise<SavedSearch[]> {
+    return this.getAll<SavedSearch>(
+      this.collection(COLLECTIONS.SAVED_SEARCHES)
+        .where('userUid', '==', userUid)
+        .orderBy('createdAt', 'desc')
+    );
+  }
+
+  async getActiveSavedSearches(): Promise<SavedSearch[]> {
+    return this.getAll<SavedSearch>(
+      this.collection(COLLECTIONS.SAVED_SEARCHES).where('active', '==', true)
+    );
+  }
+
+  async createSavedSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    return this.create<SavedSearch>(COLLECTIONS.SAVED_SEARCHES, {
+      ...insertSavedSearch,
+      filters: toFirestoreData(insertSavedSearch.filters),
+      active: true,
+      lastCheckedAt: new Date(),
+    });
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<SavedSearch>): Promise<void> {
+    await this.update(COLLECTIONS.SAVED_SEARCHES, id, {
+      ...updates,
+      ...(updates.filters && { filters: toFirestoreData(updates.filters) }),
+    });
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.collection(COLLECTIONS.SAVED_SEARCHES).doc(id).delete();
+  }
+
+  // Notification operations
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    // Same document shape as the Cloud Functions notification helper
+    const ref = await this.collection(COLLECTIONS.NOTIFICATIONS).add({
+      ...toFirestoreData(insertNotification),
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return this.read<Notification>(ref);
+  }
+
+  async getNotificationsByUser(userUid: string, limit: number = 20): Promise<Notification[]> {
+    return this.getAll<Notification>(
+      this.collection(COLLECTIONS.NOTIFICATIONS)
+        .where('userUid', '==', userUid)
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+    );
+  }
+
+  async getUnreadNotificationCount(userUid: string): Promise<number> {
+    return this.count(
+      this.collection(COLLECTIONS.NOTIFICATIONS)
+        .where('userUid', '==', userUid)
+        .where('read', '==', false)
+    );
+  }
+
+  async markNotificationsRead(userUid: string, ids?: string[]): Promise<void> {
+    const unread = await this.collection(COLLECTIONS.NOTIFICATIONS)
+      .where('userUid', '==', userUid)
+      .where('read', '==', false)
+      .get();
+
+    // Batches are limited to 500 writes
+    const docs = unread.docs.filter(doc => !ids || ids.includes(doc.id));
+    for (let i = 0; i < docs.length; i += 500) {
+      const batch = this.db.batch();
+      docs.slice(i, i + 500).forEach(doc => batch.update(doc.ref, { read: true }));
+      await batch.commit();
+    }
+  }
+
+  // Audit log operations
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    // Same document shape as the Cloud Functions audit helper
+    const ref = await this.collection(COLLECTIONS.AUDIT_LOGS).add({
+      ...toFirestoreData(insertLog),
+      metadata: insertLog.metadata || {},
+      timestamp: FieldValue.serverTimestamp(),
+    });
+    return this.read<AuditLog>(ref);
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}, limit: number = 50, before?: string): Promise<AuditLog[]> {
+    const logs = this.collection(COLLECTIONS.AUDIT_LOGS);
+    let query: Query = logs;
+    for (const field of ['actorUid', 'action', 'targetType', 'targetId'] as const) {
+      if (filters[field]) {
+        query = query.where(field, '==', filters[field]);
+      }
+    }
+    if (filters.from) {
+      query = query.where('timestamp', '>=', filters.from);
+    }
+    if (filters.to) {
+      query = query.where('timestamp', '<=', filters.to);
+    }
+    query = query.orderBy('timestamp', 'desc').orderBy(FieldPath.documentId(), 'desc');
+
+    if (before) {
+      // Start after the cursor document itself so entries sharing a
+      // timestamp are neither skipped nor repeated
+      const cursor = await logs.doc(before).get();
+      if (!cursor.exists) {
+        return [];
+      }
+      query = query.startAfter(cursor);
+    }
+    return this.getAll<AuditLog>(query.limit(limit));
+  }
+
+  // Change history operations
+  async getChangeRecords(targetType: ChangeTargetType, targetId: string, since?: Date): Promise<ChangeRecord[]> {
+    let query: Query = this.collection(COLLECTIONS.CHANGE_RECORDS)
+      .where('targetType', '==', targetType)
+      .where('targetId', '==', targetId);
+    if (since) {
+      query = query.where('createdAt', '>', since);
+    }
+    return this.getAll<ChangeRecord>(query.orderBy('createdAt', 'desc'));
+  }
+
+  // Statistics
+  async getStats(): Promise<{
+    totalJobs: number;
+    totalApplications: number;
+    totalEmployers: number;
+    totalSeekers: number;
+    pendingJobs: number;
+    pendingEmployers: number;
+    activeJobs: number;
+  }> {
+    const jobs = this.collection(COLLECTIONS.JOBS);
+    const users = this.collection(COLLECTIONS.USERS);
+
+    const [
+      totalJobs,
+      totalApplications,
+      totalEmployers,
+      totalSeekers,
+      pendingJobs,
+      pendingEmployers,
+      activeJobs,
+    ] = await Promise.all([
+      this.count(jobs),
+      this.count(this.collection(COLLECTIONS.APPLICATIONS)),
+      this.count(users.where('role', '==', 'employer')),
+      this.count(users.where('role', '==', 'seeker')),
+      this.count(jobs.where('status', '==', 'pending')),
+      this.count(this.collection(COLLECTIONS.COMPANIES).where('status', '==', 'pending')),
+      this.count(jobs.where('status', '==', 'approved')),
+    ]);
+
+    return {
+      totalJobs,
+      totalApplications,
+      totalEmployers,
+      totalSeekers,
+      pendingJobs,
+      pendingEmployers,
+      activeJobs,
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobAlertScheduler } from "./job-alerts";
+import { startRoleReconciliationScheduler } from "./user-roles";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +69,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobAlertScheduler();
+    startRoleReconciliationScheduler();
   });
 })();
@@ -0,0 +1,114 @@
+import { AlertFrequency, Job, SavedSearch } from "@shared/schema";
+import { searchJobList } from "./job-search";
+import { JobSearchIndex } from "./search-index";
+import { sendJobAlertEmail } from "./services/email";
+import { storage } from "./storage";
+
+const HOUR = 60 * 60 * 1000;
+
+// Minimum time between two alerts for each frequency
+const ALERT_INTERVALS: Record<AlertFrequency, number> = {
+  instant: 0,
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR,
+};
+
+// How often the scheduler sends due digests. The sweep also picks up jobs
+// approved outside this server, e.g. through the approveJob Cloud Function.
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Most jobs listed in one email; the email links to the full job list
+const MAX_ALERT_JOBS = 20;
+
+const approvalTime = (job: Job) => (job.approvedAt ?? job.createdAt).getTime();
+
+// Runs are chained so a sweep and an approval-triggered run never alert the
+// same saved search twice
+let currentRun: Promise<unknown> = Promise.resolve();
+
+// Email every due saved search the jobs approved since it was last checked.
+// Resolves to the number of alert emails sent.
+export function runJobAlerts(
+  frequencies: AlertFrequency[] = AlertFrequency.options,
+  now: Date = new Date()
+): Promise<number> {
+  const run = currentRun.then(() => sendDueAlerts(frequencies, now));
+  currentRun = run.catch(() => undefined);
+  return run;
+}
+
+async function sendDueAlerts(frequencies: AlertFrequency[], now: Date): Promise<number> {
+  const dueSearches = (await storage.getActiveSavedSearches()).filter(search =>
+    frequencies.includes(search.frequency) &&
+    now.getTime() - search.lastCheckedAt.getTime() >= ALERT_INTERVALS[search.frequency]
+  );
+  if (dueSearches.length === 0) {
+    return 0;
+  }
+
+  const since = Math.min(...dueSearches.map(search => search.lastCheckedAt.getTime()));
+  const newJobs = (await storage.getApprovedJobs()).filter(job =>
+    approvalTime(job) > since && approvalTime(job) <= now.getTime()
+  );
+  const index = await buildIndex(newJobs);
+
+  let sent = 0;
+  for (const search of dueSearches) {
+    try {
+      if (await alertSavedSearch(search, newJobs, index, now)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Job alert for saved search ${search.id} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+async function alertSavedSearch(
+  search: SavedSearch,
+  newJobs: Job[],
+  index: JobSearchIndex,
+  now: Date
+): Promise<boolean> {
+  const candidates = newJobs.filter(job => approvalTime(job) > search.lastCheckedAt.getTime());
+  const matches = candidates.length > 0
+    ? searchJobList(candidates, { ...search.filters, sortBy: 'newest' }, 1, MAX_ALERT_JOBS, index).items
+    : [];
+
+  if (matches.length > 0) {
+    const user = await storage.getUser(search.userUid);
+    if (!user) {
+      return false;
+    }
+    const emailSent = await sendJobAlertEmail(
+      user.email,
+      search.name,
+      matches.map(job => ({ id: job.id, title: job.title, department: job.department, city: job.location.city })),
+      search.unsubscribeToken
+    );
+    // Leave the search unchecked so the next sweep retries the email
+    if (!emailSent) {
+      return false;
+    }
+  }
+
+  await storage.updateSavedSearch(search.id, { lastCheckedAt: now });
+  return matches.length > 0;
+}
+
+async function buildIndex(jobs: Job[]): Promise<JobSearchIndex> {
+  const companyIds = Array.from(new Set(jobs.map(job => job.companyId)));
+  const companies = await Promise.all(companyIds.map(id => storage.getCompany(id)));
+  const names = new Map(companyIds.map((id, i) => [id, companies[i]?.name]));
+  return JobSearchIndex.from(jobs, job => names.get(job.companyId));
+}
+
+export function startJobAlertScheduler(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    runJobAlerts().catch(error => console.error('Job alert sweep failed:', error));
+  }, SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for alerts
+  timer.unref();
+  return timer;
+}
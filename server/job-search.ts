@@ -0,0 +1,154 @@
+import {
+  Job,
+  JobSearchFilters,
+  JobSearchFacets,
+  FacetedPaginatedResponse,
+} from "@shared/schema";
+import { JobSearchIndex } from "./search-index";
+
+// Filters that have a facet; each facet is counted with every filter applied
+// except its own, so selecting a department still shows the other departments.
+export type FacetDimension = 'department' | 'instituteType' | 'level' | 'location' | 'employmentType';
+
+interface JobPredicate {
+  dimension?: FacetDimension;
+  test: (job: Job) => boolean;
+}
+
+// Days covered by each postedWithin option
+export const POSTED_WITHIN_DAYS: Record<Exclude<JobSearchFilters['postedWithin'], 'all'>, number> = {
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+};
+
+function buildPredicates(filters: Partial<JobSearchFilters>, scores?: Map<string, number>): JobPredicate[] {
+  const predicates: JobPredicate[] = [];
+
+  // Apply filters
+  if (filters.department) {
+    predicates.push({ dimension: 'department', test: job => job.department === filters.department });
+  }
+  if (filters.instituteType) {
+    predicates.push({ dimension: 'instituteType', test: job => job.instituteType === filters.instituteType });
+  }
+  if (filters.level) {
+    predicates.push({ dimension: 'level', test: job => job.level === filters.level });
+  }
+  if (filters.location) {
+    const location = filters.location.toLowerCase();
+    predicates.push({
+      dimension: 'location',
+      test: job =>
+        job.location.city.toLowerCase().includes(location) ||
+        job.location.state.toLowerCase().includes(location),
+    });
+  }
+  if (filters.employmentType) {
+    predicates.push({ dimension: 'employmentType', test: job => job.employmentType === filters.employmentType });
+  }
+
+  // Text search
+  if (scores) {
+    predicates.push({ test: job => scores.has(job.id) });
+  }
+
+  // Salary range: a job matches when its advertised range overlaps the
+  // requested one. Amounts are not converted, so only jobs posted in the
+  // requested currency are compared, and jobs without a salary are left out.
+  if (filters.minSalary !== undefined || filters.maxSalary !== undefined) {
+    const currency = filters.currency || 'INR';
+    const minSalary = filters.minSalary ?? 0;
+    const maxSalary = filters.maxSalary ?? Infinity;
+    predicates.push({
+      test: job => {
+        const jobMin = job.minSalary ?? job.maxSalary;
+        const jobMax = job.maxSalary ?? job.minSalary;
+        if (jobMin === undefined || jobMax === undefined) return false;
+        return job.currency === currency && jobMax >= minSalary && jobMin <= maxSalary;
+      },
+    });
+  }
+
+  // Date filtering
+  if (filters.postedWithin && filters.postedWithin !== 'all') {
+    const daysAgo = POSTED_WITHIN_DAYS[filters.postedWithin];
+    const dateThreshold = new Date(Date.now() - (daysAgo * 24 * 60 * 60 * 1000));
+    predicates.push({ test: job => job.createdAt >= dateThreshold });
+  }
+
+  return predicates;
+}
+
+function countBy(jobs: Job[], key: (job: Job) => string): Record<string, number> {
+  return jobs.reduce((counts, job) => {
+    const value = key(job);
+    counts[value] = (counts[value] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+function sortJobs(jobs: Job[], sortBy: JobSearchFilters['sortBy'] | undefined, scores?: Map<string, number>): Job[] {
+  switch (sortBy) {
+    case 'deadline':
+      return jobs.sort((a, b) => a.lastDate.getTime() - b.lastDate.getTime());
+    case 'salary_high':
+      return jobs.sort((a, b) => (b.maxSalary || 0) - (a.maxSalary || 0));
+    case 'salary_low':
+      return jobs.sort((a, b) => (a.minSalary || 0) - (b.minSalary || 0));
+    case 'relevance':
+      // Without a text query there is nothing to rank by, so fall back to newest
+      if (scores) {
+        return jobs.sort((a, b) =>
+          (scores.get(b.id) || 0) - (scores.get(a.id) || 0) ||
+          b.createdAt.getTime() - a.createdAt.getTime()
+        );
+      }
+      return jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    default: // 'newest'
+      return jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+// Filter, sort, facet and paginate an in-memory list of jobs. Shared by the
+// storage backends that cannot express the full search as a database query.
+// Text queries go through the given index, or a throwaway one over `jobs`.
+export function searchJobList(
+  jobs: Job[],
+  filters: Partial<JobSearchFilters>,
+  page: number = 1,
+  limit: number = 20,
+  index?: JobSearchIndex
+): FacetedPaginatedResponse<Job> {
+  const scores = filters.query ? (index ?? JobSearchIndex.from(jobs)).search(filters.query) : undefined;
+  const predicates = buildPredicates(filters, scores);
+  const matchesExcept = (job: Job, excluded?: FacetDimension) =>
+    predicates.every(predicate => (excluded !== undefined && predicate.dimension === excluded) || predicate.test(job));
+  const facetJobs = (dimension: FacetDimension) => jobs.filter(job => matchesExcept(job, dimension));
+
+  const facets: JobSearchFacets = {
+    departments: countBy(facetJobs('department'), job => job.department),
+    instituteTypes: countBy(facetJobs('instituteType'), job => job.instituteType),
+    locations: countBy(facetJobs('location'), job => job.location.city),
+    levels: countBy(facetJobs('level'), job => job.level),
+    employmentTypes: countBy(facetJobs('employmentType'), job => job.employmentType),
+  };
+
+  const allJobs = sortJobs(jobs.filter(job => matchesExcept(job)), filters.sortBy, scores);
+
+  // Pagination
+  const total = allJobs.length;
+  const startIndex = (page - 1) * limit;
+  const endIndex = startIndex + limit;
+  const items = allJobs.slice(startIndex, endIndex);
+  const hasMore = endIndex < total;
+
+  return {
+    items,
+    total,
+    page,
+    limit,
+    hasMore,
+    facets,
+  };
+}
@@ -0,0 +1,222 @@
+import {
+  Application,
+  Company,
+  CompanyInvitation,
+  COMPANY_ROLE_LABELS,
+  InsertNotification,
+  INTERVIEW_KIND_LABELS,
+  InterviewSlot,
+  Job,
+  NotificationType,
+  Offer,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Notifications are a side channel: failing to record one is logged and never
+// fails the action that triggered it
+async function notify(notification: InsertNotification): Promise<void> {
+  try {
+    await storage.createNotification(notification);
+  } catch (error) {
+    console.error(`Failed to notify ${notification.userUid}:`, error);
+  }
+}
+
+const APPLICATION_STATUS_TYPES: Partial<Record<Application['status'], NotificationType>> = {
+  shortlisted: 'success',
+  offered: 'success',
+  joined: 'success',
+  rejected: 'warning',
+};
+
+export function notifyApplicationSubmitted(job: Job, applicantName: string): Promise<void> {
+  return notify({
+    userUid: job.posterUid,
+    type: 'info',
+    title: 'New application received',
+    message: `${applicantName} applied for "${job.title}".`,
+    actionUrl: '/employer',
+    actionLabel: 'Review applications',
+  });
+}
+
+export function notifyApplicationWithdrawn(job: Job, applicantName: string): Promise<void> {
+  return notify({
+    userUid: job.posterUid,
+    type: 'info',
+    title: 'Application withdrawn',
+    message: `${applicantName} withdrew their application for "${job.title}".`,
+    actionUrl: '/employer',
+    actionLabel: 'View applications',
+  });
+}
+
+export function notifyApplicationStatusChanged(application: Application, job: Job): Promise<void> {
+  return notify({
+    userUid: application.applicantUid,
+    type: APPLICATION_STATUS_TYPES[application.status] || 'info',
+    title: 'Application status updated',
+    message: `Your application for "${job.title}" is now ${application.status}.`,
+    actionUrl: '/profile',
+    actionLabel: 'View application',
+  });
+}
+
+export function notifyCompanyReviewed(company: Company, status: 'approved' | 'rejected'): Promise<void> {
+  return notify(status === 'approved'
+    ? {
+        userUid: company.ownerUid,
+        type: 'success',
+        title: 'Institution approved',
+        message: `${company.name} has been approved. You can now post faculty positions.`,
+        actionUrl: '/employer',
+        actionLabel: 'Go to dashboard',
+      }
+    : {
+        userUid: company.ownerUid,
+        type: 'error',
+        title: 'Institution not approved',
+        message: `${company.name} could not be approved. Please address the moderators' feedback and resubmit.`,
+        actionUrl: '/employer',
+        actionLabel: 'View feedback',
+      }
+  );
+}
+
+export function notifyJobReviewed(job: Job, status: 'approved' | 'rejected'): Promise<void> {
+  return notify(status === 'approved'
+    ? {
+        userUid: job.posterUid,
+        type: 'success',
+        title: 'Job approved',
+        message: `"${job.title}" is now live.`,
+        actionUrl: `/jobs/${job.id}`,
+        actionLabel: 'View job',
+      }
+    : {
+        userUid: job.posterUid,
+        type: 'error',
+        title: 'Job not approved',
+        message: `"${job.title}" was not approved for publication. Please address the moderators' feedback and resubmit.`,
+        actionUrl: `/employer/jobs/${job.id}/edit`,
+        actionLabel: 'View feedback',
+      }
+  );
+}
+
+export function notifyJobRevisionReviewed(job: Job, status: 'approved' | 'rejected'): Promise<void> {
+  return notify(status === 'approved'
+    ? {
+        userUid: job.posterUid,
+        type: 'success',
+        title: 'Job changes approved',
+        message: `Your changes to "${job.title}" are now live.`,
+        actionUrl: `/jobs/${job.id}`,
+        actionLabel: 'View job',
+      }
+    : {
+        userUid: job.posterUid,
+        type: 'error',
+        title: 'Job changes not approved',
+        message: `Your changes to "${job.title}" were not approved. The current version stays live.`,
+        actionUrl: `/employer/jobs/${job.id}/edit`,
+        actionLabel: 'Edit job',
+      }
+  );
+}
+
+export function notifyJobRemoved(job: Job): Promise<void> {
+  return notify({
+    userUid: job.posterUid,
+    type: 'error',
+    title: 'Job removed',
+    message: `"${job.title}" was removed after a moderation review.`,
+    actionUrl: '/employer',
+    actionLabel: 'Go to dashboard',
+  });
+}
+
+export function notifyCompanySuspended(company: Company): Promise<void> {
+  return notify({
+    userUid: company.ownerUid,
+    type: 'error',
+    title: 'Institution suspended',
+    message: `${company.name} was suspended after a moderation review and its job postings were taken down. Please contact support.`,
+  });
+}
+
+export function notifyInvitationAccepted(invitation: CompanyInvitation, company: Company, memberName: string): Promise<void> {
+  return notify({
+    userUid: invitation.invitedBy,
+    type: 'success',
+    title: 'Invitation accepted',
+    message: `${memberName} joined ${company.name} as a ${COMPANY_ROLE_LABELS[invitation.role].toLowerCase()}.`,
+    actionUrl: '/employer',
+    actionLabel: 'Manage team',
+  });
+}
+
+// Tells the employer who published a slot that an applicant booked, moved
+// or cancelled it
+export function notifyInterviewBooking(slot: InterviewSlot, job: Job, applicantName: string, change: 'booked' | 'cancelled'): Promise<void> {
+  const kind = INTERVIEW_KIND_LABELS[slot.kind].toLowerCase();
+  return notify({
+    userUid: slot.createdBy,
+    type: change === 'booked' ? 'info' : 'warning',
+    title: change === 'booked' ? 'Interview slot booked' : 'Interview booking cancelled',
+    message: change === 'booked'
+      ? `${applicantName} booked a ${kind} slot for "${job.title}".`
+      : `${applicantName} cancelled their ${kind} slot for "${job.title}".`,
+    actionUrl: '/employer',
+    actionLabel: 'View schedule',
+  });
+}
+
+// Tells an applicant that the employer moved or cancelled their booked slot
+export function notifyInterviewChanged(slot: InterviewSlot, job: Job, change: 'rescheduled' | 'cancelled'): Promise<void> {
+  const kind = INTERVIEW_KIND_LABELS[slot.kind];
+  return notify({
+    userUid: slot.applicantUid!,
+    type: change === 'rescheduled' ? 'info' : 'warning',
+    title: `${kind} ${change}`,
+    message: change === 'rescheduled'
+      ? `Your ${kind.toLowerCase()} for "${job.title}" has moved to a new time.`
+      : `Your ${kind.toLowerCase()} for "${job.title}" has been cancelled. You can book another slot if one is available.`,
+    actionUrl: '/profile',
+    actionLabel: 'View application',
+  });
+}
+
+export function notifyOfferMade(job: Job, applicantUid: string, companyName: string): Promise<void> {
+  return notify({
+    userUid: applicantUid,
+    type: 'success',
+    title: 'Offer received',
+    message: `${companyName} has offered you "${job.title}". Please respond before the offer expires.`,
+    actionUrl: '/profile',
+    actionLabel: 'View offer',
+  });
+}
+
+// Tells the employer who made an offer that the applicant accepted or declined it
+export function notifyOfferResponded(offer: Offer, job: Job, applicantName: string, response: 'accepted' | 'declined'): Promise<void> {
+  return notify({
+    userUid: offer.createdBy,
+    type: response === 'accepted' ? 'success' : 'warning',
+    title: response === 'accepted' ? 'Offer accepted' : 'Offer declined',
+    message: `${applicantName} ${response} your offer for "${job.title}".`,
+    actionUrl: '/employer',
+    actionLabel: 'View applications',
+  });
+}
+
+export function notifyJobFilled(job: Job): Promise<void> {
+  return notify({
+    userUid: job.posterUid,
+    type: 'success',
+    title: 'Job filled',
+    message: `All posts for "${job.title}" have been filled, so it has been closed to new applications.`,
+    actionUrl: '/employer',
+    actionLabel: 'Go to dashboard',
+  });
+}
@@ -0,0 +1,1050 @@
+import {
+  User,
+  Company,
+  Job,
+  JobRevision,
+  Application,
+  Report,
+  AuditLog,
+  InsertUser,
+  InsertCompany,
+  InsertJob,
+  InsertJobRevision,
+  ProofDocument,
+  InsertProofDocument,
+  CompanyMembership,
+  InsertCompanyMembership,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  InsertApplication,
+  HiringCommittee,
+  InsertHiringCommittee,
+  Scorecard,
+  InsertScorecard,
+  InterviewSlot,
+  InsertInterviewSlot,
+  Offer,
+  InsertOffer,
+  InsertReport,
+  InsertAuditLog,
+  ChangeRecord,
+  ChangeTargetType,
+  diffFields,
+  SavedSearch,
+  InsertSavedSearch,
+  Notification,
+  InsertNotification,
+  JobSearchFilters,
+  FacetedPaginatedResponse,
+  ReportFilters,
+  ReportType,
+  AuditLogFilters,
+  UserSearchFilters,
+  users,
+  companies,
+  jobs,
+  jobRevisions,
+  proofDocuments,
+  companyMemberships,
+  companyInvitations,
+  applications,
+  hiringCommittees,
+  scorecards,
+  interviewSlots,
+  offers,
+  reports,
+  auditLogs,
+  changeRecords,
+  savedSearches,
+  notifications,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, lte, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { Database } from "./db";
+import { POSTED_WITHIN_DAYS, type FacetDimension } from "./job-search";
+import { parseSearchQuery } from "./search-index";
+import type { IStorage } from "./storage";
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Drizzle returns null for empty nullable columns while the domain types use
+// optional (undefined) fields, so strip nulls when reading rows back.
+function fromRow<T>(row: Record<string, any>): T {
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== null)
+  ) as T;
+}
+
+function fromRows<T>(rows: Record<string, any>[]): T[] {
+  return rows.map(row => fromRow<T>(row));
+}
+
+// Never let callers overwrite primary keys through partial updates
+function withoutId<T extends { id?: string }>(updates: T): Omit<T, 'id'> {
+  const { id, ...rest } = updates;
+  return rest;
+}
+
+// Drizzle leaves columns whose value is undefined untouched, so map them to
+// null for updates that are meant to clear fields
+function withClearedFields<T extends Record<string, any>>(updates: T): T {
+  return Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [key, value === undefined ? null : value])
+  ) as T;
+}
+
+// Weighted document for full-text search, mirroring the field boosts of the
+// in-memory JobSearchIndex: A title, department and institute name,
+// B skills and qualifications, C responsibilities, D description
+const jobSearchVector = sql`(
+  setweight(to_tsvector('english', ${jobs.title} || ' ' || ${jobs.department} || ' ' ||
+    coalesce((select ${companies.name} from ${companies} where ${companies.id} = ${jobs.companyId}), '')), 'A') ||
+  setweight(to_tsvector('english', array_to_string(${jobs.skills}, ' ') || ' ' || array_to_string(${jobs.qualifications}, ' ')), 'B') ||
+  setweight(to_tsvector('english', array_to_string(${jobs.responsibilities}, ' ')), 'C') ||
+  setweight(to_tsvector('english', ${jobs.description}), 'D')
+)`;
+
+const lexeme = (word: string) => word.replace(/[^a-z0-9]/g, '');
+
+// Translate a search box query into tsquery syntax: quoted phrases become
+// followed-by chains and loose terms match as prefixes. Terms and phrases made
+// only of stop words are left out, since Postgres would drop them anyway and
+// a query with nothing left would match no jobs at all.
+const toTsQuery = (query: string, stopWords: Set<string>): string | undefined => {
+  const { terms, phrases } = parseSearchQuery(query);
+  const searchable = (word: string) => !!word && !stopWords.has(word);
+  const parts = [
+    ...terms.map(lexeme).filter(searchable).map(term => `${term}:*`),
+    ...phrases
+      .map(words => words.map(lexeme).filter(Boolean))
+      .filter(words => words.some(searchable))
+      .map(words => `(${words.join(' <-> ')})`),
+  ];
+  return parts.length > 0 ? parts.join(' & ') : undefined;
+};
+
+export class PgStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [row] = await this.db.select().from(users).where(eq(users.id, id));
+    return row ? fromRow<User>(row) : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [row] = await this.db.select().from(users).where(eq(users.email, email));
+    return row ? fromRow<User>(row) : undefined;
+  }
+
+  async createUser(uid: string, insertUser: InsertUser): Promise<User> {
+    const [row] = await this.db.insert(users).values({ ...insertUser, id: uid }).returning();
+    return fromRow<User>(row);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async searchUsers(filters: UserSearchFilters = {}, limit: number = 50, after?: string): Promise<User[]> {
+    const pattern = filters.q && `%${filters.q.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    const rows = await this.db
+      .select()
+      .from(users)
+      .where(and(
+        pattern ? or(ilike(users.email, pattern), ilike(users.displayName, pattern)) : undefined,
+        filters.role ? eq(users.role, filters.role) : undefined,
+        filters.emailVerified !== undefined ? eq(users.emailVerified, filters.emailVerified) : undefined,
+        // Compare against the cursor row itself so accounts created in the
+        // same instant are neither skipped nor repeated
+        after
+          ? sql`(${users.createdAt}, ${users.id}) < (select ${users.createdAt}, ${users.id} from ${users} where ${users.id} = ${after})`
+          : undefined
+      ))
+      .orderBy(desc(users.createdAt), desc(users.id))
+      .limit(limit);
+    return fromRows<User>(rows);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(applications).where(eq(applications.applicantUid, id));
+      await tx.delete(savedSearches).where(eq(savedSearches.userUid, id));
+      await tx.delete(notifications).where(eq(notifications.userUid, id));
+      await tx.delete(companyMemberships).where(eq(companyMemberships.userUid, id));
+      // Slots the user booked open up again
+      await tx
+        .update(interviewSlots)
+        .set({ status: 'open', applicationId: null, applicantUid: null, bookedAt: null, updatedAt: new Date() })
+        .where(and(eq(interviewSlots.applicantUid, id), eq(interviewSlots.status, 'booked')));
+      await tx
+        .update(interviewSlots)
+        .set({ applicationId: null, applicantUid: null, bookedAt: null, updatedAt: new Date() })
+        .where(eq(interviewSlots.applicantUid, id));
+      // Applications to, revisions of, committees and interview slots for the
+      // user's jobs cascade with the jobs themselves, scorecards and offers with
+      // the applications, and proof documents, memberships and invitations with
+      // the companies
+      await tx.delete(jobs).where(eq(jobs.posterUid, id));
+      await tx.delete(companies).where(eq(companies.ownerUid, id));
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
+  // Company operations
+  async getCompany(id: string): Promise<Company | undefined> {
+    const [row] = await this.db.select().from(companies).where(eq(companies.id, id));
+    return row ? fromRow<Company>(row) : undefined;
+  }
+
+  async getCompanyByOwner(ownerUid: string): Promise<Company | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(companies)
+      .where(eq(companies.ownerUid, ownerUid))
+      .limit(1);
+    return row ? fromRow<Company>(row) : undefined;
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const [row] = await this.db
+      .insert(companies)
+      .values({ ...insertCompany, status: 'pending', resubmissionCount: 0 })
+      .returning();
+    return fromRow<Company>(row);
+  }
+
+  async updateCompany(id: string, updates: Partial<Company>, actorUid?: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [before] = await tx.select().from(companies).where(eq(companies.id, id)).for('update');
+      if (!before) {
+        return;
+      }
+      await tx
+        .update(companies)
+        .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+        .where(eq(companies.id, id));
+      await this.recordChanges(tx, 'company', id, fromRow(before), updates, actorUid);
+    });
+  }
+
+  async getPendingCompanies(): Promise<Company[]> {
+    const rows = await this.db
+      .select()
+      .from(companies)
+      .where(eq(companies.status, 'pending'))
+      .orderBy(desc(companies.createdAt));
+    return fromRows<Company>(rows);
+  }
+
+  async getApprovedCompanies(): Promise<Company[]> {
+    const rows = await this.db
+      .select()
+      .from(companies)
+      .where(eq(companies.status, 'approved'))
+      .orderBy(desc(companies.createdAt));
+    return fromRows<Company>(rows);
+  }
+
+  // Proof document operations
+  async getProofDocument(id: string): Promise<ProofDocument | undefined> {
+    const [row] = await this.db.select().from(proofDocuments).where(eq(proofDocuments.id, id));
+    return row ? fromRow<ProofDocument>(row) : undefined;
+  }
+
+  async getProofDocumentsByCompany(companyId: string): Promise<ProofDocument[]> {
+    const rows = await this.db
+      .select()
+      .from(proofDocuments)
+      .where(eq(proofDocuments.companyId, companyId))
+      .orderBy(asc(proofDocuments.createdAt));
+    return fromRows<ProofDocument>(rows);
+  }
+
+  async createProofDocument(insertDocument: InsertProofDocument): Promise<ProofDocument> {
+    const [row] = await this.db
+      .insert(proofDocuments)
+      .values({ ...insertDocument, status: 'pending' })
+      .returning();
+    return fromRow<ProofDocument>(row);
+  }
+
+  async updateProofDocument(id: string, updates: Partial<ProofDocument>): Promise<void> {
+    await this.db
+      .update(proofDocuments)
+      .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+      .where(eq(proofDocuments.id, id));
+  }
+
+  // Company membership operations
+  async getCompanyMembership(companyId: string, userUid: string): Promise<CompanyMembership | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(companyMemberships)
+      .where(and(eq(companyMemberships.companyId, companyId), eq(companyMemberships.userUid, userUid)));
+    return row ? fromRow<CompanyMembership>(row) : undefined;
+  }
+
+  async getCompanyMembershipsByCompany(companyId: string): Promise<CompanyMembership[]> {
+    const rows = await this.db
+      .select()
+      .from(companyMemberships)
+      .where(eq(companyMemberships.companyId, companyId))
+      .orderBy(asc(companyMemberships.createdAt));
+    return fromRows<CompanyMembership>(rows);
+  }
+
+  async getCompanyMembershipsByUser(userUid: string): Promise<CompanyMembership[]> {
+    const rows = await this.db
+      .select()
+      .from(companyMemberships)
+      .where(eq(companyMemberships.userUid, userUid))
+      .orderBy(asc(companyMemberships.createdAt));
+    return fromRows<CompanyMembership>(rows);
+  }
+
+  async createCompanyMembership(insertMembership: InsertCompanyMembership): Promise<CompanyMembership> {
+    const [row] = await this.db.insert(companyMemberships).values(insertMembership).returning();
+    return fromRow<CompanyMembership>(row);
+  }
+
+  async updateCompanyMembership(id: string, updates: Partial<CompanyMembership>): Promise<void> {
+    await this.db
+      .update(companyMemberships)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(companyMemberships.id, id));
+  }
+
+  async deleteCompanyMembership(id: string): Promise<void> {
+    await this.db.delete(companyMemberships).where(eq(companyMemberships.id, id));
+  }
+
+  // Company invitation operations
+  async getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    const [row] = await this.db.select().from(companyInvitations).where(eq(companyInvitations.id, id));
+    return row ? fromRow<CompanyInvitation>(row) : undefined;
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    const [row] = await this.db.select().from(companyInvitations).where(eq(companyInvitations.token, token));
+    return row ? fromRow<CompanyInvitation>(row) : undefined;
+  }
+
+  async getPendingCompanyInvitations(companyId: string): Promise<CompanyInvitation[]> {
+    const rows = await this.db
+      .select()
+      .from(companyInvitations)
+      .where(and(eq(companyInvitations.companyId, companyId), eq(companyInvitations.status, 'pending')))
+      .orderBy(desc(companyInvitations.createdAt));
+    return fromRows<CompanyInvitation>(rows);
+  }
+
+  async createCompanyInvitation(insertInvitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const [row] = await this.db
+      .insert(companyInvitations)
+      .values({ ...insertInvitation, status: 'pending' })
+      .returning();
+    return fromRow<CompanyInvitation>(row);
+  }
+
+  async updateCompanyInvitation(id: string, updates: Partial<CompanyInvitation>): Promise<void> {
+    await this.db
+      .update(companyInvitations)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(companyInvitations.id, id));
+  }
+
+  // Job operations
+  async getJob(id: string): Promise<Job | undefined> {
+    const [row] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return row ? fromRow<Job>(row) : undefined;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [row] = await this.db
+      .insert(jobs)
+      .values({ ...insertJob, status: insertJob.status || 'pending', resubmissionCount: 0, viewCount: 0, applicationCount: 0, applyClickCount: 0 })
+      .returning();
+    return fromRow<Job>(row);
+  }
+
+  async updateJob(id: string, updates: Partial<Job>, actorUid?: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [before] = await tx.select().from(jobs).where(eq(jobs.id, id)).for('update');
+      if (!before) {
+        return;
+      }
+      await tx
+        .update(jobs)
+        .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+        .where(eq(jobs.id, id));
+      await this.recordChanges(tx, 'job', id, fromRow(before), updates, actorUid);
+    });
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    // Related applications and revisions are removed by the foreign key cascade
+    await this.db.delete(jobs).where(eq(jobs.id, id));
+  }
+
+  async getJobsByCompany(companyId: string): Promise<Job[]> {
+    const rows = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.companyId, companyId))
+      .orderBy(desc(jobs.createdAt));
+    return fromRows<Job>(rows);
+  }
+
+  async getJobsByPoster(posterUid: string): Promise<Job[]> {
+    const rows = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.posterUid, posterUid))
+      .orderBy(desc(jobs.createdAt));
+    return fromRows<Job>(rows);
+  }
+
+  async getPendingJobs(): Promise<Job[]> {
+    const rows = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.status, 'pending'))
+      .orderBy(desc(jobs.createdAt));
+    return fromRows<Job>(rows);
+  }
+
+  async getApprovedJobs(): Promise<Job[]> {
+    const rows = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.status, 'approved'))
+      .orderBy(desc(jobs.createdAt));
+    return fromRows<Job>(rows);
+  }
+
+  async getFeaturedJobs(limit: number = 6): Promise<Job[]> {
+    const rows = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.status, 'approved'))
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+    return fromRows<Job>(rows);
+  }
+
+  async searchJobs(filters: Partial<JobSearchFilters>, page: number = 1, limit: number = 20): Promise<FacetedPaginatedResponse<Job>> {
+    const { conditions, facetConditions, rank } = await this.jobSearchConditions(filters);
+
+    // Each facet is counted with every condition except its own
+    const facetWhere = (dimension: FacetDimension) => and(
+      ...conditions,
+      ...Object.entries(facetConditions)
+        .filter(([key]) => key !== dimension)
+        .map(([, condition]) => condition),
+    );
+    const countFacet = async (dimension: FacetDimension, column: SQL | AnyColumn) => {
+      const rows = await this.db
+        .select({ value: sql<string>`${column}`, count: sql<number>`count(*)::int` })
+        .from(jobs)
+        .where(facetWhere(dimension))
+        .groupBy(sql`${column}`);
+      return Object.fromEntries(rows.map(row => [row.value, row.count]));
+    };
+
+    // Sorting
+    let orderBy: SQL;
+    switch (filters.sortBy) {
+      case 'deadline':
+        orderBy = asc(jobs.lastDate);
+        break;
+      case 'salary_high':
+        orderBy = sql`coalesce(${jobs.maxSalary}, 0) desc`;
+        break;
+      case 'salary_low':
+        orderBy = sql`coalesce(${jobs.minSalary}, 0) asc`;
+        break;
+      case 'relevance':
+        orderBy = rank ? sql`${rank} desc, ${jobs.createdAt} desc` : desc(jobs.createdAt);
+        break;
+      default: // 'newest'
+        orderBy = desc(jobs.createdAt);
+        break;
+    }
+
+    const where = and(...conditions, ...Object.values(facetConditions));
+    const [rows, [{ total }], departments, instituteTypes, locations, levels, employmentTypes] = await Promise.all([
+      this.db
+        .select()
+        .from(jobs)
+        .where(where)
+        .orderBy(orderBy)
+        .limit(limit)
+        .offset((page - 1) * limit),
+      this.db.select({ total: sql<number>`count(*)::int` }).from(jobs).where(where),
+      countFacet('department', jobs.department),
+      countFacet('instituteType', jobs.instituteType),
+      countFacet('location', sql`${jobs.location}->>'city'`),
+      countFacet('level', jobs.level),
+      countFacet('employmentType', jobs.employmentType),
+    ]);
+
+    return {
+      items: fromRows<Job>(rows),
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total,
+      facets: { departments, instituteTypes, locations, levels, employmentTypes },
+    };
+  }
+
+  // The words of a search query the english text search configuration ignores,
+  // which has a longer stop word list than the in-memory index
+  private async stopWords(query: string): Promise<Set<string>> {
+    const { terms, phrases } = parseSearchQuery(query);
+    const words = Array.from(new Set([...terms, ...phrases.flat()].map(lexeme).filter(Boolean)));
+    if (words.length === 0) {
+      return new Set();
+    }
+
+    const { rows } = await this.db.execute<{ word: string }>(sql`
+      select word from unnest(array[${sql.join(words.map(word => sql`${word}`), sql`, `)}]::text[]) as word
+      where ts_lexize('english_stem', word) = '{}'
+    `);
+    return new Set(rows.map(row => row.word));
+  }
+
+  // Split the search filters into conditions that always apply and the ones
+  // backing a facet, which that facet's own counts leave out
+  private async jobSearchConditions(filters: Partial<JobSearchFilters>) {
+    const conditions: SQL[] = [eq(jobs.status, 'approved')];
+    const facetConditions: Partial<Record<FacetDimension, SQL>> = {};
+
+    // Apply filters
+    if (filters.department) {
+      facetConditions.department = eq(jobs.department, filters.department);
+    }
+    if (filters.instituteType) {
+      facetConditions.instituteType = eq(jobs.instituteType, filters.instituteType);
+    }
+    if (filters.level) {
+      facetConditions.level = eq(jobs.level, filters.level);
+    }
+    if (filters.location) {
+      const pattern = `%${filters.location}%`;
+      facetConditions.location = or(
+        ilike(sql`${jobs.location}->>'city'`, pattern),
+        ilike(sql`${jobs.location}->>'state'`, pattern),
+      )!;
+    }
+    if (filters.employmentType) {
+      facetConditions.employmentType = eq(jobs.employmentType, filters.employmentType);
+    }
+
+    // Text search
+    const textQuery = filters.query
+      ? toTsQuery(filters.query, await this.stopWords(filters.query))
+      : undefined;
+    let rank: SQL | undefined;
+    if (textQuery) {
+      const query = sql`to_tsquery('english', ${textQuery})`;
+      conditions.push(sql`${jobSearchVector} @@ ${query}`);
+      rank = sql`ts_rank(${jobSearchVector}, ${query})`;
+    }
+
+    // Salary range overlap, see searchJobList for the semantics
+    if (filters.minSalary !== undefined || filters.maxSalary !== undefined) {
+      const jobMin = sql`coalesce(${jobs.minSalary}, ${jobs.maxSalary})`;
+      const jobMax = sql`coalesce(${jobs.maxSalary}, ${jobs.minSalary})`;
+      conditions.push(eq(jobs.currency, filters.currency || 'INR'));
+      conditions.push(isNotNull(jobMin));
+      if (filters.minSalary !== undefined) {
+        conditions.push(gte(jobMax, filters.minSalary));
+      }
+      if (filters.maxSalary !== undefined) {
+        conditions.push(lte(jobMin, filters.maxSalary));
+      }
+    }
+
+    // Date filtering
+    if (filters.postedWithin && filters.postedWithin !== 'all') {
+      const daysAgo = POSTED_WITHIN_DAYS[filters.postedWithin];
+      const dateThreshold = new Date(Date.now() - (daysAgo * 24 * 60 * 60 * 1000));
+      conditions.push(gte(jobs.createdAt, dateThreshold));
+    }
+
+    return { conditions, facetConditions, rank };
+  }
+
+  // Application operations
+  async getApplication(id: string): Promise<Application | undefined> {
+    const [row] = await this.db.select().from(applications).where(eq(applications.id, id));
+    return row ? fromRow<Application>(row) : undefined;
+  }
+
+  async getApplicationByDedupeKey(dedupeKey: string): Promise<Application | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.dedupeKey, dedupeKey));
+    return row ? fromRow<Application>(row) : undefined;
+  }
+
+  async createApplication(insertApplication: InsertApplication): Promise<Application> {
+    const [row] = await this.db
+      .insert(applications)
+      .values({ ...insertApplication, status: 'submitted' })
+      .returning();
+    return fromRow<Application>(row);
+  }
+
+  async updateApplication(id: string, updates: Partial<Application>): Promise<void> {
+    await this.db
+      .update(applications)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(applications.id, id));
+  }
+
+  async getApplicationsByUser(applicantUid: string): Promise<Application[]> {
+    const rows = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.applicantUid, applicantUid))
+      .orderBy(desc(applications.createdAt));
+    return fromRows<Application>(rows);
+  }
+
+  async getApplicationsByJob(jobId: string): Promise<Application[]> {
+    const rows = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.jobId, jobId))
+      .orderBy(desc(applications.createdAt));
+    return fromRows<Application>(rows);
+  }
+
+  // Hiring committee operations
+  async getHiringCommitteeByJob(jobId: string): Promise<HiringCommittee | undefined> {
+    const [row] = await this.db.select().from(hiringCommittees).where(eq(hiringCommittees.jobId, jobId));
+    return row ? fromRow<HiringCommittee>(row) : undefined;
+  }
+
+  async createHiringCommittee(insertCommittee: InsertHiringCommittee): Promise<HiringCommittee> {
+    const [row] = await this.db.insert(hiringCommittees).values(insertCommittee).returning();
+    return fromRow<HiringCommittee>(row);
+  }
+
+  async updateHiringCommittee(id: string, updates: Partial<HiringCommittee>): Promise<void> {
+    await this.db
+      .update(hiringCommittees)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(hiringCommittees.id, id));
+  }
+
+  // Scorecard operations
+  async getScorecard(applicationId: string, reviewerUid: string): Promise<Scorecard | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(scorecards)
+      .where(and(eq(scorecards.applicationId, applicationId), eq(scorecards.reviewerUid, reviewerUid)));
+    return row ? fromRow<Scorecard>(row) : undefined;
+  }
+
+  async getScorecardsByApplication(applicationId: string): Promise<Scorecard[]> {
+    const rows = await this.db
+      .select()
+      .from(scorecards)
+      .where(eq(scorecards.applicationId, applicationId))
+      .orderBy(asc(scorecards.createdAt));
+    return fromRows<Scorecard>(rows);
+  }
+
+  async getScorecardsByJob(jobId: string): Promise<Scorecard[]> {
+    const rows = await this.db
+      .select()
+      .from(scorecards)
+      .where(eq(scorecards.jobId, jobId))
+      .orderBy(asc(scorecards.createdAt));
+    return fromRows<Scorecard>(rows);
+  }
+
+  async createScorecard(insertScorecard: InsertScorecard): Promise<Scorecard> {
+    const [row] = await this.db
+      .insert(scorecards)
+      .values({ ...insertScorecard, status: 'draft' })
+      .returning();
+    return fromRow<Scorecard>(row);
+  }
+
+  async updateScorecard(id: string, updates: Partial<Scorecard>): Promise<void> {
+    await this.db
+      .update(scorecards)
+      .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+      .where(eq(scorecards.id, id));
+  }
+
+  // Interview slot operations
+  async getInterviewSlot(id: string): Promise<InterviewSlot | undefined> {
+    const [row] = await this.db.select().from(interviewSlots).where(eq(interviewSlots.id, id));
+    return row ? fromRow<InterviewSlot>(row) : undefined;
+  }
+
+  async getInterviewSlotsByJob(jobId: string): Promise<InterviewSlot[]> {
+    const rows = await this.db
+      .select()
+      .from(interviewSlots)
+      .where(eq(interviewSlots.jobId, jobId))
+      .orderBy(asc(interviewSlots.startsAt));
+    return fromRows<InterviewSlot>(rows);
+  }
+
+  async getInterviewSlotsByApplicant(applicantUid: string): Promise<InterviewSlot[]> {
+    const rows = await this.db
+      .select()
+      .from(interviewSlots)
+      .where(eq(interviewSlots.applicantUid, applicantUid))
+      .orderBy(asc(interviewSlots.startsAt));
+    return fromRows<InterviewSlot>(rows);
+  }
+
+  async createInterviewSlot(insertSlot: InsertInterviewSlot): Promise<InterviewSlot> {
+    const [row] = await this.db
+      .insert(interviewSlots)
+      .values({ ...insertSlot, status: 'open' })
+      .returning();
+    return fromRow<InterviewSlot>(row);
+  }
+
+  async updateInterviewSlot(id: string, updates: Partial<InterviewSlot>): Promise<void> {
+    await this.db
+      .update(interviewSlots)
+      .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+      .where(eq(interviewSlots.id, id));
+  }
+
+  async bookInterviewSlot(id: string, applicationId: string, applicantUid: string): Promise<InterviewSlot | undefined> {
+    const [row] = await this.db
+      .update(interviewSlots)
+      .set({ status: 'booked', applicationId, applicantUid, bookedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(interviewSlots.id, id), eq(interviewSlots.status, 'open')))
+      .returning();
+    return row ? fromRow<InterviewSlot>(row) : undefined;
+  }
+
+  // Offer operations
+  async getOffer(id: string): Promise<Offer | undefined> {
+    const [row] = await this.db.select().from(offers).where(eq(offers.id, id));
+    return row ? fromRow<Offer>(row) : undefined;
+  }
+
+  async getOffersByJob(jobId: string): Promise<Offer[]> {
+    const rows = await this.db
+      .select()
+      .from(offers)
+      .where(eq(offers.jobId, jobId))
+      .orderBy(desc(offers.createdAt));
+    return fromRows<Offer>(rows);
+  }
+
+  async getOffersByApplicant(applicantUid: string): Promise<Offer[]> {
+    const rows = await this.db
+      .select()
+      .from(offers)
+      .where(eq(offers.applicantUid, applicantUid))
+      .orderBy(desc(offers.createdAt));
+    return fromRows<Offer>(rows);
+  }
+
+  async createOffer(insertOffer: InsertOffer): Promise<Offer> {
+    const [row] = await this.db
+      .insert(offers)
+      .values({ ...insertOffer, status: 'pending' })
+      .returning();
+    return fromRow<Offer>(row);
+  }
+
+  async updateOffer(id: string, updates: Partial<Offer>): Promise<void> {
+    await this.db
+      .update(offers)
+      .set({ ...withClearedFields(withoutId(updates)), updatedAt: new Date() })
+      .where(eq(offers.id, id));
+  }
+
+  // Job revision operations
+  async getJobRevision(id: string): Promise<JobRevision | undefined> {
+    const [row] = await this.db.select().from(jobRevisions).where(eq(jobRevisions.id, id));
+    return row ? fromRow<JobRevision>(row) : undefined;
+  }
+
+  async getPendingJobRevision(jobId: string): Promise<JobRevision | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(jobRevisions)
+      .where(and(eq(jobRevisions.jobId, jobId), eq(jobRevisions.status, 'pending')))
+      .limit(1);
+    return row ? fromRow<JobRevision>(row) : undefined;
+  }
+
+  async getPendingJobRevisions(): Promise<JobRevision[]> {
+    const rows = await this.db
+      .select()
+      .from(jobRevisions)
+      .where(eq(jobRevisions.status, 'pending'))
+      .orderBy(desc(jobRevisions.createdAt));
+    return fromRows<JobRevision>(rows);
+  }
+
+  async createJobRevision(insertRevision: InsertJobRevision): Promise<JobRevision> {
+    const [row] = await this.db
+      .insert(jobRevisions)
+      .values({ ...insertRevision, status: 'pending' })
+      .returning();
+    return fromRow<JobRevision>(row);
+  }
+
+  async updateJobRevision(id: string, updates: Partial<JobRevision>): Promise<void> {
+    await this.db
+      .update(jobRevisions)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(jobRevisions.id, id));
+  }
+
+  // Report operations
+  async getReport(id: string): Promise<Report | undefined> {
+    const [row] = await this.db.select().from(reports).where(eq(reports.id, id));
+    return row ? fromRow<Report>(row) : undefined;
+  }
+
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const [row] = await this.db
+      .insert(reports)
+      .values({ ...insertReport, status: 'pending' })
+      .returning();
+    return fromRow<Report>(row);
+  }
+
+  async updateReport(id: string, updates: Partial<Report>): Promise<void> {
+    await this.db
+      .update(reports)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(reports.id, id));
+  }
+
+  async getPendingReports(): Promise<Report[]> {
+    const rows = await this.db
+      .select()
+      .from(reports)
+      .where(eq(reports.status, 'pending'))
+      .orderBy(desc(reports.createdAt));
+    return fromRows<Report>(rows);
+  }
+
+  async getReports(filters: ReportFilters = {}): Promise<Report[]> {
+    const rows = await this.db
+      .select()
+      .from(reports)
+      .where(and(
+        filters.status ? eq(reports.status, filters.status) : undefined,
+        filters.type ? eq(reports.type, filters.type) : undefined,
+        filters.reason ? eq(reports.reason, filters.reason) : undefined
+      ))
+      .orderBy(desc(reports.createdAt));
+    return fromRows<Report>(rows);
+  }
+
+  async getPendingReportByReporter(reporterUid: string, type: ReportType, targetId: string): Promise<Report | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(reports)
+      .where(and(
+        eq(reports.reporterUid, reporterUid),
+        eq(reports.type, type),
+        eq(reports.targetId, targetId),
+        eq(reports.status, 'pending')
+      ))
+      .limit(1);
+    return row ? fromRow<Report>(row) : undefined;
+  }
+
+  async countReportsByReporterSince(reporterUid: string, since: Date): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reports)
+      .where(and(eq(reports.reporterUid, reporterUid), gte(reports.createdAt, since)));
+    return count;
+  }
+
+  // Saved search operations
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const [row] = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return row ? fromRow<SavedSearch>(row) : undefined;
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.unsubscribeToken, token));
+    return row ? fromRow<SavedSearch>(row) : undefined;
+  }
+
+  async getSavedSearchesByUser(userUid: string): Promise<SavedSearch[]> {
+    const rows = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userUid, userUid))
+      .orderBy(desc(savedSearches.createdAt));
+    return fromRows<SavedSearch>(rows);
+  }
+
+  async getActiveSavedSearches(): Promise<SavedSearch[]> {
+    const rows = await this.db.select().from(savedSearches).where(eq(savedSearches.active, true));
+    return fromRows<SavedSearch>(rows);
+  }
+
+  async createSavedSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [row] = await this.db.insert(savedSearches).values(insertSavedSearch).returning();
+    return fromRow<SavedSearch>(row);
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<SavedSearch>): Promise<void> {
+    await this.db
+      .update(savedSearches)
+      .set({ ...withoutId(updates), updatedAt: new Date() })
+      .where(eq(savedSearches.id, id));
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  // Notification operations
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [row] = await this.db.insert(notifications).values(insertNotification).returning();
+    return fromRow<Notification>(row);
+  }
+
+  async getNotificationsByUser(userUid: string, limit: number = 20): Promise<Notification[]> {
+    const rows = await this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userUid, userUid))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+    return fromRows<Notification>(rows);
+  }
+
+  async getUnreadNotificationCount(userUid: string): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userUid, userUid), eq(notifications.read, false)));
+    return total;
+  }
+
+  async markNotificationsRead(userUid: string, ids?: string[]): Promise<void> {
+    if (ids && ids.length === 0) return;
+    await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(and(
+        eq(notifications.userUid, userUid),
+        eq(notifications.read, false),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ));
+  }
+
+  // Audit log operations
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const [row] = await this.db.insert(auditLogs).values(insertLog).returning();
+    return fromRow<AuditLog>(row);
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}, limit: number = 50, before?: string): Promise<AuditLog[]> {
+    const rows = await this.db
+      .select()
+      .from(auditLogs)
+      .where(and(
+        filters.actorUid ? eq(auditLogs.actorUid, filters.actorUid) : undefined,
+        filters.action ? eq(auditLogs.action, filters.action) : undefined,
+        filters.targetType ? eq(auditLogs.targetType, filters.targetType) : undefined,
+        filters.targetId ? eq(auditLogs.targetId, filters.targetId) : undefined,
+        filters.from ? gte(auditLogs.timestamp, filters.from) : undefined,
+        filters.to ? lte(auditLogs.timestamp, filters.to) : undefined,
+        // Compare against the cursor row itself so entries sharing a
+        // timestamp are neither skipped nor repeated
+        before
+          ? sql`(${auditLogs.timestamp}, ${auditLogs.id}) < (select ${auditLogs.timestamp}, ${auditLogs.id} from ${auditLogs} where ${auditLogs.id} = ${before})`
+          : undefined
+      ))
+      .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+      .limit(limit);
+    return fromRows<AuditLog>(rows);
+  }
+
+  // Change history operations
+  async getChangeRecords(targetType: ChangeTargetType, targetId: string, since?: Date): Promise<ChangeRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(changeRecords)
+      .where(and(
+        eq(changeRecords.targetType, targetType),
+        eq(changeRecords.targetId, targetId),
+        since ? gt(changeRecords.createdAt, since) : undefined
+      ))
+      .orderBy(desc(changeRecords.createdAt));
+    return fromRows<ChangeRecord>(rows);
+  }
+
+  // Written in the same transaction as the update it describes
+  private async recordChanges(
+    tx: Transaction,
+    targetType: ChangeTargetType,
+    targetId: string,
+    before: Record<string, unknown>,
+    updates: Record<string, unknown>,
+    actorUid?: string
+  ): Promise<void> {
+    const changes = diffFields(before, updates);
+    if (changes.length > 0) {
+      await tx.insert(changeRecords).values({ targetType, targetId, actorUid, changes });
+    }
+  }
+
+  // Statistics
+  async getStats(): Promise<{
+    totalJobs: number;
+    totalApplications: number;
+    totalEmployers: number;
+    totalSeekers: number;
+    pendingJobs: number;
+    pendingEmployers: number;
+    activeJobs: number;
+  }> {
+    const [[jobCounts], [applicationCounts], [userCounts], [companyCounts]] = await Promise.all([
+      this.db.select({
+        totalJobs: sql<number>`count(*)::int`,
+        pendingJobs: sql<number>`count(*) filter (where ${jobs.status} = 'pending')::int`,
+        activeJobs: sql<number>`count(*) filter (where ${jobs.status} = 'approved')::int`,
+      }).from(jobs),
+      this.db.select({ totalApplications: sql<number>`count(*)::int` }).from(applications),
+      this.db.select({
+        totalEmployers: sql<number>`count(*) filter (where ${users.role} = 'employer')::int`,
+        totalSeekers: sql<number>`count(*) filter (where ${users.role} = 'seeker')::int`,
+      }).from(users),
+      this.db.select({
+        pendingEmployers: sql<number>`count(*) filter (where ${companies.status} = 'pending')::int`,
+      }).from(companies),
+    ]);
+
+    return {
+      ...jobCounts,
+      ...applicationCounts,
+      ...userCounts,
+      ...companyCounts,
+    };
+  }
+}
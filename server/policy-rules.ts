@@ -0,0 +1,191 @@
+// Keeps the security rules and the Cloud Functions in step with
+// shared/policy.ts and shared/applications.ts.
+//
+//   npm run policy:sync    rewrite the generated parts
+//   npm run policy:check   fail if anything has drifted
+//
+// The rules can't import the policy, so the role helpers they use are
+// generated into a marked block of each rules file, and the rest of the rules
+// may only speak in the policy's terms: staff permissions through
+// hasAdminPermission(), company permissions through hasCompanyPermission(),
+// and hasRole() for non-staff roles only. functions/ is deployed on its own,
+// so it gets verbatim copies of the modules. The API imports the policy, and
+// its routes may not check the signed-in user's role by hand either.
+import fs from "fs";
+import path from "path";
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_ROLE_PERMISSIONS,
+  COMPANY_PERMISSIONS,
+  COMPANY_ROLES,
+  COMPANY_ROLE_PERMISSIONS,
+  USER_ROLES,
+  isStaffRole,
+} from "@shared/policy";
+
+const ROOT = path.resolve(import.meta.dirname, "..");
+// Dependency-free shared modules the Cloud Functions get copies of
+const FUNCTIONS_COPIES = [
+  { source: "shared/policy.ts", copy: "functions/src/policy.ts" },
+  { source: "shared/applications.ts", copy: "functions/src/applications.ts" },
+];
+const API_ROUTES = "server/routes.ts";
+
+const BEGIN_MARKER = "// BEGIN GENERATED from shared/policy.ts by `npm run policy:sync`";
+const END_MARKER = "// END GENERATED";
+
+interface RulesFile {
+  path: string;
+}
+
+const RULES_FILES: RulesFile[] = [
+  { path: "firestore.rules" },
+  { path: "storage.rules" },
+];
+
+const INDENT = "    ";
+
+const quote = (values: readonly string[]) => `[${values.map(value => `'${value}'`).join(", ")}]`;
+
+function rulesHelpers(): string {
+  const staffRoles = USER_ROLES.filter(role => ADMIN_ROLE_PERMISSIONS[role].length > 0);
+  const lines = [
+    BEGIN_MARKER,
+    "// Staff permissions by role",
+    "function adminRolePermissions() {",
+    "  return {",
+    ...staffRoles.map((role, i) =>
+      `    '${role}': ${quote(ADMIN_ROLE_PERMISSIONS[role])}${i < staffRoles.length - 1 ? "," : ""}`),
+    "  };",
+    "}",
+    "",
+    "function hasAdminPermission(permission) {",
+    "  return request.auth != null &&",
+    "    request.auth.token.role in adminRolePermissions() &&",
+    "    permission in adminRolePermissions()[request.auth.token.role];",
+    "}",
+    "",
+    "function companyRoles() {",
+    `  return ${quote(COMPANY_ROLES)};`,
+    "}",
+    "",
+    "// Company roles holding each permission",
+    "function companyRolesWith(permission) {",
+    "  return {",
+    ...COMPANY_PERMISSIONS.map((permission, i) => {
+      const roles = COMPANY_ROLES.filter(role => COMPANY_ROLE_PERMISSIONS[role].includes(permission));
+      return `    '${permission}': ${quote(roles)}${i < COMPANY_PERMISSIONS.length - 1 ? "," : ""}`;
+    }),
+    "  }[permission];",
+    "}",
+    END_MARKER,
+  ];
+  return lines.map(line => (line ? INDENT + line : line)).join("\n");
+}
+
+function functionsCopy(source: string): string {
+  const contents = fs.readFileSync(path.join(ROOT, source), "utf8");
+  return `// GENERATED from ${source} by \`npm run policy:sync\`; edit that file instead.\n\n${contents}`;
+}
+
+// The generated block of a rules file, as [start, end) offsets
+function findBlock(contents: string, file: RulesFile): [number, number] {
+  const begin = contents.indexOf(INDENT + BEGIN_MARKER);
+  const end = contents.indexOf(INDENT + END_MARKER);
+  if (begin === -1 || end === -1 || end < begin) {
+    throw new Error(`${file.path} has no generated policy block; add the markers around its role helpers`);
+  }
+  return [begin, end + INDENT.length + END_MARKER.length];
+}
+
+// Ways the hand-written rules can step outside the policy
+function lintRules(contents: string, file: RulesFile): string[] {
+  const [begin, end] = findBlock(contents, file);
+  const handWritten = contents.slice(0, begin) + contents.slice(end);
+  const problems: string[] = [];
+  const report = (message: string) => problems.push(`${file.path}: ${message}`);
+
+  for (const [, permission] of Array.from(handWritten.matchAll(/hasAdminPermission\('([^']*)'\)/g))) {
+    if (!(ADMIN_PERMISSIONS as readonly string[]).includes(permission)) {
+      report(`unknown staff permission '${permission}'`);
+    }
+  }
+  for (const [, permission] of Array.from(handWritten.matchAll(/(?:hasCompanyPermission\(.*?,\s*|companyRolesWith\()'([^']*)'\)/g))) {
+    if (!(COMPANY_PERMISSIONS as readonly string[]).includes(permission)) {
+      report(`unknown company permission '${permission}'`);
+    }
+  }
+  for (const [, role] of Array.from(handWritten.matchAll(/hasRole\('([^']*)'\)/g))) {
+    if (!(USER_ROLES as readonly string[]).includes(role)) {
+      report(`unknown role '${role}'`);
+    } else if (isStaffRole(role)) {
+      report(`hasRole('${role}') checks a staff role; use hasAdminPermission() with the permission it needs`);
+    }
+  }
+  if (/hasCompanyRole\([^\n]*?,\s*\[/.test(handWritten)) {
+    report("hasCompanyRole() is given a list of roles; use hasCompanyPermission() with the permission it needs");
+  }
+  // The only hand-written role comparison allowed is hasRole() itself
+  const roleComparisons = handWritten.match(/request\.auth\.token\.role\s*==/g) || [];
+  if (roleComparisons.length > 1) {
+    report("compares request.auth.token.role directly; use hasRole() or hasAdminPermission()");
+  }
+  return problems;
+}
+
+// Ways the API routes can step outside the policy
+function lintRoutes(contents: string): string[] {
+  const problems: string[] = [];
+  contents.split("\n").forEach((line, i) => {
+    if (/\brequireRole\(|\breq\.user\??\.role\b/.test(line)) {
+      problems.push(`${API_ROUTES}:${i + 1}: checks the user's role directly; use authorize() or can() with a policy action`);
+    }
+  });
+  return problems;
+}
+
+function run(write: boolean): string[] {
+  const problems: string[] = [];
+
+  for (const file of RULES_FILES) {
+    const filePath = path.join(ROOT, file.path);
+    const contents = fs.readFileSync(filePath, "utf8");
+    const [begin, end] = findBlock(contents, file);
+    const expected = contents.slice(0, begin) + rulesHelpers() + contents.slice(end);
+    if (expected !== contents) {
+      if (write) {
+        fs.writeFileSync(filePath, expected);
+      } else {
+        problems.push(`${file.path}: generated role helpers are out of date`);
+      }
+    }
+    problems.push(...lintRules(expected, file));
+  }
+
+  for (const { source, copy } of FUNCTIONS_COPIES) {
+    const copyPath = path.join(ROOT, copy);
+    const expected = functionsCopy(source);
+    if (!fs.existsSync(copyPath) || fs.readFileSync(copyPath, "utf8") !== expected) {
+      if (write) {
+        fs.writeFileSync(copyPath, expected);
+      } else {
+        problems.push(`${copy}: out of date with ${source}`);
+      }
+    }
+  }
+
+  problems.push(...lintRoutes(fs.readFileSync(path.join(ROOT, API_ROUTES), "utf8")));
+
+  return problems;
+}
+
+const write = process.argv.includes("--write");
+const problems = run(write);
+if (problems.length > 0) {
+  console.error(problems.join("\n"));
+  if (!write) {
+    console.error("\nRun `npm run policy:sync` to regenerate, then fix anything it can't.");
+  }
+  process.exit(1);
+}
+console.log(write ? "Policy synced" : "Rules and functions match the policy");
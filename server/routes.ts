@@ -1,16 +1,104 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes, randomUUID } from "crypto";
 import { z } from "zod";
 import { 
   InstituteType, 
-  Department, 
-  JobLevel, 
-  EmploymentType,
-  JobSearchFilters 
+  JobSearchFilters,
+  ApplicationStatus,
+  AlertFrequency,
+  SavedSearchFilters,
+  ReportType,
+  ReportReason,
+  ReportAction,
+  ReportFilters,
+  AuditLogFilters,
+  UserRole,
+  UserSearchFilters,
+  isStaffRole,
+  can,
+  type Action,
+  type Actor,
+  type PolicyResource,
+  ChangeTargetType,
+  RejectionReason,
+  ProofDocumentType,
+  PROOF_DOCUMENT_LABELS,
+  getCompanyVerification,
+  CompanyRole,
+  hasCompanyPermission,
+  ScreeningAnswerSchema,
+  JobContentSchema,
+  canTransitionApplication,
+  WITHDRAWABLE_APPLICATION_STATUSES,
+  MAX_WITHDRAWALS_PER_JOB,
+  RubricCriterionSchema,
+  CriterionScoreSchema,
+  DEFAULT_RUBRIC,
+  aggregateScorecards,
+  type HiringCommittee,
+  type Scorecard,
+  InterviewKind,
+  INTERVIEW_KIND_LABELS,
+  type InterviewSlot,
+  isOfferExpired,
+  STORAGE_PATHS,
+  type Application,
+  type User,
+  type JobStatus,
+  type Job,
+  type Company,
+  type Report,
+  type AuditLog,
+  type CursorPaginatedResponse,
+  type ScreeningQuestion,
+  type ScreeningAnswer,
+  type JobContent,
+  type JobContentInput
 } from "@shared/schema";
-import { validateFirebaseToken } from "./services/firebase-admin";
-import { sendEmail } from "./services/email";
+import {
+  validateFirebaseToken,
+  createSessionCookie,
+  validateSessionCookie,
+  revokeUserSessions,
+  setUserDisabled,
+  deleteAuthUser,
+  generateEmailVerificationLink,
+  generateSignedUrl,
+  saveFile,
+} from "./services/firebase-admin";
+import { renderOfferLetter } from "./services/offer-letter";
+import {
+  sendEmail,
+  sendApplicationStatusEmail,
+  sendCompanyRejectedEmail,
+  sendJobRejectedEmail,
+  sendCompanyInvitationEmail,
+  sendInterviewEmail,
+  sendOfferEmail,
+  sendVerificationEmail,
+  escapeHtml,
+  type InterviewChange,
+} from "./services/email";
 import { storage } from "./storage";
+import { runJobAlerts } from "./job-alerts";
+import { changeUserRole, ensureUserRecord, grantEmployerRole, reconcileUserRoles } from "./user-roles";
+import {
+  notifyApplicationSubmitted,
+  notifyApplicationWithdrawn,
+  notifyApplicationStatusChanged,
+  notifyCompanyReviewed,
+  notifyJobReviewed,
+  notifyJobRevisionReviewed,
+  notifyJobRemoved,
+  notifyCompanySuspended,
+  notifyInvitationAccepted,
+  notifyInterviewBooking,
+  notifyInterviewChanged,
+  notifyOfferMade,
+  notifyOfferResponded,
+  notifyJobFilled,
+} from "./notifications";
 
 // User interface is now extended globally via types/express.d.ts
 
@@ -22,18 +110,56 @@ const createApiResponse = (data?: any, error?: string, message?: string) => ({
   message,
 });
 
-// Middleware to validate Firebase token
-const authenticateUser = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    if (!token) {
-      return res.status(401).json(createApiResponse(null, 'No token provided'));
+// Session cookies from POST /api/auth/session. Firebase Hosting only forwards
+// a cookie by this name.
+const SESSION_COOKIE = '__session';
+// Firebase allows session cookies of up to two weeks
+const SESSION_MAX_AGE_MS = 5 * 24 * 60 * 60 * 1000;
+// Only a recent sign-in can start a session, so an ID token that leaked later
+// cannot be turned into a long-lived cookie
+const SESSION_SIGN_IN_WINDOW_SECONDS = 5 * 60;
+
+const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  // Browsers never send the cookie on cross-site requests, which keeps
+  // cookie-authenticated writes safe from request forgery
+  sameSite: 'strict' as const,
+  path: '/',
+};
+
+// Express does not parse cookies, and the session cookie is the only one the
+// API reads
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
     }
+  }
+  return undefined;
+}
 
-    const decodedToken = await validateFirebaseToken(token);
+// Middleware to validate a Firebase ID token from the Authorization header,
+// or failing that the session cookie
+const authenticateUser = async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  const sessionCookie = readCookie(req, SESSION_COOKIE);
+  if (!token && !sessionCookie) {
+    return res.status(401).json(createApiResponse(null, 'No token provided'));
+  }
+
+  try {
+    const decodedToken = token
+      ? await validateFirebaseToken(token)
+      : await validateSessionCookie(sessionCookie!);
     req.user = decodedToken as any; // Compatible with optional fields
     next();
   } catch (error) {
+    if (!token) {
+      // Expired or revoked, so the browser can stop sending it
+      res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+    }
     res.status(401).json(createApiResponse(null, 'Invalid token'));
   }
 };
@@ -46,16 +172,27 @@ const requireEmailVerification = (req: Request, res: Response, next: NextFunctio
   next();
 };
 
-// Middleware to check user role
-const requireRole = (roles: string[]) => (req: Request, res: Response, next: NextFunction) => {
-  const userRole = req.user?.role || 'seeker';
-  if (!roles.includes(userRole)) {
+// The signed-in user as the authorization policy sees them
+const actorOf = (user: Express.UserPayload): Actor => ({
+  uid: user.uid,
+  role: user.role,
+  emailVerified: user.email_verified,
+});
+
+// Middleware to check an action that needs nothing from the resource, such
+// as the staff actions; see POLICY in shared/policy.ts
+const authorize = (action: Action) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user || !can(actorOf(req.user), action)) {
     return res.status(403).json(createApiResponse(null, 'Insufficient permissions'));
   }
   next();
 };
 
 // Validation schemas
+const sessionSchema = z.object({
+  idToken: z.string().min(1),
+});
+
 const companySchema = z.object({
   name: z.string().min(2),
   website: z.string().url().optional(),
@@ -65,35 +202,212 @@ const companySchema = z.object({
   address: z.string().min(10),
 });
 
-const jobSchema = z.object({
-  title: z.string().min(5),
-  department: Department,
-  level: JobLevel,
-  instituteType: InstituteType,
-  employmentType: EmploymentType,
-  location: z.object({
-    city: z.string(),
-    state: z.string(),
-    country: z.string().default('India'),
-  }),
-  minSalary: z.number().optional(),
-  maxSalary: z.number().optional(),
-  currency: z.string().default('INR'),
-  qualifications: z.array(z.string()).default([]),
-  skills: z.array(z.string()).default([]),
-  responsibilities: z.array(z.string()).default([]),
-  description: z.string().min(50),
-  requirements: z.string().optional(),
-  lastDate: z.string().transform(str => new Date(str)),
+const companyUpdateSchema = companySchema.partial().extend({
+  // Sends a rejected company back to moderation along with the edit
+  submit: z.boolean().default(false),
+});
+
+// Rejections tell the employer what to fix before resubmitting
+const moderationStatusSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  reasons: z.array(RejectionReason).max(RejectionReason.options.length).default([]),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(
+  review => review.status === 'approved' || review.reasons.length > 0,
+  { message: 'Select at least one rejection reason', path: ['reasons'] }
+).refine(
+  review => !review.reasons.includes('other') || !!review.notes,
+  { message: 'Explain the rejection in the notes', path: ['notes'] }
+);
+type ModerationReview = z.infer<typeof moderationStatusSchema>;
+
+const jobSchema = JobContentSchema.extend({
   companyId: z.string(),
+  // Drafts are saved without being sent to moderation
+  draft: z.boolean().default(false),
+});
+
+const jobUpdateSchema = JobContentSchema.extend({
+  // Sends a draft or rejected job to moderation along with the edit
+  submit: z.boolean().default(false),
+});
+
+const jobRevisionStatusSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+});
+
+const proofDocumentSchema = z.object({
+  type: ProofDocumentType,
+  // Where the client uploaded the file, under proofs/{companyId}/
+  path: z.string().min(1),
+  fileName: z.string().min(1).max(255),
+});
+
+const proofDocumentReviewSchema = z.object({
+  status: z.enum(['accepted', 'rejected']),
+  notes: z.string().trim().max(1000).optional(),
+}).refine(
+  review => review.status === 'accepted' || !!review.notes,
+  { message: 'Explain why the document was rejected', path: ['notes'] }
+);
+
+// Signed proof document links are only for viewing them right away
+const PROOF_URL_TTL_SECONDS = 5 * 60;
+
+const companyInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: CompanyRole,
+});
+
+const companyMemberUpdateSchema = z.object({
+  role: CompanyRole,
 });
 
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 const applicationSchema = z.object({
   jobId: z.string(),
   resumePath: z.string(),
-  coverLetter: z.string().optional(),
+  coverLetter: z.string().max(10000).optional(),
+  coverLetterPath: z.string().optional(),
+  screeningAnswers: z.array(ScreeningAnswerSchema).max(20).default([]),
+});
+
+const applicationWithdrawalSchema = z.object({
+  reason: z.string().trim().max(2000).optional(),
+});
+
+const applicationStatusSchema = z.object({
+  status: ApplicationStatus,
+  notes: z.string().max(2000).optional(),
+});
+
+const hiringCommitteeSchema = z.object({
+  memberUids: z.array(z.string()).min(1).max(20),
+  criteria: z.array(RubricCriterionSchema).min(1).max(10).default(DEFAULT_RUBRIC)
+    .refine(criteria => new Set(criteria.map(c => c.id)).size === criteria.length, 'Criteria must have distinct ids'),
+});
+
+const scorecardSchema = z.object({
+  scores: z.array(CriterionScoreSchema).max(10)
+    .refine(scores => new Set(scores.map(s => s.criterionId)).size === scores.length, 'Each criterion can only be scored once'),
+  comment: z.string().max(5000).optional(),
+  // Submitted scorecards are final and reveal the other members' scores
+  submit: z.boolean().default(false),
+});
+
+const interviewSlotSchema = z.object({
+  kind: InterviewKind,
+  startsAt: z.coerce.date().refine(date => date > new Date(), 'Interview slots must be in the future'),
+  durationMinutes: z.number().int().min(15).max(480),
+  location: z.string().trim().min(1).max(500),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+const interviewSlotUpdateSchema = interviewSlotSchema.omit({ kind: true }).partial();
+
+const offerSchema = z.object({
+  salary: z.number().int().positive(),
+  currency: z.string().default('INR'),
+  payLevel: z.string().trim().min(1).max(200),
+  joiningDate: z.coerce.date().refine(date => date > new Date(), 'The joining date must be in the future'),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'The offer must expire in the future'),
+}).refine(
+  offer => offer.expiresAt <= offer.joiningDate,
+  { message: 'The offer must expire before the joining date', path: ['expiresAt'] }
+);
+
+const offerResponseSchema = z.object({
+  response: z.enum(['accept', 'decline']),
+  reason: z.string().trim().max(2000).optional(),
+}).refine(
+  answer => answer.response === 'accept' || !!answer.reason,
+  { message: 'Tell the institution why you are declining', path: ['reason'] }
+);
+
+// Signed offer letter links are only for opening them right away
+const OFFER_LETTER_URL_TTL_SECONDS = 5 * 60;
+
+// Jobs past their last date still hire from the applications they received
+const HIRING_JOB_STATUSES: JobStatus[] = ['approved', 'expired'];
+
+const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string()).max(100).optional(),
+});
+
+const savedSearchSchema = z.object({
+  name: z.string().min(1).max(100),
+  filters: SavedSearchFilters,
+  frequency: AlertFrequency.default('daily'),
+});
+
+const savedSearchUpdateSchema = savedSearchSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+const reportSchema = z.object({
+  type: ReportType,
+  targetId: z.string().min(1),
+  reason: ReportReason,
+  notes: z.string().max(1000).optional(),
+});
+
+const reportResolutionSchema = z.object({
+  status: z.enum(['resolved', 'dismissed']),
+  action: ReportAction.default('none'),
+  notes: z.string().max(2000).optional(),
+}).refine(
+  resolution => resolution.status === 'resolved' || resolution.action === 'none',
+  { message: 'Dismissed reports cannot take action', path: ['action'] }
+);
+
+// Each user may file this many reports per window
+const REPORT_RATE_LIMIT = 10;
+const REPORT_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Most audit entries shown on an admin's view of a user
+const USER_AUDIT_TRAIL_LIMIT = 50;
+
+const userRoleSchema = z.object({
+  role: UserRole,
+});
+
+const userSuspensionSchema = z.object({
+  reason: z.string().trim().min(1, 'Give a reason for the suspension').max(2000),
+});
+
+const cursorPageSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const auditLogExportSchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+});
+
+const changeHistorySchema = z.object({
+  since: z.coerce.date().optional(),
 });
 
+// Entries read per storage call while streaming an export
+const AUDIT_EXPORT_BATCH_SIZE = 500;
+
+const AUDIT_CSV_COLUMNS = ['id', 'timestamp', 'actorUid', 'action', 'targetType', 'targetId', 'metadata'] as const;
+
+const csvField = (value: string) => {
+  // Keep spreadsheets from evaluating cells as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const auditLogCsvRow = (log: AuditLog) => AUDIT_CSV_COLUMNS.map(column => {
+  const value = log[column];
+  if (value instanceof Date) {
+    return csvField(value.toISOString());
+  }
+  return csvField(typeof value === 'string' ? value : JSON.stringify(value ?? {}));
+}).join(',') + '\n';
+
 // Type assertion helper to ensure user is authenticated
 function assertUser(req: Request): asserts req is Request & { user: Express.UserPayload } {
   if (!req.user) {
@@ -101,6 +415,208 @@ function assertUser(req: Request): asserts req is Request & { user: Express.User
   }
 }
 
+// The user's role in a company. Its creator is always an owner, also for
+// companies stored without the creator's membership.
+async function getCompanyRole(company: Company, uid: string): Promise<CompanyRole | undefined> {
+  if (company.ownerUid === uid) {
+    return 'owner';
+  }
+  return (await storage.getCompanyMembership(company.id, uid))?.role;
+}
+
+// Whether the user may take an action on something belonging to a company
+async function canForCompany(
+  company: Company,
+  user: Express.UserPayload,
+  action: Action,
+  resource: PolicyResource = {}
+): Promise<boolean> {
+  return can(actorOf(user), action, { ...resource, companyRole: await getCompanyRole(company, user.uid) });
+}
+
+async function canInCompany(
+  companyId: string,
+  user: Express.UserPayload,
+  action: Action,
+  resource: PolicyResource = {}
+): Promise<boolean> {
+  const company = await storage.getCompany(companyId);
+  return company ? canForCompany(company, user, action, resource) : can(actorOf(user), action, resource);
+}
+
+// The company a user created, or else the first one they were invited to
+async function getMemberCompany(uid: string): Promise<Company | undefined> {
+  const owned = await storage.getCompanyByOwner(uid);
+  if (owned) {
+    return owned;
+  }
+  const [membership] = await storage.getCompanyMembershipsByUser(uid);
+  return membership && storage.getCompany(membership.companyId);
+}
+
+// Committee members score blind: other members' scorecards for an
+// application stay hidden until their own one for it is submitted. Company
+// members outside the committee only ever see submitted scorecards.
+function scoresHiddenFrom(committee: HiringCommittee, uid: string, own?: Scorecard): boolean {
+  return committee.memberUids.includes(uid) && own?.status !== 'submitted';
+}
+
+// Confirms a booked slot to the applicant and the employer who published it,
+// with a calendar invitation. The event is the application's booking of that
+// kind, so moving to another slot updates it in calendars instead of adding one.
+async function sendInterviewEmails(slot: InterviewSlot, job: Job, change: InterviewChange): Promise<void> {
+  const [applicant, employer, company] = await Promise.all([
+    slot.applicantUid ? storage.getUser(slot.applicantUid) : undefined,
+    storage.getUser(slot.createdBy),
+    storage.getCompany(slot.companyId),
+  ]);
+  const kind = INTERVIEW_KIND_LABELS[slot.kind];
+  const details = {
+    kind: slot.kind,
+    jobTitle: job.title,
+    startsAt: slot.startsAt,
+    durationMinutes: slot.durationMinutes,
+    location: slot.location,
+    notes: slot.notes,
+  };
+  const event = {
+    uid: `${slot.applicationId}-${slot.kind}@eduhire.faculty.com`,
+    start: slot.startsAt,
+    durationMinutes: slot.durationMinutes,
+    description: slot.notes,
+    location: slot.location,
+  };
+  const applicantName = applicant?.displayName || 'the applicant';
+  const companyName = company?.name || 'the institution';
+
+  await Promise.all([
+    applicant?.email && sendInterviewEmail(
+      applicant.email,
+      change,
+      { ...details, withName: companyName, manageUrl: `${process.env.APP_URL}/profile` },
+      { ...event, summary: `${kind}: ${job.title} at ${companyName}` }
+    ),
+    employer?.email && sendInterviewEmail(
+      employer.email,
+      change,
+      { ...details, withName: applicantName, manageUrl: `${process.env.APP_URL}/employer` },
+      { ...event, summary: `${kind}: ${job.title} with ${applicantName}` }
+    ),
+  ]);
+}
+
+// Withdraws the application's pending offer, if it has one
+async function withdrawPendingOffer(application: Application, actorUid: string, reason: 'rejected' | 'job_filled'): Promise<void> {
+  const offer = (await storage.getOffersByApplicant(application.applicantUid))
+    .find(other => other.applicationId === application.id && other.status === 'pending');
+  if (!offer) {
+    return;
+  }
+  await storage.updateOffer(offer.id, { status: 'withdrawn' });
+  await storage.createAuditLog({
+    actorUid,
+    action: 'offer_withdrawn',
+    targetType: 'application',
+    targetId: application.id,
+    metadata: { offerId: offer.id, reason },
+  });
+}
+
+// Closes a job once accepted offers take up all of its posts. Offers still
+// open then are withdrawn and their applications rejected.
+async function closeJobIfFilled(job: Job, actorUid: string): Promise<void> {
+  if (!HIRING_JOB_STATUSES.includes(job.status)) {
+    return;
+  }
+  const applications = await storage.getApplicationsByJob(job.id);
+  const positions = job.positions || 1;
+  const filled = applications.filter(application => ['accepted', 'joined'].includes(application.status)).length;
+  if (filled < positions) {
+    return;
+  }
+
+  await storage.updateJob(job.id, { status: 'filled' }, actorUid);
+  await storage.createAuditLog({
+    actorUid,
+    action: 'job_filled',
+    targetType: 'job',
+    targetId: job.id,
+    metadata: { positions },
+  });
+  await notifyJobFilled(job);
+
+  for (const application of applications.filter(other => other.status === 'offered')) {
+    await withdrawPendingOffer(application, actorUid, 'job_filled');
+    await storage.updateApplication(application.id, { status: 'rejected' });
+    const applicant = await storage.getUser(application.applicantUid);
+    if (applicant?.email) {
+      await sendApplicationStatusEmail(applicant.email, job.title, 'rejected');
+    }
+    await notifyApplicationStatusChanged({ ...application, status: 'rejected' }, job);
+  }
+}
+
+// Attach each job's company, looking every company up only once
+async function withCompanies(jobs: Job[]): Promise<Array<Job & { company?: Company }>> {
+  const companyIds = Array.from(new Set(jobs.map(job => job.companyId)));
+  const companies = new Map(
+    await Promise.all(companyIds.map(async id => [id, await storage.getCompany(id)] as const))
+  );
+  return jobs.map(job => ({ ...job, company: companies.get(job.companyId) }));
+}
+
+// New screening questions get ids the first time they are saved
+const withQuestionIds = (questions: JobContent['screeningQuestions']): ScreeningQuestion[] =>
+  questions.map(question => ({ ...question, id: question.id || randomUUID() }));
+
+const missingApplyUrl = (content: JobContent) => content.applyMode === 'external' && !content.applyUrl;
+
+// Every content field of a job, so optional fields left out of an edit are
+// cleared rather than kept
+const toJobUpdate = (content: JobContent): Partial<Job> => ({
+  minSalary: undefined,
+  maxSalary: undefined,
+  requirements: undefined,
+  applyUrl: undefined,
+  ...content,
+  screeningQuestions: withQuestionIds(content.screeningQuestions),
+});
+
+// Revisions keep the proposed content in its JSON form, which
+// JobContentSchema parses again when the revision is approved
+const toRevisionContent = (content: JobContent): JobContentInput =>
+  JSON.parse(JSON.stringify({ ...content, screeningQuestions: withQuestionIds(content.screeningQuestions) }));
+
+// Keep only answers to the job's own questions, and find the first required
+// question left unanswered
+function matchScreeningAnswers(questions: ScreeningQuestion[], answers: ScreeningAnswer[]) {
+  const answerById = new Map(answers.map(answer => [answer.questionId, answer.answer.trim()]));
+  return {
+    answers: questions
+      .filter(question => answerById.get(question.id))
+      .map(question => ({ questionId: question.id, answer: answerById.get(question.id)! })),
+    unanswered: questions.find(question => question.required && !answerById.get(question.id)),
+  };
+}
+
+// Human-readable name of the thing a report points at, or undefined if it no
+// longer exists
+async function describeReportTarget(type: Report['type'], targetId: string): Promise<string | undefined> {
+  switch (type) {
+    case 'job':
+      return (await storage.getJob(targetId))?.title;
+    case 'company':
+      return (await storage.getCompany(targetId))?.name;
+    case 'user':
+      return (await storage.getUser(targetId))?.displayName;
+    case 'application': {
+      const application = await storage.getApplication(targetId);
+      const job = application && await storage.getJob(application.jobId);
+      return job && `Application for ${job.title}`;
+    }
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check
   app.get('/api/health', (req, res) => {
@@ -108,6 +624,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Auth routes
+  app.post('/api/auth/session', async (req, res) => {
+    try {
+      const { idToken } = sessionSchema.parse(req.body);
+
+      const decodedToken = await validateFirebaseToken(idToken).catch(() => undefined);
+      if (!decodedToken) {
+        return res.status(401).json(createApiResponse(null, 'Invalid token'));
+      }
+      if (Date.now() / 1000 - decodedToken.auth_time > SESSION_SIGN_IN_WINDOW_SECONDS) {
+        return res.status(401).json(createApiResponse(null, 'Recent sign-in required'));
+      }
+
+      const sessionCookie = await createSessionCookie(idToken, SESSION_MAX_AGE_MS);
+      // Role changes and lookups by uid need the user's record
+      await ensureUserRecord(decodedToken.uid);
+      res.cookie(SESSION_COOKIE, sessionCookie, { ...sessionCookieOptions, maxAge: SESSION_MAX_AGE_MS });
+      res.json(createApiResponse({ expiresAt: new Date(Date.now() + SESSION_MAX_AGE_MS) }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to create session'));
+      }
+    }
+  });
+
+  // Signing out of this browser needs no valid credentials
+  app.delete('/api/auth/session', (req, res) => {
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+    res.json(createApiResponse(null, undefined, 'Signed out'));
+  });
+
+  // Signs the user out on every device
+  app.post('/api/auth/revoke', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      await revokeUserSessions(req.user.uid);
+      res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+      res.json(createApiResponse(null, undefined, 'Signed out everywhere'));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to revoke sessions'));
+    }
+  });
+
   app.post('/api/auth/send-verification', authenticateUser, async (req, res) => {
     try {
       const { email } = req.user;
@@ -134,15 +694,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Company routes
-  app.post('/api/companies', authenticateUser, requireEmailVerification, async (req, res) => {
+  // Registering an institution is how a seeker asks to become an employer,
+  // which /api/employer-upgrade names as such; its members get the employer
+  // role once moderators approve it
+  const requestEmployerUpgrade = async (req: Request, res: Response) => {
     try {
+      assertUser(req);
       const validatedData = companySchema.parse(req.body);
+
+      if (await getMemberCompany(req.user.uid)) {
+        return res.status(409).json(createApiResponse(null, 'You already belong to an institution'));
+      }
       
       const company = await storage.createCompany({
         ...validatedData,
         ownerUid: req.user.uid,
         proofDocs: [],
       });
+      await storage.createCompanyMembership({
+        companyId: company.id,
+        userUid: req.user.uid,
+        role: 'owner',
+      });
+
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'company_created',
+        targetType: 'company',
+        targetId: company.id,
+      });
 
       res.json(createApiResponse(company));
     } catch (error) {
@@ -152,11 +732,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(500).json(createApiResponse(null, 'Failed to create company'));
       }
     }
-  });
+  };
+  app.post('/api/companies', authenticateUser, requireEmailVerification, authorize('company.create'), requestEmployerUpgrade);
+  app.post('/api/employer-upgrade', authenticateUser, requireEmailVerification, authorize('company.create'), requestEmployerUpgrade);
 
   app.get('/api/companies/me', authenticateUser, requireEmailVerification, async (req, res) => {
     try {
-      const company = await storage.getCompanyByOwner(req.user.uid);
+      const company = await getMemberCompany(req.user.uid);
       res.json(createApiResponse(company));
     } catch (error) {
       res.status(500).json(createApiResponse(null, 'Failed to get company'));
@@ -165,14 +747,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/companies/:id', authenticateUser, requireEmailVerification, async (req, res) => {
     try {
+      assertUser(req);
       const companyId = req.params.id;
-      const validatedData = companySchema.partial().parse(req.body);
+      const { submit, ...validatedData } = companyUpdateSchema.parse(req.body);
       
-      // Check if user owns the company
+      // Only owners edit the company profile
       const company = await storage.getCompany(companyId);
-      if (!company || company.ownerUid !== req.user.uid) {
+      if (!company || !await canForCompany(company, req.user, 'company.update')) {
         return res.status(403).json(createApiResponse(null, 'Not authorized'));
       }
+
+      if (submit && company.status !== 'rejected') {
+        return res.status(409).json(createApiResponse(null, `A ${company.status} company cannot be resubmitted`));
+      }
       
       // Don't allow updates if company is approved (except specific fields)
       if (company.status === 'approved') {
@@ -184,12 +771,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return acc;
         }, {});
         
-        await storage.updateCompany(companyId, updateData);
+        await storage.updateCompany(companyId, updateData, req.user.uid);
+      } else if (submit) {
+        const resubmissionCount = (company.resubmissionCount || 0) + 1;
+        await storage.updateCompany(companyId, {
+          ...validatedData,
+          status: 'pending',
+          resubmissionCount,
+        }, req.user.uid);
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'company_resubmitted',
+          targetType: 'company',
+          targetId: companyId,
+          metadata: { resubmissionCount },
+        });
       } else {
-        await storage.updateCompany(companyId, validatedData);
+        await storage.updateCompany(companyId, validatedData, req.user.uid);
       }
       
-      res.json(createApiResponse(null, null, 'Company updated successfully'));
+      res.json(createApiResponse(null, null, submit ? 'Company resubmitted for review' : 'Company updated successfully'));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
@@ -199,249 +801,2572 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin route to get pending companies
-  app.get('/api/admin/companies/pending', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['admin']), 
-    async (req, res) => {
-      try {
-        const companies = await storage.getPendingCompanies();
-        res.json(createApiResponse(companies));
-      } catch (error) {
-        res.status(500).json(createApiResponse(null, 'Failed to get pending companies'));
+  // Verification checklist of a company, for its owner and moderators
+  app.get('/api/companies/:id/verification', authenticateUser, requireEmailVerification, async (req, res) => {
+    try {
+      assertUser(req);
+      const company = await storage.getCompany(req.params.id);
+      if (!company) {
+        return res.status(404).json(createApiResponse(null, 'Company not found'));
       }
+      if (!await canForCompany(company, req.user, 'company.view_verification')) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      const documents = await storage.getProofDocumentsByCompany(company.id);
+      res.json(createApiResponse(getCompanyVerification(company, documents)));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get verification'));
     }
-  );
+  });
 
-  // Admin route to approve/reject companies
-  app.patch('/api/admin/companies/:id/status', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['admin']), 
+  // Registers a proof document the owner uploaded to storage. Uploading a
+  // type again replaces the earlier document and sends it back for review.
+  // Registrants are still seekers until the company is approved, so this goes
+  // by company ownership rather than the user's role.
+  app.post('/api/companies/:id/documents',
+    authenticateUser,
+    requireEmailVerification,
     async (req, res) => {
       try {
-        const companyId = req.params.id;
-        const { status } = req.body;
-        
-        if (!['approved', 'rejected'].includes(status)) {
-          return res.status(400).json(createApiResponse(null, 'Invalid status'));
+        assertUser(req);
+        const { type, path, fileName } = proofDocumentSchema.parse(req.body);
+
+        const company = await storage.getCompany(req.params.id);
+        if (!company || !await canForCompany(company, req.user, 'company.update')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (!['pending', 'rejected'].includes(company.status)) {
+          return res.status(409).json(createApiResponse(null, `A ${company.status} company cannot change its documents`));
+        }
+        if (!path.startsWith(`proofs/${company.id}/`) || path.includes('..')) {
+          return res.status(400).json(createApiResponse(null, 'Validation error', 'Invalid document path'));
         }
-        
-        await storage.updateCompany(companyId, { status });
-        
-        // Log audit entry
-        await storage.createAuditLog({
-          actorUid: req.user.uid,
-          action: status === 'approved' ? 'company_approved' : 'company_rejected',
-          targetType: 'company',
-          targetId: companyId,
-          metadata: { status },
-        });
-        
-        res.json(createApiResponse(null, null, `Company ${status} successfully`));
-      } catch (error) {
-        res.status(500).json(createApiResponse(null, `Failed to ${req.body.status} company`));
-      }
-    }
-  );
 
-  // Job routes
-  app.post('/api/jobs', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['employer']), 
-    async (req, res) => {
-      try {
-        const validatedData = jobSchema.parse(req.body);
-        
-        // Check if company is approved
-        const company = await storage.getCompany(validatedData.companyId);
-        if (!company || company.status !== 'approved' || company.ownerUid !== req.user.uid) {
-          return res.status(403).json(createApiResponse(null, 'Company must be approved to post jobs'));
+        const documents = await storage.getProofDocumentsByCompany(company.id);
+        const existing = documents.find(document => document.type === type);
+        let document;
+        if (existing) {
+          await storage.updateProofDocument(existing.id, {
+            path,
+            fileName,
+            uploadedBy: req.user.uid,
+            status: 'pending',
+            reviewNotes: undefined,
+            reviewedBy: undefined,
+            reviewedAt: undefined,
+          });
+          document = await storage.getProofDocument(existing.id);
+        } else {
+          document = await storage.createProofDocument({
+            companyId: company.id,
+            type,
+            path,
+            fileName,
+            uploadedBy: req.user.uid,
+          });
         }
-        
-        const job = await storage.createJob({
-          ...validatedData,
-          posterUid: req.user.uid,
-          status: 'pending',
-        });
 
-        res.json(createApiResponse(job));
+        await storage.updateCompany(company.id, {
+          proofDocs: [...company.proofDocs.filter(proof => proof !== existing?.path), path],
+        }, req.user.uid);
+
+        res.json(createApiResponse(document));
       } catch (error) {
         if (error instanceof z.ZodError) {
           res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
         } else {
-          res.status(500).json(createApiResponse(null, 'Failed to create job'));
+          res.status(500).json(createApiResponse(null, 'Failed to save document'));
         }
       }
     }
   );
 
-  app.get('/api/jobs', async (req, res) => {
+  // Company team routes
+  app.get('/api/companies/:id/members', authenticateUser, requireEmailVerification, async (req, res) => {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
-      const filters = {
-        department: req.query.department as string,
-        instituteType: req.query.instituteType as string,
-        level: req.query.level as string,
-        location: req.query.location as string,
-        employmentType: req.query.employmentType as string,
-        sortBy: req.query.sortBy as string || 'newest',
-        query: req.query.q as string,
-      };
-      
-      const result = await storage.searchJobs(filters, page, limit);
-      res.json(createApiResponse(result));
+      assertUser(req);
+      const company = await storage.getCompany(req.params.id);
+      if (!company || !await getCompanyRole(company, req.user.uid)) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      const memberships = await storage.getCompanyMembershipsByCompany(company.id);
+      const members = await Promise.all(
+        memberships.map(async (membership) => ({
+          ...membership,
+          user: await storage.getUser(membership.userUid),
+        }))
+      );
+
+      res.json(createApiResponse(members));
     } catch (error) {
-      res.status(500).json(createApiResponse(null, 'Failed to search jobs'));
+      res.status(500).json(createApiResponse(null, 'Failed to get members'));
     }
   });
 
-  app.get('/api/jobs/featured', async (req, res) => {
+  app.get('/api/companies/:id/invitations', authenticateUser, requireEmailVerification, async (req, res) => {
     try {
-      const limit = Math.min(parseInt(req.query.limit as string) || 6, 20);
-      const jobs = await storage.getFeaturedJobs(limit);
-      res.json(createApiResponse(jobs));
+      assertUser(req);
+      const company = await storage.getCompany(req.params.id);
+      if (!company || !await canForCompany(company, req.user, 'company.manage_members')) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      // Tokens only ever leave the server in the invitation email
+      const invitations = await storage.getPendingCompanyInvitations(company.id);
+      res.json(createApiResponse(invitations.map(({ token, ...invitation }) => invitation)));
     } catch (error) {
-      res.status(500).json(createApiResponse(null, 'Failed to get featured jobs'));
+      res.status(500).json(createApiResponse(null, 'Failed to get invitations'));
     }
   });
 
-  app.get('/api/jobs/:id', async (req, res) => {
+  // Inviting an address again revokes its earlier invitation and sends a
+  // fresh link
+  app.post('/api/companies/:id/invitations', authenticateUser, requireEmailVerification, async (req, res) => {
     try {
-      const job = await storage.getJob(req.params.id);
-      if (!job) {
-        return res.status(404).json(createApiResponse(null, 'Job not found'));
+      assertUser(req);
+      const { email, role } = companyInvitationSchema.parse(req.body);
+
+      const company = await storage.getCompany(req.params.id);
+      if (!company || !await canForCompany(company, req.user, 'company.manage_members')) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
       }
-      
-      // Increment view count
-      await storage.updateJob(job.id, { 
-        viewCount: (job.viewCount || 0) + 1 
+
+      const invitee = await storage.getUserByEmail(email);
+      if (invitee && await getCompanyRole(company, invitee.id)) {
+        return res.status(409).json(createApiResponse(null, `${email} is already a member`));
+      }
+
+      const pending = await storage.getPendingCompanyInvitations(company.id);
+      await Promise.all(
+        pending
+          .filter(invitation => invitation.email === email)
+          .map(invitation => storage.updateCompanyInvitation(invitation.id, { status: 'revoked' }))
+      );
+
+      const invitation = await storage.createCompanyInvitation({
+        companyId: company.id,
+        email,
+        role,
+        token: randomBytes(24).toString('hex'),
+        invitedBy: req.user.uid,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
       });
-      
-      res.json(createApiResponse(job));
+
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'company_member_invited',
+        targetType: 'company',
+        targetId: company.id,
+        metadata: { invitationId: invitation.id, email, role },
+      });
+
+      const inviter = await storage.getUser(req.user.uid);
+      await sendCompanyInvitationEmail(email, company.name, inviter?.displayName || company.name, role, invitation.token);
+
+      const { token, ...sent } = invitation;
+      res.status(201).json(createApiResponse(sent, undefined, 'Invitation sent'));
     } catch (error) {
-      res.status(500).json(createApiResponse(null, 'Failed to get job'));
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to send invitation'));
+      }
     }
   });
 
-  // Admin routes for jobs
-  app.get('/api/admin/jobs/pending', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['admin']), 
+  app.delete('/api/companies/:id/invitations/:invitationId', authenticateUser, requireEmailVerification, async (req, res) => {
+    try {
+      assertUser(req);
+      const company = await storage.getCompany(req.params.id);
+      if (!company || !await canForCompany(company, req.user, 'company.manage_members')) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      const invitation = await storage.getCompanyInvitation(req.params.invitationId);
+      if (!invitation || invitation.companyId !== company.id || invitation.status !== 'pending') {
+        return res.status(404).json(createApiResponse(null, 'Invitation not found'));
+      }
+
+      await storage.updateCompanyInvitation(invitation.id, { status: 'revoked' });
+
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'company_invitation_revoked',
+        targetType: 'company',
+        targetId: company.id,
+        metadata: { invitationId: invitation.id, email: invitation.email },
+      });
+
+      res.json(createApiResponse(null, undefined, 'Invitation revoked'));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to revoke invitation'));
+    }
+  });
+
+  // What an invitation link is for, shown before it is accepted
+  app.get('/api/invitations/:token', authenticateUser, async (req, res) => {
+    try {
+      const invitation = await storage.getCompanyInvitationByToken(req.params.token);
+      const company = invitation && await storage.getCompany(invitation.companyId);
+      if (!invitation || !company) {
+        return res.status(404).json(createApiResponse(null, 'Invitation not found'));
+      }
+
+      res.json(createApiResponse({
+        companyName: company.name,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+      }));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get invitation'));
+    }
+  });
+
+  // Accounts belong to one institution, and only the invited address can
+  // accept its invitation
+  app.post('/api/invitations/:token/accept',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('company.join'),
     async (req, res) => {
       try {
-        const jobs = await storage.getPendingJobs();
-        res.json(createApiResponse(jobs));
+        assertUser(req);
+        const invitation = await storage.getCompanyInvitationByToken(req.params.token);
+        const company = invitation && await storage.getCompany(invitation.companyId);
+        if (!invitation || !company || invitation.status === 'revoked') {
+          return res.status(404).json(createApiResponse(null, 'Invitation not found'));
+        }
+        if (invitation.status === 'accepted' || invitation.expiresAt < new Date()) {
+          return res.status(410).json(createApiResponse(null, 'This invitation has already been used or has expired'));
+        }
+        if (invitation.email !== req.user.email?.toLowerCase()) {
+          return res.status(403).json(createApiResponse(null, `This invitation was sent to ${invitation.email}`));
+        }
+        if (await getMemberCompany(req.user.uid)) {
+          return res.status(409).json(createApiResponse(null, 'You already belong to an institution'));
+        }
+
+        const membership = await storage.createCompanyMembership({
+          companyId: company.id,
+          userUid: req.user.uid,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+        });
+        await storage.updateCompanyInvitation(invitation.id, { status: 'accepted', acceptedBy: req.user.uid });
+        // Joining an approved institution makes a seeker an employer; members of
+        // one still under review become employers when it is approved
+        if (company.status === 'approved') {
+          await grantEmployerRole(req.user.uid, invitation.invitedBy, company.id);
+        }
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'company_member_joined',
+          targetType: 'company',
+          targetId: company.id,
+          metadata: { invitationId: invitation.id, role: invitation.role },
+        });
+
+        const member = await storage.getUser(req.user.uid);
+        await notifyInvitationAccepted(invitation, company, member?.displayName || invitation.email);
+
+        res.json(createApiResponse(membership, undefined, `You have joined ${company.name}`));
       } catch (error) {
-        res.status(500).json(createApiResponse(null, 'Failed to get pending jobs'));
+        res.status(500).json(createApiResponse(null, 'Failed to accept invitation'));
       }
     }
   );
 
-  app.patch('/api/admin/jobs/:id/status', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['admin']), 
+  // The creator of a company always stays one of its owners
+  app.patch('/api/companies/:id/members/:uid', authenticateUser, requireEmailVerification, async (req, res) => {
+    try {
+      assertUser(req);
+      const { role } = companyMemberUpdateSchema.parse(req.body);
+
+      const company = await storage.getCompany(req.params.id);
+      if (!company || !await canForCompany(company, req.user, 'company.manage_members')) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      const membership = await storage.getCompanyMembership(company.id, req.params.uid);
+      if (!membership) {
+        return res.status(404).json(createApiResponse(null, 'Member not found'));
+      }
+      if (membership.userUid === company.ownerUid) {
+        return res.status(409).json(createApiResponse(null, 'The creator of the institution is always an owner'));
+      }
+
+      await storage.updateCompanyMembership(membership.id, { role });
+
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'company_member_role_changed',
+        targetType: 'company',
+        targetId: company.id,
+        metadata: { userUid: membership.userUid, role, previousRole: membership.role },
+      });
+
+      res.json(createApiResponse(await storage.getCompanyMembership(company.id, membership.userUid)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to update member'));
+      }
+    }
+  });
+
+  // Owners remove members; members can also leave on their own
+  app.delete('/api/companies/:id/members/:uid', authenticateUser, requireEmailVerification, async (req, res) => {
+    try {
+      assertUser(req);
+      const company = await storage.getCompany(req.params.id);
+      const leaving = req.params.uid === req.user.uid;
+      if (!company || (!leaving && !await canForCompany(company, req.user, 'company.manage_members'))) {
+        return res.status(403).json(createApiResponse(null, 'Not authorized'));
+      }
+
+      const membership = await storage.getCompanyMembership(company.id, req.params.uid);
+      if (!membership) {
+        return res.status(404).json(createApiResponse(null, 'Member not found'));
+      }
+      if (membership.userUid === company.ownerUid) {
+        return res.status(409).json(createApiResponse(null, 'The creator of the institution cannot be removed'));
+      }
+
+      await storage.deleteCompanyMembership(membership.id);
+
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'company_member_removed',
+        targetType: 'company',
+        targetId: company.id,
+        metadata: { userUid: membership.userUid, role: membership.role },
+      });
+
+      res.json(createApiResponse(null, undefined, leaving ? `You have left ${company.name}` : 'Member removed'));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to remove member'));
+    }
+  });
+
+  // Short-lived link for a moderator to open a proof document
+  app.get('/api/admin/companies/:id/documents/:documentId/url',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('company.moderate'),
     async (req, res) => {
       try {
-        const jobId = req.params.id;
-        const { status } = req.body;
-        
-        if (!['approved', 'rejected'].includes(status)) {
-          return res.status(400).json(createApiResponse(null, 'Invalid status'));
+        const document = await storage.getProofDocument(req.params.documentId);
+        if (!document || document.companyId !== req.params.id) {
+          return res.status(404).json(createApiResponse(null, 'Document not found'));
         }
-        
-        const updateData: any = { status };
-        if (status === 'approved') {
-          updateData.approvedBy = req.user.uid;
-          updateData.approvedAt = new Date();
+
+        const url = await generateSignedUrl(document.path, PROOF_URL_TTL_SECONDS);
+        res.json(createApiResponse({ url }));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get document link'));
+      }
+    }
+  );
+
+  app.patch('/api/admin/companies/:id/documents/:documentId',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('company.moderate'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { status, notes } = proofDocumentReviewSchema.parse(req.body);
+
+        const company = await storage.getCompany(req.params.id);
+        const document = await storage.getProofDocument(req.params.documentId);
+        if (!company || !document || document.companyId !== company.id) {
+          return res.status(404).json(createApiResponse(null, 'Document not found'));
         }
-        
-        await storage.updateJob(jobId, updateData);
-        
-        // Log audit entry
+
+        await storage.updateProofDocument(document.id, {
+          status,
+          reviewNotes: notes,
+          reviewedBy: req.user.uid,
+          reviewedAt: new Date(),
+        });
+
         await storage.createAuditLog({
           actorUid: req.user.uid,
-          action: status === 'approved' ? 'job_approved' : 'job_rejected',
-          targetType: 'job',
-          targetId: jobId,
-          metadata: { status },
+          action: 'proof_document_reviewed',
+          targetType: 'company',
+          targetId: company.id,
+          metadata: { documentId: document.id, type: document.type, status, notes },
         });
-        
-        res.json(createApiResponse(null, null, `Job ${status} successfully`));
+
+        const documents = await storage.getProofDocumentsByCompany(company.id);
+        res.json(createApiResponse(getCompanyVerification(company, documents)));
       } catch (error) {
-        res.status(500).json(createApiResponse(null, `Failed to ${req.body.status} job`));
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to review document'));
+        }
       }
     }
   );
 
-  // Application routes
-  app.post('/api/applications', 
+  // Admin route to get pending companies
+  app.get('/api/admin/companies/pending', 
     authenticateUser, 
     requireEmailVerification, 
-    requireRole(['seeker']), 
+    authorize('company.moderate'), 
     async (req, res) => {
       try {
-        const validatedData = applicationSchema.parse(req.body);
-        
-        // Check if job is approved
-        const job = await storage.getJob(validatedData.jobId);
-        if (!job || job.status !== 'approved') {
-          return res.status(400).json(createApiResponse(null, 'Job not available for applications'));
+        const companies = await storage.getPendingCompanies();
+        res.json(createApiResponse(companies));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get pending companies'));
+      }
+    }
+  );
+
+  // Moderators' decision on a registered institution. Approving it completes
+  // the employer upgrade: grantEmployerRole moves each member through
+  // changeUserRole.
+  const reviewCompany = (parseReview: (req: Request) => ModerationReview) => async (req: Request, res: Response) => {
+    let review: ModerationReview | undefined;
+    try {
+      assertUser(req);
+      const companyId = req.params.id;
+      review = parseReview(req);
+      const { status, reasons, notes } = review;
+
+      const current = await storage.getCompany(companyId);
+      if (!current) {
+        return res.status(404).json(createApiResponse(null, 'Company not found'));
+      }
+      // Only the review queue is decided here; suspensions and removals go
+      // through reports
+      if (current.status !== 'pending') {
+        return res.status(409).json(createApiResponse(null, `A ${current.status} company cannot be ${status}`));
+      }
+
+      if (status === 'approved') {
+        const { outstandingDocuments } = getCompanyVerification(
+          current,
+          await storage.getProofDocumentsByCompany(companyId)
+        );
+        if (outstandingDocuments.length > 0) {
+          return res.status(409).json(createApiResponse(
+            null,
+            'Verification incomplete',
+            `Accept these documents first: ${outstandingDocuments.map(type => PROOF_DOCUMENT_LABELS[type]).join(', ')}`
+          ));
         }
-        
-        // Check if application deadline has passed
-        if (job.lastDate < new Date()) {
-          return res.status(400).json(createApiResponse(null, 'Application deadline has passed'));
+      }
+      
+      // Approval keeps the feedback from an earlier rejection on record
+      await storage.updateCompany(companyId, status === 'approved'
+        ? { status }
+        : { status, rejectionReasons: reasons, rejectionNotes: notes },
+        req.user.uid
+      );
+
+      const company = await storage.getCompany(companyId);
+      if (company && status === 'approved') {
+        for (const membership of await storage.getCompanyMembershipsByCompany(company.id)) {
+          await grantEmployerRole(membership.userUid, req.user.uid, company.id);
+        }
+      }
+      if (company) {
+        await notifyCompanyReviewed(company, status);
+
+        const owner = status === 'rejected' && await storage.getUser(company.ownerUid);
+        if (owner && owner.email) {
+          await sendCompanyRejectedEmail(owner.email, company.name, reasons, notes);
+        }
+      }
+      
+      // Log audit entry
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: status === 'approved' ? 'company_approved' : 'company_rejected',
+        targetType: 'company',
+        targetId: companyId,
+        metadata: status === 'approved' ? { status } : { status, reasons, notes },
+      });
+      
+      res.json(createApiResponse(null, null, `Company ${status} successfully`));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, `Failed to ${review?.status ?? 'review'} company`));
+      }
+    }
+  };
+  app.patch('/api/admin/companies/:id/status', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('company.moderate'), 
+    reviewCompany(req => moderationStatusSchema.parse(req.body))
+  );
+  app.post('/api/admin/employer-upgrades/:id/approve', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('company.moderate'), 
+    reviewCompany(() => ({ status: 'approved', reasons: [] }))
+  );
+
+  // Job routes
+  app.post('/api/jobs', 
+    authenticateUser, 
+    requireEmailVerification, 
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { screeningQuestions, draft, ...validatedData } = jobSchema.parse(req.body);
+        if (missingApplyUrl({ ...validatedData, screeningQuestions })) {
+          return res.status(400).json(createApiResponse(null, 'Validation error', 'External jobs need an application URL'));
         }
         
-        // Check for duplicate application
-        const dedupeKey = `${validatedData.jobId}_${req.user.uid}`;
-        const existingApplication = await storage.getApplicationByDedupeKey(dedupeKey);
-        if (existingApplication) {
-          return res.status(400).json(createApiResponse(null, 'You have already applied to this job'));
+        // Owners and recruiters post for their company once it is approved
+        const company = await storage.getCompany(validatedData.companyId);
+        if (!company || !await canForCompany(company, req.user, 'job.create')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (company.status !== 'approved') {
+          return res.status(403).json(createApiResponse(null, 'Company must be approved to post jobs'));
         }
         
-        const application = await storage.createApplication({
+        const job = await storage.createJob({
           ...validatedData,
-          applicantUid: req.user.uid,
-          dedupeKey,
+          screeningQuestions: withQuestionIds(screeningQuestions),
+          posterUid: req.user.uid,
+          status: draft ? 'draft' : 'pending',
         });
-        
-        // Increment application count
-        await storage.updateJob(job.id, { 
-          applicationCount: (job.applicationCount || 0) + 1 
+
+        res.json(createApiResponse(job));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to create job'));
+        }
+      }
+    }
+  );
+
+  app.get('/api/jobs', async (req, res) => {
+    try {
+      // The client sends the text query as `q`
+      const { q, ...query } = req.query;
+      const { page, limit, ...filters } = JobSearchFilters.parse({ ...query, query: q });
+
+      const result = await storage.searchJobs(filters, page, limit);
+      res.json(createApiResponse({ ...result, items: await withCompanies(result.items) }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          ...createApiResponse(null, 'Validation error', error.errors[0].message),
+          fieldErrors: error.flatten().fieldErrors,
         });
-        
-        res.json(createApiResponse(application));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to search jobs'));
+      }
+    }
+  });
+
+  app.get('/api/jobs/featured', async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 6, 20);
+      const jobs = await storage.getFeaturedJobs(limit);
+      res.json(createApiResponse(jobs));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get featured jobs'));
+    }
+  });
+
+  app.get('/api/jobs/:id', async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      // Drafts were never published and removed jobs were taken down
+      if (!job || job.status === 'draft' || job.status === 'removed') {
+        return res.status(404).json(createApiResponse(null, 'Job not found'));
+      }
+      
+      // Increment view count
+      await storage.updateJob(job.id, { 
+        viewCount: (job.viewCount || 0) + 1 
+      });
+      
+      res.json(createApiResponse(job));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get job'));
+    }
+  });
+
+  // Drafts and jobs still in (or sent back from) moderation are edited in
+  // place. Edits to an approved job become a revision that needs approval
+  // while the live version stays public.
+  app.put('/api/jobs/:id',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { submit, ...content } = jobUpdateSchema.parse(req.body);
+        if (missingApplyUrl(content)) {
+          return res.status(400).json(createApiResponse(null, 'Validation error', 'External jobs need an application URL'));
+        }
+
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        // Any owner or recruiter of the company can edit its jobs
+        const company = await storage.getCompany(job.companyId);
+        if (!company || !await canForCompany(company, req.user, 'job.update')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (company.status !== 'approved') {
+          return res.status(403).json(createApiResponse(null, 'Company must be approved to edit jobs'));
+        }
+
+        if (job.status === 'approved') {
+          // One pending revision per job; later edits replace its content
+          const revisionContent = toRevisionContent(content);
+          const pending = await storage.getPendingJobRevision(job.id);
+          let revision;
+          if (pending) {
+            await storage.updateJobRevision(pending.id, { content: revisionContent });
+            revision = await storage.getJobRevision(pending.id);
+          } else {
+            revision = await storage.createJobRevision({
+              jobId: job.id,
+              submittedBy: req.user.uid,
+              content: revisionContent,
+            });
+          }
+          return res.status(202).json(createApiResponse(revision, undefined, 'Changes submitted for review'));
+        }
+
+        if (!['draft', 'pending', 'rejected'].includes(job.status)) {
+          return res.status(409).json(createApiResponse(null, `A ${job.status} job cannot be edited`));
+        }
+
+        // Submitting a rejected job is a resubmission; drafts are submitted
+        // for the first time
+        const resubmitted = submit && job.status === 'rejected';
+        const resubmissionCount = (job.resubmissionCount || 0) + (resubmitted ? 1 : 0);
+        await storage.updateJob(job.id, {
+          ...toJobUpdate(content),
+          status: submit ? 'pending' : job.status,
+          resubmissionCount,
+        }, req.user.uid);
+
+        if (resubmitted) {
+          await storage.createAuditLog({
+            actorUid: req.user.uid,
+            action: 'job_resubmitted',
+            targetType: 'job',
+            targetId: job.id,
+            metadata: { resubmissionCount },
+          });
+        }
+
+        res.json(createApiResponse(await storage.getJob(job.id)));
       } catch (error) {
         if (error instanceof z.ZodError) {
           res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
         } else {
-          res.status(500).json(createApiResponse(null, 'Failed to submit application'));
+          res.status(500).json(createApiResponse(null, 'Failed to update job'));
         }
       }
     }
   );
 
-  app.get('/api/applications/me', 
-    authenticateUser, 
-    requireEmailVerification, 
-    requireRole(['seeker']), 
+  // The pending revision of an approved job, if its company has one in review
+  app.get('/api/jobs/:id/revision',
+    authenticateUser,
+    requireEmailVerification,
     async (req, res) => {
       try {
-        const applications = await storage.getApplicationsByUser(req.user.uid);
-        res.json(createApiResponse(applications));
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'job.update')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const revision = await storage.getPendingJobRevision(job.id);
+        res.json(createApiResponse(revision ?? null));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get job revision'));
+      }
+    }
+  );
+
+  // Counts click-throughs to an external job's application page. Public so
+  // the client can send it with navigator.sendBeacon while navigating away.
+  app.post('/api/jobs/:id/apply-click', async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.status !== 'approved' || job.applyMode !== 'external') {
+        return res.status(404).json(createApiResponse(null, 'Job not found'));
+      }
+
+      await storage.updateJob(job.id, {
+        applyClickCount: (job.applyClickCount || 0) + 1,
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to record click'));
+    }
+  });
+
+  // Admin routes for jobs
+  app.get('/api/admin/jobs/pending', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('job.moderate'), 
+    async (req, res) => {
+      try {
+        const jobs = await storage.getPendingJobs();
+        res.json(createApiResponse(jobs));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get pending jobs'));
+      }
+    }
+  );
+
+  app.patch('/api/admin/jobs/:id/status', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('job.moderate'), 
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const jobId = req.params.id;
+        const { status, reasons, notes } = moderationStatusSchema.parse(req.body);
+
+        const current = await storage.getJob(jobId);
+        if (!current) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        // Drafts have not been submitted yet, and edits to approved jobs are
+        // reviewed as revisions
+        if (current.status !== 'pending') {
+          return res.status(409).json(createApiResponse(null, `A ${current.status} job cannot be ${status}`));
+        }
+        
+        // Approval keeps the feedback from an earlier rejection on record
+        await storage.updateJob(jobId, status === 'approved'
+          ? { status, approvedBy: req.user.uid, approvedAt: new Date() }
+          : { status, rejectionReasons: reasons, rejectionNotes: notes },
+          req.user.uid
+        );
+
+        const job = await storage.getJob(jobId);
+        if (job) {
+          await notifyJobReviewed(job, status);
+
+          const poster = status === 'rejected' && await storage.getUser(job.posterUid);
+          if (poster && poster.email) {
+            await sendJobRejectedEmail(poster.email, job.id, job.title, reasons, notes);
+          }
+        }
+
+        // Instant job alerts go out right away; digests wait for the scheduler
+        if (status === 'approved') {
+          runJobAlerts(['instant']).catch(error => console.error('Instant job alerts failed:', error));
+        }
+        
+        // Log audit entry
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: status === 'approved' ? 'job_approved' : 'job_rejected',
+          targetType: 'job',
+          targetId: jobId,
+          metadata: status === 'approved' ? { status } : { status, reasons, notes },
+        });
+        
+        res.json(createApiResponse(null, null, `Job ${status} successfully`));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, `Failed to ${req.body.status} job`));
+        }
+      }
+    }
+  );
+
+  app.get('/api/admin/job-revisions/pending',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('job.moderate'),
+    async (req, res) => {
+      try {
+        const revisions = await storage.getPendingJobRevisions();
+        // Moderators review each revision against the live job
+        const items = await Promise.all(revisions.map(async revision => ({
+          ...revision,
+          job: await storage.getJob(revision.jobId),
+        })));
+        res.json(createApiResponse(items));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get pending job revisions'));
+      }
+    }
+  );
+
+  app.patch('/api/admin/job-revisions/:id/status',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('job.moderate'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { status } = jobRevisionStatusSchema.parse(req.body);
+
+        const revision = await storage.getJobRevision(req.params.id);
+        if (!revision) {
+          return res.status(404).json(createApiResponse(null, 'Revision not found'));
+        }
+        if (revision.status !== 'pending') {
+          return res.status(409).json(createApiResponse(null, 'Revision has already been reviewed'));
+        }
+
+        const job = await storage.getJob(revision.jobId);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+
+        if (status === 'approved') {
+          // The employer wrote the changes; the approval itself is audited below
+          await storage.updateJob(job.id, toJobUpdate(JobContentSchema.parse(revision.content)), revision.submittedBy);
+        }
+        await storage.updateJobRevision(revision.id, {
+          status,
+          reviewedBy: req.user.uid,
+          reviewedAt: new Date(),
+        });
+
+        await notifyJobRevisionReviewed((await storage.getJob(job.id)) || job, status);
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: status === 'approved' ? 'job_revision_approved' : 'job_revision_rejected',
+          targetType: 'job',
+          targetId: job.id,
+          metadata: { status, revisionId: revision.id },
+        });
+
+        res.json(createApiResponse(null, undefined, `Changes ${status} successfully`));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to review job revision'));
+        }
+      }
+    }
+  );
+
+  // Application routes
+  app.post('/api/applications', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('application.create'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { screeningAnswers, ...validatedData } = applicationSchema.parse(req.body);
+        
+        // Check if job is approved
+        const job = await storage.getJob(validatedData.jobId);
+        if (!job || job.status !== 'approved') {
+          return res.status(400).json(createApiResponse(null, 'Job not available for applications'));
+        }
+
+        if (job.applyMode === 'external') {
+          return res.status(400).json(createApiResponse(null, "This job accepts applications on the institution's website"));
+        }
+
+        // Applicants can only attach their own uploads
+        if (!validatedData.resumePath.startsWith(`resumes/${req.user.uid}/`) ||
+            (validatedData.coverLetterPath && !validatedData.coverLetterPath.startsWith(`cover-letters/${req.user.uid}/`))) {
+          return res.status(400).json(createApiResponse(null, 'Invalid resume or cover letter'));
+        }
+
+        const { answers, unanswered } = matchScreeningAnswers(job.screeningQuestions || [], screeningAnswers);
+        if (unanswered) {
+          return res.status(400).json(createApiResponse(null, 'Validation error', `Please answer: ${unanswered.question}`));
+        }
+        
+        // Check if application deadline has passed
+        if (job.lastDate < new Date()) {
+          return res.status(400).json(createApiResponse(null, 'Application deadline has passed'));
+        }
+        
+        // Check for duplicate application. Withdrawn applications no longer
+        // hold the key, so applicants can apply again until they have
+        // withdrawn too often.
+        const dedupeKey = `${validatedData.jobId}_${req.user.uid}`;
+        const existingApplication = await storage.getApplicationByDedupeKey(dedupeKey);
+        if (existingApplication) {
+          return res.status(400).json(createApiResponse(null, 'You have already applied to this job'));
+        }
+        const withdrawals = (await storage.getApplicationsByUser(req.user.uid))
+          .filter(previous => previous.jobId === job.id && previous.status === 'withdrawn');
+        if (withdrawals.length >= MAX_WITHDRAWALS_PER_JOB) {
+          return res.status(400).json(createApiResponse(null, 'You have withdrawn from this job too many times to apply again'));
+        }
+        
+        const application = await storage.createApplication({
+          ...validatedData,
+          screeningAnswers: answers,
+          applicantUid: req.user.uid,
+          dedupeKey,
+        });
+        
+        // Increment application count
+        await storage.updateJob(job.id, { 
+          applicationCount: (job.applicationCount || 0) + 1 
+        });
+
+        const applicant = await storage.getUser(application.applicantUid);
+        await notifyApplicationSubmitted(job, applicant?.displayName || 'A candidate');
+        
+        res.json(createApiResponse(application));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to submit application'));
+        }
+      }
+    }
+  );
+
+  app.get('/api/applications/me', 
+    authenticateUser, 
+    requireEmailVerification, 
+    authorize('application.list_own'),
+    async (req, res) => {
+      try {
+        const applications = await storage.getApplicationsByUser(req.user.uid);
+        res.json(createApiResponse(applications));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get applications'));
+      }
+    }
+  );
+
+  app.post('/api/applications/:id/withdraw',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { reason } = applicationWithdrawalSchema.parse(req.body);
+
+        const application = await storage.getApplication(req.params.id);
+        if (!application || !can(actorOf(req.user), 'application.withdraw', { ownerUid: application.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        if (!WITHDRAWABLE_APPLICATION_STATUSES.includes(application.status)) {
+          return res.status(409).json(createApiResponse(
+            null,
+            'Application cannot be withdrawn',
+            application.status === 'offered'
+              ? 'Decline the offer instead'
+              : `A ${application.status} application cannot be withdrawn`
+          ));
+        }
+
+        // The application is kept for the record, but gives up its dedupe key
+        // so the applicant can apply again while the job is open
+        await storage.updateApplication(application.id, {
+          status: 'withdrawn',
+          withdrawalReason: reason || undefined,
+          withdrawnAt: new Date(),
+          dedupeKey: `${application.dedupeKey}_${application.id}`,
+        });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'application_withdrawn',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: { previousStatus: application.status, jobId: application.jobId },
+        });
+
+        const job = await storage.getJob(application.jobId);
+        if (job) {
+          await storage.updateJob(job.id, {
+            applicationCount: Math.max((job.applicationCount || 0) - 1, 0),
+          });
+
+          // Booked slots open up for other applicants
+          const bookings = (await storage.getInterviewSlotsByApplicant(req.user.uid))
+            .filter(slot => slot.applicationId === application.id && slot.status === 'booked');
+          for (const slot of bookings) {
+            await storage.updateInterviewSlot(slot.id, {
+              status: 'open',
+              applicationId: undefined,
+              applicantUid: undefined,
+              bookedAt: undefined,
+            });
+            await sendInterviewEmails(slot, job, 'cancelled');
+          }
+
+          const applicant = await storage.getUser(req.user.uid);
+          await notifyApplicationWithdrawn(job, applicant?.displayName || 'A candidate');
+        }
+
+        res.json(createApiResponse(await storage.getApplication(application.id)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to withdraw application'));
+        }
+      }
+    }
+  );
+
+  // Employer application review routes
+  app.get('/api/employer/jobs/:id/applications', 
+    authenticateUser, 
+    requireEmailVerification, 
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        
+        const applications = await storage.getApplicationsByJob(job.id);
+        const applicationsWithApplicants = await Promise.all(
+          applications.map(async (application) => ({
+            ...application,
+            applicant: await storage.getUser(application.applicantUid),
+          }))
+        );
+        
+        res.json(createApiResponse(applicationsWithApplicants));
       } catch (error) {
         res.status(500).json(createApiResponse(null, 'Failed to get applications'));
       }
     }
   );
 
+  app.patch('/api/applications/:id/status', 
+    authenticateUser, 
+    requireEmailVerification, 
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { status, notes } = applicationStatusSchema.parse(req.body);
+        
+        const application = await storage.getApplication(req.params.id);
+        if (!application) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        
+        // Employers can only review applications to their company's jobs
+        const job = await storage.getJob(application.jobId);
+        if (!job || !await canInCompany(job.companyId, req.user, 'application.review')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        
+        if (!canTransitionApplication(application.status, status)) {
+          return res.status(400).json(createApiResponse(
+            null, 
+            'Invalid status transition', 
+            `Cannot move an application from ${application.status} to ${status}`
+          ));
+        }
+        
+        await storage.updateApplication(application.id, {
+          status,
+          ...(notes !== undefined && { notes }),
+        });
+        if (application.status === 'offered') {
+          await withdrawPendingOffer(application, req.user.uid, 'rejected');
+        }
+        
+        // Log audit entry
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'application_status_changed',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: { status, previousStatus: application.status, jobId: job.id },
+        });
+        
+        const applicant = await storage.getUser(application.applicantUid);
+        if (applicant?.email) {
+          await sendApplicationStatusEmail(applicant.email, job.title, status);
+        }
+
+        const updatedApplication = await storage.getApplication(application.id);
+        if (updatedApplication) {
+          await notifyApplicationStatusChanged(updatedApplication, job);
+        }
+        
+        res.json(createApiResponse(updatedApplication));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to update application status'));
+        }
+      }
+    }
+  );
+
+  // Hiring committee routes
+  app.get('/api/employer/jobs/:id/committee',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const committee = await storage.getHiringCommitteeByJob(job.id);
+        res.json(createApiResponse(committee ?? null));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get committee'));
+      }
+    }
+  );
+
+  app.put('/api/employer/jobs/:id/committee',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { memberUids, criteria } = hiringCommitteeSchema.parse(req.body);
+
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        const company = await storage.getCompany(job.companyId);
+        if (!company || !await canForCompany(company, req.user, 'job.update')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const members = Array.from(new Set(memberUids));
+        for (const uid of members) {
+          if (!hasCompanyPermission(await getCompanyRole(company, uid), 'review_applications')) {
+            return res.status(400).json(createApiResponse(
+              null,
+              'Invalid committee',
+              'Committee members must be able to review applications'
+            ));
+          }
+        }
+
+        const existing = await storage.getHiringCommitteeByJob(job.id);
+        if (existing) {
+          // Changing the rubric would make submitted scores incomparable
+          const rubricChanged = JSON.stringify(existing.criteria) !== JSON.stringify(criteria);
+          if (rubricChanged) {
+            const scorecards = await storage.getScorecardsByJob(job.id);
+            if (scorecards.some(scorecard => scorecard.status === 'submitted')) {
+              return res.status(409).json(createApiResponse(
+                null,
+                'Rubric locked',
+                'The rubric cannot change once scorecards have been submitted'
+              ));
+            }
+          }
+          await storage.updateHiringCommittee(existing.id, { memberUids: members, criteria });
+        } else {
+          await storage.createHiringCommittee({
+            jobId: job.id,
+            companyId: company.id,
+            memberUids: members,
+            criteria,
+            createdBy: req.user.uid,
+          });
+        }
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'hiring_committee_updated',
+          targetType: 'job',
+          targetId: job.id,
+          metadata: { memberUids: members, criteria: criteria.map(criterion => criterion.id) },
+        });
+
+        res.json(createApiResponse(await storage.getHiringCommitteeByJob(job.id)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to save committee'));
+        }
+      }
+    }
+  );
+
+  // Applications ranked by the committee's submitted scores, best first, then
+  // the ones without any
+  app.get('/api/employer/jobs/:id/rankings',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const [applications, committee, scorecards] = await Promise.all([
+          storage.getApplicationsByJob(job.id),
+          storage.getHiringCommitteeByJob(job.id),
+          storage.getScorecardsByJob(job.id),
+        ]);
+
+        const rankings = await Promise.all(
+          applications.map(async (application) => {
+            const applicationScorecards = scorecards.filter(s => s.applicationId === application.id);
+            const own = applicationScorecards.find(s => s.reviewerUid === req.user!.uid);
+            const hidden = !!committee && scoresHiddenFrom(committee, req.user!.uid, own);
+            return {
+              application,
+              applicant: await storage.getUser(application.applicantUid),
+              ownScorecardStatus: own?.status,
+              hidden,
+              aggregate: committee && !hidden
+                ? aggregateScorecards(committee.criteria, applicationScorecards)
+                : undefined,
+            };
+          })
+        );
+        rankings.sort((a, b) => (b.aggregate?.score ?? -1) - (a.aggregate?.score ?? -1));
+
+        res.json(createApiResponse({ committee: committee ?? null, rankings }));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get rankings'));
+      }
+    }
+  );
+
+  app.get('/api/applications/:id/scorecards',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const application = await storage.getApplication(req.params.id);
+        if (!application) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        const job = await storage.getJob(application.jobId);
+        if (!job || !await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const committee = await storage.getHiringCommitteeByJob(job.id);
+        const scorecards = await storage.getScorecardsByApplication(application.id);
+        const own = scorecards.find(scorecard => scorecard.reviewerUid === req.user.uid);
+        const hidden = !!committee && scoresHiddenFrom(committee, req.user.uid, own);
+
+        // Other members' drafts are never shown
+        const visible = scorecards.filter(scorecard =>
+          scorecard === own || (!hidden && scorecard.status === 'submitted')
+        );
+        const withReviewers = await Promise.all(
+          visible.map(async (scorecard) => ({
+            ...scorecard,
+            reviewer: await storage.getUser(scorecard.reviewerUid),
+          }))
+        );
+
+        res.json(createApiResponse({ scorecards: withReviewers, hidden }));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get scorecards'));
+      }
+    }
+  );
+
+  app.put('/api/applications/:id/scorecard',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { scores, comment, submit } = scorecardSchema.parse(req.body);
+
+        const application = await storage.getApplication(req.params.id);
+        if (!application) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        const committee = await storage.getHiringCommitteeByJob(application.jobId);
+        if (
+          !committee ||
+          !committee.memberUids.includes(req.user.uid) ||
+          !await canInCompany(committee.companyId, req.user, 'application.review')
+        ) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const criterionIds = committee.criteria.map(criterion => criterion.id);
+        if (scores.some(score => !criterionIds.includes(score.criterionId))) {
+          return res.status(400).json(createApiResponse(null, 'Validation error', 'Unknown rubric criterion'));
+        }
+        if (submit && scores.length !== criterionIds.length) {
+          return res.status(400).json(createApiResponse(
+            null,
+            'Incomplete scorecard',
+            'Score every criterion before submitting'
+          ));
+        }
+
+        const existing = await storage.getScorecard(application.id, req.user.uid);
+        if (existing?.status === 'submitted') {
+          return res.status(409).json(createApiResponse(null, 'Scorecard already submitted'));
+        }
+
+        const updates: Partial<Scorecard> = {
+          scores,
+          comment: comment?.trim() || undefined,
+          ...(submit && { status: 'submitted' as const, submittedAt: new Date() }),
+        };
+        const scorecardId = existing
+          ? existing.id
+          : (await storage.createScorecard({
+              applicationId: application.id,
+              jobId: application.jobId,
+              reviewerUid: req.user.uid,
+              scores,
+            })).id;
+        await storage.updateScorecard(scorecardId, updates);
+
+        if (submit) {
+          await storage.createAuditLog({
+            actorUid: req.user.uid,
+            action: 'scorecard_submitted',
+            targetType: 'application',
+            targetId: application.id,
+            metadata: { jobId: application.jobId },
+          });
+        }
+
+        res.json(createApiResponse(await storage.getScorecard(application.id, req.user.uid)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to save scorecard'));
+        }
+      }
+    }
+  );
+
+  // Interview scheduling routes
+  app.get('/api/employer/jobs/:id/interview-slots',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const slots = await storage.getInterviewSlotsByJob(job.id);
+        const slotsWithApplicants = await Promise.all(
+          slots.map(async (slot) => ({
+            ...slot,
+            applicant: slot.applicantUid ? await storage.getUser(slot.applicantUid) : undefined,
+          }))
+        );
+
+        res.json(createApiResponse(slotsWithApplicants));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get interview slots'));
+      }
+    }
+  );
+
+  app.post('/api/employer/jobs/:id/interview-slots',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const slotData = interviewSlotSchema.parse(req.body);
+
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'interview.manage')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        const slot = await storage.createInterviewSlot({
+          ...slotData,
+          jobId: job.id,
+          companyId: job.companyId,
+          notes: slotData.notes || undefined,
+          createdBy: req.user.uid,
+        });
+
+        res.status(201).json(createApiResponse(slot));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to create interview slot'));
+        }
+      }
+    }
+  );
+
+  // Moving a booked slot sends the applicant an updated invitation
+  app.patch('/api/employer/interview-slots/:id',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const updates = interviewSlotUpdateSchema.parse(req.body);
+
+        const slot = await storage.getInterviewSlot(req.params.id);
+        if (!slot) {
+          return res.status(404).json(createApiResponse(null, 'Interview slot not found'));
+        }
+        if (!await canInCompany(slot.companyId, req.user, 'interview.manage')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (slot.status === 'cancelled') {
+          return res.status(409).json(createApiResponse(null, 'Interview slot cancelled'));
+        }
+
+        await storage.updateInterviewSlot(slot.id, {
+          ...updates,
+          ...(updates.notes !== undefined && { notes: updates.notes || undefined }),
+        });
+        const updatedSlot = (await storage.getInterviewSlot(slot.id))!;
+
+        const moved = updatedSlot.startsAt.getTime() !== slot.startsAt.getTime() ||
+          updatedSlot.durationMinutes !== slot.durationMinutes ||
+          updatedSlot.location !== slot.location;
+        const job = await storage.getJob(slot.jobId);
+        if (updatedSlot.status === 'booked' && moved && job) {
+          await sendInterviewEmails(updatedSlot, job, 'rescheduled');
+          await notifyInterviewChanged(updatedSlot, job, 'rescheduled');
+          await storage.createAuditLog({
+            actorUid: req.user.uid,
+            action: 'interview_rescheduled',
+            targetType: 'application',
+            targetId: updatedSlot.applicationId!,
+            metadata: { slotId: slot.id, from: slot.startsAt, to: updatedSlot.startsAt },
+          });
+        }
+
+        res.json(createApiResponse(updatedSlot));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to update interview slot'));
+        }
+      }
+    }
+  );
+
+  // Cancelled slots are kept, with their applicant, so the applicant can see
+  // what happened to their booking
+  app.post('/api/employer/interview-slots/:id/cancel',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const slot = await storage.getInterviewSlot(req.params.id);
+        if (!slot) {
+          return res.status(404).json(createApiResponse(null, 'Interview slot not found'));
+        }
+        if (!await canInCompany(slot.companyId, req.user, 'interview.manage')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (slot.status === 'cancelled') {
+          return res.status(409).json(createApiResponse(null, 'Interview slot already cancelled'));
+        }
+
+        await storage.updateInterviewSlot(slot.id, { status: 'cancelled' });
+
+        const job = await storage.getJob(slot.jobId);
+        if (slot.status === 'booked' && job) {
+          await sendInterviewEmails(slot, job, 'cancelled');
+          await notifyInterviewChanged(slot, job, 'cancelled');
+          await storage.createAuditLog({
+            actorUid: req.user.uid,
+            action: 'interview_cancelled',
+            targetType: 'application',
+            targetId: slot.applicationId!,
+            metadata: { slotId: slot.id, startsAt: slot.startsAt },
+          });
+        }
+
+        res.json(createApiResponse(await storage.getInterviewSlot(slot.id)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to cancel interview slot'));
+      }
+    }
+  );
+
+  app.get('/api/interviews/me',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('application.list_own'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const slots = await storage.getInterviewSlotsByApplicant(req.user.uid);
+        res.json(createApiResponse(slots));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get interviews'));
+      }
+    }
+  );
+
+  // Open slots a shortlisted applicant can book
+  app.get('/api/applications/:id/interview-slots',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const application = await storage.getApplication(req.params.id);
+        if (!application || !can(actorOf(req.user), 'interview.book', { ownerUid: application.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        if (application.status !== 'shortlisted') {
+          return res.json(createApiResponse([]));
+        }
+
+        const now = new Date();
+        const slots = await storage.getInterviewSlotsByJob(application.jobId);
+        res.json(createApiResponse(slots.filter(slot => slot.status === 'open' && slot.startsAt > now)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get interview slots'));
+      }
+    }
+  );
+
+  // Booking a slot of a kind the application already has one of moves the
+  // booking to the new slot
+  app.post('/api/applications/:id/interview-slots/:slotId/book',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const application = await storage.getApplication(req.params.id);
+        if (!application || !can(actorOf(req.user), 'interview.book', { ownerUid: application.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        if (application.status !== 'shortlisted') {
+          return res.status(409).json(createApiResponse(null, 'Only shortlisted applications can book interviews'));
+        }
+
+        const slot = await storage.getInterviewSlot(req.params.slotId);
+        if (!slot || slot.jobId !== application.jobId) {
+          return res.status(404).json(createApiResponse(null, 'Interview slot not found'));
+        }
+        if (slot.startsAt <= new Date()) {
+          return res.status(409).json(createApiResponse(null, 'Interview slot has already started'));
+        }
+
+        const booked = await storage.bookInterviewSlot(slot.id, application.id, req.user.uid);
+        if (!booked) {
+          return res.status(409).json(createApiResponse(null, 'Interview slot is no longer available'));
+        }
+
+        const previous = (await storage.getInterviewSlotsByApplicant(req.user.uid)).find(other =>
+          other.id !== booked.id &&
+          other.applicationId === application.id &&
+          other.kind === booked.kind &&
+          other.status === 'booked'
+        );
+        if (previous) {
+          await storage.updateInterviewSlot(previous.id, {
+            status: 'open',
+            applicationId: undefined,
+            applicantUid: undefined,
+            bookedAt: undefined,
+          });
+        }
+
+        const change = previous ? 'rescheduled' : 'scheduled';
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: previous ? 'interview_rescheduled' : 'interview_scheduled',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: { slotId: booked.id, ...(previous && { previousSlotId: previous.id }) },
+        });
+
+        const job = await storage.getJob(application.jobId);
+        if (job) {
+          await sendInterviewEmails(booked, job, change);
+          const applicant = await storage.getUser(req.user.uid);
+          await notifyInterviewBooking(booked, job, applicant?.displayName || 'A candidate', 'booked');
+        }
+
+        res.json(createApiResponse(booked));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to book interview slot'));
+      }
+    }
+  );
+
+  app.post('/api/applications/:id/interview-slots/:slotId/cancel',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const application = await storage.getApplication(req.params.id);
+        if (!application || !can(actorOf(req.user), 'interview.book', { ownerUid: application.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+
+        const slot = await storage.getInterviewSlot(req.params.slotId);
+        if (!slot || slot.applicationId !== application.id || slot.status !== 'booked') {
+          return res.status(404).json(createApiResponse(null, 'Booking not found'));
+        }
+
+        // The slot opens up for other applicants
+        await storage.updateInterviewSlot(slot.id, {
+          status: 'open',
+          applicationId: undefined,
+          applicantUid: undefined,
+          bookedAt: undefined,
+        });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'interview_cancelled',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: { slotId: slot.id, startsAt: slot.startsAt },
+        });
+
+        const job = await storage.getJob(application.jobId);
+        if (job) {
+          await sendInterviewEmails(slot, job, 'cancelled');
+          const applicant = await storage.getUser(req.user.uid);
+          await notifyInterviewBooking(slot, job, applicant?.displayName || 'A candidate', 'cancelled');
+        }
+
+        res.json(createApiResponse(await storage.getInterviewSlot(slot.id)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to cancel booking'));
+      }
+    }
+  );
+
+  // Offer routes
+  app.get('/api/employer/jobs/:id/offers',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json(createApiResponse(null, 'Job not found'));
+        }
+        if (!await canInCompany(job.companyId, req.user, 'application.view')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+
+        res.json(createApiResponse(await storage.getOffersByJob(job.id)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get offers'));
+      }
+    }
+  );
+
+  // Offers a shortlisted applicant the post, with a generated offer letter
+  app.post('/api/applications/:id/offer',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const offerData = offerSchema.parse(req.body);
+
+        const application = await storage.getApplication(req.params.id);
+        if (!application) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+        const job = await storage.getJob(application.jobId);
+        if (!job || !await canInCompany(job.companyId, req.user, 'offer.create')) {
+          return res.status(403).json(createApiResponse(null, 'Not authorized'));
+        }
+        if (application.status !== 'shortlisted') {
+          return res.status(409).json(createApiResponse(null, 'Only shortlisted applicants can be made an offer'));
+        }
+        if (!HIRING_JOB_STATUSES.includes(job.status)) {
+          return res.status(409).json(createApiResponse(
+            null,
+            'Job is not hiring',
+            job.status === 'filled' ? 'All posts for this job have been filled' : `The job is ${job.status}`
+          ));
+        }
+
+        const [company, applicant] = await Promise.all([
+          storage.getCompany(job.companyId),
+          storage.getUser(application.applicantUid),
+        ]);
+        const letterId = randomUUID();
+        const letterPath = `${STORAGE_PATHS.OFFERS(application.id)}/${letterId}.pdf`;
+        const letter = renderOfferLetter({
+          ...offerData,
+          reference: letterId.slice(0, 8).toUpperCase(),
+          issuedAt: new Date(),
+          companyName: company?.name || 'The institution',
+          companyAddress: company?.address || '',
+          applicantName: applicant?.displayName || 'Candidate',
+          jobTitle: job.title,
+          department: job.department,
+          level: job.level,
+          location: `${job.location.city}, ${job.location.state}`,
+        });
+        await saveFile(letterPath, letter, 'application/pdf');
+
+        const offer = await storage.createOffer({
+          ...offerData,
+          applicationId: application.id,
+          jobId: job.id,
+          companyId: job.companyId,
+          applicantUid: application.applicantUid,
+          letterPath,
+          createdBy: req.user.uid,
+        });
+        await storage.updateApplication(application.id, { status: 'offered' });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'offer_made',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: {
+            offerId: offer.id,
+            jobId: job.id,
+            salary: offer.salary,
+            payLevel: offer.payLevel,
+            joiningDate: offer.joiningDate,
+            expiresAt: offer.expiresAt,
+          },
+        });
+
+        if (applicant?.email) {
+          await sendOfferEmail(applicant.email, company?.name || 'The institution', job.title, offer.expiresAt, letter);
+        }
+        await notifyOfferMade(job, application.applicantUid, company?.name || 'An institution');
+
+        res.status(201).json(createApiResponse(offer));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to make offer'));
+        }
+      }
+    }
+  );
+
+  app.get('/api/offers/me',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('application.list_own'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        res.json(createApiResponse(await storage.getOffersByApplicant(req.user.uid)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get offers'));
+      }
+    }
+  );
+
+  // Accepting an offer that takes up the job's last post closes the job
+  app.post('/api/offers/:id/respond',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { response, reason } = offerResponseSchema.parse(req.body);
+
+        const offer = await storage.getOffer(req.params.id);
+        if (!offer || !can(actorOf(req.user), 'offer.respond', { ownerUid: offer.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Offer not found'));
+        }
+        if (offer.status !== 'pending') {
+          return res.status(409).json(createApiResponse(null, `Offer already ${offer.status}`));
+        }
+        if (isOfferExpired(offer)) {
+          return res.status(410).json(createApiResponse(null, 'Offer expired'));
+        }
+        const application = await storage.getApplication(offer.applicationId);
+        if (!application) {
+          return res.status(404).json(createApiResponse(null, 'Application not found'));
+        }
+
+        const accepted = response === 'accept';
+        await storage.updateOffer(offer.id, {
+          status: accepted ? 'accepted' : 'declined',
+          respondedAt: new Date(),
+          ...(!accepted && { declineReason: reason }),
+        });
+        await storage.updateApplication(application.id, { status: accepted ? 'accepted' : 'declined' });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: accepted ? 'offer_accepted' : 'offer_declined',
+          targetType: 'application',
+          targetId: application.id,
+          metadata: { offerId: offer.id, jobId: offer.jobId, ...(!accepted && { reason }) },
+        });
+
+        const job = await storage.getJob(offer.jobId);
+        if (job) {
+          const applicant = await storage.getUser(req.user.uid);
+          await notifyOfferResponded(offer, job, applicant?.displayName || 'The applicant', accepted ? 'accepted' : 'declined');
+          if (accepted) {
+            await closeJobIfFilled(job, req.user.uid);
+          }
+        }
+
+        res.json(createApiResponse(await storage.getOffer(offer.id)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to respond to offer'));
+        }
+      }
+    }
+  );
+
+  // Short-lived link to the offer letter, for the applicant and the company
+  app.get('/api/offers/:id/letter',
+    authenticateUser,
+    requireEmailVerification,
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const offer = await storage.getOffer(req.params.id);
+        if (!offer) {
+          return res.status(404).json(createApiResponse(null, 'Offer not found'));
+        }
+        if (!await canInCompany(offer.companyId, req.user, 'offer.view', { ownerUid: offer.applicantUid })) {
+          return res.status(404).json(createApiResponse(null, 'Offer not found'));
+        }
+
+        const url = await generateSignedUrl(offer.letterPath, OFFER_LETTER_URL_TTL_SECONDS);
+        res.json(createApiResponse({ url }));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get offer letter'));
+      }
+    }
+  );
+
+  // Saved search routes
+  app.get('/api/saved-searches', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      const savedSearches = await storage.getSavedSearchesByUser(req.user.uid);
+      res.json(createApiResponse(savedSearches));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get saved searches'));
+    }
+  });
+
+  app.post('/api/saved-searches',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('search.save'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const validatedData = savedSearchSchema.parse(req.body);
+
+        const savedSearch = await storage.createSavedSearch({
+          ...validatedData,
+          userUid: req.user.uid,
+          unsubscribeToken: randomBytes(24).toString('hex'),
+        });
+
+        res.status(201).json(createApiResponse(savedSearch, undefined, 'Search saved successfully'));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to save search'));
+        }
+      }
+    }
+  );
+
+  // One-click unsubscribe from alert emails. GET serves the link in the email
+  // body, POST the List-Unsubscribe header; neither needs a login.
+  const unsubscribeSavedSearch = async (req: Request, res: Response) => {
+    try {
+      const savedSearch = await storage.getSavedSearchByUnsubscribeToken(req.params.token);
+      if (!savedSearch) {
+        return res.status(404).send('<p>This unsubscribe link is invalid or has expired.</p>');
+      }
+
+      await storage.updateSavedSearch(savedSearch.id, { active: false });
+      res.send(`<p>You will no longer receive job alerts for "${escapeHtml(savedSearch.name)}".</p>`);
+    } catch (error) {
+      res.status(500).send('<p>Failed to unsubscribe. Please try again later.</p>');
+    }
+  };
+  app.get('/api/saved-searches/unsubscribe/:token', unsubscribeSavedSearch);
+  app.post('/api/saved-searches/unsubscribe/:token', unsubscribeSavedSearch);
+
+  app.patch('/api/saved-searches/:id', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      const savedSearch = await storage.getSavedSearch(req.params.id);
+      if (!savedSearch || savedSearch.userUid !== req.user.uid) {
+        return res.status(404).json(createApiResponse(null, 'Saved search not found'));
+      }
+
+      const updates = savedSearchUpdateSchema.parse(req.body);
+      // Re-enabling alerts starts from now rather than replaying every job
+      // approved while they were off
+      const resumed = updates.active && !savedSearch.active;
+      await storage.updateSavedSearch(savedSearch.id, {
+        ...updates,
+        ...(resumed && { lastCheckedAt: new Date() }),
+      });
+
+      res.json(createApiResponse(await storage.getSavedSearch(savedSearch.id), undefined, 'Saved search updated'));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to update saved search'));
+      }
+    }
+  });
+
+  app.delete('/api/saved-searches/:id', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      const savedSearch = await storage.getSavedSearch(req.params.id);
+      if (!savedSearch || savedSearch.userUid !== req.user.uid) {
+        return res.status(404).json(createApiResponse(null, 'Saved search not found'));
+      }
+
+      await storage.deleteSavedSearch(savedSearch.id);
+      res.json(createApiResponse(null, undefined, 'Saved search deleted'));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to delete saved search'));
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const [items, unreadCount] = await Promise.all([
+        storage.getNotificationsByUser(req.user.uid, limit),
+        storage.getUnreadNotificationCount(req.user.uid),
+      ]);
+      res.json(createApiResponse({ items, unreadCount }));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to get notifications'));
+    }
+  });
+
+  // Marks the listed notifications read, or all of them without a body
+  app.post('/api/notifications/read', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      const { ids } = markNotificationsReadSchema.parse(req.body || {});
+      await storage.markNotificationsRead(req.user.uid, ids);
+      res.json(createApiResponse({ unreadCount: await storage.getUnreadNotificationCount(req.user.uid) }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to mark notifications as read'));
+      }
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', authenticateUser, async (req, res) => {
+    try {
+      assertUser(req);
+      // Scoped to the caller, so other users' notifications are never touched
+      await storage.markNotificationsRead(req.user.uid, [req.params.id]);
+      res.json(createApiResponse({ unreadCount: await storage.getUnreadNotificationCount(req.user.uid) }));
+    } catch (error) {
+      res.status(500).json(createApiResponse(null, 'Failed to mark notification as read'));
+    }
+  });
+
+  // Report routes
+  app.post('/api/reports', authenticateUser, requireEmailVerification, async (req, res) => {
+    try {
+      assertUser(req);
+      const validatedData = reportSchema.parse(req.body);
+
+      if (!await describeReportTarget(validatedData.type, validatedData.targetId)) {
+        return res.status(404).json(createApiResponse(null, 'Reported content not found'));
+      }
+
+      // Reporting the same thing again while it is under review is a no-op
+      const existingReport = await storage.getPendingReportByReporter(
+        req.user.uid,
+        validatedData.type,
+        validatedData.targetId
+      );
+      if (existingReport) {
+        return res.json(createApiResponse(existingReport, undefined, 'You have already reported this'));
+      }
+
+      const since = new Date(Date.now() - REPORT_RATE_WINDOW_MS);
+      if (await storage.countReportsByReporterSince(req.user.uid, since) >= REPORT_RATE_LIMIT) {
+        return res.status(429).json(createApiResponse(null, 'Too many reports. Please try again later.'));
+      }
+
+      const report = await storage.createReport({
+        ...validatedData,
+        reporterUid: req.user.uid,
+      });
+
+      // Log audit entry
+      await storage.createAuditLog({
+        actorUid: req.user.uid,
+        action: 'report_created',
+        targetType: 'report',
+        targetId: report.id,
+        metadata: { type: report.type, targetId: report.targetId, reason: report.reason },
+      });
+
+      res.status(201).json(createApiResponse(report, undefined, 'Report submitted successfully'));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+      } else {
+        res.status(500).json(createApiResponse(null, 'Failed to submit report'));
+      }
+    }
+  });
+
+  app.get('/api/admin/reports',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('report.moderate'),
+    async (req, res) => {
+      try {
+        const filters = ReportFilters.parse(req.query);
+        const reports = await storage.getReports(filters);
+        const items = await Promise.all(reports.map(async report => ({
+          ...report,
+          targetName: await describeReportTarget(report.type, report.targetId),
+        })));
+        res.json(createApiResponse(items));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to get reports'));
+        }
+      }
+    }
+  );
+
+  // Resolve or dismiss a report, optionally taking the reported job or its
+  // institution down
+  app.patch('/api/admin/reports/:id',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('report.moderate'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const report = await storage.getReport(req.params.id);
+        if (!report) {
+          return res.status(404).json(createApiResponse(null, 'Report not found'));
+        }
+        if (report.status !== 'pending') {
+          return res.status(409).json(createApiResponse(null, 'Report has already been reviewed'));
+        }
+
+        const { status, action, notes } = reportResolutionSchema.parse(req.body);
+
+        // Both actions work on a reported job; suspension also works on a
+        // reported institution
+        const job = report.type === 'job' ? await storage.getJob(report.targetId) : undefined;
+        const companyId = report.type === 'company' ? report.targetId : job?.companyId;
+        const company = companyId ? await storage.getCompany(companyId) : undefined;
+
+        const removedJobIds: string[] = [];
+        if (action === 'remove_job') {
+          if (!job) {
+            return res.status(400).json(createApiResponse(null, 'Only reported jobs can be removed'));
+          }
+          await storage.updateJob(job.id, { status: 'removed' }, req.user.uid);
+          removedJobIds.push(job.id);
+          await notifyJobRemoved(job);
+        } else if (action === 'suspend_company') {
+          if (!company) {
+            return res.status(400).json(createApiResponse(null, 'No institution to suspend for this report'));
+          }
+          await storage.updateCompany(company.id, { status: 'suspended' }, req.user.uid);
+          // A suspended institution's listings come down with it
+          const liveJobs = (await storage.getJobsByCompany(company.id))
+            .filter(companyJob => companyJob.status === 'approved' || companyJob.status === 'pending');
+          await Promise.all(liveJobs.map(companyJob => storage.updateJob(companyJob.id, { status: 'removed' }, req.user.uid)));
+          removedJobIds.push(...liveJobs.map(companyJob => companyJob.id));
+          await notifyCompanySuspended(company);
+        }
+
+        await storage.updateReport(report.id, {
+          status,
+          action,
+          adminNotes: notes,
+          resolvedBy: req.user.uid,
+          resolvedAt: new Date(),
+        });
+
+        // Log audit entry
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'report_resolved',
+          targetType: 'report',
+          targetId: report.id,
+          metadata: {
+            status,
+            action,
+            type: report.type,
+            targetId: report.targetId,
+            ...(action === 'suspend_company' && { companyId }),
+            ...(removedJobIds.length > 0 && { removedJobIds }),
+          },
+        });
+
+        res.json(createApiResponse(await storage.getReport(report.id), undefined, `Report ${status} successfully`));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to update report'));
+        }
+      }
+    }
+  );
+
+  // Admin user management routes
+  app.get('/api/admin/users',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.view'),
+    async (req, res) => {
+      try {
+        const filters = UserSearchFilters.parse(req.query);
+        const { cursor, limit } = cursorPageSchema.parse(req.query);
+
+        // Read one user past the page to learn whether another page exists
+        const users = await storage.searchUsers(filters, limit + 1, cursor);
+        const items = users.slice(0, limit);
+        const page: CursorPaginatedResponse<User> = {
+          items,
+          nextCursor: users.length > limit ? items[items.length - 1].id : undefined,
+        };
+        res.json(createApiResponse(page));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to get users'));
+        }
+      }
+    }
+  );
+
+  // Everything an admin needs to judge an account: its institution, the jobs
+  // it posted, its applications and what it did or had done to it
+  app.get('/api/admin/users/:uid',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.view'),
+    async (req, res) => {
+      try {
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+
+        const company = await getMemberCompany(user.id);
+        const [companyRole, jobs, applications, actions, changes] = await Promise.all([
+          company ? getCompanyRole(company, user.id) : undefined,
+          storage.getJobsByPoster(user.id),
+          storage.getApplicationsByUser(user.id),
+          storage.getAuditLogs({ actorUid: user.id }, USER_AUDIT_TRAIL_LIMIT),
+          storage.getAuditLogs({ targetType: 'user', targetId: user.id }, USER_AUDIT_TRAIL_LIMIT),
+        ]);
+
+        const auditTrail = Array.from(new Map([...actions, ...changes].map(log => [log.id, log])).values())
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+          .slice(0, USER_AUDIT_TRAIL_LIMIT);
+
+        res.json(createApiResponse({
+          user,
+          company: company ?? null,
+          companyRole: companyRole ?? null,
+          jobs,
+          applications: await Promise.all(applications.map(async (application) => ({
+            ...application,
+            job: await storage.getJob(application.jobId),
+          }))),
+          auditTrail,
+        }));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to get user'));
+      }
+    }
+  );
+
+  app.patch('/api/admin/users/:uid/role',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.manage'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { role } = userRoleSchema.parse(req.body);
+
+        // An admin demoting themselves could leave nobody to undo it
+        if (req.params.uid === req.user.uid) {
+          return res.status(409).json(createApiResponse(null, 'You cannot change your own role'));
+        }
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+
+        if (user.role !== role) {
+          await changeUserRole(user.id, role, req.user.uid);
+        }
+
+        res.json(createApiResponse(await storage.getUser(user.id)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to change role'));
+        }
+      }
+    }
+  );
+
+  // Suspension disables the Firebase account and revokes its sessions, so it
+  // takes effect on the user's next request
+  app.post('/api/admin/users/:uid/suspend',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.manage'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const { reason } = userSuspensionSchema.parse(req.body);
+
+        if (req.params.uid === req.user.uid) {
+          return res.status(409).json(createApiResponse(null, 'You cannot suspend yourself'));
+        }
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+        if (isStaffRole(user.role)) {
+          return res.status(409).json(createApiResponse(null, 'Remove the staff role before suspending this account'));
+        }
+        if (user.suspendedAt) {
+          return res.status(409).json(createApiResponse(null, 'This account is already suspended'));
+        }
+
+        await setUserDisabled(user.id, true);
+        await revokeUserSessions(user.id);
+        await storage.updateUser(user.id, { suspendedAt: new Date(), suspensionReason: reason });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'user_suspended',
+          targetType: 'user',
+          targetId: user.id,
+          metadata: { reason },
+        });
+
+        res.json(createApiResponse(await storage.getUser(user.id)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to suspend user'));
+        }
+      }
+    }
+  );
+
+  app.post('/api/admin/users/:uid/unsuspend',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.manage'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+        if (!user.suspendedAt) {
+          return res.status(409).json(createApiResponse(null, 'This account is not suspended'));
+        }
+
+        await setUserDisabled(user.id, false);
+        await storage.updateUser(user.id, { suspendedAt: undefined, suspensionReason: undefined });
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'user_unsuspended',
+          targetType: 'user',
+          targetId: user.id,
+          metadata: { suspendedAt: user.suspendedAt, reason: user.suspensionReason },
+        });
+
+        res.json(createApiResponse(await storage.getUser(user.id)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to unsuspend user'));
+      }
+    }
+  );
+
+  // Deletes the account and everything storage keeps for it, including any
+  // institution the user created
+  app.delete('/api/admin/users/:uid',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.manage'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        if (req.params.uid === req.user.uid) {
+          return res.status(409).json(createApiResponse(null, 'You cannot delete your own account'));
+        }
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+        if (isStaffRole(user.role)) {
+          return res.status(409).json(createApiResponse(null, 'Remove the staff role before deleting this account'));
+        }
+
+        // The Auth account goes first so the user cannot sign back in and
+        // recreate a profile halfway through
+        await deleteAuthUser(user.id);
+        await storage.deleteUser(user.id);
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'user_deleted',
+          targetType: 'user',
+          targetId: user.id,
+          metadata: { email: user.email, displayName: user.displayName, role: user.role },
+        });
+
+        res.json(createApiResponse(null, undefined, 'User deleted'));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to delete user'));
+      }
+    }
+  );
+
+  // Support staff resend verification links to users who lost theirs
+  app.post('/api/admin/users/:uid/verification-email',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('user.email'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        const user = await storage.getUser(req.params.uid);
+        if (!user) {
+          return res.status(404).json(createApiResponse(null, 'User not found'));
+        }
+        if (user.emailVerified) {
+          return res.status(409).json(createApiResponse(null, 'This email address is already verified'));
+        }
+
+        const link = await generateEmailVerificationLink(user.email);
+        if (!await sendVerificationEmail(user.email, user.displayName, link)) {
+          return res.status(500).json(createApiResponse(null, 'Failed to send email'));
+        }
+
+        await storage.createAuditLog({
+          actorUid: req.user.uid,
+          action: 'user_verification_email_sent',
+          targetType: 'user',
+          targetId: user.id,
+        });
+
+        res.json(createApiResponse(null, undefined, 'Verification email sent'));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to send verification email'));
+      }
+    }
+  );
+
+  // User role routes
+  // Runs the scheduled role reconciliation on demand, e.g. after a bulk import
+  app.post('/api/admin/roles/reconcile',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('platform.manage'),
+    async (req, res) => {
+      try {
+        assertUser(req);
+        res.json(createApiResponse(await reconcileUserRoles(req.user.uid)));
+      } catch (error) {
+        res.status(500).json(createApiResponse(null, 'Failed to reconcile roles'));
+      }
+    }
+  );
+
+  // Audit log routes
+  app.get('/api/admin/audit-logs',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('audit.view'),
+    async (req, res) => {
+      try {
+        const filters = AuditLogFilters.parse(req.query);
+        const { cursor, limit } = cursorPageSchema.parse(req.query);
+
+        // Read one entry past the page to learn whether another page exists
+        const logs = await storage.getAuditLogs(filters, limit + 1, cursor);
+        const items = logs.slice(0, limit);
+        const page: CursorPaginatedResponse<AuditLog> = {
+          items,
+          nextCursor: logs.length > limit ? items[items.length - 1].id : undefined,
+        };
+        res.json(createApiResponse(page));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to get audit logs'));
+        }
+      }
+    }
+  );
+
+  // Streams every entry matching the filters as CSV or newline-delimited JSON
+  app.get('/api/admin/audit-logs/export',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('audit.view'),
+    async (req, res) => {
+      try {
+        const filters = AuditLogFilters.parse(req.query);
+        const { format } = auditLogExportSchema.parse(req.query);
+
+        const date = new Date().toISOString().slice(0, 10);
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${date}.${format}"`);
+        if (format === 'csv') {
+          res.write(AUDIT_CSV_COLUMNS.join(',') + '\n');
+        }
+
+        let cursor: string | undefined;
+        do {
+          const batch = await storage.getAuditLogs(filters, AUDIT_EXPORT_BATCH_SIZE, cursor);
+          for (const log of batch) {
+            res.write(format === 'csv' ? auditLogCsvRow(log) : JSON.stringify(log) + '\n');
+          }
+          cursor = batch.length === AUDIT_EXPORT_BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+        } while (cursor);
+
+        res.end();
+      } catch (error) {
+        if (res.headersSent) {
+          // Too late for an error status; cut the download short instead
+          res.destroy(error as Error);
+        } else if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to export audit logs'));
+        }
+      }
+    }
+  );
+
+  // Change history routes
+  app.get('/api/admin/history/:targetType/:targetId',
+    authenticateUser,
+    requireEmailVerification,
+    authorize('audit.view'),
+    async (req, res) => {
+      try {
+        const targetType = ChangeTargetType.parse(req.params.targetType);
+        const { since } = changeHistorySchema.parse(req.query);
+        const records = await storage.getChangeRecords(targetType, req.params.targetId, since);
+        res.json(createApiResponse(records));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json(createApiResponse(null, 'Validation error', error.errors[0].message));
+        } else {
+          res.status(500).json(createApiResponse(null, 'Failed to get change history'));
+        }
+      }
+    }
+  );
+
   // Stats route
   app.get('/api/stats', async (req, res) => {
     try {
@@ -0,0 +1,175 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Job } from "@shared/schema";
+import { JobSearchIndex, parseSearchQuery, stem, tokenize } from "./search-index";
+
+function job(id: string, fields: Partial<Job> = {}): Job {
+  return {
+    id,
+    title: "Faculty Position",
+    department: "Mathematics",
+    level: "Assistant Professor",
+    instituteType: "IIT",
+    employmentType: "Full-time",
+    location: { city: "Chennai", state: "Tamil Nadu", country: "India" },
+    currency: "INR",
+    positions: 1,
+    qualifications: [],
+    skills: [],
+    responsibilities: [],
+    description: "",
+    lastDate: new Date("2030-01-01"),
+    applyMode: "internal",
+    screeningQuestions: [],
+    companyId: "company-1",
+    posterUid: "poster-1",
+    status: "approved",
+    resubmissionCount: 0,
+    viewCount: 0,
+    applicationCount: 0,
+    applyClickCount: 0,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    ...fields,
+  };
+}
+
+// Job ids from best to worst match
+function ranked(index: JobSearchIndex, query: string): string[] | undefined {
+  const scores = index.search(query);
+  return scores && Array.from(scores).sort(([, a], [, b]) => b - a).map(([id]) => id);
+}
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and splits on punctuation", () => {
+    assert.deepEqual(tokenize("Théorie des Nombres, Algebra/Geometry"), ["theorie", "des", "nombres", "algebra", "geometry"]);
+  });
+
+  it("keeps C++ and C# searchable", () => {
+    assert.deepEqual(tokenize("C++ and C# (required)"), ["c++", "and", "c#", "required"]);
+  });
+});
+
+describe("stem", () => {
+  it("brings word forms together", () => {
+    assert.equal(stem("universities"), "university");
+    assert.equal(stem("teaching"), "teach");
+    assert.equal(stem("lectures"), "lecture");
+  });
+
+  it("leaves short words and Latin endings alone", () => {
+    assert.equal(stem("ops"), "ops");
+    assert.equal(stem("analysis"), "analysis");
+    assert.equal(stem("campus"), "campus");
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("separates quoted phrases from loose terms", () => {
+    assert.deepEqual(parseSearchQuery('"machine learning" professor'), {
+      terms: ["professor"],
+      phrases: [["machine", "learning"]],
+    });
+  });
+
+  it("treats a quoted single word as a term", () => {
+    assert.deepEqual(parseSearchQuery('"algebra"'), { terms: ["algebra"], phrases: [] });
+  });
+
+  it("drops stop words and repeats from the terms but not from phrases", () => {
+    assert.deepEqual(parseSearchQuery('the algebra and algebra "head of department"'), {
+      terms: ["algebra"],
+      phrases: [["head", "of", "department"]],
+    });
+  });
+});
+
+describe("JobSearchIndex", () => {
+  it("matches every term of the query", () => {
+    const index = JobSearchIndex.from([
+      job("algebra", { description: "Research in algebra and number theory" }),
+      job("geometry", { description: "Research in geometry" }),
+    ]);
+    assert.deepEqual(ranked(index, "algebra research"), ["algebra"]);
+    assert.deepEqual(ranked(index, "algebra topology"), []);
+  });
+
+  it("has nothing to search for in a query of stop words", () => {
+    const index = JobSearchIndex.from([job("1", { description: "The head of the department" })]);
+    assert.equal(index.search("the and of"), undefined);
+    assert.equal(index.search('""'), undefined);
+  });
+
+  it("matches prefixes of what was typed, below exact matches", () => {
+    const index = JobSearchIndex.from([
+      job("prefix", { description: "Statistical modelling" }),
+      job("exact", { description: "Statist wanted" }),
+    ]);
+    assert.deepEqual(ranked(index, "statist"), ["exact", "prefix"]);
+    assert.deepEqual(ranked(index, "st"), []);
+  });
+
+  it("finds other forms of a word", () => {
+    const index = JobSearchIndex.from([job("1", { responsibilities: ["Teaching undergraduate courses"] })]);
+    assert.deepEqual(ranked(index, "teach course"), ["1"]);
+  });
+
+  it("ranks title matches above description matches", () => {
+    const index = JobSearchIndex.from([
+      job("description", { title: "Lecturer", description: "Teaching topology" }),
+      job("title", { title: "Professor of Topology", description: "Teaching" }),
+    ]);
+    assert.deepEqual(ranked(index, "topology"), ["title", "description"]);
+  });
+
+  it("searches the institute name", () => {
+    const names: Record<string, string> = { "company-1": "IIT Madras", "company-2": "NIT Trichy" };
+    const index = JobSearchIndex.from(
+      [job("madras", { companyId: "company-1" }), job("trichy", { companyId: "company-2" })],
+      job => names[job.companyId],
+    );
+    assert.deepEqual(ranked(index, "madras"), ["madras"]);
+  });
+
+  it("matches phrases only where the words are consecutive in one field", () => {
+    const index = JobSearchIndex.from([
+      job("phrase", { description: "Experience in machine learning research" }),
+      job("apart", { description: "Machine shop and learning centre" }),
+      job("split", { title: "Machine", description: "Learning" }),
+    ]);
+    assert.deepEqual(ranked(index, '"machine learning"'), ["phrase"]);
+    assert.deepEqual(ranked(index, "machine learning")?.sort(), ["apart", "phrase", "split"]);
+  });
+
+  it("scores a phrase above its words matched separately", () => {
+    const index = JobSearchIndex.from([
+      job("phrase", { description: "Machine learning" }),
+      job("other", { description: "Machine design" }),
+    ]);
+    const loose = index.search("machine learning")!;
+    const quoted = index.search('"machine learning"')!;
+    assert.ok(quoted.get("phrase")! > loose.get("phrase")!);
+  });
+
+  it("weighs rare terms above common ones", () => {
+    const index = JobSearchIndex.from([
+      job("cryptography", { description: "Professor of cryptography" }),
+      job("algebra", { description: "Professor of algebra" }),
+      job("analysis", { description: "Professor of analysis" }),
+    ]);
+    const rare = index.search("cryptography")!.get("cryptography")!;
+    const common = index.search("professor")!.get("cryptography")!;
+    assert.ok(rare > common);
+  });
+
+  it("replaces a job when it is added again and forgets removed jobs", () => {
+    const index = JobSearchIndex.from([job("1", { description: "Algebra" })]);
+    index.add(job("1", { description: "Geometry" }));
+    assert.deepEqual(ranked(index, "algebra"), []);
+    assert.deepEqual(ranked(index, "geometry"), ["1"]);
+
+    index.remove("1");
+    assert.equal(index.size, 0);
+    assert.deepEqual(ranked(index, "geometry"), []);
+  });
+});
@@ -0,0 +1,247 @@
+import { Job } from "@shared/schema";
+
+// Weight of a match in each indexed field
+export const FIELD_BOOSTS = {
+  title: 3,
+  department: 2,
+  institute: 2,
+  skills: 2,
+  qualifications: 1.5,
+  responsibilities: 1,
+  description: 1,
+} as const;
+
+export type SearchField = keyof typeof FIELD_BOOSTS;
+
+// A prefix match ("mathem" for "mathematics") scores below an exact match
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+// Phrases score above their words matched separately
+const PHRASE_WEIGHT = 2;
+
+// Ignored as standalone query terms; still indexed so phrases can contain them
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+  'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+// Lowercase, strip accents and split on anything that is not a letter or digit.
+// "+" and "#" are kept so "C++" and "C#" stay searchable.
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean);
+}
+
+// Light suffix stemming so "teaching"/"teach" and "universities"/"university"
+// meet in the index. Deliberately conservative; short words are left alone.
+export function stem(token: string): string {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies') && token.length > 4) return token.slice(0, -3) + 'y';
+  if (token.endsWith('sses')) return token.slice(0, -2);
+  if (token.endsWith('ing') && token.length > 5) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 4) return token.slice(0, -2);
+  if (token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
+
+// Split a query into quoted phrases and loose terms
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenize(phrase);
+    if (words.length > 1) {
+      phrases.push(words);
+    } else if (words.length === 1) {
+      return ` ${words[0]} `;
+    }
+    return ' ';
+  });
+  const terms = tokenize(rest).filter(term => !STOP_WORDS.has(term));
+  return { terms: Array.from(new Set(terms)), phrases };
+}
+
+// term -> job id -> field -> token positions
+type Postings = Map<string, Map<string, Map<SearchField, number[]>>>;
+
+// In-memory inverted index over job text. Jobs are added and replaced one at a
+// time, so callers keep it current by calling add() whenever a job changes.
+export class JobSearchIndex {
+  private postings: Postings = new Map();
+  private documentTerms: Map<string, Set<string>> = new Map();
+
+  // instituteName resolves the hiring institution's name for a job, if known
+  constructor(private instituteName: (job: Job) => string | undefined = () => undefined) {}
+
+  static from(jobs: Job[], instituteName?: (job: Job) => string | undefined): JobSearchIndex {
+    const index = new JobSearchIndex(instituteName);
+    jobs.forEach(job => index.add(job));
+    return index;
+  }
+
+  get size(): number {
+    return this.documentTerms.size;
+  }
+
+  // Index a job, replacing any previous version of it
+  add(job: Job): void {
+    this.remove(job.id);
+
+    const fields: Record<SearchField, string> = {
+      title: job.title,
+      department: job.department,
+      institute: this.instituteName(job) || '',
+      skills: job.skills.join(' '),
+      qualifications: job.qualifications.join(' '),
+      responsibilities: job.responsibilities.join(' '),
+      description: job.description,
+    };
+
+    const terms = new Set<string>();
+    for (const [field, text] of Object.entries(fields) as Array<[SearchField, string]>) {
+      tokenize(text).forEach((token, position) => {
+        const term = stem(token);
+        terms.add(term);
+
+        let documents = this.postings.get(term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(term, documents);
+        }
+        let positions = documents.get(job.id);
+        if (!positions) {
+          positions = new Map();
+          documents.set(job.id, positions);
+        }
+        const fieldPositions = positions.get(field);
+        if (fieldPositions) {
+          fieldPositions.push(position);
+        } else {
+          positions.set(field, [position]);
+        }
+      });
+    }
+    this.documentTerms.set(job.id, terms);
+  }
+
+  remove(jobId: string): void {
+    const terms = this.documentTerms.get(jobId);
+    if (!terms) return;
+
+    terms.forEach(term => {
+      const documents = this.postings.get(term);
+      documents?.delete(jobId);
+      if (documents && documents.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.documentTerms.delete(jobId);
+  }
+
+  // Score every job matching all terms and phrases in the query. Returns
+  // undefined when the query has nothing searchable (e.g. only stop words).
+  search(query: string): Map<string, number> | undefined {
+    const { terms, phrases } = parseSearchQuery(query);
+    if (terms.length === 0 && phrases.length === 0) {
+      return undefined;
+    }
+
+    let scores: Map<string, number> | undefined;
+    const intersect = (matches: Map<string, number>) => {
+      if (!scores) {
+        scores = matches;
+        return;
+      }
+      const merged = new Map<string, number>();
+      scores.forEach((score, jobId) => {
+        const match = matches.get(jobId);
+        if (match !== undefined) merged.set(jobId, score + match);
+      });
+      scores = merged;
+    };
+
+    for (const term of terms) {
+      intersect(this.scoreTerm(term));
+    }
+    for (const phrase of phrases) {
+      intersect(this.scorePhrase(phrase));
+    }
+    return scores ?? new Map();
+  }
+
+  // Exact matches on the stemmed term, plus weaker matches on indexed terms
+  // that start with what was typed
+  private scoreTerm(token: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const addMatches = (term: string, weight: number) => {
+      const documents = this.postings.get(term);
+      if (!documents) return;
+      const idf = this.idf(documents.size);
+      documents.forEach((positions, jobId) => {
+        const score = weight * idf * this.fieldScore(positions);
+        scores.set(jobId, Math.max(scores.get(jobId) || 0, score));
+      });
+    };
+
+    const term = stem(token);
+    addMatches(term, 1);
+    if (token.length >= MIN_PREFIX_LENGTH) {
+      this.postings.forEach((_, candidate) => {
+        if (candidate !== term && candidate.startsWith(token)) {
+          addMatches(candidate, PREFIX_WEIGHT);
+        }
+      });
+    }
+    return scores;
+  }
+
+  // Jobs where the words appear consecutively within a single field
+  private scorePhrase(words: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const terms = words.map(stem);
+    const [first, ...rest] = terms.map(term => this.postings.get(term));
+    if (!first || rest.some(documents => !documents)) {
+      return scores;
+    }
+
+    first.forEach((firstPositions, jobId) => {
+      let score = 0;
+      firstPositions.forEach((positions, field) => {
+        const occurrences = positions.filter(start =>
+          rest.every((documents, offset) =>
+            documents!.get(jobId)?.get(field)?.includes(start + offset + 1)
+          )
+        ).length;
+        if (occurrences > 0) {
+          score += FIELD_BOOSTS[field] * (1 + Math.log(occurrences));
+        }
+      });
+      if (score > 0) {
+        const idf = terms.reduce((sum, term) => sum + this.idf(this.postings.get(term)!.size), 0);
+        scores.set(jobId, PHRASE_WEIGHT * idf * score);
+      }
+    });
+    return scores;
+  }
+
+  private fieldScore(positions: Map<SearchField, number[]>): number {
+    let score = 0;
+    positions.forEach((fieldPositions, field) => {
+      score += FIELD_BOOSTS[field] * (1 + Math.log(fieldPositions.length));
+    });
+    return score;
+  }
+
+  private idf(documentFrequency: number): number {
+    return Math.log(1 + this.size / documentFrequency);
+  }
+}
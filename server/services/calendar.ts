@@ -0,0 +1,62 @@
+// Minimal iCalendar (RFC 5545) invitations for interview slots, attached to
+// confirmation emails so both sides can add them to their calendars
+
+export type CalendarMethod = 'REQUEST' | 'CANCEL';
+
+export interface CalendarEvent {
+  // Stays the same across reschedules so calendars update the event in place
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  location?: string;
+}
+
+const PRODUCT_ID = '-//EduHire Faculty//Interviews//EN';
+
+// 20261019T093000Z
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join('\r\n ');
+};
+
+export function buildCalendarInvite(event: CalendarEvent, method: CalendarMethod = 'REQUEST'): string {
+  const now = new Date();
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+  const organizer = process.env.FROM_EMAIL || 'noreply@eduhire.faculty.com';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    // Calendars apply an update only if its sequence is higher than the one
+    // they have, and the time of the change always is
+    `SEQUENCE:${Math.floor(now.getTime() / 1000)}`,
+    `DTSTAMP:${formatDate(now)}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `ORGANIZER;CN=EduHire Faculty:mailto:${organizer}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,4 +1,13 @@
 import sgMail from '@sendgrid/mail';
+import {
+  COMPANY_ROLE_LABELS,
+  INTERVIEW_KIND_LABELS,
+  REJECTION_REASON_LABELS,
+  type CompanyRole,
+  type InterviewKind,
+  type RejectionReason,
+} from '@shared/schema';
+import { buildCalendarInvite, type CalendarEvent, type CalendarMethod } from './calendar';
 
 if (!process.env.SENDGRID_API_KEY) {
   console.warn("SENDGRID_API_KEY environment variable not set. Email functionality will be disabled.");
@@ -14,6 +23,8 @@ export interface EmailParams {
   html?: string;
   templateId?: string;
   dynamicTemplateData?: Record<string, any>;
+  headers?: Record<string, string>;
+  attachments?: Array<{ filename: string; content: string | Buffer; type: string }>;
 }
 
 export async function sendEmail(params: EmailParams): Promise<boolean> {
@@ -29,6 +40,15 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
       subject: params.subject,
       text: params.text,
       html: params.html,
+      ...(params.headers && { headers: params.headers }),
+      ...(params.attachments && {
+        attachments: params.attachments.map(attachment => ({
+          filename: attachment.filename,
+          type: attachment.type,
+          content: Buffer.from(attachment.content).toString('base64'),
+          disposition: 'attachment',
+        })),
+      }),
       ...(params.templateId && {
         templateId: params.templateId,
         dynamicTemplateData: params.dynamicTemplateData,
@@ -44,6 +64,28 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
   }
 }
 
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Interview times are shown in Indian Standard Time; the attached invitation
+// carries UTC, so calendars show it in the reader's own zone
+export const formatInterviewTime = (date: Date) =>
+  `${date.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'full', timeStyle: 'short' })} IST`;
+
+export type InterviewChange = 'scheduled' | 'rescheduled' | 'cancelled';
+
+export interface InterviewEmailDetails {
+  kind: InterviewKind;
+  jobTitle: string;
+  // The applicant for employers, the institution for applicants
+  withName: string;
+  startsAt: Date;
+  durationMinutes: number;
+  location: string;
+  notes?: string;
+  manageUrl: string;
+}
+
 // Email templates
 export const EmailTemplates = {
   WELCOME: {
@@ -58,6 +100,19 @@ export const EmailTemplates = {
     `
   },
   
+  VERIFY_EMAIL: {
+    subject: 'Verify your EduHire Faculty account',
+    getHtml: (name: string, verifyUrl: string) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #2563eb;">Verify your email address</h1>
+        <p>Hi ${escapeHtml(name)}, our support team has sent you a new verification link for your EduHire Faculty account.</p>
+        <p><a href="${verifyUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Verify Email</a></p>
+        <p>If you did not ask for this, you can ignore this email.</p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+      </div>
+    `
+  },
+
   EMPLOYER_APPROVED: {
     subject: 'Your Employer Account Has Been Approved!',
     getHtml: (companyName: string) => `
@@ -84,6 +139,76 @@ export const EmailTemplates = {
     `
   },
   
+  SUBMISSION_REJECTED: {
+    subject: 'Action Needed: Your Submission Was Not Approved',
+    getHtml: (subject: string, name: string, reasons: RejectionReason[], notes: string | undefined, fixUrl: string) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #dc2626;">Changes Needed</h1>
+        <p>Your ${subject} "<strong>${escapeHtml(name)}</strong>" could not be approved yet, for the following reasons:</p>
+        <ul>
+          ${reasons.map(reason => `<li style="margin-bottom: 8px;">${REJECTION_REASON_LABELS[reason]}</li>`).join('')}
+        </ul>
+        ${notes ? `<p><strong>Notes from our moderators:</strong><br>${escapeHtml(notes).replace(/\n/g, '<br>')}</p>` : ''}
+        <p>Once you have made the changes, resubmit it and our team will review it again.</p>
+        <p><a href="${fixUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Make Changes</a></p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+      </div>
+    `
+  },
+  
+  COMPANY_INVITATION: {
+    subject: 'You Have Been Invited to Join an Institution on EduHire Faculty',
+    getHtml: (companyName: string, inviterName: string, role: CompanyRole, acceptUrl: string) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #2563eb;">Join ${escapeHtml(companyName)}</h1>
+        <p>${escapeHtml(inviterName)} has invited you to join <strong>${escapeHtml(companyName)}</strong> on EduHire Faculty as a ${COMPANY_ROLE_LABELS[role].toLowerCase()}.</p>
+        <p>Sign in with an employer account for this email address to accept. The invitation expires in 7 days.</p>
+        <p><a href="${acceptUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Accept Invitation</a></p>
+        <p>If you were not expecting this invitation, you can ignore this email.</p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+      </div>
+    `
+  },
+
+  INTERVIEW_UPDATE: {
+    subjects: {
+      scheduled: 'Interview Scheduled',
+      rescheduled: 'Interview Rescheduled',
+      cancelled: 'Interview Cancelled',
+    } as Record<InterviewChange, string>,
+    getHtml: (change: InterviewChange, details: InterviewEmailDetails) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: ${change === 'cancelled' ? '#dc2626' : '#2563eb'};">${INTERVIEW_KIND_LABELS[details.kind]} ${change}</h1>
+        <p>
+          ${change === 'cancelled' ? 'The' : 'Your'} ${INTERVIEW_KIND_LABELS[details.kind].toLowerCase()} with
+          <strong>${escapeHtml(details.withName)}</strong> for "<strong>${escapeHtml(details.jobTitle)}</strong>"
+          ${change === 'cancelled' ? 'has been cancelled.' : change === 'rescheduled' ? 'has moved to a new time.' : 'is confirmed.'}
+        </p>
+        <p>
+          <strong>When:</strong> ${formatInterviewTime(details.startsAt)} (${details.durationMinutes} minutes)<br>
+          <strong>Where:</strong> ${escapeHtml(details.location)}
+        </p>
+        ${details.notes && change !== 'cancelled' ? `<p>${escapeHtml(details.notes).replace(/\n/g, '<br>')}</p>` : ''}
+        <p>${change === 'cancelled' ? 'The attached file removes it from your calendar.' : 'Add it to your calendar with the attached invitation.'}</p>
+        <p><a href="${details.manageUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Schedule</a></p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+      </div>
+    `
+  },
+
+  OFFER_MADE: {
+    subject: 'You Have Received an Offer',
+    getHtml: (companyName: string, jobTitle: string, expiresAt: Date, respondUrl: string) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #16a34a;">Congratulations!</h1>
+        <p><strong>${escapeHtml(companyName)}</strong> has offered you the position "<strong>${escapeHtml(jobTitle)}</strong>". Your offer letter is attached.</p>
+        <p>Please accept or decline the offer by <strong>${formatInterviewTime(expiresAt)}</strong>. It lapses if it has not been accepted by then.</p>
+        <p><a href="${respondUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Respond to Offer</a></p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+      </div>
+    `
+  },
+
   APPLICATION_RECEIVED: {
     subject: 'New Application Received',
     getHtml: (jobTitle: string, applicantName: string) => `
@@ -106,6 +231,27 @@ export const EmailTemplates = {
         <p>Best regards,<br>The EduHire Faculty Team</p>
       </div>
     `
+  },
+
+  JOB_ALERT_DIGEST: {
+    subject: 'New Faculty Positions Matching Your Saved Search',
+    getHtml: (searchName: string, jobs: Array<{ id: string; title: string; department: string; city: string }>, unsubscribeUrl: string) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #2563eb;">New Jobs for "${escapeHtml(searchName)}"</h1>
+        <p>${jobs.length} new ${jobs.length === 1 ? 'position matches' : 'positions match'} your saved search:</p>
+        <ul>
+          ${jobs.map(job => `
+            <li style="margin-bottom: 8px;">
+              <a href="${process.env.APP_URL}/jobs/${job.id}"><strong>${escapeHtml(job.title)}</strong></a><br>
+              ${escapeHtml(job.department)} • ${escapeHtml(job.city)}
+            </li>
+          `).join('')}
+        </ul>
+        <p><a href="${process.env.APP_URL}/jobs" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Browse All Jobs</a></p>
+        <p>Best regards,<br>The EduHire Faculty Team</p>
+        <p style="font-size: 12px; color: #6b7280;">You are receiving this because you saved this search on EduHire Faculty. <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+      </div>
+    `
   }
 };
 
@@ -118,6 +264,14 @@ export async function sendWelcomeEmail(to: string, name: string): Promise<boolea
   });
 }
 
+export async function sendVerificationEmail(to: string, name: string, verifyUrl: string): Promise<boolean> {
+  return sendEmail({
+    to,
+    subject: EmailTemplates.VERIFY_EMAIL.subject,
+    html: EmailTemplates.VERIFY_EMAIL.getHtml(name, verifyUrl),
+  });
+}
+
 export async function sendEmployerApprovedEmail(to: string, companyName: string): Promise<boolean> {
   return sendEmail({
     to,
@@ -134,6 +288,85 @@ export async function sendJobApprovedEmail(to: string, jobTitle: string): Promis
   });
 }
 
+export async function sendCompanyRejectedEmail(
+  to: string,
+  companyName: string,
+  reasons: RejectionReason[],
+  notes?: string
+): Promise<boolean> {
+  return sendEmail({
+    to,
+    subject: EmailTemplates.SUBMISSION_REJECTED.subject,
+    html: EmailTemplates.SUBMISSION_REJECTED.getHtml('institution profile', companyName, reasons, notes, `${process.env.APP_URL}/employer`),
+  });
+}
+
+export async function sendJobRejectedEmail(
+  to: string,
+  jobId: string,
+  jobTitle: string,
+  reasons: RejectionReason[],
+  notes?: string
+): Promise<boolean> {
+  return sendEmail({
+    to,
+    subject: EmailTemplates.SUBMISSION_REJECTED.subject,
+    html: EmailTemplates.SUBMISSION_REJECTED.getHtml('job posting', jobTitle, reasons, notes, `${process.env.APP_URL}/employer/jobs/${jobId}/edit`),
+  });
+}
+
+export async function sendCompanyInvitationEmail(
+  to: string,
+  companyName: string,
+  inviterName: string,
+  role: CompanyRole,
+  token: string
+): Promise<boolean> {
+  return sendEmail({
+    to,
+    subject: EmailTemplates.COMPANY_INVITATION.subject,
+    html: EmailTemplates.COMPANY_INVITATION.getHtml(companyName, inviterName, role, `${process.env.APP_URL}/invitations/${token}`),
+  });
+}
+
+export async function sendInterviewEmail(
+  to: string,
+  change: InterviewChange,
+  details: InterviewEmailDetails,
+  event: CalendarEvent
+): Promise<boolean> {
+  const method: CalendarMethod = change === 'cancelled' ? 'CANCEL' : 'REQUEST';
+  return sendEmail({
+    to,
+    subject: EmailTemplates.INTERVIEW_UPDATE.subjects[change],
+    html: EmailTemplates.INTERVIEW_UPDATE.getHtml(change, details),
+    attachments: [{
+      filename: 'interview.ics',
+      content: buildCalendarInvite(event, method),
+      type: `text/calendar; method=${method}`,
+    }],
+  });
+}
+
+export async function sendOfferEmail(
+  to: string,
+  companyName: string,
+  jobTitle: string,
+  expiresAt: Date,
+  letter: Buffer
+): Promise<boolean> {
+  return sendEmail({
+    to,
+    subject: EmailTemplates.OFFER_MADE.subject,
+    html: EmailTemplates.OFFER_MADE.getHtml(companyName, jobTitle, expiresAt, `${process.env.APP_URL}/profile`),
+    attachments: [{
+      filename: 'offer-letter.pdf',
+      content: letter,
+      type: 'application/pdf',
+    }],
+  });
+}
+
 export async function sendApplicationReceivedEmail(to: string, jobTitle: string, applicantName: string): Promise<boolean> {
   return sendEmail({
     to,
@@ -149,3 +382,22 @@ export async function sendApplicationStatusEmail(to: string, jobTitle: string, s
     html: EmailTemplates.APPLICATION_STATUS_CHANGED.getHtml(jobTitle, status),
   });
 }
+
+export async function sendJobAlertEmail(
+  to: string,
+  searchName: string,
+  jobs: Array<{ id: string; title: string; department: string; city: string }>,
+  unsubscribeToken: string
+): Promise<boolean> {
+  const unsubscribeUrl = `${process.env.APP_URL}/api/saved-searches/unsubscribe/${unsubscribeToken}`;
+  return sendEmail({
+    to,
+    subject: EmailTemplates.JOB_ALERT_DIGEST.subject,
+    html: EmailTemplates.JOB_ALERT_DIGEST.getHtml(searchName, jobs, unsubscribeUrl),
+    // RFC 8058 one-click unsubscribe: mail clients POST to the same URL
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+}
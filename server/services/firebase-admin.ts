@@ -2,6 +2,7 @@ import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
+import type { UserRole } from '@shared/schema';
 
 // Initialize Firebase Admin SDK
 let app;
@@ -28,10 +29,12 @@ export const adminAuth = getAuth(app);
 export const adminDb = getFirestore(app);
 export const adminStorage = getStorage(app);
 
-// Validate Firebase ID token
+// Validate Firebase ID token. Checking revocation also rejects tokens of
+// disabled accounts, so suspensions and signing out everywhere take effect
+// before the token expires.
 export async function validateFirebaseToken(idToken: string) {
   try {
-    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const decodedToken = await adminAuth.verifyIdToken(idToken, true);
     return decodedToken;
   } catch (error) {
     console.error('Error verifying Firebase token:', error);
@@ -39,8 +42,38 @@ export async function validateFirebaseToken(idToken: string) {
   }
 }
 
+// Exchange a freshly issued ID token for a session cookie
+export async function createSessionCookie(idToken: string, expiresIn: number) {
+  try {
+    return await adminAuth.createSessionCookie(idToken, { expiresIn });
+  } catch (error) {
+    console.error('Error creating session cookie:', error);
+    throw new Error('Failed to create session');
+  }
+}
+
+// Validate a session cookie, rejecting it once the user's sessions are revoked
+export async function validateSessionCookie(sessionCookie: string) {
+  try {
+    return await adminAuth.verifySessionCookie(sessionCookie, true);
+  } catch (error) {
+    throw new Error('Invalid session');
+  }
+}
+
+// Sign a user out everywhere: existing session cookies stop validating and
+// their refresh tokens stop minting ID tokens
+export async function revokeUserSessions(uid: string) {
+  try {
+    await adminAuth.revokeRefreshTokens(uid);
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    throw new Error('Failed to revoke sessions');
+  }
+}
+
 // Set custom user claims (roles)
-export async function setUserRole(uid: string, role: 'seeker' | 'employer' | 'admin') {
+export async function setUserRole(uid: string, role: UserRole) {
   try {
     await adminAuth.setCustomUserClaims(uid, { role });
   } catch (error) {
@@ -49,6 +82,71 @@ export async function setUserRole(uid: string, role: 'seeker' | 'employer' | 'ad
   }
 }
 
+// Disabled accounts cannot sign in or refresh their tokens
+export async function setUserDisabled(uid: string, disabled: boolean) {
+  try {
+    await adminAuth.updateUser(uid, { disabled });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    throw new Error(`Failed to ${disabled ? 'disable' : 'enable'} user`);
+  }
+}
+
+// Removes only the Auth account; the profile and records are the caller's
+export async function deleteAuthUser(uid: string) {
+  try {
+    await adminAuth.deleteUser(uid);
+  } catch (error) {
+    console.error('Error deleting auth user:', error);
+    throw new Error('Failed to delete auth user');
+  }
+}
+
+// Firebase Auth sends nothing itself here; the link goes out in our own email
+export async function generateEmailVerificationLink(email: string) {
+  try {
+    return await adminAuth.generateEmailVerificationLink(email, {
+      url: `${process.env.APP_URL}/verify`,
+    });
+  } catch (error) {
+    console.error('Error generating verification link:', error);
+    throw new Error('Failed to generate verification link');
+  }
+}
+
+// The Auth account of a user, as their profile would describe it
+export async function getAuthUserProfile(uid: string) {
+  try {
+    const user = await adminAuth.getUser(uid);
+    return {
+      email: user.email || '',
+      displayName: user.displayName || user.email?.split('@')[0] || 'User',
+      emailVerified: user.emailVerified,
+      role: user.customClaims?.role as string | undefined,
+    };
+  } catch (error) {
+    console.error('Error getting auth user:', error);
+    throw new Error('Failed to get auth user');
+  }
+}
+
+// One page of Firebase Auth users with their role claims
+export async function listUserRoleClaims(pageToken?: string) {
+  try {
+    const result = await adminAuth.listUsers(1000, pageToken);
+    return {
+      users: result.users.map(user => ({
+        uid: user.uid,
+        role: user.customClaims?.role as string | undefined,
+      })),
+      pageToken: result.pageToken,
+    };
+  } catch (error) {
+    console.error('Error listing users:', error);
+    throw new Error('Failed to list users');
+  }
+}
+
 // Create user profile in Firestore
 export async function createUserProfile(uid: string, data: {
   displayName: string;
@@ -170,3 +268,16 @@ export async function generateSignedUrl(filePath: string, expiresIn: number = 36
     throw new Error('Failed to generate signed URL');
   }
 }
+
+// Save a file the server generated, e.g. an offer letter
+export async function saveFile(filePath: string, data: Buffer, contentType: string) {
+  try {
+    await adminStorage.bucket().file(filePath).save(data, {
+      contentType,
+      resumable: false,
+    });
+  } catch (error) {
+    console.error('Error saving file:', error);
+    throw new Error('Failed to save file');
+  }
+}
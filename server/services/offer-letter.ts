@@ -0,0 +1,145 @@
+// Offer letters as minimal text-only PDF documents (PDF 1.4 with the
+// standard Helvetica fonts), generated when an employer makes an offer
+
+export interface OfferLetterDetails {
+  // Shown on the letter so either side can refer to the offer
+  reference: string;
+  issuedAt: Date;
+  companyName: string;
+  companyAddress: string;
+  applicantName: string;
+  jobTitle: string;
+  department: string;
+  level: string;
+  location: string;
+  salary: number;
+  currency: string;
+  payLevel: string;
+  joiningDate: Date;
+  expiresAt: Date;
+}
+
+interface Paragraph {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Extra space after the paragraph, in points
+  spaceAfter?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 72;
+
+const formatLetterDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'long' });
+
+// The standard fonts only cover WinAnsi, which matches Latin-1 for printable
+// characters; anything else becomes a question mark
+const toPdfText = (value: string) => value
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+  .replace(/[\\()]/g, char => `\\${char}`);
+
+// Helvetica averages about half an em per character, which is close enough
+// to wrap prose without font metrics
+function wrap(text: string, size: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * 0.5));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return [...lines, line];
+}
+
+// Content streams for as many pages as the paragraphs take
+function layout(paragraphs: Paragraph[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const { text, size = 11, bold = false, spaceAfter = 0 } of paragraphs) {
+    const leading = size * 1.4;
+    for (const line of wrap(text, size)) {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${toPdfText(line)}) Tj ET`
+      );
+    }
+    y -= spaceAfter;
+  }
+  return pages.map(commands => commands.join('\n'));
+}
+
+function buildPdf(pages: string[]): Buffer {
+  // Objects by number: catalog, page tree, the two fonts, then a page and its
+  // content stream for every page
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((content, i) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ]),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+export function renderOfferLetter(details: OfferLetterDetails): Buffer {
+  const salary = `${details.currency} ${details.salary.toLocaleString('en-IN')}`;
+
+  return buildPdf(layout([
+    { text: details.companyName, size: 16, bold: true },
+    { text: details.companyAddress, size: 10, spaceAfter: 24 },
+    { text: `Ref: ${details.reference}`, size: 10 },
+    { text: `Date: ${formatLetterDate(details.issuedAt)}`, size: 10, spaceAfter: 18 },
+    { text: `Dear ${details.applicantName},`, spaceAfter: 12 },
+    { text: `Offer of Appointment: ${details.jobTitle}`, size: 13, bold: true, spaceAfter: 12 },
+    {
+      text: `We are pleased to offer you the position of ${details.level} in the Department of ` +
+        `${details.department} at ${details.companyName}, ${details.location}, on the following terms:`,
+      spaceAfter: 12,
+    },
+    { text: `Position: ${details.jobTitle}` },
+    { text: `Pay level: ${details.payLevel}` },
+    { text: `Annual salary: ${salary}` },
+    { text: `Date of joining: ${formatLetterDate(details.joiningDate)}`, spaceAfter: 12 },
+    {
+      text: `Please accept or decline this offer on EduHire Faculty by ${formatLetterDate(details.expiresAt)}. ` +
+        'The offer lapses if it has not been accepted by then.',
+      spaceAfter: 12,
+    },
+    {
+      text: 'This appointment is subject to verification of your qualifications and testimonials at the time of joining.',
+      spaceAfter: 24,
+    },
+    { text: 'Yours sincerely,' },
+    { text: `For ${details.companyName}`, bold: true, spaceAfter: 36 },
+    { text: `This letter was issued through EduHire Faculty. Offer reference ${details.reference}.`, size: 8 },
+  ]));
+}
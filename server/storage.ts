@@ -2,52 +2,125 @@ import {
   User, 
   Company, 
   Job, 
+  JobRevision,
   Application, 
   Report, 
   AuditLog,
   InsertUser, 
   InsertCompany, 
   InsertJob, 
+  InsertJobRevision,
+  ProofDocument,
+  InsertProofDocument,
+  CompanyMembership,
+  InsertCompanyMembership,
+  CompanyInvitation,
+  InsertCompanyInvitation,
   InsertApplication, 
+  HiringCommittee,
+  InsertHiringCommittee,
+  Scorecard,
+  InsertScorecard,
+  InterviewSlot,
+  InsertInterviewSlot,
+  Offer,
+  InsertOffer,
   InsertReport, 
   InsertAuditLog,
+  ChangeRecord,
+  ChangeTargetType,
+  diffFields,
+  SavedSearch,
+  InsertSavedSearch,
+  Notification,
+  InsertNotification,
   JobSearchFilters,
-  PaginatedResponse,
+  FacetedPaginatedResponse,
+  ReportFilters,
+  ReportType,
+  AuditLogFilters,
+  UserSearchFilters,
   UserRole,
   CompanyStatus,
   JobStatus,
   ApplicationStatus
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { createDatabase } from "./db";
+import { PgStorage } from "./pg-storage";
+import { FirestoreStorage } from "./firestore-storage";
+import { adminDb } from "./services/firebase-admin";
+import { searchJobList } from "./job-search";
+import { JobSearchIndex } from "./search-index";
 
 // Enhanced storage interface for faculty jobs marketplace
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  // Users are keyed by their Firebase uid
+  createUser(uid: string, user: InsertUser): Promise<User>;
+  // Fields set to undefined in `updates` are cleared
   updateUser(id: string, updates: Partial<User>): Promise<void>;
   deleteUser(id: string): Promise<void>;
+  // Newest accounts first, starting after the user with id `after`
+  searchUsers(filters?: UserSearchFilters, limit?: number, after?: string): Promise<User[]>;
 
   // Company operations
   getCompany(id: string): Promise<Company | undefined>;
   getCompanyByOwner(ownerUid: string): Promise<Company | undefined>;
   createCompany(company: InsertCompany): Promise<Company>;
-  updateCompany(id: string, updates: Partial<Company>): Promise<void>;
+  // Fields set to undefined in `updates` are cleared. Changed fields are kept
+  // as a change record attributed to actorUid.
+  updateCompany(id: string, updates: Partial<Company>, actorUid?: string): Promise<void>;
   getPendingCompanies(): Promise<Company[]>;
   getApprovedCompanies(): Promise<Company[]>;
 
+  // Proof document operations
+  getProofDocument(id: string): Promise<ProofDocument | undefined>;
+  // Oldest first
+  getProofDocumentsByCompany(companyId: string): Promise<ProofDocument[]>;
+  createProofDocument(document: InsertProofDocument): Promise<ProofDocument>;
+  // Fields set to undefined in `updates` are cleared
+  updateProofDocument(id: string, updates: Partial<ProofDocument>): Promise<void>;
+
+  // Company membership operations
+  getCompanyMembership(companyId: string, userUid: string): Promise<CompanyMembership | undefined>;
+  // Oldest first
+  getCompanyMembershipsByCompany(companyId: string): Promise<CompanyMembership[]>;
+  getCompanyMembershipsByUser(userUid: string): Promise<CompanyMembership[]>;
+  createCompanyMembership(membership: InsertCompanyMembership): Promise<CompanyMembership>;
+  updateCompanyMembership(id: string, updates: Partial<CompanyMembership>): Promise<void>;
+  deleteCompanyMembership(id: string): Promise<void>;
+
+  // Company invitation operations
+  getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined>;
+  getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined>;
+  // Newest first, including expired ones
+  getPendingCompanyInvitations(companyId: string): Promise<CompanyInvitation[]>;
+  createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation>;
+  updateCompanyInvitation(id: string, updates: Partial<CompanyInvitation>): Promise<void>;
+
   // Job operations
   getJob(id: string): Promise<Job | undefined>;
   createJob(job: InsertJob): Promise<Job>;
-  updateJob(id: string, updates: Partial<Job>): Promise<void>;
+  // Fields set to undefined in `updates` are cleared. Changed fields are kept
+  // as a change record attributed to actorUid.
+  updateJob(id: string, updates: Partial<Job>, actorUid?: string): Promise<void>;
   deleteJob(id: string): Promise<void>;
   getJobsByCompany(companyId: string): Promise<Job[]>;
   getJobsByPoster(posterUid: string): Promise<Job[]>;
   getPendingJobs(): Promise<Job[]>;
   getApprovedJobs(): Promise<Job[]>;
   getFeaturedJobs(limit?: number): Promise<Job[]>;
-  searchJobs(filters: Partial<JobSearchFilters>, page?: number, limit?: number): Promise<PaginatedResponse<Job>>;
+  searchJobs(filters: Partial<JobSearchFilters>, page?: number, limit?: number): Promise<FacetedPaginatedResponse<Job>>;
+
+  // Job revision operations
+  getJobRevision(id: string): Promise<JobRevision | undefined>;
+  getPendingJobRevision(jobId: string): Promise<JobRevision | undefined>;
+  getPendingJobRevisions(): Promise<JobRevision[]>;
+  createJobRevision(revision: InsertJobRevision): Promise<JobRevision>;
+  updateJobRevision(id: string, updates: Partial<JobRevision>): Promise<void>;
 
   // Application operations
   getApplication(id: string): Promise<Application | undefined>;
@@ -57,15 +130,72 @@ export interface IStorage {
   getApplicationsByUser(applicantUid: string): Promise<Application[]>;
   getApplicationsByJob(jobId: string): Promise<Application[]>;
 
+  // Hiring committee operations
+  getHiringCommitteeByJob(jobId: string): Promise<HiringCommittee | undefined>;
+  createHiringCommittee(committee: InsertHiringCommittee): Promise<HiringCommittee>;
+  updateHiringCommittee(id: string, updates: Partial<HiringCommittee>): Promise<void>;
+
+  // Scorecard operations
+  getScorecard(applicationId: string, reviewerUid: string): Promise<Scorecard | undefined>;
+  getScorecardsByApplication(applicationId: string): Promise<Scorecard[]>;
+  getScorecardsByJob(jobId: string): Promise<Scorecard[]>;
+  createScorecard(scorecard: InsertScorecard): Promise<Scorecard>;
+  // Fields set to undefined in `updates` are cleared
+  updateScorecard(id: string, updates: Partial<Scorecard>): Promise<void>;
+
+  // Interview slot operations
+  getInterviewSlot(id: string): Promise<InterviewSlot | undefined>;
+  // Soonest first
+  getInterviewSlotsByJob(jobId: string): Promise<InterviewSlot[]>;
+  getInterviewSlotsByApplicant(applicantUid: string): Promise<InterviewSlot[]>;
+  createInterviewSlot(slot: InsertInterviewSlot): Promise<InterviewSlot>;
+  // Fields set to undefined in `updates` are cleared
+  updateInterviewSlot(id: string, updates: Partial<InterviewSlot>): Promise<void>;
+  // Books the slot if it is still open; undefined if someone else got it first
+  bookInterviewSlot(id: string, applicationId: string, applicantUid: string): Promise<InterviewSlot | undefined>;
+
+  // Offer operations
+  getOffer(id: string): Promise<Offer | undefined>;
+  // Newest first
+  getOffersByJob(jobId: string): Promise<Offer[]>;
+  getOffersByApplicant(applicantUid: string): Promise<Offer[]>;
+  createOffer(offer: InsertOffer): Promise<Offer>;
+  // Fields set to undefined in `updates` are cleared
+  updateOffer(id: string, updates: Partial<Offer>): Promise<void>;
+
   // Report operations
   getReport(id: string): Promise<Report | undefined>;
   createReport(report: InsertReport): Promise<Report>;
   updateReport(id: string, updates: Partial<Report>): Promise<void>;
   getPendingReports(): Promise<Report[]>;
+  getReports(filters?: ReportFilters): Promise<Report[]>;
+  getPendingReportByReporter(reporterUid: string, type: ReportType, targetId: string): Promise<Report | undefined>;
+  countReportsByReporterSince(reporterUid: string, since: Date): Promise<number>;
+
+  // Saved search operations
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined>;
+  getSavedSearchesByUser(userUid: string): Promise<SavedSearch[]>;
+  getActiveSavedSearches(): Promise<SavedSearch[]>;
+  createSavedSearch(savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: string, updates: Partial<SavedSearch>): Promise<void>;
+  deleteSavedSearch(id: string): Promise<void>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUser(userUid: string, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userUid: string): Promise<number>;
+  // Marks the given notifications read, or all of the user's when ids is omitted
+  markNotificationsRead(userUid: string, ids?: string[]): Promise<void>;
 
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(limit?: number): Promise<AuditLog[]>;
+  // Newest first; `before` is the id of the last entry of the previous page
+  getAuditLogs(filters?: AuditLogFilters, limit?: number, before?: string): Promise<AuditLog[]>;
+
+  // Change history operations
+  // Newest first; only records created after `since` when given
+  getChangeRecords(targetType: ChangeTargetType, targetId: string, since?: Date): Promise<ChangeRecord[]>;
 
   // Statistics
   getStats(): Promise<{
@@ -83,9 +213,21 @@ export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private companies: Map<string, Company> = new Map();
   private jobs: Map<string, Job> = new Map();
+  private jobRevisions: Map<string, JobRevision> = new Map();
+  private proofDocuments: Map<string, ProofDocument> = new Map();
+  private companyMemberships: Map<string, CompanyMembership> = new Map();
+  private companyInvitations: Map<string, CompanyInvitation> = new Map();
   private applications: Map<string, Application> = new Map();
+  private hiringCommittees: Map<string, HiringCommittee> = new Map();
+  private scorecards: Map<string, Scorecard> = new Map();
+  private interviewSlots: Map<string, InterviewSlot> = new Map();
+  private offers: Map<string, Offer> = new Map();
   private reports: Map<string, Report> = new Map();
   private auditLogs: Map<string, AuditLog> = new Map();
+  private changeRecords: Map<string, ChangeRecord> = new Map();
+  private savedSearches: Map<string, SavedSearch> = new Map();
+  private notifications: Map<string, Notification> = new Map();
+  private jobIndex = new JobSearchIndex(job => this.companies.get(job.companyId)?.name);
 
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -96,15 +238,14 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.email === email);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
+  async createUser(uid: string, insertUser: InsertUser): Promise<User> {
     const user: User = {
       ...insertUser,
-      id,
+      id: uid,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.users.set(id, user);
+    this.users.set(uid, user);
     return user;
   }
 
@@ -115,17 +256,85 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async searchUsers(filters: UserSearchFilters = {}, limit: number = 50, after?: string): Promise<User[]> {
+    const q = filters.q?.toLowerCase();
+    const users = Array.from(this.users.values())
+      .filter(user =>
+        (!q || user.email.toLowerCase().includes(q) || user.displayName.toLowerCase().includes(q)) &&
+        (!filters.role || user.role === filters.role) &&
+        (filters.emailVerified === undefined || user.emailVerified === filters.emailVerified)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+
+    const start = after ? users.findIndex(user => user.id === after) + 1 : 0;
+    // An unknown cursor has nothing after it
+    return after && start === 0 ? [] : users.slice(start, start + limit);
+  }
+
   async deleteUser(id: string): Promise<void> {
     this.users.delete(id);
     // Also clean up related data
     const userCompanies = Array.from(this.companies.values()).filter(c => c.ownerUid === id);
     userCompanies.forEach(company => this.companies.delete(company.id));
+
+    const companyDocuments = Array.from(this.proofDocuments.values())
+      .filter(d => userCompanies.some(company => company.id === d.companyId));
+    companyDocuments.forEach(document => this.proofDocuments.delete(document.id));
+
+    // The user's own memberships, and everyone's in the companies they created
+    const memberships = Array.from(this.companyMemberships.values())
+      .filter(m => m.userUid === id || userCompanies.some(company => company.id === m.companyId));
+    memberships.forEach(membership => this.companyMemberships.delete(membership.id));
+
+    const companyInvitations = Array.from(this.companyInvitations.values())
+      .filter(i => userCompanies.some(company => company.id === i.companyId));
+    companyInvitations.forEach(invitation => this.companyInvitations.delete(invitation.id));
     
     const userJobs = Array.from(this.jobs.values()).filter(j => j.posterUid === id);
-    userJobs.forEach(job => this.jobs.delete(job.id));
+    userJobs.forEach(job => {
+      this.jobs.delete(job.id);
+      this.jobIndex.remove(job.id);
+    });
+
+    const userRevisions = Array.from(this.jobRevisions.values()).filter(r => r.submittedBy === id);
+    userRevisions.forEach(revision => this.jobRevisions.delete(revision.id));
     
     const userApplications = Array.from(this.applications.values()).filter(a => a.applicantUid === id);
     userApplications.forEach(app => this.applications.delete(app.id));
+
+    // Committees and scores for the user's jobs, and scores of their applications
+    const userCommittees = Array.from(this.hiringCommittees.values())
+      .filter(c => userJobs.some(job => job.id === c.jobId));
+    userCommittees.forEach(committee => this.hiringCommittees.delete(committee.id));
+    const scorecards = Array.from(this.scorecards.values())
+      .filter(s => userJobs.some(job => job.id === s.jobId) || userApplications.some(app => app.id === s.applicationId));
+    scorecards.forEach(scorecard => this.scorecards.delete(scorecard.id));
+
+    // Slots for the user's jobs go, and ones they booked open up again
+    Array.from(this.interviewSlots.values()).forEach(slot => {
+      if (userJobs.some(job => job.id === slot.jobId)) {
+        this.interviewSlots.delete(slot.id);
+      } else if (slot.applicantUid === id) {
+        this.interviewSlots.set(slot.id, {
+          ...slot,
+          status: slot.status === 'booked' ? 'open' : slot.status,
+          applicationId: undefined,
+          applicantUid: undefined,
+          bookedAt: undefined,
+          updatedAt: new Date(),
+        });
+      }
+    });
+
+    const offers = Array.from(this.offers.values())
+      .filter(o => userJobs.some(job => job.id === o.jobId) || o.applicantUid === id);
+    offers.forEach(offer => this.offers.delete(offer.id));
+
+    const userSavedSearches = Array.from(this.savedSearches.values()).filter(s => s.userUid === id);
+    userSavedSearches.forEach(search => this.savedSearches.delete(search.id));
+
+    const userNotifications = Array.from(this.notifications.values()).filter(n => n.userUid === id);
+    userNotifications.forEach(notification => this.notifications.delete(notification.id));
   }
 
   // Company operations
@@ -143,6 +352,7 @@ export class MemStorage implements IStorage {
       ...insertCompany,
       id,
       status: 'pending',
+      resubmissionCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -150,10 +360,17 @@ export class MemStorage implements IStorage {
     return company;
   }
 
-  async updateCompany(id: string, updates: Partial<Company>): Promise<void> {
+  async updateCompany(id: string, updates: Partial<Company>, actorUid?: string): Promise<void> {
     const company = this.companies.get(id);
     if (company) {
+      this.recordChanges('company', id, company, updates, actorUid);
       this.companies.set(id, { ...company, ...updates, updatedAt: new Date() });
+      // Jobs are searchable by institute name, so reindex them on a rename
+      if (updates.name && updates.name !== company.name) {
+        Array.from(this.jobs.values())
+          .filter(job => job.companyId === id)
+          .forEach(job => this.jobIndex.add(job));
+      }
     }
   }
 
@@ -169,6 +386,113 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  // Proof document operations
+  async getProofDocument(id: string): Promise<ProofDocument | undefined> {
+    return this.proofDocuments.get(id);
+  }
+
+  async getProofDocumentsByCompany(companyId: string): Promise<ProofDocument[]> {
+    return Array.from(this.proofDocuments.values())
+      .filter(document => document.companyId === companyId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createProofDocument(insertDocument: InsertProofDocument): Promise<ProofDocument> {
+    const id = randomUUID();
+    const document: ProofDocument = {
+      ...insertDocument,
+      id,
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.proofDocuments.set(id, document);
+    return document;
+  }
+
+  async updateProofDocument(id: string, updates: Partial<ProofDocument>): Promise<void> {
+    const document = this.proofDocuments.get(id);
+    if (document) {
+      this.proofDocuments.set(id, { ...document, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  // Company membership operations
+  async getCompanyMembership(companyId: string, userUid: string): Promise<CompanyMembership | undefined> {
+    return Array.from(this.companyMemberships.values())
+      .find(membership => membership.companyId === companyId && membership.userUid === userUid);
+  }
+
+  async getCompanyMembershipsByCompany(companyId: string): Promise<CompanyMembership[]> {
+    return Array.from(this.companyMemberships.values())
+      .filter(membership => membership.companyId === companyId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCompanyMembershipsByUser(userUid: string): Promise<CompanyMembership[]> {
+    return Array.from(this.companyMemberships.values())
+      .filter(membership => membership.userUid === userUid)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createCompanyMembership(insertMembership: InsertCompanyMembership): Promise<CompanyMembership> {
+    const id = randomUUID();
+    const membership: CompanyMembership = {
+      ...insertMembership,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.companyMemberships.set(id, membership);
+    return membership;
+  }
+
+  async updateCompanyMembership(id: string, updates: Partial<CompanyMembership>): Promise<void> {
+    const membership = this.companyMemberships.get(id);
+    if (membership) {
+      this.companyMemberships.set(id, { ...membership, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  async deleteCompanyMembership(id: string): Promise<void> {
+    this.companyMemberships.delete(id);
+  }
+
+  // Company invitation operations
+  async getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    return this.companyInvitations.get(id);
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    return Array.from(this.companyInvitations.values()).find(invitation => invitation.token === token);
+  }
+
+  async getPendingCompanyInvitations(companyId: string): Promise<CompanyInvitation[]> {
+    return Array.from(this.companyInvitations.values())
+      .filter(invitation => invitation.companyId === companyId && invitation.status === 'pending')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createCompanyInvitation(insertInvitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const id = randomUUID();
+    const invitation: CompanyInvitation = {
+      ...insertInvitation,
+      id,
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.companyInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async updateCompanyInvitation(id: string, updates: Partial<CompanyInvitation>): Promise<void> {
+    const invitation = this.companyInvitations.get(id);
+    if (invitation) {
+      this.companyInvitations.set(id, { ...invitation, ...updates, updatedAt: new Date() });
+    }
+  }
+
   // Job operations
   async getJob(id: string): Promise<Job | undefined> {
     return this.jobs.get(id);
@@ -179,28 +503,45 @@ export class MemStorage implements IStorage {
     const job: Job = {
       ...insertJob,
       id,
-      status: 'pending',
+      status: insertJob.status || 'pending',
+      resubmissionCount: 0,
       viewCount: 0,
       applicationCount: 0,
+      applyClickCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     this.jobs.set(id, job);
+    this.jobIndex.add(job);
     return job;
   }
 
-  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
+  async updateJob(id: string, updates: Partial<Job>, actorUid?: string): Promise<void> {
     const job = this.jobs.get(id);
     if (job) {
-      this.jobs.set(id, { ...job, ...updates, updatedAt: new Date() });
+      this.recordChanges('job', id, job, updates, actorUid);
+      const updated = { ...job, ...updates, updatedAt: new Date() };
+      this.jobs.set(id, updated);
+      this.jobIndex.add(updated);
     }
   }
 
   async deleteJob(id: string): Promise<void> {
     this.jobs.delete(id);
+    this.jobIndex.remove(id);
     // Clean up related applications
     const jobApplications = Array.from(this.applications.values()).filter(a => a.jobId === id);
     jobApplications.forEach(app => this.applications.delete(app.id));
+    const jobRevisions = Array.from(this.jobRevisions.values()).filter(r => r.jobId === id);
+    jobRevisions.forEach(revision => this.jobRevisions.delete(revision.id));
+    const jobCommittees = Array.from(this.hiringCommittees.values()).filter(c => c.jobId === id);
+    jobCommittees.forEach(committee => this.hiringCommittees.delete(committee.id));
+    const jobScorecards = Array.from(this.scorecards.values()).filter(s => s.jobId === id);
+    jobScorecards.forEach(scorecard => this.scorecards.delete(scorecard.id));
+    const jobSlots = Array.from(this.interviewSlots.values()).filter(s => s.jobId === id);
+    jobSlots.forEach(slot => this.interviewSlots.delete(slot.id));
+    const jobOffers = Array.from(this.offers.values()).filter(o => o.jobId === id);
+    jobOffers.forEach(offer => this.offers.delete(offer.id));
   }
 
   async getJobsByCompany(companyId: string): Promise<Job[]> {
@@ -234,83 +575,45 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
-  async searchJobs(filters: Partial<JobSearchFilters>, page: number = 1, limit: number = 20): Promise<PaginatedResponse<Job>> {
-    let allJobs = Array.from(this.jobs.values()).filter(job => job.status === 'approved');
-
-    // Apply filters
-    if (filters.department) {
-      allJobs = allJobs.filter(job => job.department === filters.department);
-    }
-    if (filters.instituteType) {
-      allJobs = allJobs.filter(job => job.instituteType === filters.instituteType);
-    }
-    if (filters.level) {
-      allJobs = allJobs.filter(job => job.level === filters.level);
-    }
-    if (filters.location) {
-      allJobs = allJobs.filter(job => 
-        job.location.city.toLowerCase().includes(filters.location!.toLowerCase()) ||
-        job.location.state.toLowerCase().includes(filters.location!.toLowerCase())
-      );
-    }
-    if (filters.employmentType) {
-      allJobs = allJobs.filter(job => job.employmentType === filters.employmentType);
-    }
-
-    // Text search
-    if (filters.query) {
-      const query = filters.query.toLowerCase();
-      allJobs = allJobs.filter(job =>
-        job.title.toLowerCase().includes(query) ||
-        job.description.toLowerCase().includes(query) ||
-        job.qualifications.some(q => q.toLowerCase().includes(query)) ||
-        job.skills.some(s => s.toLowerCase().includes(query))
-      );
-    }
+  async searchJobs(filters: Partial<JobSearchFilters>, page: number = 1, limit: number = 20): Promise<FacetedPaginatedResponse<Job>> {
+    const approvedJobs = Array.from(this.jobs.values()).filter(job => job.status === 'approved');
+    return searchJobList(approvedJobs, filters, page, limit, this.jobIndex);
+  }
 
-    // Date filtering
-    if (filters.postedWithin && filters.postedWithin !== 'all') {
-      const now = new Date();
-      let daysAgo = 0;
-      switch (filters.postedWithin) {
-        case '24h': daysAgo = 1; break;
-        case '7d': daysAgo = 7; break;
-        case '30d': daysAgo = 30; break;
-      }
-      const dateThreshold = new Date(now.getTime() - (daysAgo * 24 * 60 * 60 * 1000));
-      allJobs = allJobs.filter(job => job.createdAt >= dateThreshold);
-    }
+  // Job revision operations
+  async getJobRevision(id: string): Promise<JobRevision | undefined> {
+    return this.jobRevisions.get(id);
+  }
 
-    // Sorting
-    switch (filters.sortBy) {
-      case 'deadline':
-        allJobs.sort((a, b) => a.lastDate.getTime() - b.lastDate.getTime());
-        break;
-      case 'salary_high':
-        allJobs.sort((a, b) => (b.maxSalary || 0) - (a.maxSalary || 0));
-        break;
-      case 'salary_low':
-        allJobs.sort((a, b) => (a.minSalary || 0) - (b.minSalary || 0));
-        break;
-      default: // 'newest'
-        allJobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-        break;
-    }
+  async getPendingJobRevision(jobId: string): Promise<JobRevision | undefined> {
+    return Array.from(this.jobRevisions.values())
+      .find(revision => revision.jobId === jobId && revision.status === 'pending');
+  }
 
-    // Pagination
-    const total = allJobs.length;
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const items = allJobs.slice(startIndex, endIndex);
-    const hasMore = endIndex < total;
+  async getPendingJobRevisions(): Promise<JobRevision[]> {
+    return Array.from(this.jobRevisions.values())
+      .filter(revision => revision.status === 'pending')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
 
-    return {
-      items,
-      total,
-      page,
-      limit,
-      hasMore,
+  async createJobRevision(insertRevision: InsertJobRevision): Promise<JobRevision> {
+    const id = randomUUID();
+    const revision: JobRevision = {
+      ...insertRevision,
+      id,
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date(),
     };
+    this.jobRevisions.set(id, revision);
+    return revision;
+  }
+
+  async updateJobRevision(id: string, updates: Partial<JobRevision>): Promise<void> {
+    const revision = this.jobRevisions.get(id);
+    if (revision) {
+      this.jobRevisions.set(id, { ...revision, ...updates, updatedAt: new Date() });
+    }
   }
 
   // Application operations
@@ -354,6 +657,159 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  // Hiring committee operations
+  async getHiringCommitteeByJob(jobId: string): Promise<HiringCommittee | undefined> {
+    return Array.from(this.hiringCommittees.values()).find(committee => committee.jobId === jobId);
+  }
+
+  async createHiringCommittee(insertCommittee: InsertHiringCommittee): Promise<HiringCommittee> {
+    const id = randomUUID();
+    const committee: HiringCommittee = {
+      ...insertCommittee,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.hiringCommittees.set(id, committee);
+    return committee;
+  }
+
+  async updateHiringCommittee(id: string, updates: Partial<HiringCommittee>): Promise<void> {
+    const committee = this.hiringCommittees.get(id);
+    if (committee) {
+      this.hiringCommittees.set(id, { ...committee, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  // Scorecard operations
+  async getScorecard(applicationId: string, reviewerUid: string): Promise<Scorecard | undefined> {
+    return Array.from(this.scorecards.values())
+      .find(scorecard => scorecard.applicationId === applicationId && scorecard.reviewerUid === reviewerUid);
+  }
+
+  async getScorecardsByApplication(applicationId: string): Promise<Scorecard[]> {
+    return Array.from(this.scorecards.values())
+      .filter(scorecard => scorecard.applicationId === applicationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getScorecardsByJob(jobId: string): Promise<Scorecard[]> {
+    return Array.from(this.scorecards.values())
+      .filter(scorecard => scorecard.jobId === jobId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createScorecard(insertScorecard: InsertScorecard): Promise<Scorecard> {
+    const id = randomUUID();
+    const scorecard: Scorecard = {
+      ...insertScorecard,
+      id,
+      status: 'draft',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.scorecards.set(id, scorecard);
+    return scorecard;
+  }
+
+  async updateScorecard(id: string, updates: Partial<Scorecard>): Promise<void> {
+    const scorecard = this.scorecards.get(id);
+    if (scorecard) {
+      this.scorecards.set(id, { ...scorecard, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  // Interview slot operations
+  async getInterviewSlot(id: string): Promise<InterviewSlot | undefined> {
+    return this.interviewSlots.get(id);
+  }
+
+  async getInterviewSlotsByJob(jobId: string): Promise<InterviewSlot[]> {
+    return Array.from(this.interviewSlots.values())
+      .filter(slot => slot.jobId === jobId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getInterviewSlotsByApplicant(applicantUid: string): Promise<InterviewSlot[]> {
+    return Array.from(this.interviewSlots.values())
+      .filter(slot => slot.applicantUid === applicantUid)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async createInterviewSlot(insertSlot: InsertInterviewSlot): Promise<InterviewSlot> {
+    const id = randomUUID();
+    const slot: InterviewSlot = {
+      ...insertSlot,
+      id,
+      status: 'open',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.interviewSlots.set(id, slot);
+    return slot;
+  }
+
+  async updateInterviewSlot(id: string, updates: Partial<InterviewSlot>): Promise<void> {
+    const slot = this.interviewSlots.get(id);
+    if (slot) {
+      this.interviewSlots.set(id, { ...slot, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  async bookInterviewSlot(id: string, applicationId: string, applicantUid: string): Promise<InterviewSlot | undefined> {
+    const slot = this.interviewSlots.get(id);
+    if (slot?.status !== 'open') {
+      return undefined;
+    }
+    const booked: InterviewSlot = {
+      ...slot,
+      status: 'booked',
+      applicationId,
+      applicantUid,
+      bookedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.interviewSlots.set(id, booked);
+    return booked;
+  }
+
+  // Offer operations
+  async getOffer(id: string): Promise<Offer | undefined> {
+    return this.offers.get(id);
+  }
+
+  async getOffersByJob(jobId: string): Promise<Offer[]> {
+    return Array.from(this.offers.values())
+      .filter(offer => offer.jobId === jobId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOffersByApplicant(applicantUid: string): Promise<Offer[]> {
+    return Array.from(this.offers.values())
+      .filter(offer => offer.applicantUid === applicantUid)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createOffer(insertOffer: InsertOffer): Promise<Offer> {
+    const id = randomUUID();
+    const offer: Offer = {
+      ...insertOffer,
+      id,
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.offers.set(id, offer);
+    return offer;
+  }
+
+  async updateOffer(id: string, updates: Partial<Offer>): Promise<void> {
+    const offer = this.offers.get(id);
+    if (offer) {
+      this.offers.set(id, { ...offer, ...updates, updatedAt: new Date() });
+    }
+  }
+
   // Report operations
   async getReport(id: string): Promise<Report | undefined> {
     return this.reports.get(id);
@@ -385,6 +841,109 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getReports(filters: ReportFilters = {}): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter(report =>
+        (!filters.status || report.status === filters.status) &&
+        (!filters.type || report.type === filters.type) &&
+        (!filters.reason || report.reason === filters.reason)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPendingReportByReporter(reporterUid: string, type: ReportType, targetId: string): Promise<Report | undefined> {
+    return Array.from(this.reports.values()).find(report =>
+      report.reporterUid === reporterUid &&
+      report.type === type &&
+      report.targetId === targetId &&
+      report.status === 'pending'
+    );
+  }
+
+  async countReportsByReporterSince(reporterUid: string, since: Date): Promise<number> {
+    return Array.from(this.reports.values())
+      .filter(report => report.reporterUid === reporterUid && report.createdAt >= since)
+      .length;
+  }
+
+  // Saved search operations
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    return Array.from(this.savedSearches.values()).find(search => search.unsubscribeToken === token);
+  }
+
+  async getSavedSearchesByUser(userUid: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userUid === userUid)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getActiveSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter(search => search.active);
+  }
+
+  async createSavedSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const id = randomUUID();
+    const savedSearch: SavedSearch = {
+      ...insertSavedSearch,
+      id,
+      active: true,
+      lastCheckedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.savedSearches.set(id, savedSearch);
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<SavedSearch>): Promise<void> {
+    const savedSearch = this.savedSearches.get(id);
+    if (savedSearch) {
+      this.savedSearches.set(id, { ...savedSearch, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    this.savedSearches.delete(id);
+  }
+
+  // Notification operations
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      read: false,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async getNotificationsByUser(userUid: string, limit: number = 20): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userUid === userUid)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userUid: string): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userUid === userUid && !notification.read)
+      .length;
+  }
+
+  async markNotificationsRead(userUid: string, ids?: string[]): Promise<void> {
+    this.notifications.forEach((notification, id) => {
+      if (notification.userUid === userUid && (!ids || ids.includes(id))) {
+        this.notifications.set(id, { ...notification, read: true });
+      }
+    });
+  }
+
   // Audit log operations
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const id = randomUUID();
@@ -397,10 +956,49 @@ export class MemStorage implements IStorage {
     return log;
   }
 
-  async getAuditLogs(limit: number = 50): Promise<AuditLog[]> {
-    return Array.from(this.auditLogs.values())
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, limit);
+  async getAuditLogs(filters: AuditLogFilters = {}, limit: number = 50, before?: string): Promise<AuditLog[]> {
+    const logs = Array.from(this.auditLogs.values())
+      .filter(log =>
+        (!filters.actorUid || log.actorUid === filters.actorUid) &&
+        (!filters.action || log.action === filters.action) &&
+        (!filters.targetType || log.targetType === filters.targetType) &&
+        (!filters.targetId || log.targetId === filters.targetId) &&
+        (!filters.from || log.timestamp >= filters.from) &&
+        (!filters.to || log.timestamp <= filters.to)
+      )
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id.localeCompare(a.id));
+
+    const start = before ? logs.findIndex(log => log.id === before) + 1 : 0;
+    // An unknown cursor has nothing after it
+    return before && start === 0 ? [] : logs.slice(start, start + limit);
+  }
+
+  // Change history operations
+  async getChangeRecords(targetType: ChangeTargetType, targetId: string, since?: Date): Promise<ChangeRecord[]> {
+    // Records are kept in insertion order, so reversing first keeps records
+    // from the same millisecond newest first
+    return Array.from(this.changeRecords.values())
+      .reverse()
+      .filter(record =>
+        record.targetType === targetType &&
+        record.targetId === targetId &&
+        (!since || record.createdAt > since)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private recordChanges(
+    targetType: ChangeTargetType,
+    targetId: string,
+    before: Record<string, unknown>,
+    updates: Record<string, unknown>,
+    actorUid?: string
+  ): void {
+    const changes = diffFields(before, updates);
+    if (changes.length > 0) {
+      const id = randomUUID();
+      this.changeRecords.set(id, { id, targetType, targetId, actorUid, changes, createdAt: new Date() });
+    }
   }
 
   // Statistics
@@ -433,4 +1031,25 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// Pick the storage backend from STORAGE_DRIVER ("memory" by default)
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || 'memory';
+
+  switch (driver) {
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_DRIVER=postgres");
+      }
+      return new PgStorage(createDatabase(process.env.DATABASE_URL));
+    case 'firestore':
+      // Shares data with the client SDK and the Cloud Functions; honours
+      // FIRESTORE_EMULATOR_HOST for local runs against the emulator
+      return new FirestoreStorage(adminDb);
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const storage = createStorage();
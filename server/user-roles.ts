@@ -0,0 +1,134 @@
+import { User, UserRole } from "@shared/schema";
+import { getAuthUserProfile, listUserRoleClaims, revokeUserSessions, setUserRole } from "./services/firebase-admin";
+import { storage } from "./storage";
+
+// Audit actor for changes nobody made by hand, e.g. scheduled repairs
+export const SYSTEM_ACTOR = 'system';
+
+// How often the scheduler reconciles roles
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface RoleRepair {
+  uid: string;
+  role: UserRole;
+  previousRole: UserRole;
+}
+
+export interface RoleReconciliation {
+  checked: number;
+  repaired: RoleRepair[];
+  // Accounts that had no user record yet
+  created: string[];
+}
+
+// The user record of an account, created from the account if it has none.
+// The client writes profiles straight to Firestore, so with the other storage
+// drivers the server only has records for users it has created here.
+export async function ensureUserRecord(uid: string): Promise<User> {
+  const user = await storage.getUser(uid);
+  if (user) {
+    return user;
+  }
+
+  const { role: claim, ...profile } = await getAuthUserProfile(uid);
+  const parsed = UserRole.safeParse(claim);
+  return storage.createUser(uid, { ...profile, role: parsed.success ? parsed.data : 'seeker' });
+}
+
+// Roles change only here. The custom claim is what the API and the security
+// rules check, so it is set first; the users document mirrors it for queries
+// and display, and reconciliation repairs it if this fails halfway. Issued
+// tokens keep the old claim, so taking a role away also revokes the user's
+// sessions.
+export async function changeUserRole(
+  uid: string,
+  role: UserRole,
+  actorUid: string,
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  const user = await storage.getUser(uid);
+  await setUserRole(uid, role);
+  await storage.updateUser(uid, { role });
+  if (user && user.role !== 'seeker' && user.role !== role) {
+    await revokeUserSessions(uid);
+  }
+
+  await storage.createAuditLog({
+    actorUid,
+    action: 'user_role_changed',
+    targetType: 'user',
+    targetId: uid,
+    metadata: { ...metadata, role, previousRole: user?.role },
+  });
+}
+
+// Seekers become employers when their institution is approved or they join an
+// approved one; staff keep their role
+export async function grantEmployerRole(uid: string, actorUid: string, companyId: string): Promise<boolean> {
+  const user = await ensureUserRecord(uid);
+  if (user.role !== 'seeker') {
+    return false;
+  }
+  await changeUserRole(uid, 'employer', actorUid, { companyId });
+  return true;
+}
+
+// Brings every users document in line with its account's role claim. Claims
+// win: only the server can set them, while profiles written before roles
+// were locked down may carry a role their owner gave themselves.
+export async function reconcileUserRoles(actorUid: string = SYSTEM_ACTOR): Promise<RoleReconciliation> {
+  const result: RoleReconciliation = { checked: 0, repaired: [], created: [] };
+  let pageToken: string | undefined;
+
+  do {
+    const page = await listUserRoleClaims(pageToken);
+    for (const { uid, role: claim } of page.users) {
+      let user = await storage.getUser(uid);
+      result.checked++;
+      if (!user) {
+        user = await ensureUserRecord(uid);
+        result.created.push(uid);
+      }
+
+      const parsed = UserRole.safeParse(claim);
+      const role = parsed.success ? parsed.data : 'seeker';
+      if (!parsed.success && claim !== undefined) {
+        await setUserRole(uid, role);
+      }
+      if (user.role === role) {
+        continue;
+      }
+
+      await storage.updateUser(uid, { role });
+      await storage.createAuditLog({
+        actorUid,
+        action: 'user_role_changed',
+        targetType: 'user',
+        targetId: uid,
+        metadata: { role, previousRole: user.role, reconciled: true },
+      });
+      result.repaired.push({ uid, role, previousRole: user.role });
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  return result;
+}
+
+export function startRoleReconciliationScheduler(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    reconcileUserRoles()
+      .then(({ repaired, created }) => {
+        if (repaired.length > 0) {
+          console.warn(`Repaired ${repaired.length} user role(s):`, repaired);
+        }
+        if (created.length > 0) {
+          console.warn(`Created ${created.length} missing user record(s):`, created);
+        }
+      })
+      .catch(error => console.error('Role reconciliation failed:', error));
+  }, RECONCILE_INTERVAL_MS);
+  // Don't keep the process alive just for reconciliation
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_TRANSITIONS,
+  WITHDRAWABLE_APPLICATION_STATUSES,
+  canTransitionApplication,
+} from "./applications";
+
+describe("canTransitionApplication", () => {
+  it("moves new applications through review", () => {
+    assert.ok(canTransitionApplication("submitted", "reviewed"));
+    assert.ok(canTransitionApplication("submitted", "shortlisted"));
+    assert.ok(canTransitionApplication("reviewed", "shortlisted"));
+    assert.ok(canTransitionApplication("shortlisted", "reviewed"));
+  });
+
+  it("lets employers reject until an offer is accepted", () => {
+    for (const status of ["submitted", "reviewed", "shortlisted", "offered"] as const) {
+      assert.ok(canTransitionApplication(status, "rejected"), status);
+    }
+    assert.ok(!canTransitionApplication("accepted", "rejected"));
+  });
+
+  it("reopens rejected applications for review only", () => {
+    assert.deepEqual(APPLICATION_STATUS_TRANSITIONS.rejected, ["reviewed"]);
+    assert.ok(!canTransitionApplication("rejected", "shortlisted"));
+  });
+
+  it("leaves offers, their answers and withdrawals to the applicant", () => {
+    for (const from of APPLICATION_STATUSES) {
+      assert.ok(!canTransitionApplication(from, "offered"), `${from} -> offered`);
+      assert.ok(!canTransitionApplication(from, "declined"), `${from} -> declined`);
+      assert.ok(!canTransitionApplication(from, "withdrawn"), `${from} -> withdrawn`);
+    }
+    assert.ok(!canTransitionApplication("offered", "accepted"));
+  });
+
+  it("only records joining for accepted offers", () => {
+    for (const from of APPLICATION_STATUSES) {
+      assert.equal(canTransitionApplication(from, "joined"), from === "accepted", from);
+    }
+  });
+
+  it("ends at declined, joined and withdrawn", () => {
+    for (const status of ["declined", "joined", "withdrawn"] as const) {
+      assert.deepEqual(APPLICATION_STATUS_TRANSITIONS[status], [], status);
+    }
+  });
+
+  it("never stays in place", () => {
+    for (const status of APPLICATION_STATUSES) {
+      assert.ok(!canTransitionApplication(status, status), status);
+    }
+  });
+});
+
+describe("WITHDRAWABLE_APPLICATION_STATUSES", () => {
+  it("stops withdrawals once an offer is made", () => {
+    assert.deepEqual(WITHDRAWABLE_APPLICATION_STATUSES, ["submitted", "reviewed", "shortlisted"]);
+  });
+});
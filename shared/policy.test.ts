@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_ROLE_PERMISSIONS,
+  COMPANY_PERMISSIONS,
+  COMPANY_ROLES,
+  POLICY,
+  STAFF_ROLES,
+  USER_ROLES,
+  can,
+  hasAdminPermission,
+  hasCompanyPermission,
+  isStaffRole,
+  type Action,
+  type Actor,
+} from "./policy";
+
+const actor = (role?: string, fields: Partial<Actor> = {}): Actor => ({
+  uid: "user-1",
+  role,
+  emailVerified: true,
+  ...fields,
+});
+
+describe("can", () => {
+  it("denies everything to signed-out and unverified users", () => {
+    for (const action of Object.keys(POLICY) as Action[]) {
+      assert.ok(!can(undefined, action), action);
+      assert.ok(!can(actor("admin", { emailVerified: false }), action, { ownerUid: "user-1", companyRole: "owner" }), action);
+    }
+  });
+
+  it("treats accounts without a role claim as seekers", () => {
+    assert.ok(can(actor(undefined), "application.create"));
+    assert.ok(can(actor(""), "search.save"));
+    assert.ok(!can(actor(undefined), "job.moderate"));
+  });
+
+  it("lets any verified user register an institution", () => {
+    for (const role of USER_ROLES) {
+      assert.ok(can(actor(role), "company.create"), role);
+    }
+  });
+
+  it("limits applying to seekers", () => {
+    assert.ok(can(actor("seeker"), "application.create"));
+    for (const role of ["employer", "moderator", "support", "admin"]) {
+      assert.ok(!can(actor(role), "application.create"), role);
+    }
+  });
+
+  it("lets applicants act on their own applications and offers only", () => {
+    assert.ok(can(actor("seeker"), "application.withdraw", { ownerUid: "user-1" }));
+    assert.ok(!can(actor("seeker"), "application.withdraw", { ownerUid: "user-2" }));
+    assert.ok(!can(actor("seeker"), "application.withdraw"));
+    assert.ok(can(actor("seeker"), "interview.book", { ownerUid: "user-1" }));
+    assert.ok(!can(actor("seeker"), "offer.respond", { ownerUid: "user-2" }));
+    // Owning it is not enough for someone who is no longer a seeker
+    assert.ok(!can(actor("employer"), "offer.respond", { ownerUid: "user-1" }));
+  });
+
+  it("lets seekers reach their own resumes and offers but not others'", () => {
+    assert.ok(can(actor("seeker"), "resume.view", { ownerUid: "user-1" }));
+    assert.ok(can(actor("seeker"), "offer.view", { ownerUid: "user-1" }));
+    assert.ok(!can(actor("seeker"), "resume.view", { ownerUid: "user-2" }));
+  });
+
+  it("grants company actions by company role", () => {
+    const employer = actor("employer");
+    assert.ok(can(employer, "company.update", { companyRole: "owner" }));
+    assert.ok(!can(employer, "company.update", { companyRole: "recruiter" }));
+    assert.ok(can(employer, "job.update", { companyRole: "recruiter" }));
+    assert.ok(!can(employer, "job.update", { companyRole: "reviewer" }));
+    assert.ok(can(employer, "application.review", { companyRole: "reviewer" }));
+    assert.ok(!can(employer, "application.review", { companyRole: "viewer" }));
+    assert.ok(can(employer, "application.view", { companyRole: "viewer" }));
+    assert.ok(!can(employer, "application.view"));
+  });
+
+  it("lets registrants manage their company before they become employers", () => {
+    assert.ok(can(actor("seeker"), "company.update", { companyRole: "owner" }));
+    assert.ok(!can(actor("seeker"), "job.create", { companyRole: "owner" }));
+    assert.ok(!can(actor("seeker"), "application.view", { companyRole: "owner" }));
+  });
+
+  it("keeps staff out of companies", () => {
+    for (const role of STAFF_ROLES) {
+      assert.ok(!can(actor(role), "company.join"), role);
+    }
+    assert.ok(can(actor("seeker"), "company.join"));
+    assert.ok(can(actor("employer"), "company.join"));
+  });
+
+  it("gives each staff tier only its permissions", () => {
+    assert.ok(can(actor("moderator"), "job.moderate"));
+    assert.ok(can(actor("moderator"), "company.view_verification"));
+    assert.ok(!can(actor("moderator"), "user.view"));
+    assert.ok(!can(actor("moderator"), "application.view"));
+
+    assert.ok(can(actor("support"), "user.view"));
+    assert.ok(can(actor("support"), "user.email"));
+    assert.ok(!can(actor("support"), "user.manage"));
+    assert.ok(!can(actor("support"), "report.moderate"));
+
+    for (const action of ["user.manage", "platform.manage", "application.review", "resume.view", "job.delete"] as const) {
+      assert.ok(can(actor("admin"), action), action);
+      assert.ok(!can(actor("moderator"), action), action);
+    }
+  });
+
+  it("gives no staff powers to seekers and employers", () => {
+    const staffActions = (Object.keys(POLICY) as Action[]).filter(action =>
+      POLICY[action].every(grant => grant.staff)
+    );
+    for (const role of ["seeker", "employer"]) {
+      for (const action of staffActions) {
+        assert.ok(!can(actor(role), action, { ownerUid: "user-1", companyRole: "owner" }), `${role} ${action}`);
+      }
+    }
+  });
+});
+
+describe("role helpers", () => {
+  it("knows the staff roles", () => {
+    assert.deepEqual(USER_ROLES.filter(isStaffRole), ["moderator", "support", "admin"]);
+    assert.ok(!isStaffRole(undefined));
+  });
+
+  it("gives permissions to staff only, and all of them to admins", () => {
+    for (const role of USER_ROLES) {
+      assert.equal(ADMIN_ROLE_PERMISSIONS[role].length > 0, isStaffRole(role), role);
+    }
+    assert.deepEqual([...ADMIN_ROLE_PERMISSIONS.admin].sort(), [...ADMIN_PERMISSIONS].sort());
+    assert.ok(!hasAdminPermission("superuser", "manage_platform"));
+    assert.ok(!hasAdminPermission(undefined, "view_users"));
+  });
+
+  it("orders company roles from most to least powerful", () => {
+    for (let i = 1; i < COMPANY_ROLES.length; i++) {
+      const permissions = (role: (typeof COMPANY_ROLES)[number]) =>
+        COMPANY_PERMISSIONS.filter(permission => hasCompanyPermission(role, permission));
+      const higher = permissions(COMPANY_ROLES[i - 1]);
+      for (const permission of permissions(COMPANY_ROLES[i])) {
+        assert.ok(higher.includes(permission), `${COMPANY_ROLES[i - 1]} lacks ${permission}`);
+      }
+    }
+    assert.ok(!hasCompanyPermission(undefined, "view_applications"));
+  });
+});
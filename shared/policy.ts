@@ -0,0 +1,177 @@
+// Authorization policy
+// Who may do what, in one place. The API asks can() through authorize() and
+// its handlers, the Cloud Functions ask a copy of this module kept at
+// functions/src/policy.ts, and the role helpers in firestore.rules and
+// storage.rules are generated from the maps below. `npm run policy:sync`
+// rewrites the copy and the helpers; `npm run policy:check` fails when they,
+// or the rules that use them, have drifted.
+//
+// The module has no imports so that the functions copy compiles on its own.
+
+// User roles
+// Staff come in tiers: moderators review submissions and reports, support
+// staff look users up and resend their emails, and admins (super-admins) can
+// do everything, including changing roles and deleting accounts.
+export const USER_ROLES = ["seeker", "employer", "moderator", "support", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const STAFF_ROLES: UserRole[] = ["moderator", "support", "admin"];
+
+export const ADMIN_PERMISSIONS = [
+  "moderate_content",
+  "view_users",
+  "send_user_emails",
+  "manage_users",
+  "view_audit_log",
+  "manage_platform",
+] as const;
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<UserRole, AdminPermission[]> = {
+  seeker: [],
+  employer: [],
+  moderator: ["moderate_content", "view_audit_log"],
+  support: ["view_users", "send_user_emails"],
+  admin: ["moderate_content", "view_users", "send_user_emails", "manage_users", "view_audit_log", "manage_platform"],
+};
+
+// Company memberships
+// Institutions have several HR staff and department heads working on their
+// jobs. The employer who created a company is always one of its owners.
+export const COMPANY_ROLES = ["owner", "recruiter", "reviewer", "viewer"] as const;
+export type CompanyRole = (typeof COMPANY_ROLES)[number];
+
+export const COMPANY_PERMISSIONS = [
+  "manage_company",
+  "manage_members",
+  "manage_jobs",
+  "review_applications",
+  "view_applications",
+] as const;
+export type CompanyPermission = (typeof COMPANY_PERMISSIONS)[number];
+
+export const COMPANY_ROLE_PERMISSIONS: Record<CompanyRole, CompanyPermission[]> = {
+  owner: ["manage_company", "manage_members", "manage_jobs", "review_applications", "view_applications"],
+  recruiter: ["manage_jobs", "review_applications", "view_applications"],
+  reviewer: ["review_applications", "view_applications"],
+  viewer: ["view_applications"],
+};
+
+export function isStaffRole(role: string | undefined): boolean {
+  return STAFF_ROLES.includes(role as UserRole);
+}
+
+export function hasAdminPermission(role: string | undefined, permission: AdminPermission): boolean {
+  return (USER_ROLES as readonly string[]).includes(role as string) &&
+    ADMIN_ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
+
+export function hasCompanyPermission(role: CompanyRole | undefined, permission: CompanyPermission): boolean {
+  return !!role && COMPANY_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Someone asking to do something, as their ID token describes them
+export interface Actor {
+  uid: string;
+  // Accounts without a role claim are seekers
+  role?: string;
+  emailVerified?: boolean;
+}
+
+// What the policy needs to know about the thing acted on. The actor's role in
+// the company it belongs to takes a lookup, so callers resolve it.
+export interface PolicyResource {
+  ownerUid?: string;
+  companyRole?: CompanyRole;
+}
+
+// One way of being allowed an action; every condition it sets must hold
+export interface Grant {
+  staff?: AdminPermission;
+  roles?: UserRole[];
+  // The actor is the resource's owner, e.g. the applicant
+  owner?: boolean;
+  company?: CompanyPermission;
+}
+
+export type Action =
+  | "company.create"
+  | "company.update"
+  | "company.view_verification"
+  | "company.manage_members"
+  | "company.join"
+  | "company.moderate"
+  | "job.create"
+  | "job.update"
+  | "job.moderate"
+  | "job.delete"
+  | "application.create"
+  | "application.withdraw"
+  | "application.view"
+  | "application.review"
+  | "application.list_own"
+  | "interview.manage"
+  | "interview.book"
+  | "resume.view"
+  | "offer.create"
+  | "offer.view"
+  | "offer.respond"
+  | "search.save"
+  | "report.moderate"
+  | "user.view"
+  | "user.email"
+  | "user.manage"
+  | "audit.view"
+  | "platform.manage";
+
+export const POLICY: Record<Action, Grant[]> = {
+  // Registering an institution is how a seeker asks to become an employer
+  "company.create": [{}],
+  "company.update": [{ company: "manage_company" }],
+  "company.view_verification": [{ staff: "moderate_content" }, { company: "manage_company" }],
+  "company.manage_members": [{ company: "manage_members" }],
+  // Accepting an invitation; staff stay out of companies
+  "company.join": [{ roles: ["seeker", "employer"] }],
+  "company.moderate": [{ staff: "moderate_content" }],
+  "job.create": [{ roles: ["employer"], company: "manage_jobs" }],
+  "job.update": [{ roles: ["employer"], company: "manage_jobs" }],
+  "job.moderate": [{ staff: "moderate_content" }],
+  "job.delete": [{ staff: "manage_platform" }],
+  "application.create": [{ roles: ["seeker"] }],
+  "application.withdraw": [{ roles: ["seeker"], owner: true }],
+  "application.view": [{ staff: "manage_platform" }, { roles: ["employer"], company: "view_applications" }],
+  "application.review": [{ staff: "manage_platform" }, { roles: ["employer"], company: "review_applications" }],
+  // A seeker's own applications, with their interviews and offers
+  "application.list_own": [{ roles: ["seeker"] }],
+  "interview.manage": [{ roles: ["employer"], company: "review_applications" }],
+  "interview.book": [{ roles: ["seeker"], owner: true }],
+  "resume.view": [
+    { staff: "manage_platform" },
+    { owner: true },
+    { roles: ["employer"], company: "view_applications" },
+  ],
+  "offer.create": [{ roles: ["employer"], company: "review_applications" }],
+  "offer.view": [{ staff: "manage_platform" }, { owner: true }, { company: "view_applications" }],
+  "offer.respond": [{ roles: ["seeker"], owner: true }],
+  "search.save": [{ roles: ["seeker"] }],
+  "report.moderate": [{ staff: "moderate_content" }],
+  "user.view": [{ staff: "view_users" }],
+  "user.email": [{ staff: "send_user_emails" }],
+  "user.manage": [{ staff: "manage_users" }],
+  "audit.view": [{ staff: "view_audit_log" }],
+  "platform.manage": [{ staff: "manage_platform" }],
+};
+
+// Every action needs a verified email address, then any one of its grants
+export function can(actor: Actor | undefined, action: Action, resource: PolicyResource = {}): boolean {
+  if (!actor?.emailVerified) {
+    return false;
+  }
+  const role = actor.role || "seeker";
+  return POLICY[action].some(grant =>
+    (!grant.staff || hasAdminPermission(role, grant.staff)) &&
+    (!grant.roles || grant.roles.includes(role as UserRole)) &&
+    (!grant.owner || (!!resource.ownerUid && resource.ownerUid === actor.uid)) &&
+    (!grant.company || hasCompanyPermission(resource.companyRole, grant.company))
+  );
+}
@@ -1,9 +1,56 @@
 import { z } from "zod";
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  boolean,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { ADMIN_PERMISSIONS, COMPANY_PERMISSIONS, COMPANY_ROLES, USER_ROLES } from "./policy";
+import { APPLICATION_STATUSES } from "./applications";
 
-// User roles
-export const UserRole = z.enum(["seeker", "employer", "admin"]);
+export {
+  STAFF_ROLES,
+  ADMIN_ROLE_PERMISSIONS,
+  COMPANY_ROLE_PERMISSIONS,
+  isStaffRole,
+  hasAdminPermission,
+  hasCompanyPermission,
+  can,
+  POLICY,
+  type Action,
+  type Actor,
+  type Grant,
+  type PolicyResource,
+} from "./policy";
+
+export {
+  APPLICATION_STATUS_TRANSITIONS,
+  canTransitionApplication,
+  WITHDRAWABLE_APPLICATION_STATUSES,
+  MAX_WITHDRAWALS_PER_JOB,
+} from "./applications";
+
+// User roles; the roles and what each may do live in ./policy
+export const UserRole = z.enum(USER_ROLES);
 export type UserRole = z.infer<typeof UserRole>;
 
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  seeker: "Job Seeker",
+  employer: "Employer",
+  moderator: "Moderator",
+  support: "Support",
+  admin: "Super Admin",
+};
+
+export const AdminPermission = z.enum(ADMIN_PERMISSIONS);
+export type AdminPermission = z.infer<typeof AdminPermission>;
+
 // User schema
 export const UserSchema = z.object({
   id: z.string(),
@@ -11,12 +58,18 @@ export const UserSchema = z.object({
   email: z.string().email(),
   role: UserRole.default("seeker"),
   emailVerified: z.boolean().default(false),
+  // Set while an admin has suspended the account, which also disables it in
+  // Firebase Auth
+  suspendedAt: z.date().optional(),
+  suspensionReason: z.string().max(2000).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export const InsertUserSchema = UserSchema.omit({
   id: true,
+  suspendedAt: true,
+  suspensionReason: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -24,8 +77,18 @@ export const InsertUserSchema = UserSchema.omit({
 export type User = z.infer<typeof UserSchema>;
 export type InsertUser = z.infer<typeof InsertUserSchema>;
 
+// Admin user search. The query matches email addresses and names.
+export const UserSearchFilters = z.object({
+  q: z.string().trim().max(200).optional(),
+  role: UserRole.optional(),
+  emailVerified: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+export type UserSearchFilters = z.infer<typeof UserSearchFilters>;
+
 // Company/Institution schema
-export const CompanyStatus = z.enum(["pending", "approved", "rejected"]);
+// Suspended institutions were taken down by moderation after approval
+export const CompanyStatus = z.enum(["pending", "approved", "rejected", "suspended"]);
 export type CompanyStatus = z.infer<typeof CompanyStatus>;
 
 export const InstituteType = z.enum([
@@ -43,6 +106,31 @@ export const InstituteType = z.enum([
 ]);
 export type InstituteType = z.infer<typeof InstituteType>;
 
+// Why a moderator sent a company or job back to its employer
+export const RejectionReason = z.enum([
+  "missing_proof_docs",
+  "unverifiable_institution",
+  "incomplete_information",
+  "salary_not_disclosed",
+  "discriminatory_language",
+  "misleading_content",
+  "duplicate",
+  "other"
+]);
+export type RejectionReason = z.infer<typeof RejectionReason>;
+
+// Shown to employers in the dashboard and in rejection emails
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  missing_proof_docs: "Verification documents are missing or unreadable",
+  unverifiable_institution: "Institution details could not be verified",
+  incomplete_information: "Required information is incomplete",
+  salary_not_disclosed: "Salary range is not disclosed",
+  discriminatory_language: "Contains discriminatory language",
+  misleading_content: "Contains misleading or inaccurate information",
+  duplicate: "Duplicate of an existing submission",
+  other: "Other (see notes)",
+};
+
 export const CompanySchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -55,6 +143,12 @@ export const CompanySchema = z.object({
   proofDocs: z.array(z.string()).default([]),
   ownerUid: z.string(),
   status: CompanyStatus.default("pending"),
+  // Feedback from the latest rejection, kept after resubmission so moderators
+  // can check it was addressed
+  rejectionReasons: z.array(RejectionReason).optional(),
+  rejectionNotes: z.string().optional(),
+  // Times the employer sent a rejected company back to moderation
+  resubmissionCount: z.number().default(0),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -62,6 +156,9 @@ export const CompanySchema = z.object({
 export const InsertCompanySchema = CompanySchema.omit({
   id: true,
   status: true,
+  rejectionReasons: true,
+  rejectionNotes: true,
+  resubmissionCount: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -69,8 +166,187 @@ export const InsertCompanySchema = CompanySchema.omit({
 export type Company = z.infer<typeof CompanySchema>;
 export type InsertCompany = z.infer<typeof InsertCompanySchema>;
 
+// Proof documents
+// Each institute type must prove its standing with a set of documents before
+// moderators can approve it
+export const ProofDocumentType = z.enum([
+  "government_notification",
+  "ugc_recognition",
+  "aicte_ugc_approval",
+  "registration_certificate",
+  "authorization_letter"
+]);
+export type ProofDocumentType = z.infer<typeof ProofDocumentType>;
+
+export const PROOF_DOCUMENT_LABELS: Record<ProofDocumentType, string> = {
+  government_notification: "Government establishment notification",
+  ugc_recognition: "UGC recognition letter",
+  aicte_ugc_approval: "AICTE/UGC approval letter",
+  registration_certificate: "Registration or incorporation certificate",
+  authorization_letter: "Letter authorising you to recruit for the institution",
+};
+
+export const REQUIRED_PROOF_DOCUMENTS: Record<InstituteType, ProofDocumentType[]> = {
+  "IIT": ["government_notification", "authorization_letter"],
+  "NIT": ["government_notification", "authorization_letter"],
+  "IIIT": ["government_notification", "authorization_letter"],
+  "IISc": ["government_notification", "authorization_letter"],
+  "Central University": ["government_notification", "ugc_recognition", "authorization_letter"],
+  "State University": ["government_notification", "ugc_recognition", "authorization_letter"],
+  "Deemed University": ["ugc_recognition", "authorization_letter"],
+  "Private University": ["aicte_ugc_approval", "registration_certificate", "authorization_letter"],
+  "Community College": ["registration_certificate", "authorization_letter"],
+  "Research Institute": ["registration_certificate", "authorization_letter"],
+  "Other": ["registration_certificate", "authorization_letter"],
+};
+
+export const ProofDocumentStatus = z.enum(["pending", "accepted", "rejected"]);
+export type ProofDocumentStatus = z.infer<typeof ProofDocumentStatus>;
+
+// A file under proofs/{companyId}. An institution has at most one document of
+// each type; uploading another replaces it and sends it back for review.
+export const ProofDocumentSchema = z.object({
+  id: z.string(),
+  companyId: z.string(),
+  type: ProofDocumentType,
+  path: z.string(),
+  fileName: z.string(),
+  uploadedBy: z.string(),
+  status: ProofDocumentStatus.default("pending"),
+  reviewNotes: z.string().optional(),
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertProofDocumentSchema = ProofDocumentSchema.omit({
+  id: true,
+  status: true,
+  reviewNotes: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ProofDocument = z.infer<typeof ProofDocumentSchema>;
+export type InsertProofDocument = z.infer<typeof InsertProofDocumentSchema>;
+
+// Whether the HR email belongs to the institution's website: the same host,
+// or one a subdomain of the other (hr@iitd.ac.in for www.cse.iitd.ac.in)
+export const DomainCheck = z.enum(["match", "mismatch", "no_website"]);
+export type DomainCheck = z.infer<typeof DomainCheck>;
+
+export function checkEmailDomain(hrEmail: string, website?: string): DomainCheck {
+  if (!website) {
+    return "no_website";
+  }
+  let host: string;
+  try {
+    host = new URL(website).hostname.toLowerCase().replace(/^www\./, "");
+  } catch (error) {
+    return "mismatch";
+  }
+  const emailDomain = hrEmail.split("@").pop()!.toLowerCase();
+  const related = emailDomain === host ||
+    emailDomain.endsWith(`.${host}`) ||
+    host.endsWith(`.${emailDomain}`);
+  return related ? "match" : "mismatch";
+}
+
+// What moderators need to verify an institution
+export interface CompanyVerification {
+  requiredDocuments: ProofDocumentType[];
+  documents: ProofDocument[];
+  // Required types without an accepted document
+  outstandingDocuments: ProofDocumentType[];
+  domainCheck: DomainCheck;
+}
+
+export function getCompanyVerification(company: Company, documents: ProofDocument[]): CompanyVerification {
+  const requiredDocuments = REQUIRED_PROOF_DOCUMENTS[company.instituteType];
+  return {
+    requiredDocuments,
+    documents,
+    outstandingDocuments: requiredDocuments.filter(type =>
+      !documents.some(document => document.type === type && document.status === "accepted")
+    ),
+    domainCheck: checkEmailDomain(company.hrEmail, company.website),
+  };
+}
+
+// Company memberships
+// Everyone but the company's creator joins by invitation; see ./policy for
+// what each role may do.
+export const CompanyRole = z.enum(COMPANY_ROLES);
+export type CompanyRole = z.infer<typeof CompanyRole>;
+
+export const COMPANY_ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: "Owner",
+  recruiter: "Recruiter",
+  reviewer: "Reviewer",
+  viewer: "Viewer",
+};
+
+export const CompanyPermission = z.enum(COMPANY_PERMISSIONS);
+export type CompanyPermission = z.infer<typeof CompanyPermission>;
+
+export const CompanyMembershipSchema = z.object({
+  id: z.string(),
+  companyId: z.string(),
+  userUid: z.string(),
+  role: CompanyRole,
+  // Missing for the creator's own membership
+  invitedBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertCompanyMembershipSchema = CompanyMembershipSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CompanyMembership = z.infer<typeof CompanyMembershipSchema>;
+export type InsertCompanyMembership = z.infer<typeof InsertCompanyMembershipSchema>;
+
+export const InvitationStatus = z.enum(["pending", "accepted", "revoked"]);
+export type InvitationStatus = z.infer<typeof InvitationStatus>;
+
+// Emailed to a prospective member; whoever signs in with that email address
+// can accept it with the token until it expires
+export const CompanyInvitationSchema = z.object({
+  id: z.string(),
+  companyId: z.string(),
+  email: z.string().email(),
+  role: CompanyRole,
+  token: z.string(),
+  invitedBy: z.string(),
+  status: InvitationStatus.default("pending"),
+  acceptedBy: z.string().optional(),
+  expiresAt: z.date(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertCompanyInvitationSchema = CompanyInvitationSchema.omit({
+  id: true,
+  status: true,
+  acceptedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CompanyInvitation = z.infer<typeof CompanyInvitationSchema>;
+export type InsertCompanyInvitation = z.infer<typeof InsertCompanyInvitationSchema>;
+
 // Job schema
-export const JobStatus = z.enum(["pending", "approved", "rejected", "expired"]);
+// Drafts are not sent to moderation until the employer submits them.
+// Removed jobs were taken down by moderation after approval. Filled jobs
+// closed once accepted offers took up all of their posts.
+export const JobStatus = z.enum(["draft", "pending", "approved", "rejected", "expired", "removed", "filled"]);
 export type JobStatus = z.infer<typeof JobStatus>;
 
 export const JobLevel = z.enum([
@@ -119,6 +395,48 @@ export const Department = z.enum([
 ]);
 export type Department = z.infer<typeof Department>;
 
+// Job-specific question an applicant answers when applying through the site
+export const ScreeningQuestionSchema = z.object({
+  id: z.string(),
+  question: z.string().min(1).max(300),
+  required: z.boolean().default(true),
+});
+
+export type ScreeningQuestion = z.infer<typeof ScreeningQuestionSchema>;
+
+// The job fields an employer writes, shared by the jobs API and the job
+// editor. lastDate arrives as a date string; new screening questions get
+// their ids on the server.
+export const JobContentSchema = z.object({
+  title: z.string().min(5),
+  department: Department,
+  level: JobLevel,
+  instituteType: InstituteType,
+  employmentType: EmploymentType,
+  location: z.object({
+    city: z.string(),
+    state: z.string(),
+    country: z.string().default("India"),
+  }),
+  minSalary: z.number().optional(),
+  maxSalary: z.number().optional(),
+  currency: z.string().default("INR"),
+  // Number of posts; the job closes once this many offers are accepted
+  positions: z.number().int().min(1).max(100).default(1),
+  qualifications: z.array(z.string()).default([]),
+  skills: z.array(z.string()).default([]),
+  responsibilities: z.array(z.string()).default([]),
+  description: z.string().min(50),
+  requirements: z.string().optional(),
+  lastDate: z.string().transform(str => new Date(str)),
+  applyMode: z.enum(["internal", "external"]).default("internal"),
+  applyUrl: z.string().url().optional(),
+  screeningQuestions: z.array(ScreeningQuestionSchema.extend({ id: z.string().optional() })).max(10).default([]),
+});
+
+export type JobContent = z.infer<typeof JobContentSchema>;
+export type JobContentInput = z.input<typeof JobContentSchema>;
+
 export const JobSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -134,6 +452,7 @@ export const JobSchema = z.object({
   minSalary: z.number().optional(),
   maxSalary: z.number().optional(),
   currency: z.string().default("INR"),
+  positions: z.number().int().min(1).default(1),
   qualifications: z.array(z.string()).default([]),
   skills: z.array(z.string()).default([]),
   responsibilities: z.array(z.string()).default([]),
@@ -142,51 +461,101 @@ export const JobSchema = z.object({
   lastDate: z.date(),
   applyMode: z.enum(["external", "internal"]).default("internal"),
   applyUrl: z.string().url().optional(),
+  screeningQuestions: z.array(ScreeningQuestionSchema).max(10).default([]),
   companyId: z.string(),
   posterUid: z.string(),
   status: JobStatus.default("pending"),
   approvedBy: z.string().optional(),
   approvedAt: z.date().optional(),
+  // Feedback from the latest rejection, as on companies
+  rejectionReasons: z.array(RejectionReason).optional(),
+  rejectionNotes: z.string().optional(),
+  resubmissionCount: z.number().default(0),
   viewCount: z.number().default(0),
   applicationCount: z.number().default(0),
+  // Clicks through to applyUrl on external-apply jobs
+  applyClickCount: z.number().default(0),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export const InsertJobSchema = JobSchema.omit({
   id: true,
-  status: true,
   approvedBy: true,
   approvedAt: true,
+  rejectionReasons: true,
+  rejectionNotes: true,
+  resubmissionCount: true,
   viewCount: true,
   applicationCount: true,
+  applyClickCount: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // New jobs go to moderation unless saved as drafts
+  status: z.enum(["draft", "pending"]).optional(),
 });
 
 export type Job = z.infer<typeof JobSchema>;
 export type InsertJob = z.infer<typeof InsertJobSchema>;
 
-// Application schema
-export const ApplicationStatus = z.enum([
-  "submitted",
-  "reviewed", 
-  "shortlisted",
-  "rejected",
-  "offered",
-  "withdrawn"
-]);
+// Edits to an approved job wait for moderation as a revision while the live
+// version stays public
+export const RevisionStatus = z.enum(["pending", "approved", "rejected"]);
+export type RevisionStatus = z.infer<typeof RevisionStatus>;
+
+export const JobRevisionSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  submittedBy: z.string(),
+  // The complete proposed content in its JSON (API input) form
+  content: z.custom<JobContentInput>(),
+  status: RevisionStatus.default("pending"),
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertJobRevisionSchema = JobRevisionSchema.omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type JobRevision = z.infer<typeof JobRevisionSchema>;
+export type InsertJobRevision = z.infer<typeof InsertJobRevisionSchema>;
+
+// Application schema; the lifecycle lives in ./applications
+export const ApplicationStatus = z.enum(APPLICATION_STATUSES);
 export type ApplicationStatus = z.infer<typeof ApplicationStatus>;
 
+export const ScreeningAnswerSchema = z.object({
+  questionId: z.string(),
+  answer: z.string().max(2000),
+});
+
+export type ScreeningAnswer = z.infer<typeof ScreeningAnswerSchema>;
+
 export const ApplicationSchema = z.object({
   id: z.string(),
   jobId: z.string(),
   applicantUid: z.string(),
   resumePath: z.string(),
   coverLetter: z.string().optional(),
+  // Uploaded cover letter, as an alternative to the written one
+  coverLetterPath: z.string().optional(),
+  screeningAnswers: z.array(ScreeningAnswerSchema).default([]),
   status: ApplicationStatus.default("submitted"),
   notes: z.string().optional(),
-  dedupeKey: z.string(), // jobId + applicantUid hash
+  // jobId + applicantUid; withdrawn applications have their id appended so
+  // the applicant can apply again
+  dedupeKey: z.string(),
+  withdrawalReason: z.string().max(2000).optional(),
+  withdrawnAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -195,6 +564,8 @@ export const InsertApplicationSchema = ApplicationSchema.omit({
   id: true,
   status: true,
   notes: true,
+  withdrawalReason: true,
+  withdrawnAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -202,6 +573,226 @@ export const InsertApplicationSchema = ApplicationSchema.omit({
 export type Application = z.infer<typeof ApplicationSchema>;
 export type InsertApplication = z.infer<typeof InsertApplicationSchema>;
 
+// Hiring committees
+// A job's selection committee scores each applicant against a rubric. Members
+// only see each other's scorecards for an application once their own is
+// submitted, so early scores don't anchor later ones.
+export const RubricCriterionSchema = z.object({
+  id: z.string().min(1).max(50),
+  label: z.string().min(1).max(100),
+  // Relative importance in the weighted score
+  weight: z.number().int().min(1).max(10),
+});
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { id: "teaching", label: "Teaching", weight: 3 },
+  { id: "research", label: "Research", weight: 3 },
+  { id: "publications", label: "Publications", weight: 2 },
+  { id: "interview", label: "Interview", weight: 2 },
+];
+
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 5;
+
+export const HiringCommitteeSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  companyId: z.string(),
+  memberUids: z.array(z.string()),
+  criteria: z.array(RubricCriterionSchema),
+  createdBy: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertHiringCommitteeSchema = HiringCommitteeSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type HiringCommittee = z.infer<typeof HiringCommitteeSchema>;
+export type InsertHiringCommittee = z.infer<typeof InsertHiringCommitteeSchema>;
+
+export const ScorecardStatus = z.enum(["draft", "submitted"]);
+export type ScorecardStatus = z.infer<typeof ScorecardStatus>;
+
+export const CriterionScoreSchema = z.object({
+  criterionId: z.string(),
+  score: z.number().int().min(SCORE_MIN).max(SCORE_MAX),
+});
+export type CriterionScore = z.infer<typeof CriterionScoreSchema>;
+
+// One committee member's assessment of one application. Drafts can be edited;
+// submitted scorecards are final.
+export const ScorecardSchema = z.object({
+  id: z.string(),
+  applicationId: z.string(),
+  jobId: z.string(),
+  reviewerUid: z.string(),
+  scores: z.array(CriterionScoreSchema).default([]),
+  comment: z.string().optional(),
+  status: ScorecardStatus.default("draft"),
+  submittedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertScorecardSchema = ScorecardSchema.omit({
+  id: true,
+  status: true,
+  submittedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Scorecard = z.infer<typeof ScorecardSchema>;
+export type InsertScorecard = z.infer<typeof InsertScorecardSchema>;
+
+// Weighted mean of a scorecard over the rubric, or undefined while any
+// criterion is unscored
+export function weightedScore(criteria: RubricCriterion[], scores: CriterionScore[]): number | undefined {
+  let total = 0;
+  let weights = 0;
+  for (const criterion of criteria) {
+    const scored = scores.find(score => score.criterionId === criterion.id);
+    if (!scored) {
+      return undefined;
+    }
+    total += scored.score * criterion.weight;
+    weights += criterion.weight;
+  }
+  return weights > 0 ? total / weights : undefined;
+}
+
+// What the committee made of an application, from its submitted scorecards
+export interface ScorecardAggregate {
+  submittedCount: number;
+  // Mean of the members' weighted scores
+  score?: number;
+  criterionAverages: Record<string, number>;
+}
+
+export function aggregateScorecards(criteria: RubricCriterion[], scorecards: Scorecard[]): ScorecardAggregate {
+  const submitted = scorecards.filter(scorecard => scorecard.status === "submitted");
+  const mean = (values: number[]) => values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+  const criterionAverages: Record<string, number> = {};
+  for (const criterion of criteria) {
+    const average = mean(submitted.flatMap(scorecard =>
+      scorecard.scores.filter(score => score.criterionId === criterion.id).map(score => score.score)
+    ));
+    if (average !== undefined) {
+      criterionAverages[criterion.id] = average;
+    }
+  }
+
+  return {
+    submittedCount: submitted.length,
+    score: mean(submitted
+      .map(scorecard => weightedScore(criteria, scorecard.scores))
+      .filter((score): score is number => score !== undefined)),
+    criterionAverages,
+  };
+}
+
+// Interview scheduling
+// Employers publish slots for a job and each shortlisted applicant books one
+// per kind, e.g. an interview and a teaching demonstration.
+export const InterviewKind = z.enum(["interview", "teaching_demo"]);
+export type InterviewKind = z.infer<typeof InterviewKind>;
+
+export const INTERVIEW_KIND_LABELS: Record<InterviewKind, string> = {
+  interview: "Interview",
+  teaching_demo: "Teaching demonstration",
+};
+
+export const InterviewSlotStatus = z.enum(["open", "booked", "cancelled"]);
+export type InterviewSlotStatus = z.infer<typeof InterviewSlotStatus>;
+
+export const InterviewSlotSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  companyId: z.string(),
+  kind: InterviewKind,
+  startsAt: z.date(),
+  durationMinutes: z.number().int().min(15).max(480),
+  // A room or a video call link
+  location: z.string(),
+  notes: z.string().optional(),
+  status: InterviewSlotStatus.default("open"),
+  // Set while booked, and kept when the employer cancels a booked slot so the
+  // applicant still sees what happened to it
+  applicationId: z.string().optional(),
+  applicantUid: z.string().optional(),
+  bookedAt: z.date().optional(),
+  createdBy: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertInterviewSlotSchema = InterviewSlotSchema.omit({
+  id: true,
+  status: true,
+  applicationId: true,
+  applicantUid: true,
+  bookedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InterviewSlot = z.infer<typeof InterviewSlotSchema>;
+export type InsertInterviewSlot = z.infer<typeof InsertInterviewSlotSchema>;
+
+// Offers
+// An employer offers a shortlisted applicant the post with a generated offer
+// letter, and the applicant accepts or declines it before it expires.
+// Expiry is not a stored status: a pending offer past expiresAt has expired.
+export const OfferStatus = z.enum(["pending", "accepted", "declined", "withdrawn"]);
+export type OfferStatus = z.infer<typeof OfferStatus>;
+
+export const OfferSchema = z.object({
+  id: z.string(),
+  applicationId: z.string(),
+  jobId: z.string(),
+  companyId: z.string(),
+  applicantUid: z.string(),
+  // Per year
+  salary: z.number().int().positive(),
+  currency: z.string().default("INR"),
+  // e.g. "Academic Level 10 (7th CPC)"
+  payLevel: z.string(),
+  joiningDate: z.date(),
+  expiresAt: z.date(),
+  status: OfferStatus.default("pending"),
+  // The offer letter PDF, under STORAGE_PATHS.OFFERS
+  letterPath: z.string(),
+  declineReason: z.string().optional(),
+  respondedAt: z.date().optional(),
+  createdBy: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertOfferSchema = OfferSchema.omit({
+  id: true,
+  status: true,
+  declineReason: true,
+  respondedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Offer = z.infer<typeof OfferSchema>;
+export type InsertOffer = z.infer<typeof InsertOfferSchema>;
+
+// Also takes offers as the API returns them, with dates as strings
+export const isOfferExpired = (offer: Offer, now: Date = new Date()) =>
+  offer.status === "pending" && new Date(offer.expiresAt) < now;
+
 // Report schema (for abuse/moderation)
 export const ReportType = z.enum(["job", "company", "user", "application"]);
 export type ReportType = z.infer<typeof ReportType>;
@@ -216,6 +807,13 @@ export const ReportReason = z.enum([
 ]);
 export type ReportReason = z.infer<typeof ReportReason>;
 
+export const ReportStatus = z.enum(["pending", "resolved", "dismissed"]);
+export type ReportStatus = z.infer<typeof ReportStatus>;
+
+// What an admin did about the reported content when resolving a report
+export const ReportAction = z.enum(["none", "remove_job", "suspend_company"]);
+export type ReportAction = z.infer<typeof ReportAction>;
+
 export const ReportSchema = z.object({
   id: z.string(),
   type: ReportType,
@@ -223,7 +821,11 @@ export const ReportSchema = z.object({
   reporterUid: z.string(),
   reason: ReportReason,
   notes: z.string().optional(),
-  status: z.enum(["pending", "resolved", "dismissed"]).default("pending"),
+  status: ReportStatus.default("pending"),
+  action: ReportAction.optional(),
+  adminNotes: z.string().optional(),
+  resolvedBy: z.string().optional(),
+  resolvedAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -231,6 +833,10 @@ export const ReportSchema = z.object({
 export const InsertReportSchema = ReportSchema.omit({
   id: true,
   status: true,
+  action: true,
+  adminNotes: true,
+  resolvedBy: true,
+  resolvedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -242,12 +848,38 @@ export type InsertReport = z.infer<typeof InsertReportSchema>;
 export const AuditActionType = z.enum([
   "user_created",
   "user_role_changed",
+  "user_suspended",
+  "user_unsuspended",
+  "user_deleted",
+  "user_verification_email_sent",
+  "company_created",
   "company_approved",
   "company_rejected", 
   "job_approved",
   "job_rejected",
+  "job_revision_approved",
+  "job_revision_rejected",
+  "company_resubmitted",
+  "job_resubmitted",
+  "proof_document_reviewed",
+  "company_member_invited",
+  "company_invitation_revoked",
+  "company_member_joined",
+  "company_member_role_changed",
+  "company_member_removed",
+  "hiring_committee_updated",
+  "scorecard_submitted",
+  "interview_scheduled",
+  "interview_rescheduled",
+  "interview_cancelled",
+  "offer_made",
+  "offer_accepted",
+  "offer_declined",
+  "offer_withdrawn",
+  "job_filled",
   "application_submitted",
   "application_status_changed",
+  "application_withdrawn",
   "report_created",
   "report_resolved"
 ]);
@@ -271,6 +903,103 @@ export const InsertAuditLogSchema = AuditLogSchema.omit({
 export type AuditLog = z.infer<typeof AuditLogSchema>;
 export type InsertAuditLog = z.infer<typeof InsertAuditLogSchema>;
 
+// Change history: every update to a job or company keeps an immutable record
+// of the fields it changed, so moderators can see what changed between reviews
+export const ChangeTargetType = z.enum(["job", "company"]);
+export type ChangeTargetType = z.infer<typeof ChangeTargetType>;
+
+// Values are stored in JSON form: dates as ISO strings and cleared fields as null
+export const FieldChangeSchema = z.object({
+  field: z.string(),
+  oldValue: z.unknown(),
+  newValue: z.unknown(),
+});
+
+export const ChangeRecordSchema = z.object({
+  id: z.string(),
+  targetType: ChangeTargetType,
+  targetId: z.string(),
+  // Missing for changes made by the system rather than a user
+  actorUid: z.string().optional(),
+  changes: z.array(FieldChangeSchema),
+  createdAt: z.date(),
+});
+
+export const InsertChangeRecordSchema = ChangeRecordSchema.omit({
+  id: true,
+  createdAt: true,
+});
+
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+export type ChangeRecord = z.infer<typeof ChangeRecordSchema>;
+export type InsertChangeRecord = z.infer<typeof InsertChangeRecordSchema>;
+
+// Counters and bookkeeping fields change without anyone editing the record
+const UNTRACKED_FIELDS = new Set([
+  "id",
+  "viewCount",
+  "applicationCount",
+  "applyClickCount",
+  "createdAt",
+  "updatedAt",
+]);
+
+const toJsonValue = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+// JSON with object keys sorted, since stores do not keep nested key order
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map(key =>
+      `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+    ).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sameJsonValue = (a: unknown, b: unknown) => canonicalJson(a) === canonicalJson(b);
+
+// The fields an update actually changes, comparing JSON forms so equal dates,
+// lists and nested objects do not count as changes
+export function diffFields(before: Record<string, unknown>, updates: Record<string, unknown>): FieldChange[] {
+  return Object.keys(updates)
+    .filter(field => !UNTRACKED_FIELDS.has(field))
+    .map(field => ({
+      field,
+      oldValue: toJsonValue(before[field]),
+      newValue: toJsonValue(updates[field]),
+    }))
+    .filter(change => !sameJsonValue(change.oldValue, change.newValue));
+}
+
+// Notification schema (in-app notification center)
+export const NotificationType = z.enum(["info", "success", "warning", "error"]);
+export type NotificationType = z.infer<typeof NotificationType>;
+
+export const NotificationSchema = z.object({
+  id: z.string(),
+  userUid: z.string(),
+  type: NotificationType.default("info"),
+  title: z.string(),
+  message: z.string(),
+  read: z.boolean().default(false),
+  actionUrl: z.string().optional(),
+  actionLabel: z.string().optional(),
+  createdAt: z.date(),
+});
+
+export const InsertNotificationSchema = NotificationSchema.omit({
+  id: true,
+  read: true,
+  createdAt: true,
+});
+
+export type Notification = z.infer<typeof NotificationSchema>;
+export type InsertNotification = z.infer<typeof InsertNotificationSchema>;
+
 // Search/Filter schemas
 export const JobSearchFilters = z.object({
   query: z.string().optional(),
@@ -279,16 +1008,85 @@ export const JobSearchFilters = z.object({
   level: JobLevel.optional(),
   location: z.string().optional(),
   employmentType: EmploymentType.optional(),
-  minSalary: z.number().optional(),
-  maxSalary: z.number().optional(),
+  // Numbers are coerced so the schema can parse query strings directly
+  minSalary: z.coerce.number().int().nonnegative().optional(),
+  maxSalary: z.coerce.number().int().nonnegative().optional(),
+  // Salary bounds are only compared against jobs posted in this currency
+  currency: z.string().length(3).toUpperCase().default("INR"),
   postedWithin: z.enum(["24h", "7d", "30d", "all"]).default("all"),
-  sortBy: z.enum(["newest", "deadline", "salary_high", "salary_low"]).default("newest"),
-  page: z.number().default(1),
-  limit: z.number().default(20),
-});
+  // "relevance" ranks text query matches and behaves like "newest" without one
+  sortBy: z.enum(["newest", "deadline", "salary_high", "salary_low", "relevance"]).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+}).refine(
+  filters => filters.minSalary === undefined || filters.maxSalary === undefined || filters.minSalary <= filters.maxSalary,
+  { message: "minSalary must not exceed maxSalary", path: ["minSalary"] }
+);
 
 export type JobSearchFilters = z.infer<typeof JobSearchFilters>;
 
+// Moderation queue filters; every filter is optional
+export const ReportFilters = z.object({
+  status: ReportStatus.optional(),
+  type: ReportType.optional(),
+  reason: ReportReason.optional(),
+});
+
+export type ReportFilters = z.infer<typeof ReportFilters>;
+
+// Audit log explorer filters; dates are coerced so the schema can parse query
+// strings directly and both ends of the range are inclusive
+export const AuditLogFilters = z.object({
+  actorUid: z.string().optional(),
+  action: AuditActionType.optional(),
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(
+  filters => !filters.from || !filters.to || filters.from <= filters.to,
+  { message: "from must not be after to", path: ["from"] }
+);
+
+export type AuditLogFilters = z.infer<typeof AuditLogFilters>;
+
+// Saved search schema (job alerts for seekers)
+export const AlertFrequency = z.enum(["instant", "daily", "weekly"]);
+export type AlertFrequency = z.infer<typeof AlertFrequency>;
+
+// The filters a saved search matches new jobs against; paging and sorting
+// have no meaning for alerts
+export const SavedSearchFilters = JobSearchFilters.innerType().omit({
+  page: true,
+  limit: true,
+  sortBy: true,
+});
+export type SavedSearchFilters = z.infer<typeof SavedSearchFilters>;
+
+export const SavedSearchSchema = z.object({
+  id: z.string(),
+  userUid: z.string(),
+  name: z.string(),
+  filters: SavedSearchFilters,
+  frequency: AlertFrequency.default("daily"),
+  active: z.boolean().default(true),
+  unsubscribeToken: z.string(),
+  lastCheckedAt: z.date(), // jobs approved after this have not been alerted yet
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const InsertSavedSearchSchema = SavedSearchSchema.omit({
+  id: true,
+  active: true,
+  lastCheckedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+export type InsertSavedSearch = z.infer<typeof InsertSavedSearchSchema>;
+
 // API Response schemas
 export const ApiResponse = <T extends z.ZodType>(dataSchema: T) =>
   z.object({
@@ -321,3 +1119,357 @@ export type PaginatedResponse<T> = {
   limit: number;
   hasMore: boolean;
 };
+
+// Job counts per filter value. Each facet ignores its own filter so the UI can
+// show how many results picking a different value would return.
+export type JobSearchFacets = {
+  departments: Record<string, number>;
+  instituteTypes: Record<string, number>;
+  locations: Record<string, number>;
+  levels: Record<string, number>;
+  employmentTypes: Record<string, number>;
+};
+
+export type FacetedPaginatedResponse<T> = PaginatedResponse<T> & {
+  facets: JobSearchFacets;
+};
+
+// Cursor pages for feeds that grow while they are read; pass nextCursor back
+// to get the following page, which is absent on the last one
+export type CursorPaginatedResponse<T> = {
+  items: T[];
+  nextCursor?: string;
+};
+
+// Firestore collection names, shared by the client SDK and the Admin SDK
+export const COLLECTIONS = {
+  USERS: 'users',
+  COMPANIES: 'companies',
+  JOBS: 'jobs',
+  APPLICATIONS: 'applications',
+  REPORTS: 'reports',
+  AUDIT_LOGS: 'auditLogs',
+  SAVED_SEARCHES: 'savedSearches',
+  NOTIFICATIONS: 'notifications',
+  JOB_REVISIONS: 'jobRevisions',
+  CHANGE_RECORDS: 'changeRecords',
+  PROOF_DOCUMENTS: 'proofDocuments',
+  COMPANY_MEMBERSHIPS: 'companyMemberships',
+  COMPANY_INVITATIONS: 'companyInvitations',
+  HIRING_COMMITTEES: 'hiringCommittees',
+  SCORECARDS: 'scorecards',
+  INTERVIEW_SLOTS: 'interviewSlots',
+  OFFERS: 'offers',
+} as const;
+
+// Cloud Storage folders, shared by client uploads and server-generated files
+export const STORAGE_PATHS = {
+  RESUMES: (uid: string) => `resumes/${uid}`,
+  COVER_LETTERS: (uid: string) => `cover-letters/${uid}`,
+  LOGOS: (companyId: string) => `logos/${companyId}`,
+  PROOFS: (companyId: string) => `proofs/${companyId}`,
+  OFFERS: (applicationId: string) => `offers/${applicationId}`,
+} as const;
+
+// Database tables (PostgreSQL via Drizzle). Column enums reuse the Zod enums
+// above so the relational schema cannot drift from the API types.
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  displayName: text("display_name").notNull(),
+  email: text("email").notNull().unique(),
+  role: text("role", { enum: UserRole.options }).notNull().default("seeker"),
+  emailVerified: boolean("email_verified").notNull().default(false),
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("users_created_at_idx").on(table.createdAt),
+]);
+
+export const companies = pgTable("companies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  website: text("website"),
+  instituteType: text("institute_type", { enum: InstituteType.options }).notNull(),
+  hrEmail: text("hr_email").notNull(),
+  logoPath: text("logo_path"),
+  address: text("address").notNull(),
+  phone: text("phone"),
+  proofDocs: text("proof_docs").array().notNull().default(sql`'{}'::text[]`),
+  ownerUid: varchar("owner_uid").notNull(),
+  status: text("status", { enum: CompanyStatus.options }).notNull().default("pending"),
+  rejectionReasons: text("rejection_reasons", { enum: RejectionReason.options }).array(),
+  rejectionNotes: text("rejection_notes"),
+  resubmissionCount: integer("resubmission_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("companies_owner_uid_idx").on(table.ownerUid),
+  index("companies_status_idx").on(table.status),
+]);
+
+export const proofDocuments = pgTable("proof_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  type: text("type", { enum: ProofDocumentType.options }).notNull(),
+  path: text("path").notNull(),
+  fileName: text("file_name").notNull(),
+  uploadedBy: varchar("uploaded_by").notNull(),
+  status: text("status", { enum: ProofDocumentStatus.options }).notNull().default("pending"),
+  reviewNotes: text("review_notes"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("proof_documents_company_id_type_idx").on(table.companyId, table.type),
+]);
+
+export const companyMemberships = pgTable("company_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  userUid: varchar("user_uid").notNull(),
+  role: text("role", { enum: CompanyRole.options }).notNull(),
+  invitedBy: varchar("invited_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("company_memberships_company_id_user_uid_idx").on(table.companyId, table.userUid),
+  index("company_memberships_user_uid_idx").on(table.userUid),
+]);
+
+export const companyInvitations = pgTable("company_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role", { enum: CompanyRole.options }).notNull(),
+  token: varchar("token").notNull().unique(),
+  invitedBy: varchar("invited_by").notNull(),
+  status: text("status", { enum: InvitationStatus.options }).notNull().default("pending"),
+  acceptedBy: varchar("accepted_by"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("company_invitations_company_id_status_idx").on(table.companyId, table.status),
+]);
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  department: text("department", { enum: Department.options }).notNull(),
+  level: text("level", { enum: JobLevel.options }).notNull(),
+  instituteType: text("institute_type", { enum: InstituteType.options }).notNull(),
+  employmentType: text("employment_type", { enum: EmploymentType.options }).notNull(),
+  location: jsonb("location").$type<Job["location"]>().notNull(),
+  minSalary: integer("min_salary"),
+  maxSalary: integer("max_salary"),
+  currency: text("currency").notNull().default("INR"),
+  positions: integer("positions").notNull().default(1),
+  qualifications: text("qualifications").array().notNull().default(sql`'{}'::text[]`),
+  skills: text("skills").array().notNull().default(sql`'{}'::text[]`),
+  responsibilities: text("responsibilities").array().notNull().default(sql`'{}'::text[]`),
+  description: text("description").notNull(),
+  requirements: text("requirements"),
+  lastDate: timestamp("last_date").notNull(),
+  applyMode: text("apply_mode", { enum: ["external", "internal"] }).notNull().default("internal"),
+  applyUrl: text("apply_url"),
+  screeningQuestions: jsonb("screening_questions").$type<ScreeningQuestion[]>().notNull().default(sql`'[]'::jsonb`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  posterUid: varchar("poster_uid").notNull(),
+  status: text("status", { enum: JobStatus.options }).notNull().default("pending"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  rejectionReasons: text("rejection_reasons", { enum: RejectionReason.options }).array(),
+  rejectionNotes: text("rejection_notes"),
+  resubmissionCount: integer("resubmission_count").notNull().default(0),
+  viewCount: integer("view_count").notNull().default(0),
+  applicationCount: integer("application_count").notNull().default(0),
+  applyClickCount: integer("apply_click_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("jobs_status_created_at_idx").on(table.status, table.createdAt),
+  index("jobs_company_id_idx").on(table.companyId),
+  index("jobs_poster_uid_idx").on(table.posterUid),
+]);
+
+export const jobRevisions = pgTable("job_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  submittedBy: varchar("submitted_by").notNull(),
+  content: jsonb("content").$type<JobContentInput>().notNull(),
+  status: text("status", { enum: RevisionStatus.options }).notNull().default("pending"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("job_revisions_job_id_status_idx").on(table.jobId, table.status),
+  index("job_revisions_status_created_at_idx").on(table.status, table.createdAt),
+]);
+
+export const applications = pgTable("applications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  applicantUid: varchar("applicant_uid").notNull(),
+  resumePath: text("resume_path").notNull(),
+  coverLetter: text("cover_letter"),
+  coverLetterPath: text("cover_letter_path"),
+  screeningAnswers: jsonb("screening_answers").$type<ScreeningAnswer[]>().notNull().default(sql`'[]'::jsonb`),
+  status: text("status", { enum: ApplicationStatus.options }).notNull().default("submitted"),
+  notes: text("notes"),
+  dedupeKey: text("dedupe_key").notNull().unique(),
+  withdrawalReason: text("withdrawal_reason"),
+  withdrawnAt: timestamp("withdrawn_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("applications_job_id_idx").on(table.jobId),
+  index("applications_applicant_uid_idx").on(table.applicantUid),
+]);
+
+export const hiringCommittees = pgTable("hiring_committees", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().unique().references(() => jobs.id, { onDelete: "cascade" }),
+  companyId: varchar("company_id").notNull(),
+  memberUids: text("member_uids").array().notNull(),
+  criteria: jsonb("criteria").$type<RubricCriterion[]>().notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const scorecards = pgTable("scorecards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull(),
+  reviewerUid: varchar("reviewer_uid").notNull(),
+  scores: jsonb("scores").$type<CriterionScore[]>().notNull().default(sql`'[]'::jsonb`),
+  comment: text("comment"),
+  status: text("status", { enum: ScorecardStatus.options }).notNull().default("draft"),
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("scorecards_application_id_reviewer_uid_idx").on(table.applicationId, table.reviewerUid),
+  index("scorecards_job_id_idx").on(table.jobId),
+]);
+
+export const interviewSlots = pgTable("interview_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  companyId: varchar("company_id").notNull(),
+  kind: text("kind", { enum: InterviewKind.options }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  location: text("location").notNull(),
+  notes: text("notes"),
+  status: text("status", { enum: InterviewSlotStatus.options }).notNull().default("open"),
+  applicationId: varchar("application_id"),
+  applicantUid: varchar("applicant_uid"),
+  bookedAt: timestamp("booked_at"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("interview_slots_job_id_starts_at_idx").on(table.jobId, table.startsAt),
+  index("interview_slots_applicant_uid_idx").on(table.applicantUid),
+]);
+
+export const offers = pgTable("offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull(),
+  companyId: varchar("company_id").notNull(),
+  applicantUid: varchar("applicant_uid").notNull(),
+  salary: integer("salary").notNull(),
+  currency: text("currency").notNull().default("INR"),
+  payLevel: text("pay_level").notNull(),
+  joiningDate: timestamp("joining_date").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  status: text("status", { enum: OfferStatus.options }).notNull().default("pending"),
+  letterPath: text("letter_path").notNull(),
+  declineReason: text("decline_reason"),
+  respondedAt: timestamp("responded_at"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("offers_job_id_idx").on(table.jobId),
+  index("offers_applicant_uid_idx").on(table.applicantUid),
+]);
+
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type", { enum: ReportType.options }).notNull(),
+  targetId: varchar("target_id").notNull(),
+  reporterUid: varchar("reporter_uid").notNull(),
+  reason: text("reason", { enum: ReportReason.options }).notNull(),
+  notes: text("notes"),
+  status: text("status", { enum: ReportStatus.options }).notNull().default("pending"),
+  action: text("action", { enum: ReportAction.options }),
+  adminNotes: text("admin_notes"),
+  resolvedBy: varchar("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("reports_status_idx").on(table.status),
+  index("reports_reporter_uid_created_at_idx").on(table.reporterUid, table.createdAt),
+]);
+
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorUid: varchar("actor_uid").notNull(),
+  action: text("action", { enum: AuditActionType.options }).notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: varchar("target_id").notNull(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+}, (table) => [
+  index("audit_logs_timestamp_idx").on(table.timestamp),
+  index("audit_logs_actor_uid_timestamp_idx").on(table.actorUid, table.timestamp),
+  index("audit_logs_target_timestamp_idx").on(table.targetType, table.targetId, table.timestamp),
+]);
+
+export const changeRecords = pgTable("change_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  targetType: text("target_type", { enum: ChangeTargetType.options }).notNull(),
+  targetId: varchar("target_id").notNull(),
+  actorUid: varchar("actor_uid"),
+  changes: jsonb("changes").$type<FieldChange[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("change_records_target_created_at_idx").on(table.targetType, table.targetId, table.createdAt),
+]);
+
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userUid: varchar("user_uid").notNull(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().notNull(),
+  frequency: text("frequency", { enum: AlertFrequency.options }).notNull().default("daily"),
+  active: boolean("active").notNull().default(true),
+  unsubscribeToken: varchar("unsubscribe_token").notNull().unique(),
+  lastCheckedAt: timestamp("last_checked_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("saved_searches_user_uid_idx").on(table.userUid),
+]);
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userUid: varchar("user_uid").notNull(),
+  type: text("type", { enum: NotificationType.options }).notNull().default("info"),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  read: boolean("read").notNull().default(false),
+  actionUrl: text("action_url"),
+  actionLabel: text("action_label"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_uid_created_at_idx").on(table.userUid, table.createdAt),
+]);